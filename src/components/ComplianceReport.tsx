@@ -0,0 +1,257 @@
+import { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronUp, ClipboardCheck } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import {
+  calculateCompliance,
+  getComplianceColor,
+  getExpectedDays,
+  getScheduleForGroup,
+} from "../lib/compliance";
+import type { ComplianceSummary } from "../lib/compliance";
+import { fetchTrainingSchedules } from "../services/compliance";
+import type {
+  MetricResponse,
+  Profile,
+  TrainingSession,
+} from "../lib/database.types";
+
+// Rows per request; PostgREST caps every response at 1000
+const PAGE_SIZE = 1000;
+
+interface ComplianceReportProps {
+  managerId: string;
+  athletes: Profile[];
+  startDate: string;
+  endDate: string;
+}
+
+export default function ComplianceReport({
+  managerId,
+  athletes,
+  startDate,
+  endDate,
+}: ComplianceReportProps) {
+  const [summaries, setSummaries] = useState<Record<string, ComplianceSummary>>(
+    {}
+  );
+  const [hasSchedules, setHasSchedules] = useState(true);
+  const [expandedAthlete, setExpandedAthlete] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const athleteIds = athletes.map((a) => a.id);
+    if (!managerId || athleteIds.length === 0) return;
+
+    const fetchCompliance = async () => {
+      // A team's sessions and answers over the range easily pass that cap,
+      // so both are read a page at a time in a stable order
+      const fetchSessions = async () => {
+        const rows: Pick<TrainingSession, "athlete_id" | "date" | "session">[] =
+          [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from("training_sessions")
+            .select("athlete_id, date, session")
+            .in("athlete_id", athleteIds)
+            .gte("date", startDate)
+            .lte("date", endDate)
+            .order("id")
+            .range(from, from + PAGE_SIZE - 1);
+
+          if (error) throw error;
+          rows.push(...(data || []));
+          if (!data || data.length < PAGE_SIZE) return rows;
+        }
+      };
+
+      const fetchResponses = async () => {
+        const rows: Pick<MetricResponse, "athlete_id" | "date">[] = [];
+        for (let from = 0; ; from += PAGE_SIZE) {
+          const { data, error } = await supabase
+            .from("metric_responses")
+            .select("athlete_id, date")
+            .in("athlete_id", athleteIds)
+            .gte("date", startDate)
+            .lte("date", endDate)
+            .order("id")
+            .range(from, from + PAGE_SIZE - 1);
+
+          if (error) throw error;
+          rows.push(...(data || []));
+          if (!data || data.length < PAGE_SIZE) return rows;
+        }
+      };
+
+      setLoading(true);
+      try {
+        const [{ schedules, restDays }, sessions, responses] =
+          await Promise.all([
+            fetchTrainingSchedules(managerId),
+            fetchSessions(),
+            fetchResponses(),
+          ]);
+
+        const result: Record<string, ComplianceSummary> = {};
+        athletes.forEach((athlete) => {
+          const expectedDays = getExpectedDays(
+            getScheduleForGroup(schedules, athlete.group_id),
+            restDays,
+            startDate,
+            endDate
+          );
+          result[athlete.id] = calculateCompliance(
+            expectedDays,
+            sessions.filter((s) => s.athlete_id === athlete.id),
+            responses
+              .filter((r) => r.athlete_id === athlete.id)
+              .map((r) => r.date)
+          );
+        });
+
+        setHasSchedules(schedules.length > 0);
+        setSummaries(result);
+      } catch (error) {
+        console.error("Error fetching compliance:", error);
+        setSummaries({});
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchCompliance();
+  }, [managerId, athletes, startDate, endDate]);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+        <ClipboardCheck className="h-5 w-5 mr-2 text-indigo-500" />
+        Compliance
+      </h2>
+      <p className="text-sm text-gray-500 mb-4">
+        {hasSchedules
+          ? "Logged sessions and wellness forms compared with each group's training schedule. Planned rest days are not counted."
+          : "No training schedules set up yet, so every day expects one session and one wellness form. Add schedules under Groups."}
+      </p>
+
+      {loading ? (
+        <div className="py-8 text-center text-gray-500">Loading...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                  Athlete
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Training
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Wellness
+                </th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                  Missed Days
+                </th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {athletes.map((athlete) => {
+                const summary = summaries[athlete.id];
+                if (!summary) return null;
+                const isExpanded = expandedAthlete === athlete.id;
+                return (
+                  <Fragment key={athlete.id}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() =>
+                        setExpandedAthlete(isExpanded ? null : athlete.id)
+                      }
+                    >
+                      <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                        {athlete.full_name}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">
+                        <span
+                          className={`font-semibold ${getComplianceColor(
+                            summary.trainingCompliance
+                          )}`}
+                        >
+                          {summary.trainingCompliance.toFixed(0)}%
+                        </span>
+                        <span className="ml-1 text-xs text-gray-400">
+                          ({summary.loggedSessions}/{summary.expectedSessions})
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">
+                        <span
+                          className={`font-semibold ${getComplianceColor(
+                            summary.wellnessCompliance
+                          )}`}
+                        >
+                          {summary.wellnessCompliance.toFixed(0)}%
+                        </span>
+                        <span className="ml-1 text-xs text-gray-400">
+                          ({summary.submittedForms}/{summary.expectedForms})
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {summary.missedDays.length}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {summary.missedDays.length > 0 &&
+                          (isExpanded ? (
+                            <ChevronUp className="h-4 w-4 text-gray-400 inline" />
+                          ) : (
+                            <ChevronDown className="h-4 w-4 text-gray-400 inline" />
+                          ))}
+                      </td>
+                    </tr>
+                    {isExpanded && summary.missedDays.length > 0 && (
+                      <tr>
+                        <td colSpan={5} className="px-4 py-3 bg-gray-50">
+                          <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                            {summary.missedDays.map((day) => (
+                              <li
+                                key={day.date}
+                                className="flex flex-wrap items-center gap-2 text-sm text-gray-700"
+                              >
+                                <span className="font-medium">
+                                  {new Date(day.date).toLocaleDateString(
+                                    "en-US",
+                                    {
+                                      weekday: "short",
+                                      month: "short",
+                                      day: "numeric",
+                                    }
+                                  )}
+                                </span>
+                                {day.missedSessions.map((slot) => (
+                                  <span
+                                    key={slot}
+                                    className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700"
+                                  >
+                                    {slot === "any" ? "Session" : slot}
+                                  </span>
+                                ))}
+                                {day.missedWellness && (
+                                  <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-700">
+                                    Wellness
+                                  </span>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
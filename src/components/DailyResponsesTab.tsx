@@ -15,6 +15,12 @@ import {
 } from "lucide-react";
 import clsx from "clsx";
 import ProfilePicture from "./ProfilePicture";
+import ReadinessBadge from "./ReadinessBadge";
+import VelocityReadinessBadge from "./VelocityReadinessBadge";
+import { fetchReadinessScores } from "../services/readiness";
+import { fetchVelocityReadiness } from "../services/velocityReadiness";
+import type { ReadinessScore } from "../lib/readiness";
+import type { VelocityReadiness } from "../lib/velocityReadiness";
 
 interface DailyResponsesTabProps {
   profile: Profile;
@@ -63,6 +69,10 @@ export default function DailyResponsesTab({
   const [expandedAthletes, setExpandedAthletes] = useState<
     Record<string, boolean>
   >({});
+  const [readinessScores, setReadinessScores] = useState<ReadinessScore[]>([]);
+  const [velocityReadiness, setVelocityReadiness] = useState<
+    VelocityReadiness[]
+  >([]);
 
   useEffect(() => {
     fetchMetrics();
@@ -72,6 +82,35 @@ export default function DailyResponsesTab({
     fetchResponses();
   }, [profile.id, athletes, filters, metrics]);
 
+  useEffect(() => {
+    const athleteIds = filters.athleteId
+      ? [filters.athleteId]
+      : athletes.map((a) => a.id);
+
+    fetchReadinessScores(
+      profile.id,
+      athleteIds,
+      filters.dateRange.start,
+      filters.dateRange.end
+    )
+      .then(setReadinessScores)
+      .catch((error) => {
+        console.error("Error fetching readiness scores:", error);
+        setReadinessScores([]);
+      });
+
+    fetchVelocityReadiness(
+      athleteIds,
+      filters.dateRange.start,
+      filters.dateRange.end
+    )
+      .then(setVelocityReadiness)
+      .catch((error) => {
+        console.error("Error fetching velocity readiness:", error);
+        setVelocityReadiness([]);
+      });
+  }, [profile.id, athletes, filters.athleteId, filters.dateRange]);
+
   const fetchMetrics = async () => {
     try {
       const { data, error } = await supabase
@@ -425,6 +464,20 @@ export default function DailyResponsesTab({
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
+                        <ReadinessBadge
+                          score={readinessScores.find(
+                            (s) =>
+                              s.athleteId === entry.athlete.id &&
+                              s.date === entry.date
+                          )}
+                        />
+                        <VelocityReadinessBadge
+                          readiness={velocityReadiness.find(
+                            (v) =>
+                              v.athleteId === entry.athlete.id &&
+                              v.date === entry.date
+                          )}
+                        />
                         <div className="text-sm text-gray-500 bg-gray-100 px-3 py-1 rounded-full">
                           {entry.responses.length} metric
                           {entry.responses.length !== 1 ? "s" : ""}
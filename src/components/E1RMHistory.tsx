@@ -0,0 +1,198 @@
+import { useEffect, useMemo, useState } from "react";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import type { TooltipItem } from "chart.js";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import { useTheme } from "./ThemeProvider";
+import {
+  E1RM_FORMULAS,
+  MAX_E1RM_REPS,
+  buildE1RMHistory,
+  getPreferredFormula,
+  setPreferredFormula,
+} from "../lib/oneRepMax";
+import type { E1RMFormula } from "../lib/oneRepMax";
+import type { ExerciseRecord } from "../lib/database.types";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+type LoggedRecord = Pick<
+  ExerciseRecord,
+  "id" | "exercise_name" | "date" | "series_data"
+>;
+
+export default function E1RMHistory({
+  athleteId,
+  refreshKey,
+}: {
+  athleteId: string;
+  refreshKey?: number;
+}) {
+  const { theme } = useTheme();
+  const [records, setRecords] = useState<LoggedRecord[]>([]);
+  const [formula, setFormula] = useState<E1RMFormula>(getPreferredFormula);
+  const [selectedExercise, setSelectedExercise] = useState<string>("");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!athleteId || athleteId === "all") return;
+    const fetchRecords = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("exercise_records")
+        .select("id, exercise_name, date, series_data")
+        .eq("athlete_id", athleteId)
+        .order("date", { ascending: true });
+      if (error) {
+        console.error("Error fetching exercise records:", error);
+        setRecords([]);
+      } else {
+        setRecords(data || []);
+      }
+      setLoading(false);
+    };
+    fetchRecords();
+  }, [athleteId, refreshKey]);
+
+  const history = useMemo(
+    () => buildE1RMHistory(records, formula),
+    [records, formula]
+  );
+  const exercises = Object.keys(history).sort();
+  const exercise = exercises.includes(selectedExercise)
+    ? selectedExercise
+    : exercises[0] || "";
+  const points = history[exercise] || [];
+
+  const handleFormulaChange = (value: E1RMFormula) => {
+    setFormula(value);
+    setPreferredFormula(value);
+  };
+
+  const textColor = theme === "dark" ? "#fff" : "#222";
+
+  const chartData = {
+    labels: points.map((p) => new Date(p.date).toLocaleDateString()),
+    datasets: [
+      {
+        label: `${exercise} e1RM`,
+        data: points.map((p) => p.e1rm),
+        borderColor: "#6366f1",
+        backgroundColor: "#c7d2fe",
+        tension: 0.3,
+        pointRadius: 4,
+        pointHoverRadius: 6,
+        fill: false,
+      },
+    ],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    plugins: {
+      legend: { labels: { color: textColor } },
+      tooltip: {
+        callbacks: {
+          afterLabel: (item: TooltipItem<"line">) => {
+            const point = points[item.dataIndex];
+            return point ? `Best set: ${point.weight} kg x ${point.reps}` : "";
+          },
+        },
+      },
+    },
+    scales: {
+      x: { ticks: { color: textColor } },
+      y: {
+        ticks: { color: textColor },
+        title: { display: true, text: "e1RM (kg)", color: textColor },
+      },
+    },
+  };
+
+  const best =
+    points.length > 0 ? Math.max(...points.map((p) => p.e1rm)) : null;
+
+  if (loading) {
+    return <div className="py-8 text-center text-gray-500">Loading...</div>;
+  }
+
+  if (exercises.length === 0) {
+    return (
+      <div className="py-8 text-center text-gray-400">
+        No logged sets of {MAX_E1RM_REPS} reps or fewer yet.
+      </div>
+    );
+  }
+
+  const selectClassName = clsx(
+    "px-3 py-2 rounded-lg border text-sm",
+    theme === "dark"
+      ? "bg-slate-900/50 border-slate-700 text-white"
+      : "bg-white border-gray-300 text-gray-900"
+  );
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <select
+            value={exercise}
+            onChange={(e) => setSelectedExercise(e.target.value)}
+            className={selectClassName}
+          >
+            {exercises.map((ex) => (
+              <option key={ex} value={ex}>
+                {ex}
+              </option>
+            ))}
+          </select>
+          {best !== null && (
+            <span className="px-3 py-1 rounded-full bg-indigo-100 text-indigo-800 text-xs font-bold">
+              Best: {best} kg
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <label
+            className={clsx(
+              "text-sm font-medium",
+              theme === "dark" ? "text-white" : "text-gray-700"
+            )}
+          >
+            Formula:
+          </label>
+          <select
+            value={formula}
+            onChange={(e) => handleFormulaChange(e.target.value as E1RMFormula)}
+            className={selectClassName}
+          >
+            {E1RM_FORMULAS.map((f) => (
+              <option key={f.value} value={f.value}>
+                {f.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <Line data={chartData} options={chartOptions} height={125} />
+    </div>
+  );
+}
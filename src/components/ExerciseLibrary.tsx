@@ -0,0 +1,488 @@
+import React, { useEffect, useState } from "react";
+import { Edit2, Plus, Search, Trash2, Video, X } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import {
+  EXERCISE_CATEGORIES,
+  EXERCISE_UNIT_TYPES,
+  findExercise,
+  getCategoryLabel,
+  getUnitLabel,
+  sortExercises,
+} from "../lib/exerciseLibrary";
+import { DEFAULT_MIN_VELOCITY_THRESHOLD } from "../lib/loadVelocity";
+import { POWERLIFTS } from "../lib/strength";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import type {
+  Exercise,
+  ExerciseUnitType,
+  Powerlift,
+} from "../lib/database.types";
+
+interface ExerciseLibraryProps {
+  managerId: string;
+  theme?: "light" | "dark" | "system";
+}
+
+interface ExerciseForm {
+  name: string;
+  aliases: string; // comma separated
+  category: string;
+  muscle_group: string;
+  unit_type: ExerciseUnitType;
+  demo_video_url: string;
+  min_velocity_threshold: string;
+  powerlift: Powerlift | "";
+}
+
+const EMPTY_FORM: ExerciseForm = {
+  name: "",
+  aliases: "",
+  category: "",
+  muscle_group: "",
+  unit_type: "kg",
+  demo_video_url: "",
+  min_velocity_threshold: "",
+  powerlift: "",
+};
+
+export default function ExerciseLibrary({
+  managerId,
+  theme = "light",
+}: ExerciseLibraryProps) {
+  const [exercises, setExercises] = useState<Exercise[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [showModal, setShowModal] = useState(false);
+  const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
+  const [form, setForm] = useState<ExerciseForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExercises = async () => {
+      setLoading(true);
+      try {
+        setExercises(await fetchExerciseLibrary(managerId));
+      } catch (error) {
+        console.error("Error fetching exercise library:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExercises();
+  }, [managerId]);
+
+  const openCreateModal = () => {
+    setEditingExercise(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (exercise: Exercise) => {
+    setEditingExercise(exercise);
+    setForm({
+      name: exercise.name,
+      aliases: exercise.aliases.join(", "),
+      category: exercise.category || "",
+      muscle_group: exercise.muscle_group || "",
+      unit_type: exercise.unit_type,
+      demo_video_url: exercise.demo_video_url || "",
+      min_velocity_threshold:
+        exercise.min_velocity_threshold != null
+          ? String(exercise.min_velocity_threshold)
+          : "",
+      powerlift: exercise.powerlift || "",
+    });
+    setError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    if (!name) {
+      setError("Please enter a name");
+      return;
+    }
+
+    const aliases = form.aliases
+      .split(",")
+      .map((alias) => alias.trim())
+      .filter(Boolean);
+
+    // A name or alias may only point to one exercise
+    const others = exercises.filter((ex) => ex.id !== editingExercise?.id);
+    const taken = [name, ...aliases].find((n) => findExercise(others, n));
+    if (taken) {
+      setError(
+        `"${taken}" is already used by ${findExercise(others, taken)?.name}`
+      );
+      return;
+    }
+
+    const minVelocity = form.min_velocity_threshold
+      ? parseFloat(form.min_velocity_threshold)
+      : null;
+    if (minVelocity !== null && !(minVelocity > 0)) {
+      setError("Minimum velocity threshold must be above 0 m/s");
+      return;
+    }
+
+    const payload = {
+      manager_id: managerId,
+      name,
+      aliases,
+      category: form.category || null,
+      muscle_group: form.muscle_group.trim() || null,
+      unit_type: form.unit_type,
+      demo_video_url: form.demo_video_url.trim() || null,
+      min_velocity_threshold: minVelocity,
+      powerlift: form.powerlift || null,
+    };
+
+    const { data, error } = editingExercise
+      ? await supabase
+          .from("exercises")
+          .update(payload)
+          .eq("id", editingExercise.id)
+          .select()
+          .single()
+      : await supabase.from("exercises").insert(payload).select().single();
+
+    if (error) {
+      console.error("Error saving exercise:", error);
+      setError("Failed to save the exercise");
+      return;
+    }
+
+    setExercises((prev) =>
+      sortExercises([...prev.filter((ex) => ex.id !== data.id), data])
+    );
+    setShowModal(false);
+  };
+
+  const handleDelete = async (exercise: Exercise) => {
+    if (
+      !window.confirm(
+        `Delete ${exercise.name}? Logged sets and records keep their name but lose the link to the library.`
+      )
+    )
+      return;
+
+    const { error } = await supabase
+      .from("exercises")
+      .delete()
+      .eq("id", exercise.id);
+
+    if (error) {
+      console.error("Error deleting exercise:", error);
+      return;
+    }
+
+    setExercises((prev) => prev.filter((ex) => ex.id !== exercise.id));
+  };
+
+  const query = search.trim().toLowerCase();
+  const filtered = exercises.filter(
+    (ex) =>
+      !query ||
+      ex.name.toLowerCase().includes(query) ||
+      ex.aliases.some((alias) => alias.toLowerCase().includes(query)) ||
+      (ex.muscle_group || "").toLowerCase().includes(query)
+  );
+
+  const textColor = theme === "dark" ? "text-blue-100" : "text-gray-900";
+  const mutedColor = theme === "dark" ? "text-blue-200" : "text-gray-500";
+
+  if (loading) {
+    return (
+      <div className="py-8 text-center text-gray-500">Loading exercises...</div>
+    );
+  }
+
+  return (
+    <div
+      className={clsx(
+        "rounded-2xl p-4 sm:p-6",
+        theme === "dark"
+          ? "bg-blue-900/50 ring-1 ring-blue-700/50"
+          : "bg-white shadow-sm border border-gray-200"
+      )}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, alias or muscle group"
+            className="pl-9 pr-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-900 min-w-64"
+          />
+        </div>
+        <button
+          onClick={openCreateModal}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          New Exercise
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className={clsx("text-left", mutedColor)}>
+              <th className="py-2 pr-4 font-medium">Exercise</th>
+              <th className="py-2 pr-4 font-medium">Category</th>
+              <th className="py-2 pr-4 font-medium">Muscle group</th>
+              <th className="py-2 pr-4 font-medium">Measured in</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody
+            className={clsx(
+              "divide-y",
+              theme === "dark" ? "divide-blue-700/50" : "divide-gray-100"
+            )}
+          >
+            {filtered.map((exercise) => (
+              <tr key={exercise.id} className={textColor}>
+                <td className="py-2 pr-4">
+                  <div className="font-medium flex items-center gap-2">
+                    {exercise.name}
+                    {exercise.manager_id === null && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-600">
+                        Built-in
+                      </span>
+                    )}
+                  </div>
+                  {exercise.aliases.length > 0 && (
+                    <div className={clsx("text-xs", mutedColor)}>
+                      Also: {exercise.aliases.join(", ")}
+                    </div>
+                  )}
+                </td>
+                <td className="py-2 pr-4">
+                  {getCategoryLabel(exercise.category)}
+                </td>
+                <td className="py-2 pr-4">{exercise.muscle_group}</td>
+                <td className="py-2 pr-4">
+                  {getUnitLabel(exercise.unit_type)}
+                </td>
+                <td className="py-2 text-right whitespace-nowrap">
+                  {exercise.demo_video_url && (
+                    <a
+                      href={exercise.demo_video_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-block p-1.5 text-gray-500 hover:text-blue-600"
+                      title="Demo video"
+                    >
+                      <Video className="h-4 w-4" />
+                    </a>
+                  )}
+                  {exercise.manager_id !== null && (
+                    <>
+                      <button
+                        onClick={() => openEditModal(exercise)}
+                        className="p-1.5 text-gray-500 hover:text-blue-600"
+                        title="Edit"
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(exercise)}
+                        className="p-1.5 text-gray-500 hover:text-red-600"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 && (
+          <p className={clsx("py-6 text-center text-sm", mutedColor)}>
+            No exercises found.
+          </p>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={handleSave}
+            className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingExercise ? "Edit Exercise" : "New Exercise"}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Front Squat"
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+            </label>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Aliases
+              <input
+                type="text"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                placeholder="Comma separated, e.g. FS, Barbell Front Squat"
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+            </label>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm font-medium text-gray-700">
+                Category
+                <select
+                  value={form.category}
+                  onChange={(e) =>
+                    setForm({ ...form, category: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                >
+                  <option value="">None</option>
+                  {EXERCISE_CATEGORIES.map((category) => (
+                    <option key={category.value} value={category.value}>
+                      {category.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Muscle group
+                <input
+                  type="text"
+                  value={form.muscle_group}
+                  onChange={(e) =>
+                    setForm({ ...form, muscle_group: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                />
+              </label>
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Measured in
+              <select
+                value={form.unit_type}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    unit_type: e.target.value as ExerciseUnitType,
+                  })
+                }
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              >
+                {EXERCISE_UNIT_TYPES.map((unit) => (
+                  <option key={unit.value} value={unit.value}>
+                    {unit.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Demo video URL
+              <input
+                type="url"
+                value={form.demo_video_url}
+                onChange={(e) =>
+                  setForm({ ...form, demo_video_url: e.target.value })
+                }
+                placeholder="https://"
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+            </label>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Minimum velocity threshold (m/s)
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={form.min_velocity_threshold}
+                onChange={(e) =>
+                  setForm({ ...form, min_velocity_threshold: e.target.value })
+                }
+                placeholder={`Default ${DEFAULT_MIN_VELOCITY_THRESHOLD}`}
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+              <span className="block mt-1 text-xs font-normal text-gray-500">
+                Mean velocity at 1RM, used to estimate the 1RM from
+                load-velocity profiles
+              </span>
+            </label>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Powerlift
+              <select
+                value={form.powerlift}
+                onChange={(e) =>
+                  setForm({
+                    ...form,
+                    powerlift: e.target.value as Powerlift | "",
+                  })
+                }
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              >
+                <option value="">None</option>
+                {POWERLIFTS.map((lift) => (
+                  <option key={lift.value} value={lift.value}>
+                    {lift.label}
+                  </option>
+                ))}
+              </select>
+              <span className="block mt-1 text-xs font-normal text-gray-500">
+                Records are scored with DOTS, Wilks and IPF GL points and
+                default strength standards
+              </span>
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
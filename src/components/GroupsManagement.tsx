@@ -1,8 +1,17 @@
 import React, { useState, useEffect } from "react";
 import { supabase } from "../lib/supabase";
 import type { AthleteGroup, Profile } from "../lib/database.types";
-import { Plus, Users, Edit2, Trash2, UserPlus, UserMinus } from "lucide-react";
+import {
+  Plus,
+  Users,
+  Edit2,
+  Trash2,
+  UserPlus,
+  UserMinus,
+  CalendarDays,
+} from "lucide-react";
 import clsx from "clsx";
+import TrainingScheduleModal from "./TrainingScheduleModal";
 
 interface GroupsManagementProps {
   managerId: string;
@@ -34,6 +43,10 @@ export default function GroupsManagement({
   const [actionLoading, setActionLoading] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingGroup, setEditingGroup] = useState<AthleteGroup | null>(null);
+  // undefined: closed, null: default schedule, group: that group's schedule
+  const [scheduleGroup, setScheduleGroup] = useState<
+    AthleteGroup | null | undefined
+  >(undefined);
   const [showManageModal, setShowManageModal] = useState<AthleteGroup | null>(
     null
   );
@@ -420,13 +433,22 @@ export default function GroupsManagement({
       {/* Header */}
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-gray-900">Manage Groups</h2>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          <Plus className="h-4 w-4" />
-          Create Group
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setScheduleGroup(null)}
+            className="flex items-center gap-2 px-4 py-2 text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 transition-colors"
+          >
+            <CalendarDays className="h-4 w-4" />
+            Default Schedule
+          </button>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            Create Group
+          </button>
+        </div>
       </div>
 
       {/* Groups List */}
@@ -472,6 +494,13 @@ export default function GroupsManagement({
                       )}
                     </div>
                     <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setScheduleGroup(group)}
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                        title="Training schedule"
+                      >
+                        <CalendarDays className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => openEditModal(group)}
                         className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
@@ -802,6 +831,16 @@ export default function GroupsManagement({
         </div>
       )}
 
+      {/* Training Schedule Modal */}
+      {scheduleGroup !== undefined && (
+        <TrainingScheduleModal
+          managerId={managerId}
+          group={scheduleGroup}
+          theme={theme}
+          onClose={() => setScheduleGroup(undefined)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
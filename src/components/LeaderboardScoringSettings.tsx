@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { Check } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import { getPRExercises } from "../lib/exerciseLibrary";
+import {
+  DEFAULT_SCORING,
+  SCORING_SCHEMES,
+  findLeaderboardScoring,
+} from "../lib/leaderboardScoring";
+import type { ScoringSettings } from "../lib/leaderboardScoring";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import {
+  deleteGroupLeaderboardScoring,
+  fetchLeaderboardScoring,
+  saveLeaderboardScoring,
+} from "../services/leaderboardScoring";
+import type {
+  AthleteGroup,
+  Exercise,
+  LeaderboardScoring,
+  ScoringScheme,
+} from "../lib/database.types";
+
+interface Props {
+  managerId: string;
+  onSaved?: () => void;
+}
+
+// How the leaderboards award points, as a default and per group
+export default function LeaderboardScoringSettings({
+  managerId,
+  onSaved,
+}: Props) {
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [scorings, setScorings] = useState<LeaderboardScoring[]>([]);
+  const [groupId, setGroupId] = useState("");
+  const [scoring, setScoring] = useState<ScoringSettings>(DEFAULT_SCORING);
+  // Weight inputs by exercise name, blank for the default of 1
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      supabase
+        .from("athlete_groups")
+        .select("*")
+        .eq("manager_id", managerId)
+        .order("name"),
+      fetchExerciseLibrary(managerId),
+      fetchLeaderboardScoring(managerId),
+    ])
+      .then(([groupsResult, exercises, scoringData]) => {
+        if (groupsResult.error) throw groupsResult.error;
+        setGroups(groupsResult.data || []);
+        setLibrary(getPRExercises(exercises));
+        setScorings(scoringData);
+      })
+      .catch((err) =>
+        console.error("Error fetching leaderboard scoring:", err)
+      );
+  }, [managerId]);
+
+  const hasOwnScoring =
+    !!groupId && scorings.some((s) => s.group_id === groupId);
+
+  useEffect(() => {
+    const current = findLeaderboardScoring(scorings, groupId || null);
+    setScoring(current);
+    setWeights(
+      Object.fromEntries(
+        Object.entries(current.exercise_weights).map(([name, weight]) => [
+          name,
+          String(weight),
+        ])
+      )
+    );
+    setSaved(false);
+    setError(null);
+  }, [groupId, scorings]);
+
+  const handleSave = async () => {
+    if (scoring.scheme === "improvement" && !scoring.baseline_date) {
+      setError("Choose the baseline date to measure improvement from");
+      return;
+    }
+    const exerciseWeights: Record<string, number> = {};
+    for (const [name, value] of Object.entries(weights)) {
+      if (value === "") continue;
+      const weight = parseFloat(value);
+      if (!(weight >= 0)) {
+        setError("Exercise weights must be 0 or more");
+        return;
+      }
+      exerciseWeights[name] = weight;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveLeaderboardScoring(managerId, groupId || null, {
+        ...scoring,
+        exercise_weights: exerciseWeights,
+      });
+      setScorings(await fetchLeaderboardScoring(managerId));
+      setSaved(true);
+      onSaved?.();
+    } catch (err) {
+      console.error("Error saving leaderboard scoring:", err);
+      setError("Failed to save the scoring");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUseDefault = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await deleteGroupLeaderboardScoring(managerId, groupId);
+      setScorings(await fetchLeaderboardScoring(managerId));
+      onSaved?.();
+    } catch (err) {
+      console.error("Error resetting leaderboard scoring:", err);
+      setError("Failed to reset the scoring");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const scheme = SCORING_SCHEMES.find((s) => s.value === scoring.scheme);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={groupId}
+          onChange={(e) => setGroupId(e.target.value)}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+          aria-label="Group"
+        >
+          <option value="">Default for all groups</option>
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>
+              {group.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={scoring.scheme}
+          onChange={(e) => {
+            setScoring((prev) => ({
+              ...prev,
+              scheme: e.target.value as ScoringScheme,
+            }));
+            setSaved(false);
+          }}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+          aria-label="Scoring scheme"
+        >
+          {SCORING_SCHEMES.map((s) => (
+            <option key={s.value} value={s.value}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        {scoring.scheme === "improvement" && (
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            Since
+            <input
+              type="date"
+              value={scoring.baseline_date || ""}
+              onChange={(e) => {
+                setScoring((prev) => ({
+                  ...prev,
+                  baseline_date: e.target.value || null,
+                }));
+                setSaved(false);
+              }}
+              className="px-3 py-2 rounded-lg border border-gray-300"
+            />
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {scheme?.description}.
+        {groupId &&
+          !hasOwnScoring &&
+          " This group uses the default until you save its own scoring."}
+      </p>
+
+      {library.length > 0 && (
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">
+            Exercise weighting
+          </h4>
+          <p className="text-xs text-gray-500 mb-2">
+            Multiplies the points of an exercise. Leave blank for 1, or set 0 to
+            leave the exercise out.
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+            {library.map((exercise) => (
+              <label
+                key={exercise.id}
+                className="flex items-center justify-between gap-2 text-sm text-gray-900"
+              >
+                {exercise.name}
+                <input
+                  type="number"
+                  step="0.5"
+                  min="0"
+                  value={weights[exercise.name] || ""}
+                  onChange={(e) => {
+                    setWeights((prev) => ({
+                      ...prev,
+                      [exercise.name]: e.target.value,
+                    }));
+                    setSaved(false);
+                  }}
+                  placeholder="1"
+                  className="w-20 px-2 py-1 rounded border border-gray-300"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saved && <Check className="w-4 h-4" />}
+          {saving ? "Saving..." : saved ? "Saved" : "Save Scoring"}
+        </button>
+        {hasOwnScoring && (
+          <button
+            onClick={handleUseDefault}
+            disabled={saving}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Use Default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from "react";
+import { Edit2, Plus, Trash2, X } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import {
+  SEASON_STATUS_LABELS,
+  SEASON_STATUS_STYLES,
+  getSeasonStatus,
+} from "../lib/leaderboardSeasons";
+import {
+  deleteLeaderboardSeason,
+  fetchLeaderboardSeasons,
+  saveLeaderboardSeason,
+} from "../services/leaderboardSeasons";
+import type { AthleteGroup, LeaderboardSeason } from "../lib/database.types";
+
+interface Props {
+  managerId: string;
+  onSaved?: () => void;
+}
+
+interface SeasonForm {
+  name: string;
+  group_id: string;
+  start_date: string;
+  end_date: string;
+}
+
+const EMPTY_FORM: SeasonForm = {
+  name: "",
+  group_id: "",
+  start_date: new Date().toISOString().split("T")[0],
+  end_date: new Date().toISOString().split("T")[0],
+};
+
+// Seasons and competition windows the leaderboards can be narrowed to
+export default function LeaderboardSeasons({ managerId, onSaved }: Props) {
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [form, setForm] = useState<SeasonForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSeasons = async () => {
+    try {
+      setSeasons(await fetchLeaderboardSeasons(managerId));
+    } catch (err) {
+      console.error("Error fetching leaderboard seasons:", err);
+    }
+  };
+
+  useEffect(() => {
+    loadSeasons();
+    supabase
+      .from("athlete_groups")
+      .select("*")
+      .eq("manager_id", managerId)
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) console.error("Error fetching groups:", error);
+        setGroups(data || []);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managerId]);
+
+  const openForm = (season?: LeaderboardSeason) => {
+    setForm(
+      season
+        ? {
+            name: season.name,
+            group_id: season.group_id || "",
+            start_date: season.start_date,
+            end_date: season.end_date,
+          }
+        : EMPTY_FORM
+    );
+    setEditingId(season?.id || null);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    if (!form.name.trim()) {
+      setError("Name the season");
+      return;
+    }
+    if (form.end_date < form.start_date) {
+      setError("The season must end after it starts");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveLeaderboardSeason(
+        managerId,
+        {
+          name: form.name.trim(),
+          group_id: form.group_id || null,
+          start_date: form.start_date,
+          end_date: form.end_date,
+        },
+        editingId || undefined
+      );
+      setForm(null);
+      setEditingId(null);
+      await loadSeasons();
+      onSaved?.();
+    } catch (err) {
+      console.error("Error saving leaderboard season:", err);
+      setError("Failed to save the season");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (season: LeaderboardSeason) => {
+    if (!window.confirm(`Delete the season "${season.name}"?`)) return;
+    try {
+      await deleteLeaderboardSeason(season.id);
+      await loadSeasons();
+      onSaved?.();
+    } catch (err) {
+      console.error("Error deleting leaderboard season:", err);
+    }
+  };
+
+  const inputClass = "px-3 py-2 rounded-lg border border-gray-300 text-sm";
+
+  return (
+    <div className="space-y-4">
+      {seasons.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No seasons yet. Leaderboards count every record until you add one.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {seasons.map((season) => {
+            const status = getSeasonStatus(season);
+            return (
+              <div
+                key={season.id}
+                className="flex flex-wrap items-center gap-x-4 gap-y-1 p-3 rounded-lg bg-gray-50 text-sm"
+              >
+                <span className="font-medium text-gray-900">{season.name}</span>
+                <span className="text-gray-500">
+                  {season.start_date} – {season.end_date}
+                </span>
+                <span className="text-gray-500">
+                  {groups.find((g) => g.id === season.group_id)?.name ||
+                    "All groups"}
+                </span>
+                <span
+                  className={clsx(
+                    "px-2 py-0.5 rounded-full text-xs font-medium",
+                    SEASON_STATUS_STYLES[status]
+                  )}
+                >
+                  {SEASON_STATUS_LABELS[status]}
+                </span>
+                <div className="ml-auto flex gap-1">
+                  {status !== "archived" && (
+                    <button
+                      onClick={() => openForm(season)}
+                      className="p-1 text-gray-500 hover:text-blue-600"
+                      aria-label="Edit season"
+                    >
+                      <Edit2 className="h-4 w-4" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(season)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                    aria-label="Delete season"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {form ? (
+        <form
+          onSubmit={handleSubmit}
+          className="flex flex-wrap items-end gap-3 p-4 rounded-lg border border-gray-200"
+        >
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            Name
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Spring 2025"
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            Group
+            <select
+              value={form.group_id}
+              onChange={(e) => setForm({ ...form, group_id: e.target.value })}
+              className={clsx(inputClass, "bg-white")}
+            >
+              <option value="">All groups</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            Start
+            <input
+              type="date"
+              value={form.start_date}
+              onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-500">
+            End
+            <input
+              type="date"
+              value={form.end_date}
+              onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : editingId ? "Save Season" : "Add Season"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setForm(null)}
+            className="p-2 text-gray-500 hover:text-gray-700"
+            aria-label="Cancel"
+          >
+            <X className="h-4 w-4" />
+          </button>
+          {error && <p className="w-full text-sm text-red-600">{error}</p>}
+        </form>
+      ) : (
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Plus className="h-4 w-4" />
+          New Season
+        </button>
+      )}
+    </div>
+  );
+}
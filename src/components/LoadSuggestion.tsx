@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { Check, TrendingUp } from "lucide-react";
+import clsx from "clsx";
+import type { LoadSuggestion as Suggestion } from "../lib/progression";
+import type { ProgressionDecision } from "../lib/database.types";
+
+interface Props {
+  suggestion: Suggestion;
+  decision?: ProgressionDecision;
+  onAccept: () => Promise<void>;
+  onOverride: (weight: number, reason: string) => Promise<void>;
+  theme?: "light" | "dark" | "system";
+}
+
+// Suggested load for an exercise, which the athlete accepts or overrides
+export default function LoadSuggestion({
+  suggestion,
+  decision,
+  onAccept,
+  onOverride,
+  theme = "light",
+}: Props) {
+  const [overriding, setOverriding] = useState(false);
+  const [weight, setWeight] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const save = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      setOverriding(false);
+    } catch (error) {
+      console.error("Error saving progression decision:", error);
+      alert("Error saving your choice. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOverride = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(weight);
+    if (!(value > 0)) return;
+    save(() => onOverride(value, reason.trim()));
+  };
+
+  const inputClass = clsx(
+    "px-2 py-1 rounded border text-sm",
+    theme === "dark"
+      ? "bg-slate-900/50 border-slate-700 text-white"
+      : "bg-white border-gray-300 text-gray-900"
+  );
+
+  return (
+    <div
+      className={clsx(
+        "mb-2 p-2 rounded-lg text-sm",
+        theme === "dark"
+          ? "bg-emerald-900/30 text-emerald-200"
+          : "bg-emerald-50 text-emerald-800"
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <TrendingUp className="h-4 w-4" />
+        <span className="font-medium">
+          Suggested: {suggestion.weight} kg
+          {suggestion.reps !== null && ` x ${suggestion.reps}`}
+        </span>
+        <span className="opacity-80">({suggestion.reason})</span>
+        {decision ? (
+          <span className="ml-auto flex items-center gap-1 text-xs font-medium">
+            <Check className="h-3 w-3" />
+            {decision.status === "accepted"
+              ? "Accepted"
+              : `Overridden: ${decision.chosen_weight} kg`}
+          </span>
+        ) : (
+          !overriding && (
+            <div className="ml-auto flex gap-2">
+              <button
+                type="button"
+                onClick={() => save(onAccept)}
+                disabled={saving}
+                className="px-2 py-1 rounded bg-emerald-600 text-white text-xs hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setWeight(String(suggestion.weight));
+                  setOverriding(true);
+                }}
+                className="px-2 py-1 rounded border border-current text-xs"
+              >
+                Override
+              </button>
+            </div>
+          )
+        )}
+      </div>
+      {overriding && (
+        <form
+          onSubmit={handleOverride}
+          className="mt-2 flex flex-wrap items-center gap-2"
+        >
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+            className={clsx(inputClass, "w-24")}
+            aria-label="Weight (kg)"
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className={clsx(inputClass, "flex-1 min-w-32")}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-2 py-1 rounded bg-emerald-600 text-white text-xs hover:bg-emerald-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => setOverriding(false)}
+            className="px-2 py-1 rounded text-xs"
+          >
+            Cancel
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
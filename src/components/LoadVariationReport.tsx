@@ -0,0 +1,216 @@
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import annotationPlugin from "chartjs-plugin-annotation";
+import { Activity } from "lucide-react";
+import {
+  getMonotonyColor,
+  getStrainColor,
+  getWeeklyChangeColor,
+} from "../lib/trainingLoad";
+import type { WeeklyLoadSummary } from "../lib/trainingLoad";
+import { buildPhaseAnnotations } from "../lib/periodization";
+import type { TrainingCycle } from "../lib/database.types";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  annotationPlugin
+);
+
+interface LoadVariationReportProps {
+  athleteName: string;
+  weeks: WeeklyLoadSummary[];
+  cycles?: TrainingCycle[];
+}
+
+const formatWeek = (week: WeeklyLoadSummary) =>
+  `${new Date(week.weekStart).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  })} - ${new Date(week.weekEnd).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+  })}`;
+
+export default function LoadVariationReport({
+  athleteName,
+  weeks,
+  cycles = [],
+}: LoadVariationReportProps) {
+  if (weeks.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-500">
+          No weekly load data available for the selected period.
+        </p>
+      </div>
+    );
+  }
+
+  const chartData = {
+    labels: weeks.map(formatWeek),
+    datasets: [
+      {
+        label: "Weekly Load",
+        data: weeks.map((w) => Math.round(w.weeklyLoad)),
+        borderColor: "rgb(59, 130, 246)",
+        backgroundColor: "rgba(59, 130, 246, 0.2)",
+        tension: 0.3,
+        yAxisID: "y",
+      },
+      {
+        label: "Strain",
+        data: weeks.map((w) =>
+          w.strain === null ? null : Math.round(w.strain)
+        ),
+        borderColor: "rgb(239, 68, 68)",
+        backgroundColor: "rgba(239, 68, 68, 0.2)",
+        tension: 0.3,
+        yAxisID: "y",
+      },
+      {
+        label: "Monotony",
+        data: weeks.map((w) =>
+          w.monotony === null ? null : Number(w.monotony.toFixed(2))
+        ),
+        borderColor: "rgb(16, 185, 129)",
+        backgroundColor: "rgba(16, 185, 129, 0.2)",
+        borderDash: [6, 4],
+        tension: 0.3,
+        yAxisID: "y1",
+      },
+    ],
+  };
+
+  const chartOptions = {
+    maintainAspectRatio: false,
+    scales: {
+      y: {
+        beginAtZero: true,
+        title: { display: true, text: "Load / Strain (AU)" },
+      },
+      y1: {
+        beginAtZero: true,
+        position: "right" as const,
+        grid: { drawOnChartArea: false },
+        title: { display: true, text: "Monotony" },
+      },
+    },
+    plugins: {
+      legend: { position: "top" as const },
+      annotation: {
+        annotations: {
+          // Weeks are shaded by the phase their last day falls in
+          ...buildPhaseAnnotations(
+            cycles,
+            weeks.map((w) => w.weekEnd)
+          ),
+          monotonyThreshold: {
+            type: "line" as const,
+            yScaleID: "y1",
+            yMin: 2,
+            yMax: 2,
+            borderColor: "rgba(239, 68, 68, 0.6)",
+            borderWidth: 1,
+            borderDash: [4, 4],
+          },
+        },
+      },
+    },
+  };
+
+  return (
+    <div>
+      <h3 className="text-md font-medium text-gray-900 mb-4 flex items-center">
+        <Activity className="h-4 w-4 mr-2 text-indigo-500" />
+        {athleteName}
+      </h3>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead>
+            <tr className="bg-white border-b border-gray-200">
+              {[
+                "Week",
+                "Weekly Load",
+                "Mean Daily Load",
+                "Std. Deviation",
+                "Monotony",
+                "Strain",
+                "Change vs. Previous",
+              ].map((heading) => (
+                <th
+                  key={heading}
+                  className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider"
+                >
+                  {heading}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {weeks.map((week) => (
+              <tr key={week.weekStart} className="hover:bg-gray-50">
+                <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {formatWeek(week)}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                  {Math.round(week.weeklyLoad)}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                  {Math.round(week.meanDailyLoad)}
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                  {Math.round(week.standardDeviation)}
+                </td>
+                <td
+                  className={`px-4 py-3 whitespace-nowrap text-sm font-semibold ${getMonotonyColor(
+                    week.monotony
+                  )}`}
+                >
+                  {week.monotony === null ? "n/a" : week.monotony.toFixed(2)}
+                </td>
+                <td
+                  className={`px-4 py-3 whitespace-nowrap text-sm font-semibold ${getStrainColor(
+                    week.strain
+                  )}`}
+                >
+                  {week.strain === null ? "n/a" : Math.round(week.strain)}
+                </td>
+                <td
+                  className={`px-4 py-3 whitespace-nowrap text-sm font-semibold ${getWeeklyChangeColor(
+                    week.weeklyChange
+                  )}`}
+                >
+                  {week.weeklyChange === null
+                    ? "-"
+                    : `${week.weeklyChange > 0 ? "+" : ""}${week.weeklyChange.toFixed(
+                        1
+                      )}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="h-72">
+        <Line data={chartData} options={chartOptions} />
+      </div>
+    </div>
+  );
+}
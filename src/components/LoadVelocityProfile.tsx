@@ -0,0 +1,667 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  ComposedChart,
+  LineChart,
+  Line,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { Plus, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import {
+  DEFAULT_MIN_VELOCITY_THRESHOLD,
+  buildLoadVelocityProfile,
+  buildLoadVelocityProfiles,
+  getRegressionLine,
+  type LoadVelocityProfile as Profile,
+} from "../lib/loadVelocity";
+import { findExercise, getPRExercises } from "../lib/exerciseLibrary";
+import { fetchAthleteExerciseLibrary } from "../services/exerciseLibrary";
+import {
+  fetchLoadVelocityEntries,
+  saveLoadVelocitySession,
+} from "../services/loadVelocity";
+import type { Exercise, LoadVelocityEntry } from "../lib/database.types";
+
+interface Props {
+  athleteId: string;
+  theme?: "light" | "dark" | "system";
+}
+
+type InputRow = { load: string; velocity: string; power: string };
+
+const MIN_ROWS = 4;
+const COLORS = ["#2563eb", "#f59e42", "#10b981", "#a21caf", "#ef4444"];
+
+const emptyRows = (count = MIN_ROWS): InputRow[] =>
+  Array.from({ length: count }, () => ({ load: "", velocity: "", power: "" }));
+
+const formatNumber = (value: number | null, digits: number) =>
+  value === null ? "–" : value.toFixed(digits);
+
+export default function LoadVelocityProfile({
+  athleteId,
+  theme = "light",
+}: Props) {
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [entries, setEntries] = useState<LoadVelocityEntry[]>([]);
+  const [exerciseName, setExerciseName] = useState("");
+  const [date, setDate] = useState(
+    () => new Date().toISOString().split("T")[0]
+  );
+  const [inputs, setInputs] = useState<InputRow[]>(emptyRows());
+  const [minVelocity, setMinVelocity] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [compareDates, setCompareDates] = useState<string[]>([]);
+  const [showCompare, setShowCompare] = useState(false);
+  const [compareDropdownOpen, setCompareDropdownOpen] = useState(false);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [exercises, lvEntries] = await Promise.all([
+          fetchAthleteExerciseLibrary(athleteId),
+          fetchLoadVelocityEntries(athleteId),
+        ]);
+        const prExercises = getPRExercises(exercises);
+        setLibrary(prExercises);
+        setEntries(lvEntries);
+        // Start on the most recently measured exercise
+        setExerciseName(
+          lvEntries[lvEntries.length - 1]?.exercise_name ||
+            prExercises[0]?.name ||
+            ""
+        );
+      } catch (err) {
+        console.error("Error fetching load-velocity data:", err);
+        setError("Failed to load Load-Velocity/Power data");
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (athleteId) fetchData();
+  }, [athleteId]);
+
+  // Library exercises plus names only found in older entries
+  const exerciseOptions = useMemo(() => {
+    const names = library.map((e) => e.name);
+    entries.forEach((entry) => {
+      if (!names.includes(entry.exercise_name)) names.push(entry.exercise_name);
+    });
+    return names.sort((a, b) => a.localeCompare(b));
+  }, [library, entries]);
+
+  const exercise = findExercise(library, exerciseName);
+
+  useEffect(() => {
+    setMinVelocity(
+      String(exercise?.min_velocity_threshold ?? DEFAULT_MIN_VELOCITY_THRESHOLD)
+    );
+    setCompareDates([]);
+    setShowCompare(false);
+  }, [exercise?.id, exercise?.min_velocity_threshold]);
+
+  const exerciseEntries = useMemo(
+    () => entries.filter((e) => e.exercise_name === exerciseName),
+    [entries, exerciseName]
+  );
+
+  // Show what is saved for the selected exercise and date
+  useEffect(() => {
+    const saved = exerciseEntries.filter((e) => e.date === date);
+    const rows = saved.map((e) => ({
+      load: String(e.load),
+      velocity: e.velocity !== null ? String(e.velocity) : "",
+      power: e.power !== null ? String(e.power) : "",
+    }));
+    setInputs([...rows, ...emptyRows(Math.max(0, MIN_ROWS - rows.length))]);
+  }, [exerciseEntries, date]);
+
+  const threshold = parseFloat(minVelocity) || DEFAULT_MIN_VELOCITY_THRESHOLD;
+
+  const lvData = inputs
+    .map((row) => ({
+      load: parseFloat(row.load),
+      velocity: parseFloat(row.velocity),
+      power: parseFloat(row.power),
+    }))
+    .filter(
+      (row) => !isNaN(row.load) && (!isNaN(row.velocity) || !isNaN(row.power))
+    );
+
+  const currentProfile = buildLoadVelocityProfile(
+    date,
+    lvData.filter((row) => !isNaN(row.velocity)),
+    threshold
+  );
+
+  const profiles = useMemo(
+    () => buildLoadVelocityProfiles(exerciseEntries, threshold),
+    [exerciseEntries, threshold]
+  );
+
+  const entryDates = useMemo(
+    () => Array.from(new Set(exerciseEntries.map((e) => e.date))).sort(),
+    [exerciseEntries]
+  );
+
+  const compareProfiles = profiles.filter((p) =>
+    compareDates.includes(p.date)
+  );
+
+  const comparePower = compareDates.map((d) => ({
+    date: d,
+    points: exerciseEntries
+      .filter((e) => e.date === d && e.power !== null)
+      .map((e) => ({ load: Number(e.load), power: Number(e.power) }))
+      .sort((a, b) => a.load - b.load),
+  }));
+
+  const shownProfiles: Profile[] = showCompare
+    ? compareProfiles
+    : currentProfile
+      ? [currentProfile]
+      : [];
+
+  const updateRow = (idx: number, field: keyof InputRow, value: string) =>
+    setInputs((prev) =>
+      prev.map((r, i) => (i === idx ? { ...r, [field]: value } : r))
+    );
+
+  const handleSave = async () => {
+    if (!exerciseName) {
+      setError("Select an exercise first");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const rows = lvData.map((row) => ({
+        load: row.load,
+        velocity: isNaN(row.velocity) ? null : row.velocity,
+        power: isNaN(row.power) ? null : row.power,
+      }));
+      const saved = await saveLoadVelocitySession(
+        athleteId,
+        { id: exercise?.id || null, name: exerciseName },
+        date,
+        rows
+      );
+      setEntries((prev) => [
+        ...prev.filter(
+          (e) => !(e.exercise_name === exerciseName && e.date === date)
+        ),
+        ...saved,
+      ]);
+    } catch (err) {
+      console.error("Error saving load-velocity data:", err);
+      setError("Failed to save Load-Velocity/Power data");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = clsx(
+    "w-24 px-2 py-1 rounded border text-sm",
+    theme === "dark"
+      ? "bg-blue-900/50 border-blue-700 text-blue-100"
+      : "bg-white border-gray-300"
+  );
+  const headerClass = clsx(
+    "px-3 py-2 text-left text-xs font-medium uppercase tracking-wider",
+    theme === "dark" ? "text-white" : "text-gray-900"
+  );
+  const cardClass = clsx(
+    "rounded-xl shadow p-4 border",
+    theme === "dark"
+      ? "bg-blue-900/30 border-blue-700/50"
+      : "bg-white border-gray-100"
+  );
+
+  return (
+    <div className="mb-10">
+      <h2
+        className={clsx(
+          "text-lg font-bold mb-2",
+          theme === "dark" ? "text-white" : "text-gray-900"
+        )}
+      >
+        Load-Velocity & Power Profile
+      </h2>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-4">
+        <label className="font-medium text-sm">Exercise:</label>
+        <select
+          value={exerciseName}
+          onChange={(e) => setExerciseName(e.target.value)}
+          className={clsx(
+            "px-2 py-1 rounded border text-sm",
+            theme === "dark"
+              ? "bg-blue-900/50 border-blue-700 text-blue-100"
+              : "bg-white border-gray-300"
+          )}
+        >
+          {exerciseOptions.length === 0 && <option value="">--</option>}
+          {exerciseOptions.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <label className="font-medium text-sm">Date:</label>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className={clsx(
+            "px-2 py-1 rounded border text-sm",
+            theme === "dark"
+              ? "bg-blue-900/50 border-blue-700 text-blue-100"
+              : "bg-white border-gray-300"
+          )}
+        />
+        <label className="font-medium text-sm">MVT (m/s):</label>
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          value={minVelocity}
+          onChange={(e) => setMinVelocity(e.target.value)}
+          title="Minimum velocity threshold: mean velocity at 1RM"
+          className={inputClass}
+        />
+      </div>
+
+      {/* Compare UI - custom multi-select dropdown */}
+      <div className="mb-4 relative">
+        <label className="font-medium text-sm mr-2">Compare Dates:</label>
+        <div className="inline-block relative">
+          <button
+            type="button"
+            className={clsx(
+              "px-3 py-1.5 border rounded shadow-sm text-sm min-w-[140px] text-left",
+              theme === "dark"
+                ? "bg-blue-900/50 border-blue-700/50 text-blue-100"
+                : "bg-white border-gray-300"
+            )}
+            onClick={() => setCompareDropdownOpen((v) => !v)}
+          >
+            {compareDates.length > 0
+              ? compareDates.join(", ")
+              : "Select dates..."}
+            <span className="ml-2">▼</span>
+          </button>
+          {compareDropdownOpen && (
+            <div
+              className={clsx(
+                "absolute z-10 mt-1 border rounded shadow-lg min-w-[180px] max-h-48 overflow-y-auto",
+                theme === "dark"
+                  ? "bg-blue-900/80 border-blue-700/50"
+                  : "bg-white border-gray-300"
+              )}
+            >
+              {entryDates.length === 0 && (
+                <div className="px-4 py-2 text-gray-400 text-sm">
+                  No dates available
+                </div>
+              )}
+              {entryDates.map((d) => (
+                <label
+                  key={d}
+                  className="flex items-center px-4 py-2 hover:bg-blue-50 cursor-pointer text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    checked={compareDates.includes(d)}
+                    onChange={() => {
+                      setCompareDates((prev) =>
+                        prev.includes(d)
+                          ? prev.filter((x) => x !== d)
+                          : [...prev, d].sort()
+                      );
+                    }}
+                    className="mr-2"
+                  />
+                  {d}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        {/* Show selected dates as chips */}
+        <div className="inline-flex flex-wrap gap-2 ml-3 align-middle">
+          {compareDates.map((d) => (
+            <span
+              key={d}
+              className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full text-xs flex items-center gap-1"
+            >
+              {d}
+              <button
+                type="button"
+                className="ml-1 text-blue-500 hover:text-blue-700"
+                onClick={() =>
+                  setCompareDates((prev) => prev.filter((x) => x !== d))
+                }
+                aria-label={`Remove ${d}`}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+        {/* Compare/Cancel buttons */}
+        {showCompare ? (
+          <button
+            className="ml-4 px-3 py-1 rounded bg-gray-300 text-gray-700 text-sm font-medium"
+            onClick={() => {
+              setShowCompare(false);
+              setCompareDates([]);
+            }}
+          >
+            Cancel Compare
+          </button>
+        ) : (
+          <button
+            className="ml-4 px-3 py-1 rounded bg-blue-600 text-white text-sm font-medium disabled:opacity-50"
+            onClick={() => {
+              setShowCompare(true);
+              setCompareDropdownOpen(false);
+            }}
+            disabled={compareDates.length < 2}
+          >
+            Compare
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div
+          className={clsx(
+            "mb-4 p-3 rounded-lg text-sm",
+            theme === "dark"
+              ? "bg-red-500/10 text-red-400 ring-1 ring-red-500/30"
+              : "bg-red-50 text-red-600 border border-red-200"
+          )}
+        >
+          {error}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table
+          className={clsx(
+            "min-w-full mb-2 border rounded-lg",
+            theme === "dark"
+              ? "border-blue-700 bg-blue-900/20"
+              : "border-gray-300 bg-white"
+          )}
+        >
+          <thead className={theme === "dark" ? "bg-blue-800/50" : "bg-gray-50"}>
+            <tr>
+              <th className={headerClass}>Load (kg)</th>
+              <th className={headerClass}>Velocity (m/s)</th>
+              <th className={headerClass}>Power (W)</th>
+              <th className={headerClass} />
+            </tr>
+          </thead>
+          <tbody>
+            {inputs.map((row, idx) => (
+              <tr key={idx}>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={row.load}
+                    onChange={(e) => updateRow(idx, "load", e.target.value)}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step="0.01"
+                    value={row.velocity}
+                    onChange={(e) =>
+                      updateRow(idx, "velocity", e.target.value)
+                    }
+                    className={inputClass}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={row.power}
+                    onChange={(e) => updateRow(idx, "power", e.target.value)}
+                    className={inputClass}
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <button
+                    type="button"
+                    onClick={() =>
+                      setInputs((prev) => prev.filter((_, i) => i !== idx))
+                    }
+                    disabled={inputs.length <= 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    aria-label="Remove row"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center gap-3 mb-6">
+        <button
+          type="button"
+          onClick={() => setInputs((prev) => [...prev, ...emptyRows(1)])}
+          className="flex items-center gap-1 px-3 py-1 rounded border text-sm text-blue-600 border-blue-300 hover:bg-blue-50"
+        >
+          <Plus className="w-4 h-4" />
+          Add Load
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving || loading || !exerciseName}
+          className="px-3 py-1 rounded bg-blue-600 text-white text-sm font-medium disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+
+      {/* Regression summary */}
+      {shownProfiles.length > 0 && (
+        <div className="overflow-x-auto mb-6">
+          <table
+            className={clsx(
+              "min-w-full text-sm",
+              theme === "dark" ? "text-blue-100" : "text-gray-900"
+            )}
+          >
+            <thead>
+              <tr
+                className={clsx(
+                  "text-left",
+                  theme === "dark" ? "text-blue-300" : "text-gray-500"
+                )}
+              >
+                <th className="py-1 pr-4 font-medium">Date</th>
+                <th className="py-1 pr-4 font-medium">Slope</th>
+                <th className="py-1 pr-4 font-medium">Intercept</th>
+                <th className="py-1 pr-4 font-medium">R²</th>
+                <th className="py-1 pr-4 font-medium">Est. 1RM (kg)</th>
+                <th className="py-1 pr-4 font-medium">L0 (kg)</th>
+                <th className="py-1 pr-4 font-medium">V0 (m/s)</th>
+                <th className="py-1 pr-4 font-medium">Pmax (W)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shownProfiles.map((p, idx) => (
+                <tr key={p.date}>
+                  <td
+                    className="py-1 pr-4 font-medium"
+                    style={{ color: COLORS[idx % COLORS.length] }}
+                  >
+                    {p.date}
+                  </td>
+                  <td className="py-1 pr-4">{p.slope.toFixed(4)}</td>
+                  <td className="py-1 pr-4">{p.intercept.toFixed(2)}</td>
+                  <td className="py-1 pr-4">{p.r2.toFixed(2)}</td>
+                  <td className="py-1 pr-4">{formatNumber(p.e1rm, 1)}</td>
+                  <td className="py-1 pr-4">{formatNumber(p.l0, 1)}</td>
+                  <td className="py-1 pr-4">{formatNumber(p.v0, 2)}</td>
+                  <td className="py-1 pr-4">{formatNumber(p.pmax, 0)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Load-Velocity Chart */}
+        <div className={cardClass}>
+          <h3
+            className={clsx(
+              "font-semibold mb-2",
+              theme === "dark" ? "text-blue-300" : "text-blue-700"
+            )}
+          >
+            Load-Velocity Profile
+          </h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <ComposedChart margin={{ top: 20, right: 30, left: 10, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="load"
+                type="number"
+                domain={[0, "auto"]}
+                tick={{ fontSize: 12 }}
+                label={{
+                  value: "Load (kg)",
+                  position: "insideBottom",
+                  offset: -5,
+                }}
+              />
+              <YAxis
+                dataKey="velocity"
+                type="number"
+                domain={[0, "auto"]}
+                tick={{ fontSize: 12 }}
+                label={{
+                  value: "Velocity (m/s)",
+                  angle: -90,
+                  position: "insideLeft",
+                }}
+              />
+              <Tooltip />
+              <Legend />
+              {shownProfiles.map((p, idx) => (
+                <Scatter
+                  key={`points-${p.date}`}
+                  data={p.points}
+                  dataKey="velocity"
+                  fill={COLORS[idx % COLORS.length]}
+                  name={p.date}
+                />
+              ))}
+              {shownProfiles.map((p, idx) => (
+                <Line
+                  key={`fit-${p.date}`}
+                  data={getRegressionLine(p)}
+                  dataKey="velocity"
+                  stroke={COLORS[idx % COLORS.length]}
+                  strokeDasharray="5 5"
+                  strokeWidth={2}
+                  dot={false}
+                  legendType="none"
+                  name={`${p.date} fit`}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+        {/* Load-Power Chart */}
+        <div className={cardClass}>
+          <h3
+            className={clsx(
+              "font-semibold mb-2",
+              theme === "dark" ? "text-blue-300" : "text-purple-700"
+            )}
+          >
+            Load-Power Curve
+          </h3>
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart
+              data={
+                showCompare ? undefined : lvData.filter((d) => !isNaN(d.power))
+              }
+              margin={{ top: 20, right: 30, left: 10, bottom: 20 }}
+            >
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                dataKey="load"
+                type="number"
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 12 }}
+                label={{
+                  value: "Load (kg)",
+                  position: "insideBottom",
+                  offset: -5,
+                }}
+              />
+              <YAxis
+                type="number"
+                domain={["auto", "auto"]}
+                tick={{ fontSize: 12 }}
+                label={{
+                  value: "Power (W)",
+                  angle: -90,
+                  position: "insideLeft",
+                }}
+              />
+              <Tooltip />
+              <Legend />
+              {showCompare ? (
+                comparePower.map((d, idx) => (
+                  <Line
+                    key={d.date}
+                    type="monotone"
+                    data={d.points}
+                    dataKey="power"
+                    stroke={COLORS[idx % COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 5 }}
+                    name={d.date}
+                  />
+                ))
+              ) : (
+                <Line
+                  type="monotone"
+                  dataKey="power"
+                  stroke="#a21caf"
+                  strokeWidth={2}
+                  dot={{ r: 5 }}
+                  name="Power (W)"
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+}
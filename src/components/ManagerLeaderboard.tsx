@@ -1,6 +1,46 @@
 import { useState, useEffect, useMemo, useCallback, memo } from "react";
 import { supabase } from "../lib/supabase";
-import type { Profile, AthleteGroup } from "../lib/database.types";
+import { findExercise, withLibraryName } from "../lib/exerciseLibrary";
+import { getPreferredPointsFormula, scoreRecord } from "../lib/strength";
+import {
+  findLeaderboardScoring,
+  scoreLeaderboard,
+} from "../lib/leaderboardScoring";
+import {
+  SEASON_STATUS_LABELS,
+  buildSeasonSnapshot,
+  findPreviousSeason,
+  getGroupSeasons,
+  getRankMovement,
+  getSeasonStandings,
+  getSeasonStatus,
+  isInSeason,
+  rankStandings,
+  scoreSeason,
+} from "../lib/leaderboardSeasons";
+import type { AthleteStrengthProfile } from "../lib/strength";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import { fetchLeaderboardScoring } from "../services/leaderboardScoring";
+import {
+  archiveLeaderboardSeason,
+  fetchLeaderboardSeasons,
+} from "../services/leaderboardSeasons";
+import {
+  fetchStrengthProfiles,
+  fetchStrengthStandards,
+} from "../services/strength";
+import type {
+  Profile,
+  AthleteGroup,
+  Exercise,
+  LeaderboardScoring,
+  LeaderboardSeason,
+  StrengthStandard,
+} from "../lib/database.types";
+import PointsFormulaSelect from "./PointsFormulaSelect";
+import RankMovement from "./RankMovement";
+import ScoringLegend from "./ScoringLegend";
+import StrengthScore from "./StrengthScore";
 import clsx from "clsx";
 
 interface PersonalRecord {
@@ -35,6 +75,18 @@ function ManagerLeaderboard({
   const [records, setRecords] = useState<PersonalRecord[]>([]);
   const [selectedExercise, setSelectedExercise] = useState<string>("");
   const [loading, setLoading] = useState(true);
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [strengthProfiles, setStrengthProfiles] = useState<
+    Record<string, AthleteStrengthProfile>
+  >({});
+  const [standards, setStandards] = useState<StrengthStandard[]>([]);
+  const [pointsFormula, setPointsFormula] = useState(
+    getPreferredPointsFormula
+  );
+  const [scorings, setScorings] = useState<LeaderboardScoring[]>([]);
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string>("");
+  const [freezing, setFreezing] = useState(false);
 
   // Memoized calculations for better performance
   const groupsMap = useMemo(() => {
@@ -56,67 +108,143 @@ function ManagerLeaderboard({
     return records.filter((r) => athleteIds.includes(r.athlete_id));
   }, [filteredAthletes, records]);
 
+  // Seasons for all groups show under "All Groups"; ungrouped athletes
+  // have no seasons of their own
+  const groupSeasons = useMemo(
+    () =>
+      selectedGroupId === "ungrouped"
+        ? []
+        : getGroupSeasons(
+            seasons,
+            selectedGroupId === "all" ? null : selectedGroupId
+          ),
+    [seasons, selectedGroupId]
+  );
+
+  const season = groupSeasons.find((s) => s.id === selectedSeasonId) || null;
+
+  // Records shown in the exercise leaderboard: the season's frozen bests
+  // once archived, otherwise the records dated inside it
+  const seasonRecords = useMemo((): PersonalRecord[] => {
+    if (!season) return filteredRecords;
+    if (season.snapshot) {
+      return season.snapshot.bests.map((best) => ({
+        ...best,
+        id: `${best.athlete_id}:${best.exercise}`,
+        video_url: "",
+      }));
+    }
+    return filteredRecords.filter((r) => isInSeason(r, season));
+  }, [season, filteredRecords]);
+
   const exercises = useMemo(() => {
-    return Array.from(new Set(filteredRecords.map((r) => r.exercise)));
-  }, [filteredRecords]);
+    return Array.from(new Set(seasonRecords.map((r) => r.exercise)));
+  }, [seasonRecords]);
+
+  useEffect(() => {
+    if (exercises.length > 0 && !exercises.includes(selectedExercise)) {
+      setSelectedExercise(exercises[0]);
+    }
+  }, [exercises, selectedExercise]);
+
+  // "All" and "ungrouped" follow the manager's default scoring. Archived
+  // seasons keep the scoring they were frozen with.
+  const currentScoring = useMemo(
+    () =>
+      findLeaderboardScoring(
+        scorings,
+        selectedGroupId === "all" || selectedGroupId === "ungrouped"
+          ? null
+          : selectedGroupId
+      ),
+    [scorings, selectedGroupId]
+  );
+  const scoring = season?.snapshot?.scoring || currentScoring;
 
   const athletePoints = useMemo(() => {
+    if (season?.snapshot) {
+      return season.snapshot.standings.map((standing): AthletePoints => {
+        const athlete = athletes.find((a) => a.id === standing.athlete_id);
+        return {
+          id: standing.athlete_id,
+          full_name: standing.full_name,
+          avatar_url: athlete?.avatar_url || "",
+          total_points: standing.total_points,
+          group_name:
+            groupsMap.get(athlete?.group_id || "")?.name || "Ungrouped",
+        };
+      });
+    }
     if (filteredRecords.length === 0) return [];
 
-    const exercisesList = Array.from(
-      new Set(filteredRecords.map((r) => r.exercise))
-    );
+    const athleteIds = filteredAthletes.map((a) => a.id);
+    const totals = season
+      ? scoreSeason(
+          filteredRecords,
+          athleteIds,
+          season,
+          scoring,
+          strengthProfiles
+        )
+      : scoreLeaderboard(
+          filteredRecords,
+          athleteIds,
+          scoring,
+          strengthProfiles
+        );
 
-    // Initialize points for each athlete
-    const pointsMap = new Map<string, AthletePoints>();
-    filteredAthletes.forEach((athlete) => {
-      const group = groupsMap.get(athlete.group_id || "");
-      pointsMap.set(athlete.id, {
+    return filteredAthletes
+      .map((athlete): AthletePoints => ({
         id: athlete.id,
         full_name: athlete.full_name,
         avatar_url: athlete.avatar_url || "",
-        total_points: 0,
-        group_name: group?.name || "Ungrouped",
-      });
-    });
-
-    // Calculate points for each exercise
-    exercisesList.forEach((exercise) => {
-      const exerciseRecords = filteredRecords
-        .filter((r) => r.exercise === exercise)
-        .sort((a, b) => b.weight - a.weight);
-
-      if (exerciseRecords.length === 0) return;
-
-      let currentRank = 1;
-      let currentWeight = exerciseRecords[0].weight;
-      let points = 3;
-
-      exerciseRecords.forEach((record) => {
-        if (record.weight !== currentWeight) {
-          currentRank++;
-          points = Math.max(4 - currentRank, 0);
-          currentWeight = record.weight;
-        }
-
-        const athletePoint = pointsMap.get(record.athlete_id);
-        if (athletePoint) {
-          athletePoint.total_points += points;
-        }
-      });
-    });
-
-    return Array.from(pointsMap.values()).sort(
-      (a, b) => b.total_points - a.total_points
+        total_points: totals[athlete.id] || 0,
+        group_name: groupsMap.get(athlete.group_id || "")?.name || "Ungrouped",
+      }))
+      .sort((a, b) => b.total_points - a.total_points);
+  }, [
+    season,
+    athletes,
+    filteredAthletes,
+    filteredRecords,
+    groupsMap,
+    scoring,
+    strengthProfiles,
+  ]);
+
+  // Places gained or lost on the previous season of the same groups
+  const movement = useMemo(() => {
+    const previous = season && findPreviousSeason(seasons, season);
+    if (!previous) return {};
+
+    const previousStandings = getSeasonStandings(
+      previous,
+      filteredRecords,
+      filteredAthletes,
+      currentScoring,
+      strengthProfiles
+    );
+    const current = rankStandings(
+      athletePoints,
+      Object.fromEntries(athletePoints.map((a) => [a.id, a.total_points]))
     );
-  }, [filteredAthletes, filteredRecords, groupsMap]);
+    return getRankMovement(current, previousStandings);
+  }, [
+    season,
+    seasons,
+    filteredRecords,
+    filteredAthletes,
+    currentScoring,
+    strengthProfiles,
+    athletePoints,
+  ]);
 
   const exerciseLeaderboard = useMemo(() => {
     if (!selectedExercise) return [];
 
     const leaderboard = filteredAthletes
       .map((athlete) => {
-        const athleteRecords = filteredRecords.filter(
+        const athleteRecords = seasonRecords.filter(
           (r) => r.athlete_id === athlete.id && r.exercise === selectedExercise
         );
         if (athleteRecords.length === 0) return null;
@@ -144,7 +272,19 @@ function ManagerLeaderboard({
       ...rec,
       place: idx + 1,
     }));
-  }, [selectedExercise, filteredAthletes, filteredRecords, groupsMap]);
+  }, [selectedExercise, filteredAthletes, seasonRecords, groupsMap]);
+
+  const getStrengthScore = useCallback(
+    (rec: PersonalRecord) =>
+      scoreRecord(
+        rec,
+        strengthProfiles[rec.athlete_id],
+        findExercise(library, rec.exercise),
+        standards,
+        pointsFormula
+      ),
+    [strengthProfiles, library, standards, pointsFormula]
+  );
 
   const getGroupName = useCallback(
     (groupId: string) => {
@@ -199,13 +339,32 @@ function ManagerLeaderboard({
         setAthletes(formattedAthletes);
 
         const athleteIds = athletesData.map((a) => a.id);
+        const [exercises, standardsData, profiles, scoringData, seasonsData] =
+          await Promise.all([
+            fetchExerciseLibrary(managerId),
+            fetchStrengthStandards(managerId),
+            fetchStrengthProfiles(athleteIds),
+            fetchLeaderboardScoring(managerId),
+            fetchLeaderboardSeasons(managerId),
+          ]);
+        setLibrary(exercises);
+        setStandards(standardsData);
+        setStrengthProfiles(profiles);
+        setScorings(scoringData);
+        setSeasons(seasonsData);
+
         if (athleteIds.length > 0) {
-          const { data: recordsData } = await supabase
+          const { data } = await supabase
             .from("personal_records")
-            .select("id, athlete_id, exercise, weight, record_date, video_url")
-            .in("athlete_id", athleteIds);
-
-          if (recordsData) {
+            .select(
+              "id, athlete_id, exercise, weight, record_date, video_url, exercises(name)"
+            )
+            .in("athlete_id", athleteIds)
+            .eq("status", "confirmed")
+            .eq("verification_status", "approved");
+
+          if (data) {
+            const recordsData = data.map(withLibraryName);
             setRecords(recordsData);
             if (!selectedExercise && recordsData.length > 0) {
               setSelectedExercise(recordsData[0].exercise);
@@ -227,8 +386,52 @@ function ManagerLeaderboard({
   // Optimized group selection handler with debouncing
   const handleGroupChange = useCallback((newGroupId: string) => {
     setSelectedGroupId(newGroupId);
+    setSelectedSeasonId("");
   }, []);
 
+  // Freezes the results of ended seasons so later records leave them as
+  // they are. Each season is scored over its own groups' athletes with the
+  // scoring those groups use.
+  const freezeSeasons = async (ended: LeaderboardSeason[]) => {
+    setFreezing(true);
+    try {
+      for (const endedSeason of ended) {
+        const seasonAthletes = endedSeason.group_id
+          ? athletes.filter((a) => a.group_id === endedSeason.group_id)
+          : athletes;
+        const athleteIds = seasonAthletes.map((a) => a.id);
+        await archiveLeaderboardSeason(
+          endedSeason.id,
+          buildSeasonSnapshot(
+            endedSeason,
+            records.filter((r) => athleteIds.includes(r.athlete_id)),
+            seasonAthletes,
+            findLeaderboardScoring(scorings, endedSeason.group_id),
+            strengthProfiles
+          )
+        );
+      }
+      setSeasons(await fetchLeaderboardSeasons(managerId));
+    } catch (error) {
+      console.error("Error freezing season results:", error);
+    } finally {
+      setFreezing(false);
+    }
+  };
+
+  // A season is frozen once its end date has passed, the first time the
+  // leaderboard loads after it
+  useEffect(() => {
+    if (loading) return;
+    const ended = seasons.filter((s) => getSeasonStatus(s) === "ended");
+    if (ended.length > 0) freezeSeasons(ended);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading, seasons]);
+
+  const handleFreezeSeason = () => {
+    if (season) freezeSeasons([season]);
+  };
+
   // Optimized exercise selection handler
   const handleExerciseChange = useCallback((newExercise: string) => {
     setSelectedExercise(newExercise);
@@ -292,6 +495,25 @@ function ManagerLeaderboard({
                   )}
                 </select>
               </div>
+              {groupSeasons.length > 0 && (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    Season:
+                  </label>
+                  <select
+                    value={selectedSeasonId}
+                    onChange={(e) => setSelectedSeasonId(e.target.value)}
+                    className="px-4 py-2 rounded-lg border text-sm shadow-sm focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 bg-white hover:bg-yellow-50 min-w-[150px]"
+                  >
+                    <option value="">All time</option>
+                    {groupSeasons.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.name} ({SEASON_STATUS_LABELS[getSeasonStatus(s)]})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
               {exercises.length > 0 && (
                 <div>
                   <label className="block text-xs text-gray-500 mb-1">
@@ -310,15 +532,53 @@ function ManagerLeaderboard({
                   </select>
                 </div>
               )}
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">
+                  Points:
+                </label>
+                <PointsFormulaSelect
+                  value={pointsFormula}
+                  onChange={setPointsFormula}
+                  className="px-4 py-2 rounded-lg border text-sm shadow-sm focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 bg-white hover:bg-yellow-50"
+                />
+              </div>
             </div>
           </div>
         </div>
 
+        {season && (
+          <div className="flex flex-wrap items-center gap-3 px-6 py-3 bg-yellow-50 border-b border-yellow-100 text-sm text-gray-700">
+            <span>
+              {season.name}: {new Date(season.start_date).toLocaleDateString()}{" "}
+              – {new Date(season.end_date).toLocaleDateString()}
+            </span>
+            {season.archived_at ? (
+              <span className="text-gray-500">
+                Final results, frozen{" "}
+                {new Date(season.archived_at).toLocaleDateString()}
+              </span>
+            ) : getSeasonStatus(season) === "ended" ? (
+              <button
+                onClick={handleFreezeSeason}
+                disabled={freezing}
+                className="ml-auto px-3 py-1 rounded-lg bg-yellow-600 text-white text-xs font-medium hover:bg-yellow-700 disabled:opacity-50"
+              >
+                {freezing ? "Freezing..." : "Freeze Final Results"}
+              </button>
+            ) : (
+              <span className="text-gray-500">
+                Only records dated inside the season count
+              </span>
+            )}
+          </div>
+        )}
+
         {/* Exercise Leaderboard */}
         {selectedExercise && (
           <div className="p-6">
             <h4 className="text-md font-semibold text-gray-900 mb-4">
               {selectedExercise} - {getGroupName(selectedGroupId)}
+              {season && ` - ${season.name}`}
             </h4>
             {exerciseLeaderboard.length === 0 ? (
               <div className="py-8 text-center text-gray-400">
@@ -345,6 +605,9 @@ function ManagerLeaderboard({
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Weight (kg)
                         </th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Relative
+                        </th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                           Date
                         </th>
@@ -408,6 +671,12 @@ function ManagerLeaderboard({
                               {rec.weight} kg
                             </div>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <StrengthScore
+                              score={getStrengthScore(rec)}
+                              formula={pointsFormula}
+                            />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <div className="text-sm text-gray-500">
                               {new Date(rec.record_date).toLocaleDateString()}
@@ -475,6 +744,10 @@ function ManagerLeaderboard({
                           </div>
                         </div>
                       </div>
+                      <StrengthScore
+                        score={getStrengthScore(rec)}
+                        formula={pointsFormula}
+                      />
                     </div>
                   ))}
                 </div>
@@ -490,25 +763,13 @@ function ManagerLeaderboard({
           <div className="p-6 border-b border-gray-100">
             <h3 className="text-lg font-semibold text-gray-900 mb-2">
               Overall Points - {getGroupName(selectedGroupId)}
+              {season && ` - ${season.name}`}
             </h3>
             <div className="flex flex-col sm:flex-row items-center justify-center gap-2 bg-yellow-50 border border-yellow-200 rounded-lg px-4 py-3 mb-4">
               <span className="font-bold text-yellow-700 text-sm">
                 How Points Work:
               </span>
-              <div className="flex items-center gap-4">
-                <span className="flex items-center gap-1">
-                  <span className="text-lg">🥇</span>
-                  <span className="font-bold text-yellow-700">3 pts</span>
-                </span>
-                <span className="flex items-center gap-1">
-                  <span className="text-lg">🥈</span>
-                  <span className="font-bold text-gray-700">2 pts</span>
-                </span>
-                <span className="flex items-center gap-1">
-                  <span className="text-lg">🥉</span>
-                  <span className="font-bold text-orange-700">1 pt</span>
-                </span>
-              </div>
+              <ScoringLegend scoring={scoring} />
             </div>
           </div>
 
@@ -570,10 +831,11 @@ function ManagerLeaderboard({
                               "https://via.placeholder.com/40";
                           }}
                         />
-                        <div className="ml-4">
+                        <div className="ml-4 flex items-center gap-2">
                           <div className="text-sm font-medium text-gray-900">
                             {athlete.full_name}
                           </div>
+                          <RankMovement movement={movement[athlete.id]} />
                         </div>
                       </div>
                     </td>
@@ -627,8 +889,9 @@ function ManagerLeaderboard({
                   }}
                 />
                 <div className="flex-1">
-                  <div className="text-sm font-medium text-gray-900">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
                     {athlete.full_name}
+                    <RankMovement movement={movement[athlete.id]} />
                   </div>
                   {selectedGroupId === "all" && (
                     <div className="text-xs text-gray-500">
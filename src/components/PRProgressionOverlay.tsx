@@ -0,0 +1,357 @@
+import { useEffect, useMemo, useState } from "react";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import annotationPlugin from "chartjs-plugin-annotation";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import { buildCompetitionAnnotations } from "../lib/periodization";
+import { PROGRESSION_UNITS, buildPRProgression } from "../lib/prProgression";
+import type { ProgressionRecord, ProgressionUnit } from "../lib/prProgression";
+import type { AthleteStrengthProfile } from "../lib/strength";
+import { fetchPRProgressionRecords } from "../services/personalRecords";
+import { fetchStrengthProfiles } from "../services/strength";
+import type {
+  AthleteGroup,
+  Profile,
+  TrainingCycle,
+} from "../lib/database.types";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+  annotationPlugin
+);
+
+const COLORS = [
+  "#6366f1",
+  "#f59e42",
+  "#10b981",
+  "#ef4444",
+  "#0ea5e9",
+  "#a21caf",
+  "#eab308",
+  "#64748b",
+];
+
+interface Props {
+  managerId: string;
+  athletes: Profile[];
+}
+
+// PR progressions of several athletes in one exercise on a shared timeline,
+// with the competitions marked, for selection meetings and athlete reviews
+export default function PRProgressionOverlay({ managerId, athletes }: Props) {
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [cycles, setCycles] = useState<TrainingCycle[]>([]);
+  const [records, setRecords] = useState<ProgressionRecord[]>([]);
+  const [strengthProfiles, setStrengthProfiles] = useState<
+    Record<string, AthleteStrengthProfile>
+  >({});
+  const [exercise, setExercise] = useState("");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [unit, setUnit] = useState<ProgressionUnit>("absolute");
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchGroupsAndCycles = async () => {
+      const [groupsResult, cyclesResult] = await Promise.all([
+        supabase
+          .from("athlete_groups")
+          .select("*")
+          .eq("manager_id", managerId)
+          .order("name"),
+        supabase
+          .from("training_cycles")
+          .select("*")
+          .eq("manager_id", managerId)
+          .order("start_date"),
+      ]);
+
+      if (groupsResult.error) {
+        console.error("Error fetching groups:", groupsResult.error);
+      } else {
+        setGroups(groupsResult.data || []);
+      }
+      if (cyclesResult.error) {
+        console.error("Error fetching training cycles:", cyclesResult.error);
+      } else {
+        setCycles(cyclesResult.data || []);
+      }
+    };
+
+    fetchGroupsAndCycles();
+  }, [managerId]);
+
+  useEffect(() => {
+    const athleteIds = athletes.map((a) => a.id);
+    setLoading(true);
+    Promise.all([
+      fetchPRProgressionRecords(athleteIds),
+      fetchStrengthProfiles(athleteIds),
+    ])
+      .then(([recordsData, profiles]) => {
+        setRecords(recordsData);
+        setStrengthProfiles(profiles);
+      })
+      .catch((error) => console.error("Error fetching PR progressions:", error))
+      .finally(() => setLoading(false));
+  }, [athletes]);
+
+  const exercises = useMemo(
+    () =>
+      Array.from(new Set(records.map((r) => r.exercise))).sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [records]
+  );
+
+  useEffect(() => {
+    if (!exercises.includes(exercise)) setExercise(exercises[0] || "");
+  }, [exercises, exercise]);
+
+  // Competitions of the selected athletes' groups and those for all groups
+  const competitions = useMemo(() => {
+    const groupIds = athletes
+      .filter((a) => selectedIds.includes(a.id))
+      .map((a) => a.group_id);
+    return cycles.filter(
+      (c) =>
+        c.phase === "competition" &&
+        (!c.group_id || groupIds.includes(c.group_id))
+    );
+  }, [cycles, athletes, selectedIds]);
+
+  const progression = useMemo(
+    () =>
+      buildPRProgression(
+        records,
+        selectedIds,
+        exercise,
+        unit,
+        strengthProfiles,
+        competitions.map((c) => c.start_date)
+      ),
+    [records, selectedIds, exercise, unit, strengthProfiles, competitions]
+  );
+
+  const toggleAthlete = (id: string) =>
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]
+    );
+
+  const selectGroup = (groupId: string) => {
+    if (!groupId) return;
+    setSelectedIds(
+      athletes
+        .filter((a) =>
+          groupId === "none" ? !a.group_id : a.group_id === groupId
+        )
+        .map((a) => a.id)
+    );
+  };
+
+  const unitLabel = unit === "absolute" ? "kg" : "× BW";
+
+  // Athletes with at least one point, in dataset order
+  const chartAthleteIds = selectedIds.filter((id) =>
+    progression.series[id]?.some((v) => v !== null)
+  );
+
+  const chartData = {
+    labels: progression.dates.map((date) =>
+      new Date(date).toLocaleDateString()
+    ),
+    datasets: chartAthleteIds.map((id) => {
+      const color =
+        COLORS[athletes.findIndex((a) => a.id === id) % COLORS.length];
+      return {
+        label:
+          athletes.find((a) => a.id === id)?.full_name || "Unknown athlete",
+        data: progression.series[id],
+        borderColor: color,
+        backgroundColor: color,
+        // Hollow points rest on a record awaiting the coach's review
+        pointBackgroundColor: progression.pending[id].map((p) =>
+          p ? "#fff" : color
+        ),
+        tension: 0.2,
+        pointRadius: 4,
+        spanGaps: true,
+      };
+    }),
+  };
+
+  const chartOptions = {
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: "top" as const },
+      tooltip: {
+        callbacks: {
+          label: (context: {
+            datasetIndex: number;
+            dataIndex: number;
+            dataset: { label?: string };
+            parsed: { y: number };
+          }) => {
+            const id = chartAthleteIds[context.datasetIndex];
+            const label = `${context.dataset.label}: ${context.parsed.y} ${unitLabel}`;
+            return progression.pending[id]?.[context.dataIndex]
+              ? `${label} (pending review)`
+              : label;
+          },
+        },
+      },
+      annotation: {
+        annotations: buildCompetitionAnnotations(
+          competitions,
+          progression.dates
+        ),
+      },
+    },
+    scales: {
+      y: {
+        title: {
+          display: true,
+          text:
+            unit === "absolute" ? "Best (kg)" : "Best (kg per kg body weight)",
+        },
+      },
+    },
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading records...</p>;
+  }
+
+  if (exercises.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">No confirmed personal records yet</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={exercise}
+          onChange={(e) => setExercise(e.target.value)}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+          aria-label="Exercise"
+        >
+          {exercises.map((ex) => (
+            <option key={ex} value={ex}>
+              {ex}
+            </option>
+          ))}
+        </select>
+        <select
+          value=""
+          onChange={(e) => selectGroup(e.target.value)}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+          aria-label="Select a group"
+        >
+          <option value="">Select a group...</option>
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>
+              {group.name}
+            </option>
+          ))}
+          {athletes.some((a) => !a.group_id) && (
+            <option value="none">Ungrouped</option>
+          )}
+        </select>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+          {PROGRESSION_UNITS.map((u) => (
+            <button
+              key={u.value}
+              onClick={() => setUnit(u.value)}
+              className={clsx(
+                "px-3 py-2",
+                unit === u.value
+                  ? "bg-blue-600 text-white"
+                  : "bg-white text-gray-700 hover:bg-gray-50"
+              )}
+            >
+              {u.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {athletes.map((athlete, i) => {
+          const selected = selectedIds.includes(athlete.id);
+          return (
+            <button
+              key={athlete.id}
+              onClick={() => toggleAthlete(athlete.id)}
+              className={clsx(
+                "flex items-center gap-2 px-3 py-1 rounded-full border text-xs font-medium",
+                selected
+                  ? "border-gray-400 bg-white text-gray-900"
+                  : "border-gray-200 bg-gray-50 text-gray-500 hover:bg-white"
+              )}
+            >
+              <span
+                className="w-2 h-2 rounded-full"
+                style={{
+                  backgroundColor: selected
+                    ? COLORS[i % COLORS.length]
+                    : "#d1d5db",
+                }}
+              />
+              {athlete.full_name || athlete.email}
+            </button>
+          );
+        })}
+        {selectedIds.length > 0 && (
+          <button
+            onClick={() => setSelectedIds([])}
+            className="px-3 py-1 text-xs text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {selectedIds.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Pick athletes or a group to compare their progressions
+        </p>
+      ) : chartData.datasets.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {unit === "relative"
+            ? "No records with a body weight logged for this exercise"
+            : "No records for this exercise"}
+        </p>
+      ) : (
+        <div>
+          <div className="h-80">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+          {chartAthleteIds.some((id) =>
+            progression.pending[id].some(Boolean)
+          ) && (
+            <p className="mt-2 text-xs text-gray-500">
+              Hollow points are records still waiting for your review.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
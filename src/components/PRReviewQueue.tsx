@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { Check, ShieldCheck, X } from "lucide-react";
+import clsx from "clsx";
+import {
+  fetchPRsForReview,
+  reviewPersonalRecord,
+} from "../services/personalRecords";
+import type { PRForReview } from "../services/personalRecords";
+import { getSignedVideoUrls } from "../services/prVideos";
+import type { Profile } from "../lib/database.types";
+
+interface Props {
+  athletes: Profile[];
+  theme?: "light" | "dark" | "system";
+}
+
+// Personal records the athletes added, waiting for the coach to approve
+// them before they count on the leaderboards
+export default function PRReviewQueue({ athletes, theme = "light" }: Props) {
+  const [records, setRecords] = useState<PRForReview[]>([]);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [comment, setComment] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [videoUrls, setVideoUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchPRsForReview(athletes.map((a) => a.id))
+      .then(setRecords)
+      .catch((err) => console.error("Error fetching records to review:", err));
+  }, [athletes]);
+
+  useEffect(() => {
+    getSignedVideoUrls(records.map((r) => r.video_url))
+      .then(setVideoUrls)
+      .catch((err) => console.error("Error signing video URLs:", err));
+  }, [records]);
+
+  const handleReview = async (
+    id: string,
+    status: "approved" | "rejected",
+    reason?: string
+  ) => {
+    setSavingId(id);
+    setError(null);
+    try {
+      await reviewPersonalRecord(id, status, reason);
+      setRecords((prev) => prev.filter((r) => r.id !== id));
+      setRejectingId(null);
+      setComment("");
+    } catch (err) {
+      console.error("Error reviewing personal record:", err);
+      setError("Failed to save the review");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (records.length === 0) return null;
+
+  const mutedClass = theme === "dark" ? "text-blue-200" : "text-gray-500";
+
+  return (
+    <div
+      className={clsx(
+        "rounded-3xl shadow-lg p-8 mb-12 transition-all duration-300 backdrop-blur-xl border",
+        theme === "dark"
+          ? "bg-blue-900/40 ring-1 ring-blue-700/50 border-blue-700/30"
+          : "bg-white/80 border-blue-200/50"
+      )}
+    >
+      <div className="flex items-center gap-3 mb-6">
+        <ShieldCheck className="w-6 h-6 text-yellow-500" />
+        <h2
+          className={clsx(
+            "text-2xl font-bold tracking-tight",
+            theme === "dark" ? "text-blue-100" : "text-blue-900"
+          )}
+        >
+          Records to Review
+        </h2>
+        <span className="px-2.5 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-sm font-semibold">
+          {records.length}
+        </span>
+      </div>
+
+      {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {records.map((record) => (
+          <div
+            key={record.id}
+            className={clsx(
+              "rounded-xl p-4 border",
+              theme === "dark"
+                ? "border-blue-700/50 text-blue-100"
+                : "border-gray-200 text-gray-900"
+            )}
+          >
+            <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1 mb-3">
+              <span className="font-semibold">
+                {athletes.find((a) => a.id === record.athlete_id)?.full_name ||
+                  "Unknown athlete"}
+              </span>
+              <span>
+                {record.exercise} · {record.weight} kg
+              </span>
+              <span className={clsx("text-sm", mutedClass)}>
+                {new Date(record.record_date).toLocaleDateString()}
+              </span>
+            </div>
+            {record.video_url && videoUrls[record.video_url] ? (
+              <video
+                src={videoUrls[record.video_url]}
+                controls
+                preload="metadata"
+                className="w-full max-h-72 rounded-lg bg-black"
+              />
+            ) : (
+              <p className={clsx("text-sm italic", mutedClass)}>No video</p>
+            )}
+            {record.notes && (
+              <p className={clsx("mt-2 text-sm", mutedClass)}>{record.notes}</p>
+            )}
+
+            {rejectingId === record.id ? (
+              <div className="mt-3 space-y-2">
+                <textarea
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Why is the record rejected? (e.g. depth not reached)"
+                  rows={2}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm text-gray-900"
+                />
+                <div className="flex gap-2">
+                  <button
+                    onClick={() =>
+                      handleReview(record.id, "rejected", comment.trim())
+                    }
+                    disabled={savingId === record.id}
+                    className="px-3 py-1.5 rounded-lg bg-red-600 text-white text-sm font-medium hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Reject Record
+                  </button>
+                  <button
+                    onClick={() => {
+                      setRejectingId(null);
+                      setComment("");
+                    }}
+                    className={clsx("px-3 py-1.5 text-sm", mutedClass)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="mt-3 flex gap-2">
+                <button
+                  onClick={() => handleReview(record.id, "approved")}
+                  disabled={savingId === record.id}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-green-600 text-white text-sm font-medium hover:bg-green-700 disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4" />
+                  Approve
+                </button>
+                <button
+                  onClick={() => {
+                    setRejectingId(record.id);
+                    setComment("");
+                  }}
+                  disabled={savingId === record.id}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg border border-red-300 text-red-600 text-sm font-medium hover:bg-red-50 disabled:opacity-50"
+                >
+                  <X className="w-4 h-4" />
+                  Reject
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Film, Play, Trash2 } from "lucide-react";
+import clsx from "clsx";
+import {
+  VERIFICATION_LABELS,
+  VERIFICATION_STYLES,
+} from "../lib/prVerification";
+import {
+  fetchAthleteVideos,
+  getSignedThumbnailUrls,
+  getSignedVideoUrls,
+  removeUnusedVideos,
+} from "../services/prVideos";
+import type { PRVideo } from "../services/prVideos";
+
+interface Props {
+  athleteId: string;
+  refreshKey?: number;
+}
+
+// Every lift video of the athlete's personal records, played inline
+export default function PRVideoGallery({ athleteId, refreshKey }: Props) {
+  const [videos, setVideos] = useState<PRVideo[]>([]);
+  const [videoUrls, setVideoUrls] = useState<Record<string, string>>({});
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cleaning, setCleaning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    setPlayingId(null);
+    fetchAthleteVideos(athleteId)
+      .then(async (data) => {
+        const refs = data.map((v) => v.video_url);
+        const [urls, thumbnailUrls] = await Promise.all([
+          getSignedVideoUrls(refs),
+          getSignedThumbnailUrls(refs),
+        ]);
+        setVideos(data);
+        setVideoUrls(urls);
+        setThumbnails(thumbnailUrls);
+      })
+      .catch((err) => {
+        console.error("Error fetching lift videos:", err);
+        setError("Failed to load the videos");
+      })
+      .finally(() => setLoading(false));
+  }, [athleteId, refreshKey]);
+
+  const handleCleanup = async () => {
+    setCleaning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const removed = await removeUnusedVideos(athleteId);
+      setMessage(
+        removed === 0
+          ? "No unused uploads found"
+          : `Removed ${removed} unused file${removed === 1 ? "" : "s"}`
+      );
+    } catch (err) {
+      console.error("Error removing unused videos:", err);
+      setError("Failed to remove unused uploads");
+    } finally {
+      setCleaning(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading videos...</p>;
+  }
+
+  const playing = videos.find((v) => v.id === playingId);
+
+  return (
+    <div className="space-y-4">
+      {playing && videoUrls[playing.video_url] && (
+        <video
+          key={playing.id}
+          src={videoUrls[playing.video_url]}
+          controls
+          autoPlay
+          className="w-full max-h-96 rounded-lg bg-black"
+        />
+      )}
+
+      {videos.length === 0 ? (
+        <div className="text-center py-8">
+          <Film className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No lift videos yet</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {videos.map((video) => (
+            <button
+              key={video.id}
+              onClick={() => setPlayingId(video.id)}
+              disabled={!videoUrls[video.video_url]}
+              className={clsx(
+                "text-left rounded-lg bg-white border overflow-hidden hover:shadow-md transition disabled:opacity-50",
+                video.id === playingId
+                  ? "border-blue-500 ring-2 ring-blue-500/50"
+                  : "border-gray-200"
+              )}
+            >
+              <div className="relative aspect-video bg-gray-900">
+                {thumbnails[video.video_url] ? (
+                  <img
+                    src={thumbnails[video.video_url]}
+                    alt=""
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <Film className="absolute inset-0 m-auto w-8 h-8 text-gray-500" />
+                )}
+                <Play className="absolute bottom-2 right-2 w-5 h-5 text-white drop-shadow" />
+              </div>
+              <div className="p-2 space-y-1 text-sm">
+                <p className="font-medium text-gray-900 truncate">
+                  {video.exercise} · {video.weight} kg
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-gray-500">
+                    {new Date(video.record_date).toLocaleDateString()}
+                  </span>
+                  <span
+                    className={clsx(
+                      "px-2 py-0.5 rounded-full text-xs font-medium",
+                      VERIFICATION_STYLES[video.verification_status]
+                    )}
+                  >
+                    {VERIFICATION_LABELS[video.verification_status]}
+                  </span>
+                </div>
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {message && <p className="text-sm text-gray-500">{message}</p>}
+      <button
+        onClick={handleCleanup}
+        disabled={cleaning}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-gray-300 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+      >
+        <Trash2 className="w-3 h-3" />
+        {cleaning ? "Removing..." : "Remove unused uploads"}
+      </button>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   Legend,
 } from "chart.js";
 import { supabase } from "../lib/supabase";
+import { withLibraryName } from "../lib/exerciseLibrary";
 import { useTheme } from "./ThemeProvider";
 import clsx from "clsx";
 
@@ -49,13 +50,15 @@ export default function PersonalRecordsChart({
       setLoading(true);
       const { data, error } = await supabase
         .from("personal_records")
-        .select("id, exercise, weight, record_date")
+        .select("id, exercise, weight, record_date, exercises(name)")
         .eq("athlete_id", athleteId)
+        .eq("status", "confirmed")
         .order("record_date", { ascending: true });
       if (!error && data) {
-        setRecords(data);
-        if (data.length > 0 && !selectedExercise) {
-          setSelectedExercise(data[0].exercise);
+        const named = data.map(withLibraryName);
+        setRecords(named);
+        if (named.length > 0 && !selectedExercise) {
+          setSelectedExercise(named[0].exercise);
         }
       }
       setLoading(false);
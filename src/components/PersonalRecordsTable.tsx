@@ -2,6 +2,34 @@ import React, { useEffect, useState, useRef } from "react";
 import { supabase } from "../lib/supabase";
 import { useTheme } from "./ThemeProvider";
 import clsx from "clsx";
+import { findExercise, getPRExercises } from "../lib/exerciseLibrary";
+import { getPreferredPointsFormula, scoreRecord } from "../lib/strength";
+import type { AthleteStrengthProfile } from "../lib/strength";
+import { fetchAthleteExerciseLibrary } from "../services/exerciseLibrary";
+import {
+  fetchAthleteStrengthStandards,
+  fetchStrengthProfiles,
+} from "../services/strength";
+import {
+  VERIFICATION_LABELS,
+  VERIFICATION_STYLES,
+} from "../lib/prVerification";
+import {
+  VIDEO_EXTENSIONS,
+  isStoredVideo,
+  validateVideoFile,
+} from "../lib/prVideos";
+import {
+  getSignedVideoUrls,
+  removePRVideo,
+  uploadPRVideo,
+} from "../services/prVideos";
+import StrengthScore from "./StrengthScore";
+import type {
+  Exercise,
+  PRVerificationStatus,
+  StrengthStandard,
+} from "../lib/database.types";
 
 interface PersonalRecord {
   id: string;
@@ -10,6 +38,9 @@ interface PersonalRecord {
   record_date: string;
   video_url: string;
   notes: string;
+  status: "suggested" | "confirmed";
+  verification_status: PRVerificationStatus;
+  verification_comment: string | null;
 }
 
 interface PersonalRecordsTableProps {
@@ -60,14 +91,6 @@ const initialForm = {
   notes: "",
 };
 
-const ALLOWED_EXERCISES = [
-  "Bench Press",
-  "Row",
-  "Deadlift",
-  "Power Clean",
-  "Squat",
-];
-
 export default function PersonalRecordsTable({
   athleteId,
   showModal,
@@ -92,12 +115,22 @@ export default function PersonalRecordsTable({
   const [selectedFileName, setSelectedFileName] = useState<string>("");
   const inputRef = useRef<HTMLInputElement | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  // Video uploaded in the open form and not saved with a record yet
+  const [uploadedVideo, setUploadedVideo] = useState<string | null>(null);
+  const [videoUrls, setVideoUrls] = useState<Record<string, string>>({});
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [strengthProfile, setStrengthProfile] =
+    useState<AthleteStrengthProfile>();
+  const [standards, setStandards] = useState<StrengthStandard[]>([]);
+  const pointsFormula = getPreferredPointsFormula();
 
   const fetchRecords = async () => {
     setLoading(true);
     const { data, error } = await supabase
       .from("personal_records")
-      .select("id, exercise, weight, record_date, video_url, notes")
+      .select(
+        "id, exercise, weight, record_date, video_url, notes, status, verification_status, verification_comment"
+      )
       .eq("athlete_id", athleteId)
       .order("exercise", { ascending: true })
       .order("record_date", { ascending: false });
@@ -111,6 +144,41 @@ export default function PersonalRecordsTable({
     // eslint-disable-next-line
   }, [athleteId, refreshKey]);
 
+  useEffect(() => {
+    getSignedVideoUrls(records.map((r) => r.video_url))
+      .then(setVideoUrls)
+      .catch((error) => console.error("Error signing video URLs:", error));
+  }, [records]);
+
+  useEffect(() => {
+    if (!athleteId || athleteId === "" || athleteId === "all") return;
+    fetchAthleteExerciseLibrary(athleteId)
+      .then(setLibrary)
+      .catch((error) =>
+        console.error("Error fetching exercise library:", error)
+      );
+    Promise.all([
+      fetchStrengthProfiles([athleteId]),
+      fetchAthleteStrengthStandards(athleteId),
+    ])
+      .then(([profiles, standards]) => {
+        setStrengthProfile(profiles[athleteId]);
+        setStandards(standards);
+      })
+      .catch((error) =>
+        console.error("Error fetching strength standards:", error)
+      );
+  }, [athleteId]);
+
+  const getStrengthScore = (rec: PersonalRecord) =>
+    scoreRecord(
+      rec,
+      strengthProfile,
+      findExercise(library, rec.exercise),
+      standards,
+      pointsFormula
+    );
+
   // Listen for external add PR button event
   useEffect(() => {
     const handler = () => {
@@ -159,40 +227,8 @@ export default function PersonalRecordsTable({
     setDeletingId(id);
     setError(null);
     try {
-      // Fetch the record to get the video_url
-      const { data: record, error: fetchError } = await supabase
-        .from("personal_records")
-        .select("video_url")
-        .eq("id", id)
-        .single();
-      if (fetchError) throw fetchError;
-      // If there is a video_url, remove the file from storage
-      if (record && record.video_url) {
-        try {
-          const bucketName = "personal-records-videos";
-          const marker = `/object/public/${bucketName}/`;
-          const idx = record.video_url.indexOf(marker);
-          if (idx !== -1) {
-            const filePath = record.video_url.substring(idx + marker.length);
-            console.log("Attempting to delete file:", filePath);
-            const { data: removeData, error: removeError } =
-              await supabase.storage.from(bucketName).remove([filePath]);
-            console.log("Remove response:", removeData, removeError);
-            if (removeError) {
-              setError(
-                "Error deleting video from storage: " + removeError.message
-              );
-            }
-          }
-        } catch (e) {
-          setError(
-            "Error deleting video from storage: " +
-              (e instanceof Error ? e.message : String(e))
-          );
-          console.error("Error deleting video from storage:", e);
-        }
-      }
-      // Now delete the record
+      // The video stays in storage: the record's history still points to
+      // it, so restoring the deleted record brings it back
       const { error } = await supabase
         .from("personal_records")
         .delete()
@@ -205,6 +241,25 @@ export default function PersonalRecordsTable({
     setDeletingId(null);
   };
 
+  // Suggested records come from logged sets (see suggestPersonalRecord)
+  const handleConfirmSuggestion = async (id: string) => {
+    setError(null);
+    const { error } = await supabase
+      .from("personal_records")
+      .update({ status: "confirmed" })
+      .eq("id", id);
+    if (error) setError("Error confirming record.");
+    else await fetchRecords();
+  };
+
+  // Removes uploads that were never saved on a record, so no record or its
+  // history points to them. Any that fail are picked up later by
+  // removeUnusedVideos.
+  const removeVideos = (refs: (string | null | undefined)[]) =>
+    Promise.all(refs.filter(isStoredVideo).map(removePRVideo)).catch((error) =>
+      console.error("Error removing unused video:", error)
+    );
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -216,20 +271,29 @@ export default function PersonalRecordsTable({
       setError("Please upload a video before adding the record.");
       return;
     }
+    const exerciseId = findExercise(library, form.exercise)?.id || null;
+    let saved = false;
     if (editingId) {
       // Update
       const { error } = await supabase
         .from("personal_records")
-        .update({ ...form })
+        .update({ ...form, exercise_id: exerciseId })
         .eq("id", editingId);
       if (error) setError("Error updating record.");
+      else saved = true;
     } else {
       // Insert
       const { error } = await supabase
         .from("personal_records")
-        .insert({ ...form, athlete_id: athleteId });
+        .insert({ ...form, exercise_id: exerciseId, athlete_id: athleteId });
       if (error) setError("Error adding record.");
+      else saved = true;
     }
+    // An upload that did not make it onto the record is no longer needed.
+    // A replaced video is kept for the record's history.
+    if (!saved || uploadedVideo !== form.video_url)
+      removeVideos([uploadedVideo]);
+    setUploadedVideo(null);
     setShowModal(false);
     setEditingId(null);
     setForm({
@@ -244,26 +308,19 @@ export default function PersonalRecordsTable({
 
   // Video upload handler
   const handleVideoUpload = async (file: File) => {
+    const validationError = validateVideoFile(file);
+    if (validationError) {
+      setUploadError(validationError);
+      return;
+    }
     setUploading(true);
     setUploadError(null);
     setUploadProgress(0);
     try {
-      const fileExt = file.name.split(".").pop();
-      const filePath = `${athleteId}/${Date.now()}.${fileExt}`;
-      // Supabase Storage upload
-      const { data, error } = await supabase.storage
-        .from("personal-records-videos")
-        .upload(filePath, file, {
-          cacheControl: "3600",
-          upsert: false,
-        });
-      if (error) throw error;
-      // Get public URL
-      const { data: publicUrlData } = supabase.storage
-        .from("personal-records-videos")
-        .getPublicUrl(filePath);
-      if (!publicUrlData?.publicUrl)
-        throw new Error("Failed to get public URL");
+      const path = await uploadPRVideo(athleteId, file);
+      // Uploading again replaces the earlier upload of this form
+      removeVideos([uploadedVideo]);
+      setUploadedVideo(path);
       setForm(
         (prev: {
           exercise: string;
@@ -273,7 +330,7 @@ export default function PersonalRecordsTable({
           notes: string;
         }) => ({
           ...prev,
-          video_url: publicUrlData.publicUrl,
+          video_url: path,
         })
       );
       // Show success message (keep until modal closes or record is added)
@@ -288,9 +345,12 @@ export default function PersonalRecordsTable({
     }
   };
 
-  // When modal closes or record is added, clear the success message
+  // When modal closes or record is added, clear the upload messages
   useEffect(() => {
-    if (!showModal) setSuccessMessage(null);
+    if (!showModal) {
+      setSuccessMessage(null);
+      setUploadError(null);
+    }
   }, [showModal]);
 
   if (loading) {
@@ -320,6 +380,9 @@ export default function PersonalRecordsTable({
                 <th className="px-3 py-3 text-left font-semibold text-gray-700 whitespace-nowrap">
                   LOAD (KG)
                 </th>
+                <th className="px-3 py-3 text-left font-semibold text-gray-700 whitespace-nowrap">
+                  RELATIVE
+                </th>
                 <th className="px-3 py-3 text-left font-semibold text-gray-700 whitespace-nowrap">
                   RECORD DATE
                 </th>
@@ -334,7 +397,7 @@ export default function PersonalRecordsTable({
               {records.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={canEdit ? 4 : 3}
+                    colSpan={canEdit ? 5 : 4}
                     className="py-8 text-center text-gray-400 text-sm bg-white rounded-2xl shadow-sm border border-gray-100"
                   >
                     No personal best found.
@@ -348,17 +411,48 @@ export default function PersonalRecordsTable({
                   >
                     <td className="px-3 py-3 font-medium text-gray-900 whitespace-nowrap">
                       {rec.exercise}
+                      {rec.status === "suggested" && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          Suggested
+                        </span>
+                      )}
+                      {rec.status === "confirmed" &&
+                        rec.verification_status !== "approved" && (
+                          <span
+                            className={clsx(
+                              "ml-2 px-2 py-0.5 rounded-full text-xs font-medium",
+                              VERIFICATION_STYLES[rec.verification_status]
+                            )}
+                          >
+                            {VERIFICATION_LABELS[rec.verification_status]}
+                          </span>
+                        )}
+                      {rec.verification_status === "rejected" &&
+                        rec.verification_comment && (
+                          <div className="mt-1 text-xs font-normal text-red-600 whitespace-normal">
+                            {rec.verification_comment}
+                          </div>
+                        )}
                     </td>
-                    <td className="px-3 py-3 text-gray-700 whitespace-nowrap">
+                    <td
+                      className="px-3 py-3 text-gray-700 whitespace-nowrap"
+                      title={rec.notes || undefined}
+                    >
                       {rec.weight}
                     </td>
+                    <td className="px-3 py-3 whitespace-nowrap">
+                      <StrengthScore
+                        score={getStrengthScore(rec)}
+                        formula={pointsFormula}
+                      />
+                    </td>
                     <td className="px-3 py-3 text-gray-700 whitespace-nowrap">
                       {new Date(rec.record_date).toLocaleDateString()}
                     </td>
                     <td className="px-3 py-3 whitespace-nowrap text-center">
-                      {rec.video_url && (
+                      {videoUrls[rec.video_url] && (
                         <a
-                          href={rec.video_url}
+                          href={videoUrls[rec.video_url]}
                           target="_blank"
                           rel="noopener noreferrer"
                           className="inline-block mr-2 px-2 py-1 rounded text-xs font-medium bg-blue-500 text-white hover:bg-blue-600 transition"
@@ -366,12 +460,20 @@ export default function PersonalRecordsTable({
                           View Video
                         </a>
                       )}
+                      {canEdit && rec.status === "suggested" && (
+                        <button
+                          onClick={() => handleConfirmSuggestion(rec.id)}
+                          className="text-green-600 hover:text-green-800 font-medium text-xs sm:text-sm px-2 py-1 rounded-lg transition"
+                        >
+                          Confirm
+                        </button>
+                      )}
                       {canEdit && (
                         <button
                           onClick={() => handleDelete(rec.id)}
                           className="text-red-500 hover:text-red-700 font-medium text-xs sm:text-sm px-2 py-1 rounded-lg transition"
                         >
-                          Delete
+                          {rec.status === "suggested" ? "Dismiss" : "Delete"}
                         </button>
                       )}
                     </td>
@@ -399,7 +501,29 @@ export default function PersonalRecordsTable({
               >
                 <div className="font-semibold text-gray-900 text-base mb-1">
                   {rec.exercise}
+                  {rec.status === "suggested" && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      Suggested
+                    </span>
+                  )}
+                  {rec.status === "confirmed" &&
+                    rec.verification_status !== "approved" && (
+                      <span
+                        className={clsx(
+                          "ml-2 px-2 py-0.5 rounded-full text-xs font-medium",
+                          VERIFICATION_STYLES[rec.verification_status]
+                        )}
+                      >
+                        {VERIFICATION_LABELS[rec.verification_status]}
+                      </span>
+                    )}
                 </div>
+                {rec.verification_status === "rejected" &&
+                  rec.verification_comment && (
+                    <div className="text-xs text-red-600">
+                      Coach: {rec.verification_comment}
+                    </div>
+                  )}
                 <div className="flex items-center justify-between gap-2 text-sm text-gray-700 mb-2">
                   <div className="flex gap-4">
                     <span>
@@ -410,9 +534,9 @@ export default function PersonalRecordsTable({
                       {new Date(rec.record_date).toLocaleDateString()}
                     </span>
                   </div>
-                  {rec.video_url && (
+                  {videoUrls[rec.video_url] && (
                     <a
-                      href={rec.video_url}
+                      href={videoUrls[rec.video_url]}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="inline-block px-3 py-1.5 rounded-full text-xs font-semibold bg-blue-500 text-white hover:bg-blue-600 transition ml-2 shadow-sm active:scale-95 max-w-[120px] text-center"
@@ -422,6 +546,29 @@ export default function PersonalRecordsTable({
                     </a>
                   )}
                 </div>
+                <StrengthScore
+                  score={getStrengthScore(rec)}
+                  formula={pointsFormula}
+                />
+                {rec.status === "suggested" && (
+                  <div className="text-xs text-gray-500">{rec.notes}</div>
+                )}
+                {canEdit && rec.status === "suggested" && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleConfirmSuggestion(rec.id)}
+                      className="flex-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-green-600 text-white hover:bg-green-700 transition"
+                    >
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => handleDelete(rec.id)}
+                      className="flex-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-100 text-gray-700 hover:bg-gray-200 transition"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
           </div>
@@ -484,9 +631,9 @@ export default function PersonalRecordsTable({
                   <option value="" disabled>
                     Select exercise
                   </option>
-                  {ALLOWED_EXERCISES.map((ex) => (
-                    <option key={ex} value={ex}>
-                      {ex}
+                  {getPRExercises(library).map((ex) => (
+                    <option key={ex.id} value={ex.name}>
+                      {ex.name}
                     </option>
                   ))}
                 </select>
@@ -574,7 +721,7 @@ export default function PersonalRecordsTable({
                 </label>
                 <input
                   type="url"
-                  value={form.video_url || ""}
+                  value={isStoredVideo(form.video_url) ? "" : form.video_url}
                   onChange={(e) =>
                     setForm(
                       (prev: {
@@ -595,7 +742,11 @@ export default function PersonalRecordsTable({
                       ? "bg-slate-800/50 border-slate-700 text-white placeholder-slate-400 focus:border-yellow-500/50 focus:ring-2 focus:ring-yellow-500/50"
                       : "bg-white border-gray-300 text-gray-900 placeholder-gray-400 focus:border-yellow-500 focus:ring-2 focus:ring-yellow-500/50"
                   )}
-                  placeholder="https://..."
+                  placeholder={
+                    isStoredVideo(form.video_url)
+                      ? "Uploaded video"
+                      : "https://..."
+                  }
                   disabled={uploading}
                 />
                 {/* Custom file input */}
@@ -604,7 +755,7 @@ export default function PersonalRecordsTable({
                     id="video-upload"
                     ref={inputRef}
                     type="file"
-                    accept="video/*"
+                    accept={Object.keys(VIDEO_EXTENSIONS).join(",")}
                     className="hidden"
                     onChange={async (e) => {
                       const file = e.target.files?.[0];
@@ -652,6 +803,9 @@ export default function PersonalRecordsTable({
                     <span>{successMessage}</span>
                   </div>
                 )}
+                {uploadError && (
+                  <p className="mt-2 text-xs text-red-500">{uploadError}</p>
+                )}
               </div>
               <div>
                 <label
@@ -692,6 +846,8 @@ export default function PersonalRecordsTable({
                 <button
                   type="button"
                   onClick={() => {
+                    removeVideos([uploadedVideo]);
+                    setUploadedVideo(null);
                     setShowModal(false);
                     setEditingId(null);
                     setForm(initialForm);
@@ -0,0 +1,633 @@
+import React, { useEffect, useState } from "react";
+import { Bar } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { ClipboardList, Edit2, Plus, Trash2, X } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import {
+  TRAINING_TYPES,
+  addDays,
+  calculateLoadDeviation,
+  getDeviationColor,
+  getPlannedWeeklyLoad,
+} from "../lib/trainingLoad";
+import type {
+  AthleteGroup,
+  DailyTrainingLoad,
+  PlannedTrainingLoad,
+  PlannedTrainingSession,
+  Profile,
+  TrainingType,
+} from "../lib/database.types";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface PlannedVsActualLoadProps {
+  managerId: string;
+  athletes: Profile[];
+  weekStart: string; // Monday of the most recent week shown
+  weeks?: number;
+}
+
+interface SessionDraft {
+  date: string;
+  session: "AM" | "PM";
+  training_type: TrainingType | "";
+  duration: number;
+  target_rpe: number;
+}
+
+const formatDeviation = (deviation: number | null) =>
+  deviation === null
+    ? "-"
+    : `${deviation > 0 ? "+" : ""}${deviation.toFixed(0)}%`;
+
+export default function PlannedVsActualLoad({
+  managerId,
+  athletes,
+  weekStart,
+  weeks = 4,
+}: PlannedVsActualLoadProps) {
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState<string>("");
+  const [plans, setPlans] = useState<PlannedTrainingLoad[]>([]);
+  const [plannedSessions, setPlannedSessions] = useState<
+    PlannedTrainingSession[]
+  >([]);
+  const [actualLoads, setActualLoads] = useState<DailyTrainingLoad[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [editingWeek, setEditingWeek] = useState<string | null>(null);
+  const [planForm, setPlanForm] = useState<{
+    planned_load: number;
+    notes: string;
+    sessions: SessionDraft[];
+  }>({ planned_load: 0, notes: "", sessions: [] });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const weekStarts = Array.from({ length: weeks }, (_, i) =>
+    addDays(weekStart, -7 * (weeks - 1 - i))
+  );
+  const rangeStart = weekStarts[0];
+  const rangeEnd = addDays(weekStart, 6);
+  const groupAthletes = athletes.filter((a) => a.group_id === selectedGroupId);
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      const { data, error } = await supabase
+        .from("athlete_groups")
+        .select("*")
+        .eq("manager_id", managerId)
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching groups:", error);
+        return;
+      }
+
+      setGroups(data || []);
+      if (data && data.length > 0) {
+        setSelectedGroupId((current) => current || data[0].id);
+      }
+    };
+
+    fetchGroups();
+  }, [managerId]);
+
+  useEffect(() => {
+    if (!selectedGroupId || !weekStart) return;
+
+    const fetchPlansAndLoads = async () => {
+      setLoading(true);
+      try {
+        const { data: plansData, error: plansError } = await supabase
+          .from("planned_training_loads")
+          .select("*")
+          .eq("group_id", selectedGroupId)
+          .gte("week_start", rangeStart)
+          .lte("week_start", weekStart);
+
+        if (plansError) throw plansError;
+
+        const planIds = (plansData || []).map((p) => p.id);
+        let sessionsData: PlannedTrainingSession[] = [];
+        if (planIds.length > 0) {
+          const { data, error: sessionsError } = await supabase
+            .from("planned_training_sessions")
+            .select("*")
+            .in("plan_id", planIds)
+            .order("date");
+
+          if (sessionsError) throw sessionsError;
+          sessionsData = data || [];
+        }
+
+        const athleteIds = athletes
+          .filter((a) => a.group_id === selectedGroupId)
+          .map((a) => a.id);
+        let loadsData: DailyTrainingLoad[] = [];
+        if (athleteIds.length > 0) {
+          const { data, error: loadsError } = await supabase
+            .from("daily_training_loads")
+            .select("*")
+            .in("athlete_id", athleteIds)
+            .gte("date", rangeStart)
+            .lte("date", rangeEnd);
+
+          if (loadsError) throw loadsError;
+          loadsData = data || [];
+        }
+
+        setPlans(plansData || []);
+        setPlannedSessions(sessionsData);
+        setActualLoads(loadsData);
+      } catch (error) {
+        console.error("Error fetching planned vs actual load:", error);
+        setPlans([]);
+        setPlannedSessions([]);
+        setActualLoads([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlansAndLoads();
+  }, [selectedGroupId, weekStart, rangeStart, rangeEnd, athletes, refreshKey]);
+
+  const getPlan = (week: string) => plans.find((p) => p.week_start === week);
+
+  const getPlannedLoad = (week: string) => {
+    const plan = getPlan(week);
+    return getPlannedWeeklyLoad(
+      plan,
+      plannedSessions.filter((s) => s.plan_id === plan?.id)
+    );
+  };
+
+  const getActualLoad = (athleteId: string, week: string) => {
+    const weekEnd = addDays(week, 6);
+    return actualLoads
+      .filter(
+        (l) => l.athlete_id === athleteId && l.date >= week && l.date <= weekEnd
+      )
+      .reduce((sum, l) => sum + (Number(l.daily_load) || 0), 0);
+  };
+
+  const getTeamAverageLoad = (week: string) =>
+    groupAthletes.length > 0
+      ? groupAthletes.reduce((sum, a) => sum + getActualLoad(a.id, week), 0) /
+        groupAthletes.length
+      : 0;
+
+  const openPlanEditor = (week: string) => {
+    const plan = getPlan(week);
+    setPlanForm({
+      planned_load: Number(plan?.planned_load) || 0,
+      notes: plan?.notes || "",
+      sessions: plannedSessions
+        .filter((s) => s.plan_id === plan?.id)
+        .map((s) => ({
+          date: s.date,
+          session: s.session,
+          training_type: s.training_type || "",
+          duration: s.duration,
+          target_rpe: s.target_rpe,
+        })),
+    });
+    setError(null);
+    setEditingWeek(week);
+  };
+
+  const updateSessionDraft = (index: number, changes: Partial<SessionDraft>) =>
+    setPlanForm((prev) => ({
+      ...prev,
+      sessions: prev.sessions.map((s, i) =>
+        i === index ? { ...s, ...changes } : s
+      ),
+    }));
+
+  const handleSavePlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingWeek || !selectedGroupId) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      // The plan and its sessions are replaced in one transaction, so a
+      // failed save leaves the previous plan in place
+      const { error: saveError } = await supabase.rpc(
+        "save_planned_training_load",
+        {
+          p_group_id: selectedGroupId,
+          p_week_start: editingWeek,
+          p_planned_load: planForm.planned_load,
+          p_notes: planForm.notes.trim() || null,
+          p_sessions: planForm.sessions.map((s) => ({
+            date: s.date,
+            session: s.session,
+            training_type: s.training_type || null,
+            duration: s.duration,
+            target_rpe: s.target_rpe,
+          })),
+        }
+      );
+
+      if (saveError) throw saveError;
+
+      setEditingWeek(null);
+      setRefreshKey((prev) => prev + 1);
+    } catch (error) {
+      console.error("Error saving planned load:", error);
+      setError("Failed to save the training plan");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatWeek = (week: string) =>
+    new Date(week).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+
+  const chartData = {
+    labels: weekStarts.map(formatWeek),
+    datasets: [
+      {
+        label: "Planned",
+        data: weekStarts.map((w) => Math.round(getPlannedLoad(w))),
+        backgroundColor: "rgba(148, 163, 184, 0.6)",
+        maxBarThickness: 40,
+      },
+      {
+        label: "Actual (group average)",
+        data: weekStarts.map((w) => Math.round(getTeamAverageLoad(w))),
+        backgroundColor: "rgba(79, 70, 229, 0.8)",
+        maxBarThickness: 40,
+      },
+    ],
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <ClipboardList className="h-5 w-5 mr-2 text-indigo-500" />
+          Planned vs. Actual Load
+        </h2>
+        <select
+          value={selectedGroupId}
+          onChange={(e) => setSelectedGroupId(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          {groups.length === 0 && <option value="">No groups</option>}
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>
+              {group.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-center py-8 text-gray-500">
+          Create an athlete group to plan its training load.
+        </p>
+      ) : loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="bg-white border-b border-gray-200">
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Athlete
+                  </th>
+                  {weekStarts.map((week) => (
+                    <th
+                      key={week}
+                      className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider"
+                    >
+                      <div className="flex items-center gap-2">
+                        Week of {formatWeek(week)}
+                        <button
+                          onClick={() => openPlanEditor(week)}
+                          className="text-indigo-600 hover:text-indigo-800"
+                          title="Edit plan"
+                        >
+                          <Edit2 className="h-3.5 w-3.5" />
+                        </button>
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                <tr className="bg-gray-50">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">
+                    Planned
+                  </td>
+                  {weekStarts.map((week) => (
+                    <td
+                      key={week}
+                      className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900"
+                    >
+                      {getPlan(week) ? Math.round(getPlannedLoad(week)) : "-"}
+                    </td>
+                  ))}
+                </tr>
+                {groupAthletes.map((athlete) => (
+                  <tr key={athlete.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {athlete.full_name}
+                    </td>
+                    {weekStarts.map((week) => {
+                      const actual = getActualLoad(athlete.id, week);
+                      const deviation = calculateLoadDeviation(
+                        getPlannedLoad(week),
+                        actual
+                      );
+                      return (
+                        <td
+                          key={week}
+                          className="px-4 py-3 whitespace-nowrap text-sm text-gray-900"
+                        >
+                          {Math.round(actual)}{" "}
+                          <span
+                            className={`text-xs font-semibold ${getDeviationColor(
+                              deviation
+                            )}`}
+                          >
+                            ({formatDeviation(deviation)})
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                <tr className="bg-blue-50 border-t-2 border-blue-200">
+                  <td className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900">
+                    Group Average
+                  </td>
+                  {weekStarts.map((week) => {
+                    const average = getTeamAverageLoad(week);
+                    const deviation = calculateLoadDeviation(
+                      getPlannedLoad(week),
+                      average
+                    );
+                    return (
+                      <td
+                        key={week}
+                        className="px-4 py-3 whitespace-nowrap text-sm font-semibold text-gray-900"
+                      >
+                        {Math.round(average)}{" "}
+                        <span
+                          className={`text-xs ${getDeviationColor(deviation)}`}
+                        >
+                          ({formatDeviation(deviation)})
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-64">
+            <Bar
+              data={chartData}
+              options={{
+                maintainAspectRatio: false,
+                scales: {
+                  y: {
+                    beginAtZero: true,
+                    title: { display: true, text: "Load (AU)" },
+                  },
+                },
+                plugins: { legend: { position: "top" } },
+              }}
+            />
+          </div>
+        </>
+      )}
+
+      {editingWeek && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={handleSavePlan}
+            className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">
+                Plan for week of {formatWeek(editingWeek)}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setEditingWeek(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Planned weekly load (AU)
+              </label>
+              <input
+                type="number"
+                min={0}
+                value={planForm.planned_load}
+                disabled={planForm.sessions.length > 0}
+                onChange={(e) =>
+                  setPlanForm({
+                    ...planForm,
+                    planned_load: Number(e.target.value) || 0,
+                  })
+                }
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm disabled:bg-gray-100"
+              />
+              {planForm.sessions.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  Calculated from planned sessions:{" "}
+                  {getPlannedWeeklyLoad(undefined, planForm.sessions)} AU
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <textarea
+                value={planForm.notes}
+                onChange={(e) =>
+                  setPlanForm({ ...planForm, notes: e.target.value })
+                }
+                rows={2}
+                className="w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              />
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-sm font-medium text-gray-700">
+                  Planned sessions (optional)
+                </span>
+                <button
+                  type="button"
+                  onClick={() =>
+                    setPlanForm({
+                      ...planForm,
+                      sessions: [
+                        ...planForm.sessions,
+                        {
+                          date: editingWeek,
+                          session: "AM",
+                          training_type: "",
+                          duration: 60,
+                          target_rpe: 5,
+                        },
+                      ],
+                    })
+                  }
+                  className="inline-flex items-center text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add session
+                </button>
+              </div>
+              <div className="space-y-2">
+                {planForm.sessions.map((session, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-2 sm:grid-cols-6 gap-2 items-center"
+                  >
+                    <input
+                      type="date"
+                      value={session.date}
+                      min={editingWeek}
+                      max={addDays(editingWeek, 6)}
+                      onChange={(e) =>
+                        updateSessionDraft(index, { date: e.target.value })
+                      }
+                      className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    />
+                    <select
+                      value={session.session}
+                      onChange={(e) =>
+                        updateSessionDraft(index, {
+                          session: e.target.value as "AM" | "PM",
+                        })
+                      }
+                      className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    >
+                      <option value="AM">AM</option>
+                      <option value="PM">PM</option>
+                    </select>
+                    <select
+                      value={session.training_type}
+                      onChange={(e) =>
+                        updateSessionDraft(index, {
+                          training_type: e.target.value as TrainingType | "",
+                        })
+                      }
+                      className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    >
+                      <option value="">Type</option>
+                      {TRAINING_TYPES.map((type) => (
+                        <option key={type.value} value={type.value}>
+                          {type.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={session.duration}
+                      title="Duration (min)"
+                      onChange={(e) =>
+                        updateSessionDraft(index, {
+                          duration: Number(e.target.value) || 1,
+                        })
+                      }
+                      className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={session.target_rpe}
+                      title="Target RPE"
+                      onChange={(e) =>
+                        updateSessionDraft(index, {
+                          target_rpe: Math.min(
+                            10,
+                            Math.max(1, Number(e.target.value) || 1)
+                          ),
+                        })
+                      }
+                      className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setPlanForm({
+                          ...planForm,
+                          sessions: planForm.sessions.filter(
+                            (_, i) => i !== index
+                          ),
+                        })
+                      }
+                      className="text-red-500 hover:text-red-700 justify-self-start"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setEditingWeek(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+              >
+                {saving ? "Saving..." : "Save Plan"}
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { POINTS_FORMULAS, setPreferredPointsFormula } from "../lib/strength";
+import type { PointsFormula } from "../lib/strength";
+
+interface Props {
+  value: PointsFormula;
+  onChange: (formula: PointsFormula) => void;
+  className?: string;
+}
+
+// Points formula for the powerlifts, remembered across views
+export default function PointsFormulaSelect({
+  value,
+  onChange,
+  className,
+}: Props) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => {
+        const formula = e.target.value as PointsFormula;
+        setPreferredPointsFormula(formula);
+        onChange(formula);
+      }}
+      className={className}
+      aria-label="Points formula"
+    >
+      {POINTS_FORMULAS.map((f) => (
+        <option key={f.value} value={f.value}>
+          {f.label}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,119 @@
+import clsx from "clsx";
+import { LOAD_TYPES } from "../lib/prescriptions";
+import type {
+  ExercisePrescription,
+  PrescriptionLoadType,
+} from "../lib/database.types";
+
+interface PrescriptionInputsProps {
+  prescription: ExercisePrescription;
+  onChange: (prescription: ExercisePrescription) => void;
+  theme: "light" | "dark" | "system";
+}
+
+type NumericField = "sets" | "reps" | "load_value" | "rest_seconds";
+
+export default function PrescriptionInputs({
+  prescription,
+  onChange,
+  theme,
+}: PrescriptionInputsProps) {
+  const inputClassName = clsx(
+    "w-full px-2 py-1 rounded border text-sm",
+    theme === "dark"
+      ? "bg-blue-900/50 border-blue-700 text-blue-100"
+      : "bg-white border-blue-300 text-blue-900"
+  );
+  const labelClassName = clsx(
+    "block text-xs mb-1",
+    theme === "dark" ? "text-blue-300" : "text-blue-600"
+  );
+
+  const setNumber = (field: NumericField, value: string) =>
+    onChange({
+      ...prescription,
+      [field]: value === "" ? null : Math.abs(Number(value)),
+    });
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+      <div>
+        <label className={labelClassName}>Sets</label>
+        <input
+          type="number"
+          min="1"
+          value={prescription.sets ?? ""}
+          onChange={(e) => setNumber("sets", e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>Reps</label>
+        <input
+          type="number"
+          min="1"
+          value={prescription.reps ?? ""}
+          onChange={(e) => setNumber("reps", e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>Load</label>
+        <select
+          value={prescription.load_type ?? ""}
+          onChange={(e) =>
+            onChange({
+              ...prescription,
+              load_type: (e.target.value ||
+                null) as PrescriptionLoadType | null,
+              load_value: e.target.value ? prescription.load_value : null,
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="">-</option>
+          {LOAD_TYPES.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className={labelClassName}>Value</label>
+        <input
+          type="number"
+          min="0"
+          step={prescription.load_type === "rpe" ? "0.5" : "any"}
+          value={prescription.load_value ?? ""}
+          onChange={(e) => setNumber("load_value", e.target.value)}
+          disabled={!prescription.load_type}
+          className={clsx(inputClassName, "disabled:opacity-50")}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>Rest (s)</label>
+        <input
+          type="number"
+          min="0"
+          step="15"
+          value={prescription.rest_seconds ?? ""}
+          onChange={(e) => setNumber("rest_seconds", e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div>
+        <label className={labelClassName}>Tempo</label>
+        <input
+          type="text"
+          value={prescription.tempo ?? ""}
+          onChange={(e) =>
+            onChange({ ...prescription, tempo: e.target.value || null })
+          }
+          placeholder="3-1-1-0"
+          className={inputClassName}
+        />
+      </div>
+    </div>
+  );
+}
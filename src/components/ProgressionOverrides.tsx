@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Check } from "lucide-react";
+import clsx from "clsx";
+import { getProgressionRuleLabel } from "../lib/progression";
+import {
+  fetchPendingOverrides,
+  markOverrideReviewed,
+} from "../services/progression";
+import type { ProgressionDecision, Profile } from "../lib/database.types";
+
+interface Props {
+  athletes: Profile[];
+  theme?: "light" | "dark" | "system";
+}
+
+// Suggested loads the athletes overrode, for the coach to review
+export default function ProgressionOverrides({
+  athletes,
+  theme = "light",
+}: Props) {
+  const [overrides, setOverrides] = useState<ProgressionDecision[]>([]);
+
+  useEffect(() => {
+    fetchPendingOverrides(athletes.map((a) => a.id))
+      .then(setOverrides)
+      .catch((error) =>
+        console.error("Error fetching progression overrides:", error)
+      );
+  }, [athletes]);
+
+  const handleReviewed = async (id: string) => {
+    try {
+      await markOverrideReviewed(id);
+      setOverrides((prev) => prev.filter((o) => o.id !== id));
+    } catch (error) {
+      console.error("Error reviewing progression override:", error);
+    }
+  };
+
+  if (overrides.length === 0) return null;
+
+  const mutedClass = theme === "dark" ? "text-slate-400" : "text-gray-500";
+
+  return (
+    <div className="mt-8">
+      <h3
+        className={clsx(
+          "text-lg font-semibold mb-4",
+          theme === "dark" ? "text-white" : "text-gray-900"
+        )}
+      >
+        Load Overrides to Review
+      </h3>
+      <div className="space-y-2">
+        {overrides.map((override) => {
+          const change = override.chosen_weight - override.suggested_weight;
+          return (
+            <div
+              key={override.id}
+              className={clsx(
+                "flex flex-wrap items-center gap-x-4 gap-y-1 p-3 rounded-lg text-sm",
+                theme === "dark"
+                  ? "bg-slate-700/50 text-white"
+                  : "bg-gray-50 text-gray-900"
+              )}
+            >
+              <span className="font-medium">
+                {athletes.find((a) => a.id === override.athlete_id)
+                  ?.full_name || "Unknown athlete"}
+              </span>
+              <span>{override.exercise_name}</span>
+              <span className={mutedClass}>{override.date}</span>
+              <span>
+                {override.suggested_weight} kg → {override.chosen_weight} kg
+                <span
+                  className={clsx(
+                    "ml-1",
+                    change < 0 ? "text-red-500" : "text-green-500"
+                  )}
+                >
+                  ({change > 0 ? "+" : ""}
+                  {change} kg)
+                </span>
+              </span>
+              <span className={mutedClass}>
+                {getProgressionRuleLabel(override.rule)}
+              </span>
+              {override.reason && (
+                <span className={clsx("italic", mutedClass)}>
+                  "{override.reason}"
+                </span>
+              )}
+              <button
+                onClick={() => handleReviewed(override.id)}
+                className="ml-auto flex items-center gap-1 px-2 py-1 rounded bg-blue-600 text-white text-xs hover:bg-blue-700"
+              >
+                <Check className="h-3 w-3" />
+                Reviewed
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { ArrowDown, ArrowUp } from "lucide-react";
+
+interface Props {
+  movement: number | null | undefined;
+}
+
+// Places gained or lost since the previous season
+export default function RankMovement({ movement }: Props) {
+  if (movement === undefined) return null;
+
+  if (movement === null) {
+    return (
+      <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-700">
+        New
+      </span>
+    );
+  }
+  if (movement === 0) {
+    return (
+      <span className="text-xs text-gray-400" title="Same place">
+        –
+      </span>
+    );
+  }
+
+  const Icon = movement > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={
+        movement > 0
+          ? "inline-flex items-center text-xs font-medium text-green-600"
+          : "inline-flex items-center text-xs font-medium text-red-600"
+      }
+      title={`${Math.abs(movement)} place${
+        Math.abs(movement) === 1 ? "" : "s"
+      } ${movement > 0 ? "up" : "down"} on last season`}
+    >
+      <Icon className="h-3 w-3" />
+      {Math.abs(movement)}
+    </span>
+  );
+}
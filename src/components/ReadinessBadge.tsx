@@ -0,0 +1,44 @@
+import clsx from "clsx";
+import {
+  READINESS_BASELINE_DAYS,
+  READINESS_FLAG_STYLES,
+} from "../lib/readiness";
+import type { ReadinessScore } from "../lib/readiness";
+
+interface ReadinessBadgeProps {
+  score: ReadinessScore | undefined;
+  className?: string;
+}
+
+export default function ReadinessBadge({
+  score,
+  className,
+}: ReadinessBadgeProps) {
+  if (!score) {
+    return (
+      <span
+        className={clsx(
+          "px-2.5 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-500",
+          className
+        )}
+        title="Not enough check-ins to compute readiness"
+      >
+        Readiness -
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={clsx(
+        "px-2.5 py-0.5 rounded-full text-xs font-semibold",
+        READINESS_FLAG_STYLES[score.flag],
+        className
+      )}
+      title={`Weighted z-score against the athlete's ${READINESS_BASELINE_DAYS}-day baseline`}
+    >
+      Readiness {score.score > 0 ? "+" : ""}
+      {score.score.toFixed(1)}
+    </span>
+  );
+}
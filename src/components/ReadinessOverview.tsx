@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from "react";
+import { HeartPulse, Settings } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import { fetchReadinessScores } from "../services/readiness";
+import ReadinessBadge from "./ReadinessBadge";
+import type { ReadinessScore } from "../lib/readiness";
+import type { CustomMetric, Profile } from "../lib/database.types";
+
+interface ReadinessOverviewProps {
+  managerId: string;
+  athletes: Profile[];
+  theme?: "light" | "dark" | "system";
+}
+
+export default function ReadinessOverview({
+  managerId,
+  athletes,
+  theme = "light",
+}: ReadinessOverviewProps) {
+  const [scores, setScores] = useState<ReadinessScore[]>([]);
+  const [metrics, setMetrics] = useState<CustomMetric[]>([]);
+  const [showSettings, setShowSettings] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const today = new Date().toISOString().split("T")[0];
+
+  useEffect(() => {
+    if (!managerId) return;
+
+    const fetchMetrics = async () => {
+      const { data, error } = await supabase
+        .from("custom_metrics")
+        .select("*")
+        .eq("manager_id", managerId)
+        .eq("type", "rating")
+        .order("title");
+
+      if (error) {
+        console.error("Error fetching metrics:", error);
+        return;
+      }
+
+      setMetrics(data || []);
+    };
+
+    fetchMetrics();
+  }, [managerId]);
+
+  useEffect(() => {
+    if (!managerId) return;
+
+    const loadScores = async () => {
+      try {
+        setScores(
+          await fetchReadinessScores(
+            managerId,
+            athletes.map((a) => a.id),
+            today,
+            today
+          )
+        );
+      } catch (error) {
+        console.error("Error fetching readiness scores:", error);
+        setScores([]);
+      }
+    };
+
+    loadScores();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [managerId, athletes.length, today, refreshKey]);
+
+  const updateMetric = (metricId: string, changes: Partial<CustomMetric>) =>
+    setMetrics((prev) =>
+      prev.map((m) => (m.id === metricId ? { ...m, ...changes } : m))
+    );
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const results = await Promise.all(
+      metrics.map((metric) =>
+        supabase
+          .from("custom_metrics")
+          .update({
+            readiness_weight: metric.readiness_weight,
+            readiness_invert: metric.readiness_invert,
+          })
+          .eq("id", metric.id)
+      )
+    );
+    setSaving(false);
+
+    const failed = results.find((r) => r.error);
+    if (failed) {
+      console.error("Error saving readiness settings:", failed.error);
+      setError("Failed to save readiness settings");
+      return;
+    }
+
+    setShowSettings(false);
+    setRefreshKey((key) => key + 1);
+  };
+
+  // Lowest readiness first; athletes without a score at the end
+  const sortedAthletes = [...athletes].sort((a, b) => {
+    const scoreA = scores.find((s) => s.athleteId === a.id)?.score;
+    const scoreB = scores.find((s) => s.athleteId === b.id)?.score;
+    if (scoreA === undefined) return 1;
+    if (scoreB === undefined) return -1;
+    return scoreA - scoreB;
+  });
+  const hasReadinessMetrics = metrics.some(
+    (m) => Number(m.readiness_weight) > 0
+  );
+
+  return (
+    <div
+      className={clsx(
+        "rounded-3xl shadow-lg p-8 mb-12 transition-all duration-300 backdrop-blur-xl border",
+        theme === "dark"
+          ? "bg-blue-900/40 ring-1 ring-blue-700/50 border-blue-700/30"
+          : "bg-white/80 border-blue-200/50"
+      )}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <HeartPulse className="w-6 h-6 text-rose-500" />
+          <h2
+            className={clsx(
+              "text-2xl font-bold tracking-tight",
+              theme === "dark" ? "text-blue-100" : "text-blue-900"
+            )}
+          >
+            Today's Readiness
+          </h2>
+        </div>
+        <button
+          onClick={() => setShowSettings((prev) => !prev)}
+          className={clsx(
+            "p-2 rounded-lg transition-colors",
+            theme === "dark"
+              ? "text-blue-200 hover:bg-blue-800/50"
+              : "text-gray-600 hover:bg-gray-100"
+          )}
+          title="Readiness metrics"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <form
+          onSubmit={handleSaveSettings}
+          className={clsx(
+            "mb-6 p-4 rounded-xl border space-y-3",
+            theme === "dark"
+              ? "border-blue-700/50 text-blue-100"
+              : "border-gray-200 text-gray-700"
+          )}
+        >
+          <p className="text-sm">
+            Choose the rating metrics that feed the readiness score. A weight of
+            0 leaves a metric out; tick "Higher is worse" for items such as
+            soreness or stress.
+          </p>
+          {metrics.length === 0 ? (
+            <p className="text-sm">No rating metrics configured.</p>
+          ) : (
+            metrics.map((metric) => (
+              <div
+                key={metric.id}
+                className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center"
+              >
+                <span className="text-sm font-medium">{metric.title}</span>
+                <label className="flex items-center gap-2 text-sm">
+                  Weight
+                  <input
+                    type="number"
+                    step="0.5"
+                    min={0}
+                    value={metric.readiness_weight}
+                    onChange={(e) =>
+                      updateMetric(metric.id, {
+                        readiness_weight: Number(e.target.value),
+                      })
+                    }
+                    className="w-20 rounded-md border-gray-300 shadow-sm text-gray-900 sm:text-sm"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={metric.readiness_invert}
+                    onChange={(e) =>
+                      updateMetric(metric.id, {
+                        readiness_invert: e.target.checked,
+                      })
+                    }
+                    className="rounded border-gray-300"
+                  />
+                  Higher is worse
+                </label>
+              </div>
+            ))
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={saving || metrics.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!hasReadinessMetrics ? (
+        <p
+          className={clsx(
+            "text-sm",
+            theme === "dark" ? "text-blue-200" : "text-gray-500"
+          )}
+        >
+          No metrics feed the readiness score yet. Use the settings to pick
+          them.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+          {sortedAthletes.map((athlete) => (
+            <div
+              key={athlete.id}
+              className={clsx(
+                "flex items-center justify-between gap-2 p-3 rounded-xl border",
+                theme === "dark"
+                  ? "border-blue-700/50 text-blue-100"
+                  : "border-gray-200 text-gray-900"
+              )}
+            >
+              <span className="text-sm font-medium truncate">
+                {athlete.full_name}
+              </span>
+              <ReadinessBadge
+                score={scores.find((s) => s.athleteId === athlete.id)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useEffect, useState } from "react";
+import { History, RotateCcw } from "lucide-react";
+import clsx from "clsx";
+import {
+  HISTORY_OPERATION_LABELS,
+  HISTORY_OPERATION_STYLES,
+  HISTORY_TABLES,
+  canRestore,
+  describeHistoryRecord,
+  diffHistoryEntry,
+} from "../lib/recordHistory";
+import {
+  fetchHistoryAuthors,
+  fetchRecordHistory,
+  restoreRecordVersion,
+} from "../services/recordHistory";
+import type { HistoryTable, RecordHistoryEntry } from "../lib/database.types";
+
+interface Props {
+  athleteId: string;
+  refreshKey?: number;
+  onRestored?: () => void;
+}
+
+// Every change to the athlete's training sets and personal records, with
+// what changed and a way back to the earlier version
+export default function RecordHistory({
+  athleteId,
+  refreshKey,
+  onRestored,
+}: Props) {
+  const [entries, setEntries] = useState<RecordHistoryEntry[]>([]);
+  const [authors, setAuthors] = useState<Record<string, string>>({});
+  const [table, setTable] = useState<HistoryTable | "">("");
+  const [loading, setLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await fetchRecordHistory(athleteId, table || undefined);
+      setEntries(data);
+      setAuthors(await fetchHistoryAuthors(data));
+    } catch (err) {
+      console.error("Error fetching record history:", err);
+      setError("Failed to load the history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [athleteId, table, refreshKey]);
+
+  const handleRestore = async (entry: RecordHistoryEntry) => {
+    if (!window.confirm("Restore the version from before this change?")) return;
+
+    setRestoringId(entry.id);
+    setError(null);
+    try {
+      await restoreRecordVersion(entry.id);
+      await loadHistory();
+      onRestored?.();
+    } catch (err) {
+      console.error("Error restoring record version:", err);
+      setError("Failed to restore this version");
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <select
+        value={table}
+        onChange={(e) => setTable(e.target.value as HistoryTable | "")}
+        className="px-4 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+        aria-label="Record type"
+      >
+        <option value="">All records</option>
+        {HISTORY_TABLES.map((t) => (
+          <option key={t.value} value={t.value}>
+            {t.label}
+          </option>
+        ))}
+      </select>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <div className="text-center py-8">
+          <History className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-sm text-gray-500">No changes recorded yet</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {entries.map((entry) => {
+            const changes = diffHistoryEntry(entry);
+            return (
+              <div
+                key={entry.id}
+                className="p-4 rounded-lg bg-white border border-gray-200"
+              >
+                <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+                  <span
+                    className={clsx(
+                      "px-2 py-0.5 rounded-full text-xs font-medium",
+                      HISTORY_OPERATION_STYLES[entry.operation]
+                    )}
+                  >
+                    {HISTORY_OPERATION_LABELS[entry.operation]}
+                  </span>
+                  <span className="font-medium text-gray-900">
+                    {describeHistoryRecord(entry)}
+                  </span>
+                  <span className="text-gray-500">
+                    {new Date(entry.changed_at).toLocaleString()}
+                    {entry.changed_by &&
+                      ` by ${authors[entry.changed_by] || "Unknown user"}`}
+                  </span>
+                  {canRestore(entry) && (
+                    <button
+                      onClick={() => handleRestore(entry)}
+                      disabled={restoringId !== null}
+                      className="ml-auto flex items-center gap-1 px-2 py-1 rounded border border-gray-300 text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                      {restoringId === entry.id ? "Restoring..." : "Restore"}
+                    </button>
+                  )}
+                </div>
+
+                {changes.length > 0 && (
+                  <table className="mt-3 min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 pr-4 font-medium">Field</th>
+                        <th className="py-1 pr-4 font-medium">Before</th>
+                        <th className="py-1 font-medium">After</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {changes.map((change) => (
+                        <tr key={change.field} className="align-top">
+                          <td className="py-1 pr-4 text-gray-700">
+                            {change.label}
+                          </td>
+                          <td className="py-1 pr-4 text-red-700 line-through break-all">
+                            {change.before}
+                          </td>
+                          <td className="py-1 text-green-700 break-all">
+                            {change.after}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
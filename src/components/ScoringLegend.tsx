@@ -0,0 +1,51 @@
+import {
+  getExerciseWeight,
+  getScoringDescription,
+} from "../lib/leaderboardScoring";
+import type { ScoringSettings } from "../lib/leaderboardScoring";
+
+interface Props {
+  scoring: ScoringSettings;
+}
+
+// How the leaderboard's points are awarded, for the "How Points Work" box
+export default function ScoringLegend({ scoring }: Props) {
+  const weighted = Object.keys(scoring.exercise_weights).filter(
+    (exercise) => getExerciseWeight(scoring, exercise) !== 1
+  );
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-sm">
+      {scoring.scheme === "podium" ? (
+        <div className="flex flex-wrap items-center justify-center gap-4">
+          <span className="flex items-center gap-1">
+            <span className="text-lg">🥇</span>
+            <span className="font-bold text-yellow-700">3 pts</span>
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="text-lg">🥈</span>
+            <span className="font-bold text-gray-700">2 pts</span>
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="text-lg">🥉</span>
+            <span className="font-bold text-orange-700">1 pt</span>
+          </span>
+        </div>
+      ) : (
+        <span className="text-gray-700 text-center">
+          {getScoringDescription(scoring)}
+        </span>
+      )}
+      {weighted.length > 0 && (
+        <span className="text-xs text-gray-500 text-center">
+          {weighted
+            .map(
+              (exercise) =>
+                `${exercise} x${getExerciseWeight(scoring, exercise)}`
+            )
+            .join(", ")}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,603 @@
+import React, { useEffect, useState } from "react";
+import { CalendarRange, Edit2, Plus, Trash2, X } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import {
+  CYCLE_LEVELS,
+  TRAINING_PHASES,
+  getPhaseColor,
+  getPhaseLabel,
+} from "../lib/periodization";
+import { daysBetween } from "../lib/trainingLoad";
+import type {
+  AthleteGroup,
+  CycleLevel,
+  TrainingCycle,
+  TrainingPhase,
+} from "../lib/database.types";
+
+interface SeasonCalendarProps {
+  managerId: string;
+  theme?: "light" | "dark" | "system";
+}
+
+interface CycleForm {
+  level: CycleLevel;
+  name: string;
+  phase: TrainingPhase;
+  start_date: string;
+  end_date: string;
+  target_load: string;
+  group_id: string;
+  parent_id: string;
+  notes: string;
+}
+
+const EMPTY_FORM: CycleForm = {
+  level: "macro",
+  name: "",
+  phase: "preparation",
+  start_date: new Date().toISOString().split("T")[0],
+  end_date: new Date().toISOString().split("T")[0],
+  target_load: "",
+  group_id: "",
+  parent_id: "",
+  notes: "",
+};
+
+const PARENT_LEVEL: Record<CycleLevel, CycleLevel | null> = {
+  macro: null,
+  meso: "macro",
+  micro: "meso",
+};
+
+export default function SeasonCalendar({
+  managerId,
+  theme = "light",
+}: SeasonCalendarProps) {
+  const [cycles, setCycles] = useState<TrainingCycle[]>([]);
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingCycle, setEditingCycle] = useState<TrainingCycle | null>(null);
+  const [form, setForm] = useState<CycleForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setLoading(true);
+      const [{ data: cyclesData, error: cyclesError }, { data: groupsData }] =
+        await Promise.all([
+          supabase
+            .from("training_cycles")
+            .select("*")
+            .eq("manager_id", managerId)
+            .order("start_date"),
+          supabase
+            .from("athlete_groups")
+            .select("*")
+            .eq("manager_id", managerId)
+            .order("name"),
+        ]);
+
+      if (cyclesError) {
+        console.error("Error fetching training cycles:", cyclesError);
+      }
+
+      setCycles(cyclesData || []);
+      setGroups(groupsData || []);
+      setLoading(false);
+    };
+
+    fetchData();
+  }, [managerId]);
+
+  const openCreateModal = (level: CycleLevel = "macro", parentId = "") => {
+    const parent = cycles.find((c) => c.id === parentId);
+    setEditingCycle(null);
+    setForm({
+      ...EMPTY_FORM,
+      level,
+      parent_id: parentId,
+      phase: parent?.phase || EMPTY_FORM.phase,
+      start_date: parent?.start_date || EMPTY_FORM.start_date,
+      end_date: parent?.end_date || EMPTY_FORM.end_date,
+      group_id: parent?.group_id || "",
+    });
+    setError(null);
+    setShowModal(true);
+  };
+
+  const openEditModal = (cycle: TrainingCycle) => {
+    setEditingCycle(cycle);
+    setForm({
+      level: cycle.level,
+      name: cycle.name,
+      phase: cycle.phase,
+      start_date: cycle.start_date,
+      end_date: cycle.end_date,
+      target_load: cycle.target_load?.toString() || "",
+      group_id: cycle.group_id || "",
+      parent_id: cycle.parent_id || "",
+      notes: cycle.notes || "",
+    });
+    setError(null);
+    setShowModal(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setError("Please enter a name");
+      return;
+    }
+    if (form.start_date > form.end_date) {
+      setError("The end date must be after the start date");
+      return;
+    }
+
+    const parent = cycles.find((c) => c.id === form.parent_id);
+    if (
+      parent &&
+      (form.start_date < parent.start_date || form.end_date > parent.end_date)
+    ) {
+      setError(`Dates must fall within ${parent.name}`);
+      return;
+    }
+
+    const payload = {
+      manager_id: managerId,
+      level: form.level,
+      name: form.name.trim(),
+      phase: form.phase,
+      start_date: form.start_date,
+      end_date: form.end_date,
+      target_load: form.target_load ? Number(form.target_load) : null,
+      group_id: form.group_id || null,
+      parent_id: form.parent_id || null,
+      notes: form.notes.trim() || null,
+    };
+
+    const { data, error } = editingCycle
+      ? await supabase
+          .from("training_cycles")
+          .update(payload)
+          .eq("id", editingCycle.id)
+          .select()
+          .single()
+      : await supabase
+          .from("training_cycles")
+          .insert(payload)
+          .select()
+          .single();
+
+    if (error) {
+      console.error("Error saving training cycle:", error);
+      setError("Failed to save the cycle");
+      return;
+    }
+
+    setCycles((prev) =>
+      [...prev.filter((c) => c.id !== data.id), data].sort((a, b) =>
+        a.start_date.localeCompare(b.start_date)
+      )
+    );
+    setShowModal(false);
+  };
+
+  const handleDelete = async (cycle: TrainingCycle) => {
+    if (
+      !window.confirm(
+        `Delete ${cycle.name}? Nested cycles will be deleted as well.`
+      )
+    )
+      return;
+
+    const { error } = await supabase
+      .from("training_cycles")
+      .delete()
+      .eq("id", cycle.id);
+
+    if (error) {
+      console.error("Error deleting training cycle:", error);
+      return;
+    }
+
+    // Nested cycles are removed by ON DELETE CASCADE
+    const removed = new Set([cycle.id]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      cycles.forEach((c) => {
+        if (c.parent_id && removed.has(c.parent_id) && !removed.has(c.id)) {
+          removed.add(c.id);
+          changed = true;
+        }
+      });
+    }
+    setCycles((prev) => prev.filter((c) => !removed.has(c.id)));
+  };
+
+  const macrocycles = cycles.filter((c) => c.level === "macro");
+  const getChildren = (parentId: string) =>
+    cycles.filter((c) => c.parent_id === parentId);
+  const getGroupName = (groupId: string | null) =>
+    groupId
+      ? groups.find((g) => g.id === groupId)?.name || "Unknown group"
+      : "All groups";
+  const parentOptions = PARENT_LEVEL[form.level]
+    ? cycles.filter((c) => c.level === PARENT_LEVEL[form.level])
+    : [];
+
+  // Position of a cycle inside its macrocycle's timeline, in percent
+  const getBarStyle = (cycle: TrainingCycle, macro: TrainingCycle) => {
+    const total = daysBetween(macro.start_date, macro.end_date) + 1;
+    const offset = daysBetween(macro.start_date, cycle.start_date);
+    const length = daysBetween(cycle.start_date, cycle.end_date) + 1;
+    return {
+      left: `${(offset / total) * 100}%`,
+      width: `${(length / total) * 100}%`,
+      backgroundColor: getPhaseColor(cycle.phase, 0.75),
+    };
+  };
+
+  const renderBar = (cycle: TrainingCycle, macro: TrainingCycle) => (
+    <div
+      key={cycle.id}
+      className="absolute top-0 bottom-0 rounded-md px-2 flex items-center gap-1 text-xs font-medium text-white overflow-hidden group cursor-pointer"
+      style={getBarStyle(cycle, macro)}
+      title={`${cycle.name} (${getPhaseLabel(cycle.phase)}) ${
+        cycle.start_date
+      } – ${cycle.end_date}${
+        cycle.target_load ? ` · target ${cycle.target_load} AU/week` : ""
+      }`}
+      onClick={() => openEditModal(cycle)}
+    >
+      <span className="truncate">{cycle.name}</span>
+    </div>
+  );
+
+  const textColor = theme === "dark" ? "text-blue-100" : "text-gray-900";
+  const mutedColor = theme === "dark" ? "text-blue-200" : "text-gray-500";
+
+  if (loading) {
+    return (
+      <div className="py-8 text-center text-gray-500">Loading calendar...</div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex flex-wrap gap-3">
+          {TRAINING_PHASES.map((phase) => (
+            <span
+              key={phase.value}
+              className={clsx("flex items-center gap-1 text-xs", mutedColor)}
+            >
+              <span
+                className="w-3 h-3 rounded-sm"
+                style={{ backgroundColor: getPhaseColor(phase.value, 0.75) }}
+              />
+              {phase.label}
+            </span>
+          ))}
+        </div>
+        <button
+          onClick={() => openCreateModal()}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+        >
+          <Plus className="h-4 w-4" />
+          New Macrocycle
+        </button>
+      </div>
+
+      {macrocycles.length === 0 ? (
+        <div className={clsx("text-center py-8", mutedColor)}>
+          <CalendarRange className="w-10 h-10 mx-auto mb-2 opacity-60" />
+          No season planned yet. Create a macrocycle to get started.
+        </div>
+      ) : (
+        macrocycles.map((macro) => {
+          const mesocycles = getChildren(macro.id);
+          const microcycles = mesocycles.flatMap((m) => getChildren(m.id));
+          return (
+            <div
+              key={macro.id}
+              className={clsx(
+                "rounded-xl border p-4",
+                theme === "dark"
+                  ? "border-blue-700/50 bg-blue-900/30"
+                  : "border-gray-200 bg-white"
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <div>
+                  <h3 className={clsx("font-semibold", textColor)}>
+                    {macro.name}
+                  </h3>
+                  <p className={clsx("text-xs", mutedColor)}>
+                    {new Date(macro.start_date).toLocaleDateString()} –{" "}
+                    {new Date(macro.end_date).toLocaleDateString()} ·{" "}
+                    {getGroupName(macro.group_id)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => openCreateModal("meso", macro.id)}
+                    className="flex items-center gap-1 px-3 py-1.5 text-xs font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100"
+                  >
+                    <Plus className="h-3 w-3" />
+                    Mesocycle
+                  </button>
+                  <button
+                    onClick={() => openEditModal(macro)}
+                    className="p-1.5 text-gray-500 hover:text-blue-600"
+                    title="Edit"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(macro)}
+                    className="p-1.5 text-gray-500 hover:text-red-600"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {(
+                  [
+                    ["Macro", [macro]],
+                    ["Meso", mesocycles],
+                    ["Micro", microcycles],
+                  ] as [string, TrainingCycle[]][]
+                ).map(([label, row]) => (
+                  <div key={label} className="flex items-center gap-3">
+                    <span
+                      className={clsx("w-12 text-xs font-medium", mutedColor)}
+                    >
+                      {label}
+                    </span>
+                    <div
+                      className={clsx(
+                        "relative flex-1 h-8 rounded-md",
+                        theme === "dark" ? "bg-blue-950/50" : "bg-gray-100"
+                      )}
+                    >
+                      {row.map((cycle) => renderBar(cycle, macro))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {mesocycles.length > 0 && (
+                <ul className="mt-4 space-y-1">
+                  {mesocycles.map((meso) => (
+                    <li
+                      key={meso.id}
+                      className={clsx(
+                        "flex flex-wrap items-center justify-between gap-2 text-sm",
+                        textColor
+                      )}
+                    >
+                      <span>
+                        <span
+                          className="inline-block w-2 h-2 rounded-full mr-2"
+                          style={{
+                            backgroundColor: getPhaseColor(meso.phase),
+                          }}
+                        />
+                        {meso.name}
+                        <span className={clsx("ml-2 text-xs", mutedColor)}>
+                          {getPhaseLabel(meso.phase)}
+                          {meso.target_load
+                            ? ` · ${meso.target_load} AU/week`
+                            : ""}
+                        </span>
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <button
+                          onClick={() => openCreateModal("micro", meso.id)}
+                          className="px-2 py-1 text-xs text-blue-600 hover:underline"
+                        >
+                          + Microcycle
+                        </button>
+                        <button
+                          onClick={() => handleDelete(meso)}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </button>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })
+      )}
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 z-50">
+          <form
+            onSubmit={handleSave}
+            className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto p-6 space-y-4"
+          >
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {editingCycle ? "Edit Cycle" : "New Cycle"}
+              </h3>
+              <button
+                type="button"
+                onClick={() => setShowModal(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm font-medium text-gray-700">
+                Level
+                <select
+                  value={form.level}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      level: e.target.value as CycleLevel,
+                      parent_id: "",
+                    })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                >
+                  {CYCLE_LEVELS.map((level) => (
+                    <option key={level.value} value={level.value}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Phase
+                <select
+                  value={form.phase}
+                  onChange={(e) =>
+                    setForm({ ...form, phase: e.target.value as TrainingPhase })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                >
+                  {TRAINING_PHASES.map((phase) => (
+                    <option key={phase.value} value={phase.value}>
+                      {phase.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Name
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. 2025 Season, General Preparation, Week 1"
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+            </label>
+
+            {parentOptions.length > 0 && (
+              <label className="block text-sm font-medium text-gray-700">
+                Part of
+                <select
+                  value={form.parent_id}
+                  onChange={(e) =>
+                    setForm({ ...form, parent_id: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                >
+                  <option value="">None</option>
+                  {parentOptions.map((cycle) => (
+                    <option key={cycle.id} value={cycle.id}>
+                      {cycle.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm font-medium text-gray-700">
+                Start
+                <input
+                  type="date"
+                  value={form.start_date}
+                  onChange={(e) =>
+                    setForm({ ...form, start_date: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                End
+                <input
+                  type="date"
+                  value={form.end_date}
+                  onChange={(e) =>
+                    setForm({ ...form, end_date: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <label className="text-sm font-medium text-gray-700">
+                Target load (AU/week)
+                <input
+                  type="number"
+                  min={0}
+                  value={form.target_load}
+                  onChange={(e) =>
+                    setForm({ ...form, target_load: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                />
+              </label>
+              <label className="text-sm font-medium text-gray-700">
+                Group
+                <select
+                  value={form.group_id}
+                  onChange={(e) =>
+                    setForm({ ...form, group_id: e.target.value })
+                  }
+                  className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+                >
+                  <option value="">All groups</option>
+                  {groups.map((group) => (
+                    <option key={group.id} value={group.id}>
+                      {group.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <label className="block text-sm font-medium text-gray-700">
+              Notes
+              <textarea
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+                className="mt-1 w-full rounded-md border-gray-300 shadow-sm sm:text-sm"
+              />
+            </label>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setShowModal(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
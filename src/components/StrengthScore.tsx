@@ -0,0 +1,40 @@
+import clsx from "clsx";
+import { STRENGTH_TIER_STYLES, getPointsFormulaLabel } from "../lib/strength";
+import type { PointsFormula, StrengthScore as Score } from "../lib/strength";
+
+interface Props {
+  score: Score | null;
+  formula: PointsFormula;
+}
+
+// Relative strength of a record: multiple of body weight, points for the
+// powerlifts and the strength-standard tier reached
+export default function StrengthScore({ score, formula }: Props) {
+  if (!score) return <span className="text-gray-400 text-xs">–</span>;
+
+  return (
+    <span
+      className="inline-flex flex-wrap items-center gap-x-2 gap-y-1 text-sm"
+      title={`Body weight ${score.bodyWeight} kg`}
+    >
+      <span className="font-medium text-gray-700">
+        {score.relative.toFixed(2)}× BW
+      </span>
+      {score.points !== null && (
+        <span className="text-xs text-gray-500">
+          {score.points} {getPointsFormulaLabel(formula)}
+        </span>
+      )}
+      {score.tier && (
+        <span
+          className={clsx(
+            "px-2 py-0.5 rounded-full text-xs font-medium",
+            STRENGTH_TIER_STYLES[score.tier] || "bg-gray-100 text-gray-700"
+          )}
+        >
+          {score.tier}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { Check } from "lucide-react";
+import { getPRExercises } from "../lib/exerciseLibrary";
+import {
+  SEXES,
+  STRENGTH_TIER_NAMES,
+  findStrengthTiers,
+  getDefaultStrengthTiers,
+} from "../lib/strength";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import {
+  fetchStrengthStandards,
+  saveStrengthStandard,
+} from "../services/strength";
+import type {
+  Exercise,
+  Sex,
+  StrengthStandard,
+  StrengthTier,
+} from "../lib/database.types";
+
+interface Props {
+  managerId: string;
+}
+
+// Ratio inputs per sex and tier name, blank for a tier that is left out
+type TierInputs = Record<Sex, Record<string, string>>;
+
+const toInputs = (
+  standards: StrengthStandard[],
+  exercise: Exercise | undefined
+): TierInputs => {
+  const inputs = { male: {}, female: {} } as TierInputs;
+  SEXES.forEach(({ value: sex }) => {
+    findStrengthTiers(standards, exercise, sex).forEach((tier) => {
+      inputs[sex][tier.name] = String(tier.ratio);
+    });
+  });
+  return inputs;
+};
+
+// Strength-standard tiers per exercise and sex, as multiples of body weight
+export default function StrengthStandards({ managerId }: Props) {
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [standards, setStandards] = useState<StrengthStandard[]>([]);
+  const [exerciseId, setExerciseId] = useState("");
+  const [inputs, setInputs] = useState<TierInputs>({ male: {}, female: {} });
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      fetchExerciseLibrary(managerId),
+      fetchStrengthStandards(managerId),
+    ])
+      .then(([exercises, standardsData]) => {
+        const prExercises = getPRExercises(exercises);
+        setLibrary(prExercises);
+        setStandards(standardsData);
+        setExerciseId(
+          (prExercises.find((e) => e.powerlift) || prExercises[0])?.id || ""
+        );
+      })
+      .catch((err) => console.error("Error fetching strength standards:", err));
+  }, [managerId]);
+
+  const exercise = library.find((e) => e.id === exerciseId);
+
+  useEffect(() => {
+    setInputs(toInputs(standards, exercise));
+    setSaved(false);
+    setError(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [exerciseId, standards]);
+
+  const handleSave = async () => {
+    if (!exercise) return;
+
+    const tiersBySex = {} as Record<Sex, StrengthTier[]>;
+    for (const { value: sex } of SEXES) {
+      const tiers = STRENGTH_TIER_NAMES.filter((name) => inputs[sex][name]).map(
+        (name) => ({ name, ratio: parseFloat(inputs[sex][name]) })
+      );
+      if (tiers.some((t) => !(t.ratio > 0))) {
+        setError("Ratios must be above 0");
+        return;
+      }
+      if (tiers.some((t, i) => i > 0 && t.ratio <= tiers[i - 1].ratio)) {
+        setError("Each tier must need a higher ratio than the one before");
+        return;
+      }
+      tiersBySex[sex] = tiers;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await Promise.all(
+        SEXES.map(({ value: sex }) =>
+          saveStrengthStandard(managerId, exercise.id, sex, tiersBySex[sex])
+        )
+      );
+      setStandards(await fetchStrengthStandards(managerId));
+      setSaved(true);
+    } catch (err) {
+      console.error("Error saving strength standards:", err);
+      setError("Failed to save the strength standards");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (library.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={exerciseId}
+          onChange={(e) => setExerciseId(e.target.value)}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-sm bg-white"
+        >
+          {library.map((ex) => (
+            <option key={ex.id} value={ex.id}>
+              {ex.name}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500">
+          kg lifted per kg body weight to reach each tier. Leave a tier blank to
+          skip it.
+          {exercise?.powerlift &&
+            " Powerlifts use built-in standards until you set your own."}
+        </p>
+      </div>
+
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr>
+            <th className="py-2 pr-4 text-left font-medium text-gray-700">
+              Tier
+            </th>
+            {SEXES.map((sex) => (
+              <th
+                key={sex.value}
+                className="py-2 pr-4 text-left font-medium text-gray-700"
+              >
+                {sex.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {STRENGTH_TIER_NAMES.map((name, i) => (
+            <tr key={name}>
+              <td className="py-1 pr-4 text-gray-900">{name}</td>
+              {SEXES.map(({ value: sex }) => (
+                <td key={sex} className="py-1 pr-4">
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={inputs[sex][name] || ""}
+                    onChange={(e) => {
+                      setInputs((prev) => ({
+                        ...prev,
+                        [sex]: { ...prev[sex], [name]: e.target.value },
+                      }));
+                      setSaved(false);
+                    }}
+                    placeholder={
+                      exercise?.powerlift
+                        ? String(
+                            getDefaultStrengthTiers(exercise.powerlift, sex)[i]
+                              .ratio
+                          )
+                        : undefined
+                    }
+                    className="w-24 px-2 py-1 rounded border border-gray-300"
+                  />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <button
+        onClick={handleSave}
+        disabled={saving || !exercise}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saved && <Check className="w-4 h-4" />}
+        {saving ? "Saving..." : saved ? "Saved" : "Save Standards"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Users } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import { getACWRColor } from "../lib/trainingLoad";
+import type { Profile, TeamTrainingLoad } from "../lib/database.types";
+
+interface TeamLoadOverviewProps {
+  managerId: string;
+  athletes: Profile[];
+  endDate: string;
+  selectedAthlete: string;
+  onSelectAthlete: (athleteId: string) => void;
+}
+
+export default function TeamLoadOverview({
+  managerId,
+  athletes,
+  endDate,
+  selectedAthlete,
+  onSelectAthlete,
+}: TeamLoadOverviewProps) {
+  const [loads, setLoads] = useState<TeamTrainingLoad[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!managerId || !endDate) return;
+
+    const fetchTeamLoads = async () => {
+      setLoading(true);
+      // One call returns the figures for every athlete of the manager
+      const { data, error } = await supabase.rpc("get_team_training_loads", {
+        p_manager_id: managerId,
+        p_start_date: endDate,
+        p_end_date: endDate,
+      });
+
+      if (error) {
+        console.error("Error fetching team training loads:", error);
+        setLoads([]);
+      } else {
+        setLoads((data as TeamTrainingLoad[]) || []);
+      }
+      setLoading(false);
+    };
+
+    fetchTeamLoads();
+  }, [managerId, endDate]);
+
+  const loadsByAthlete = new Map(loads.map((l) => [l.athlete_id, l]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Users className="h-5 w-5 mr-2 text-indigo-500" />
+        Team Load Overview
+        <span className="ml-2 text-sm font-normal text-gray-500">
+          (week ending {new Date(endDate).toLocaleDateString()})
+        </span>
+      </h2>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="bg-white border-b border-gray-200">
+                {[
+                  "Athlete",
+                  "Daily Load",
+                  "Weekly Load",
+                  "Chronic Load",
+                  "ACWR",
+                  "Compliance",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {athletes.map((athlete) => {
+                const load = loadsByAthlete.get(athlete.id);
+                return (
+                  <tr
+                    key={athlete.id}
+                    onClick={() => onSelectAthlete(athlete.id)}
+                    className={clsx(
+                      "cursor-pointer hover:bg-gray-50",
+                      selectedAthlete === athlete.id && "bg-indigo-50"
+                    )}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {athlete.full_name}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {Math.round(Number(load?.daily_load) || 0)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {Math.round(Number(load?.weekly_load) || 0)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {Math.round(Number(load?.chronic_load) || 0)}
+                    </td>
+                    <td
+                      className={`px-4 py-3 whitespace-nowrap text-sm font-semibold ${getACWRColor(
+                        Number(load?.acwr) || 0
+                      )}`}
+                    >
+                      {(Number(load?.acwr) || 0).toFixed(2)}
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                      {Math.round(Number(load?.compliance) || 0)}%
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
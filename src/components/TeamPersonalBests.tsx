@@ -1,7 +1,42 @@
 import React, { useEffect, useState } from "react";
 import { supabase } from "../lib/supabase";
-import type { Profile } from "../lib/database.types";
+import { findExercise, withLibraryName } from "../lib/exerciseLibrary";
+import { getPreferredPointsFormula, scoreRecord } from "../lib/strength";
+import {
+  findLeaderboardScoring,
+  scoreLeaderboard,
+} from "../lib/leaderboardScoring";
+import type { AthleteStrengthProfile } from "../lib/strength";
+import {
+  SEASON_STATUS_LABELS,
+  findPreviousSeason,
+  getRankMovement,
+  getSeasonStandings,
+  getSeasonStatus,
+  isInSeason,
+  rankStandings,
+  scoreSeason,
+} from "../lib/leaderboardSeasons";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import { fetchLeaderboardScoring } from "../services/leaderboardScoring";
+import { fetchLeaderboardSeasons } from "../services/leaderboardSeasons";
+import { getSignedVideoUrls } from "../services/prVideos";
+import {
+  fetchStrengthProfiles,
+  fetchStrengthStandards,
+} from "../services/strength";
+import type {
+  Exercise,
+  LeaderboardScoring,
+  LeaderboardSeason,
+  Profile,
+  StrengthStandard,
+} from "../lib/database.types";
 import ProfilePicture from "./ProfilePicture";
+import PointsFormulaSelect from "./PointsFormulaSelect";
+import StrengthScore from "./StrengthScore";
+import ScoringLegend from "./ScoringLegend";
+import RankMovement from "./RankMovement";
 import clsx from "clsx";
 import { Trophy } from "lucide-react";
 
@@ -35,6 +70,51 @@ export default function TeamPersonalBests({
   const [selectedExercise, setSelectedExercise] = useState<string>("");
   const [loading, setLoading] = useState(true);
   const [athletePoints, setAthletePoints] = useState<AthletePoints[]>([]);
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [strengthProfiles, setStrengthProfiles] = useState<
+    Record<string, AthleteStrengthProfile>
+  >({});
+  const [standards, setStandards] = useState<StrengthStandard[]>([]);
+  const [pointsFormula, setPointsFormula] = useState(
+    getPreferredPointsFormula
+  );
+  const [groupId, setGroupId] = useState<string | null>(null);
+  const [scorings, setScorings] = useState<LeaderboardScoring[]>([]);
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string>("");
+  const [videoUrls, setVideoUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    Promise.all([
+      fetchExerciseLibrary(managerId),
+      fetchStrengthStandards(managerId),
+      fetchLeaderboardScoring(managerId),
+      fetchLeaderboardSeasons(managerId),
+    ])
+      .then(([exercises, standards, scoringData, seasonsData]) => {
+        setLibrary(exercises);
+        setStandards(standards);
+        setScorings(scoringData);
+        setSeasons(seasonsData);
+      })
+      .catch((error) =>
+        console.error("Error fetching strength standards:", error)
+      );
+  }, [managerId]);
+
+  useEffect(() => {
+    fetchStrengthProfiles(athletes.map((a) => a.id))
+      .then(setStrengthProfiles)
+      .catch((error) =>
+        console.error("Error fetching strength profiles:", error)
+      );
+  }, [athletes]);
+
+  useEffect(() => {
+    getSignedVideoUrls(records.map((r) => r.video_url))
+      .then(setVideoUrls)
+      .catch((error) => console.error("Error signing video URLs:", error));
+  }, [records]);
 
   useEffect(() => {
     let isMounted = true;
@@ -49,6 +129,7 @@ export default function TeamPersonalBests({
         .single();
 
       if (!isMounted) return;
+      setGroupId(currentAthleteData?.group_id || null);
 
       // If athlete has no group, show only themselves
       if (!currentAthleteData?.group_id) {
@@ -67,13 +148,18 @@ export default function TeamPersonalBests({
         ]);
 
         // Fetch personal records for just this athlete
-        const { data: recordData } = await supabase
+        const { data } = await supabase
           .from("personal_records")
-          .select("id, athlete_id, exercise, weight, record_date, video_url")
-          .eq("athlete_id", currentAthlete.id);
+          .select(
+            "id, athlete_id, exercise, weight, record_date, video_url, exercises(name)"
+          )
+          .eq("athlete_id", currentAthlete.id)
+          .eq("status", "confirmed")
+          .eq("verification_status", "approved");
 
         if (!isMounted) return;
-        setRecords(recordData || []);
+        const recordData = (data || []).map(withLibraryName);
+        setRecords(recordData);
 
         if (!selectedExercise && recordData && recordData.length > 0) {
           setSelectedExercise(recordData[0].exercise);
@@ -108,12 +194,17 @@ export default function TeamPersonalBests({
       // Fetch all personal records for athletes in the same group
       const athleteIds = (athleteData || []).map((a: any) => a.id);
       if (athleteIds.length > 0) {
-        const { data: recordData } = await supabase
+        const { data } = await supabase
           .from("personal_records")
-          .select("id, athlete_id, exercise, weight, record_date, video_url")
-          .in("athlete_id", athleteIds);
+          .select(
+            "id, athlete_id, exercise, weight, record_date, video_url, exercises(name)"
+          )
+          .in("athlete_id", athleteIds)
+          .eq("status", "confirmed")
+          .eq("verification_status", "approved");
         if (!isMounted) return;
-        setRecords(recordData || []);
+        const recordData = (data || []).map(withLibraryName);
+        setRecords(recordData);
         // Set default exercise
         if (!selectedExercise && recordData && recordData.length > 0) {
           setSelectedExercise(recordData[0].exercise);
@@ -127,67 +218,110 @@ export default function TeamPersonalBests({
     };
   }, [managerId, currentAthlete.id]);
 
+  // Seasons for all groups and for the athlete's own group
+  const groupSeasons = seasons.filter(
+    (s) => !s.group_id || s.group_id === groupId
+  );
+  const season = groupSeasons.find((s) => s.id === selectedSeasonId) || null;
+
+  // The group's own scoring, else the manager's default. Archived seasons
+  // keep the scoring they were frozen with.
+  const currentScoring = findLeaderboardScoring(scorings, groupId);
+  const scoring = season?.snapshot?.scoring || currentScoring;
+
+  // Records of the selected season: its frozen bests once archived,
+  // otherwise the records dated inside it
+  const seasonRecords: PersonalRecord[] = !season
+    ? records
+    : season.snapshot
+    ? season.snapshot.bests
+        .filter((best) => athletes.some((a) => a.id === best.athlete_id))
+        .map((best) => ({
+          ...best,
+          id: `${best.athlete_id}:${best.exercise}`,
+          video_url: "",
+        }))
+    : records.filter((r) => isInSeason(r, season));
+
   // Calculate points for each athlete
   useEffect(() => {
+    if (season?.snapshot) {
+      setAthletePoints(
+        season.snapshot.standings
+          .filter((s) => athletes.some((a) => a.id === s.athlete_id))
+          .map((standing) => ({
+            id: standing.athlete_id,
+            full_name: standing.full_name,
+            avatar_url:
+              athletes.find((a) => a.id === standing.athlete_id)?.avatar_url ||
+              "",
+            total_points: standing.total_points,
+          }))
+      );
+      return;
+    }
     if (records.length === 0) return;
 
-    // Get unique exercises
-    const exercises = Array.from(new Set(records.map((r) => r.exercise)));
+    const athleteIds = athletes.map((a) => a.id);
+    const totals = season
+      ? scoreSeason(records, athleteIds, season, scoring, strengthProfiles)
+      : scoreLeaderboard(records, athleteIds, scoring, strengthProfiles);
 
-    // Initialize points for each athlete
-    const pointsMap = new Map<string, AthletePoints>();
-    athletes.forEach((athlete) => {
-      pointsMap.set(athlete.id, {
+    // Convert to array and sort by total points
+    const sortedPoints = athletes
+      .map((athlete) => ({
         id: athlete.id,
         full_name: athlete.full_name,
         avatar_url: athlete.avatar_url || "",
-        total_points: 0,
-      });
-    });
-
-    // Calculate points for each exercise
-    exercises.forEach((exercise) => {
-      const exerciseRecords = records
-        .filter((r) => r.exercise === exercise)
-        .sort((a, b) => b.weight - a.weight);
-
-      if (exerciseRecords.length === 0) return;
-
-      // Assign points based on ranking (1st = 3, 2nd = 2, 3rd = 1)
-      let currentRank = 1;
-      let currentWeight = exerciseRecords[0].weight;
-      let points = 3;
-
-      exerciseRecords.forEach((record) => {
-        if (record.weight !== currentWeight) {
-          currentRank++;
-          points = Math.max(4 - currentRank, 0); // 3,2,1,0 points
-          currentWeight = record.weight;
-        }
-
-        const athletePoints = pointsMap.get(record.athlete_id);
-        if (athletePoints) {
-          athletePoints.total_points += points;
-        }
-      });
-    });
-
-    // Convert to array and sort by total points
-    const sortedPoints = Array.from(pointsMap.values()).sort(
-      (a, b) => b.total_points - a.total_points
-    );
+        total_points: totals[athlete.id] || 0,
+      }))
+      .sort((a, b) => b.total_points - a.total_points);
 
     setAthletePoints(sortedPoints);
-  }, [records, athletes]);
+  }, [records, athletes, season, scoring, strengthProfiles]);
+
+  // Places gained or lost on the previous season
+  const previousSeason = season && findPreviousSeason(seasons, season);
+  const movement = previousSeason
+    ? getRankMovement(
+        rankStandings(
+          athletePoints,
+          Object.fromEntries(athletePoints.map((a) => [a.id, a.total_points]))
+        ),
+        getSeasonStandings(
+          previousSeason,
+          records,
+          athletes,
+          currentScoring,
+          strengthProfiles
+        )
+      )
+    : {};
 
   // Get all unique exercises
-  const exercises = Array.from(new Set(records.map((r) => r.exercise)));
+  const exercises = Array.from(new Set(seasonRecords.map((r) => r.exercise)));
+
+  useEffect(() => {
+    if (exercises.length > 0 && !exercises.includes(selectedExercise)) {
+      setSelectedExercise(exercises[0]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [exercises.join(), selectedExercise]);
+
+  const getStrengthScore = (rec: PersonalRecord) =>
+    scoreRecord(
+      rec,
+      strengthProfiles[rec.athlete_id],
+      findExercise(library, rec.exercise),
+      standards,
+      pointsFormula
+    );
 
   // For the selected exercise, get each athlete's best (highest weight) record
   const leaderboard = athletes
     .map((athlete) => {
       // Find all records for this athlete and exercise
-      const athleteRecords = records.filter(
+      const athleteRecords = seasonRecords.filter(
         (r) => r.athlete_id === athlete.id && r.exercise === selectedExercise
       );
       if (athleteRecords.length === 0) return null;
@@ -255,6 +389,35 @@ export default function TeamPersonalBests({
               </option>
             ))}
           </select>
+          <PointsFormulaSelect
+            value={pointsFormula}
+            onChange={setPointsFormula}
+            className="ml-2 px-3 py-2 rounded-lg border text-sm shadow-sm bg-white"
+          />
+          {groupSeasons.length > 0 && (
+            <select
+              value={selectedSeasonId}
+              onChange={(e) => setSelectedSeasonId(e.target.value)}
+              className="ml-2 px-3 py-2 rounded-lg border text-sm shadow-sm bg-white"
+              aria-label="Season"
+            >
+              <option value="">All time</option>
+              {groupSeasons.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name} ({SEASON_STATUS_LABELS[getSeasonStatus(s)]})
+                </option>
+              ))}
+            </select>
+          )}
+          {season && (
+            <p className="mt-2 text-xs text-gray-500">
+              {new Date(season.start_date).toLocaleDateString()} –{" "}
+              {new Date(season.end_date).toLocaleDateString()}
+              {season.snapshot
+                ? " · Final results"
+                : " · Only records dated inside the season count"}
+            </p>
+          )}
         </div>
         <div className="mt-8">
           {/* See Overall Points Button */}
@@ -298,6 +461,9 @@ export default function TeamPersonalBests({
                       <th className="px-4 py-3 text-left font-semibold text-gray-700">
                         Weight (kg)
                       </th>
+                      <th className="px-4 py-3 text-left font-semibold text-gray-700">
+                        Relative
+                      </th>
                       <th className="px-4 py-3 text-left font-semibold text-gray-700">
                         Date
                       </th>
@@ -366,13 +532,19 @@ export default function TeamPersonalBests({
                               </span>
                             </div>
                           </td>
+                          <td className="px-4 py-3">
+                            <StrengthScore
+                              score={getStrengthScore(rec)}
+                              formula={pointsFormula}
+                            />
+                          </td>
                           <td className="px-4 py-3">
                             {new Date(rec.record_date).toLocaleDateString()}
                           </td>
                           <td className="px-4 py-3">
-                            {rec.video_url ? (
+                            {videoUrls[rec.video_url] ? (
                               <a
-                                href={rec.video_url}
+                                href={videoUrls[rec.video_url]}
                                 target="_blank"
                                 rel="noopener noreferrer"
                                 className="inline-block px-2 py-1 rounded text-xs font-medium bg-blue-500 text-white hover:bg-blue-600 transition"
@@ -458,9 +630,9 @@ export default function TeamPersonalBests({
                         <span className="text-gray-400">
                           {new Date(rec.record_date).toLocaleDateString()}
                         </span>
-                        {rec.video_url && (
+                        {videoUrls[rec.video_url] && (
                           <a
-                            href={rec.video_url}
+                            href={videoUrls[rec.video_url]}
                             target="_blank"
                             rel="noopener noreferrer"
                             className="ml-2 flex items-center justify-center"
@@ -480,6 +652,12 @@ export default function TeamPersonalBests({
                           </a>
                         )}
                       </div>
+                      <div className="pl-10 pb-1">
+                        <StrengthScore
+                          score={getStrengthScore(rec)}
+                          formula={pointsFormula}
+                        />
+                      </div>
                     </div>
                   );
                 })}
@@ -502,20 +680,7 @@ export default function TeamPersonalBests({
             <span className="font-bold text-yellow-700 text-sm mb-1 sm:mb-0 sm:mr-2 text-center w-full sm:w-auto">
               How Points Work:
             </span>
-            <div className="flex flex-wrap items-center justify-center gap-2 w-full">
-              <span className="flex items-center gap-1">
-                <span className="text-xl">🥇</span>
-                <span className="font-bold text-yellow-700">3 pts</span>
-              </span>
-              <span className="flex items-center gap-1">
-                <span className="text-xl">🥈</span>
-                <span className="font-bold text-gray-700">2 pts</span>
-              </span>
-              <span className="flex items-center gap-1">
-                <span className="text-xl">🥉</span>
-                <span className="font-bold text-orange-700">1 pt</span>
-              </span>
-            </div>
+            <ScoringLegend scoring={scoring} />
           </div>
         </div>
         {/* Desktop Table */}
@@ -557,10 +722,11 @@ export default function TeamPersonalBests({
                           alt=""
                         />
                       </div>
-                      <div className="ml-4">
+                      <div className="ml-4 flex items-center gap-2">
                         <div className="text-sm font-medium text-gray-900">
                           {athlete.full_name}
                         </div>
+                        <RankMovement movement={movement[athlete.id]} />
                       </div>
                     </div>
                   </td>
@@ -597,6 +763,7 @@ export default function TeamPersonalBests({
               <span className="font-semibold text-gray-900 text-sm truncate flex-1">
                 {athlete.full_name}
               </span>
+              <RankMovement movement={movement[athlete.id]} />
               <span className="font-bold text-yellow-600 text-base text-right whitespace-nowrap">
                 {athlete.total_points} pts
               </span>
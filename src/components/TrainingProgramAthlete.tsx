@@ -1,6 +1,45 @@
 import React, { useState, useEffect } from "react";
 import { supabase } from "../lib/supabase";
-import type { TrainingProgram, ExerciseRecord } from "../lib/database.types";
+import type {
+  TrainingProgram,
+  ExerciseRecord,
+  ExercisePrescription,
+  Exercise,
+  ProgressionDecision,
+} from "../lib/database.types";
+import {
+  estimateOneRepMax,
+  getBestSet,
+  getPreferredFormula,
+} from "../lib/oneRepMax";
+import { findExercise } from "../lib/exerciseLibrary";
+import {
+  getDayName,
+  getProgramDay,
+  getProgramDays,
+  getProgramWeek,
+  getTodaysWorkout,
+  getWeekPrescription,
+} from "../lib/programDays";
+import {
+  EMPTY_PRESCRIPTION,
+  PRESCRIPTION_STATUS_STYLES,
+  comparePrescription,
+  formatPrescription,
+  getTargetWeight,
+  hasPrescription,
+} from "../lib/prescriptions";
+import { suggestNextLoad } from "../lib/progression";
+import type { LoadSuggestion as Suggestion } from "../lib/progression";
+import { suggestPersonalRecord } from "../services/personalRecords";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import {
+  fetchLastSessions,
+  fetchProgressionDecisions,
+  saveProgressionDecision,
+} from "../services/progression";
+import type { PRSuggestion } from "../services/personalRecords";
+import LoadSuggestion from "./LoadSuggestion";
 import {
   Plus,
   Save,
@@ -9,6 +48,8 @@ import {
   Check,
   Edit2,
   Trash2,
+  Trophy,
+  Video,
 } from "lucide-react";
 import clsx from "clsx";
 
@@ -31,7 +72,8 @@ interface ExerciseInput {
 
 export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
   const [program, setProgram] = useState<TrainingProgram | null>(null);
-  const [selectedPlan, setSelectedPlan] = useState<"A" | "B" | "none">("none");
+  // Program day being recorded, or "none"
+  const [selectedPlan, setSelectedPlan] = useState<string>("none");
   const [records, setRecords] = useState<ExerciseRecord[]>([]);
   const [selectedDate, setSelectedDate] = useState<string>(
     new Date().toISOString().split("T")[0]
@@ -43,12 +85,90 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
   const [showRecords, setShowRecords] = useState(false);
   const [savingSeries, setSavingSeries] = useState<Record<string, boolean>>({});
   const [savedSeries, setSavedSeries] = useState<Record<string, boolean>>({});
+  const [prSuggestions, setPrSuggestions] = useState<PRSuggestion[]>([]);
+  const [oneRepMaxes, setOneRepMaxes] = useState<Record<string, number>>({});
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  // Last logged sets per exercise and the day's accepted or overridden
+  // suggestions, for programs with a progression rule
+  const [lastSessions, setLastSessions] = useState<
+    Record<string, { weight: number; reps: number }[]>
+  >({});
+  const [progressionDecisions, setProgressionDecisions] = useState<
+    Record<string, ProgressionDecision>
+  >({});
 
   useEffect(() => {
     fetchProgram();
     fetchRecords();
   }, [athleteId, selectedDate]);
 
+  useEffect(() => {
+    fetchOneRepMaxes();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [athleteId]);
+
+  useEffect(() => {
+    if (!program) return;
+    fetchExerciseLibrary(program.manager_id)
+      .then(setLibrary)
+      .catch((error) =>
+        console.error("Error fetching exercise library:", error)
+      );
+  }, [program]);
+
+  // Preselect the workout scheduled for the chosen date
+  useEffect(() => {
+    if (!program) return;
+    const { day } = getTodaysWorkout(program, selectedDate);
+    setSelectedPlan(day ? day.id : "none");
+  }, [program, selectedDate]);
+
+  useEffect(() => {
+    const day = getProgramDay(program, selectedPlan);
+    if (!day || !program?.progression_rule) {
+      setLastSessions({});
+      setProgressionDecisions({});
+      return;
+    }
+    Promise.all([
+      fetchLastSessions(
+        athleteId,
+        day.exercises.map((e) => e.exercise),
+        selectedDate
+      ),
+      fetchProgressionDecisions(athleteId, selectedDate),
+    ])
+      .then(([sessions, decisions]) => {
+        setLastSessions(sessions);
+        setProgressionDecisions(decisions);
+      })
+      .catch((error) =>
+        console.error("Error fetching load suggestions:", error)
+      );
+  }, [athleteId, program, selectedPlan, selectedDate]);
+
+  // Start each prescribed exercise with its prescribed number of series
+  useEffect(() => {
+    const day = getProgramDay(program, selectedPlan);
+    if (!day) return;
+    setExerciseInputs((prev) => {
+      const next = { ...prev };
+      day.exercises.forEach(({ exercise }) => {
+        if (next[exercise]) return;
+        const sets = getPrescription(selectedPlan, exercise).sets || 1;
+        next[exercise] = {
+          series: Array.from({ length: sets }, () => ({
+            weight: "",
+            reps: "",
+          })),
+          numSeries: sets,
+        };
+      });
+      return next;
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [program, selectedPlan, records]);
+
   const fetchProgram = async () => {
     try {
       // First, get the athlete's group_id
@@ -92,6 +212,135 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
     }
   };
 
+  // Confirmed PRs the coach has not rejected are the 1RM that %1RM
+  // prescriptions are based on, keyed by library exercise
+  const fetchOneRepMaxes = async () => {
+    const { data, error } = await supabase
+      .from("personal_records")
+      .select("exercise_id, weight")
+      .eq("athlete_id", athleteId)
+      .eq("status", "confirmed")
+      .neq("verification_status", "rejected")
+      .not("exercise_id", "is", null);
+
+    if (error) {
+      console.error("Error fetching personal records:", error);
+      return;
+    }
+
+    const best: Record<string, number> = {};
+    (data || []).forEach((record) => {
+      best[record.exercise_id] = Math.max(
+        best[record.exercise_id] || 0,
+        record.weight
+      );
+    });
+    setOneRepMaxes(best);
+  };
+
+  // Template week of the selected date
+  const currentWeek = program ? getProgramWeek(program, selectedDate) : null;
+
+  const getProgramExercise = (dayId: string, exercise: string) =>
+    getProgramDay(program, dayId)?.exercises.find(
+      (e) => e.exercise === exercise
+    );
+
+  const getPrescription = (
+    dayId: string,
+    exercise: string,
+    week: number | null = currentWeek
+  ): ExercisePrescription => {
+    const programExercise = getProgramExercise(dayId, exercise);
+    return programExercise
+      ? getWeekPrescription(programExercise, week)
+      : EMPTY_PRESCRIPTION;
+  };
+
+  // Library exercise of a program exercise. Programs saved before the library
+  // existed fall back to matching the name.
+  const getLibraryExercise = (
+    dayId: string,
+    exercise: string
+  ): Exercise | undefined => {
+    const programExercise = getProgramExercise(dayId, exercise);
+    if (!programExercise) return undefined;
+    return programExercise.exercise_id
+      ? library.find((ex) => ex.id === programExercise.exercise_id)
+      : findExercise(library, exercise);
+  };
+
+  const getExerciseTargetWeight = (
+    prescription: ExercisePrescription,
+    exerciseId: string | null | undefined
+  ): number | null =>
+    getTargetWeight(
+      prescription,
+      exerciseId ? oneRepMaxes[exerciseId] : undefined
+    );
+
+  const getLoadSuggestion = (
+    exercise: string,
+    prescription: ExercisePrescription
+  ): Suggestion | null =>
+    program?.progression_rule && lastSessions[exercise]
+      ? suggestNextLoad(
+          lastSessions[exercise],
+          prescription,
+          program.progression_rule,
+          getPreferredFormula()
+        )
+      : null;
+
+  // Fills the series not saved yet with the chosen load and records the
+  // choice, so the coach can review overrides
+  const applyLoadSuggestion = async (
+    exercise: string,
+    suggestion: Suggestion,
+    weight: number,
+    reason: string | null
+  ) => {
+    if (!program?.progression_rule) return;
+
+    const decision = await saveProgressionDecision({
+      athlete_id: athleteId,
+      program_id: program.id,
+      exercise_id: getLibraryExercise(selectedPlan, exercise)?.id || null,
+      exercise_name: exercise,
+      date: selectedDate,
+      rule: program.progression_rule.type,
+      suggested_weight: suggestion.weight,
+      suggested_reps: suggestion.reps,
+      chosen_weight: weight,
+      status: weight === suggestion.weight ? "accepted" : "overridden",
+      reason: reason || null,
+    });
+    setProgressionDecisions((prev) => ({ ...prev, [exercise]: decision }));
+
+    setExerciseInputs((prev) => {
+      const prevInput = prev[exercise];
+      if (!prevInput) return prev;
+      return {
+        ...prev,
+        [exercise]: {
+          ...prevInput,
+          series: prevInput.series.map((s) =>
+            s.saved
+              ? s
+              : {
+                  ...s,
+                  weight,
+                  reps:
+                    s.reps === "" && suggestion.reps !== null
+                      ? suggestion.reps
+                      : s.reps,
+                }
+          ),
+        },
+      };
+    });
+  };
+
   const fetchRecords = async () => {
     const { data, error } = await supabase
       .from("exercise_records")
@@ -134,6 +383,34 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
     setIsRecording(true);
   };
 
+  // A failed PR check should not block saving the sets themselves
+  const checkForPersonalRecord = async (
+    recordId: string,
+    exercise: string,
+    series: { weight: number; reps: number }[]
+  ) => {
+    const libraryExercise = getLibraryExercise(selectedPlan, exercise);
+    if (!libraryExercise) return;
+
+    try {
+      const suggestion = await suggestPersonalRecord(
+        athleteId,
+        recordId,
+        libraryExercise,
+        series,
+        selectedDate
+      );
+      if (suggestion) {
+        setPrSuggestions((prev) => [
+          ...prev.filter((s) => s.exercise !== suggestion.exercise),
+          suggestion,
+        ]);
+      }
+    } catch (error) {
+      console.error("Error checking for personal record:", error);
+    }
+  };
+
   const saveSeries = async (exercise: string, serieIndex: number) => {
     if (!program) return;
 
@@ -154,13 +431,22 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
         (r) => r.exercise_name === exercise && r.selected_plan === selectedPlan
       );
 
-      // Prepare the full series_data array (all series for this exercise)
-      const fullSeriesData = input.series.map((s, idx) => ({
-        weight: s.weight === "" ? 0 : Math.abs(Number(s.weight)),
-        reps: s.reps === "" ? 0 : Math.abs(Number(s.reps)),
-        id: s.id || crypto.randomUUID(),
+      // Prepare the series_data array from the series with both weight and
+      // reps entered; blank ones stay open for the athlete to fill in later
+      const filledIndexes = input.series
+        .map((_, i) => i)
+        .filter((i) => {
+          const s = input.series[i];
+          return s.weight !== "" && s.reps !== "";
+        });
+      const fullSeriesData = filledIndexes.map((i) => ({
+        weight: Math.abs(Number(input.series[i].weight)),
+        reps: Math.abs(Number(input.series[i].reps)),
+        id: input.series[i].id || crypto.randomUUID(),
       }));
 
+      const recordId = existingRecord ? existingRecord.id : crypto.randomUUID();
+
       if (existingRecord) {
         // Update existing record with all series
         const { error } = await supabase
@@ -172,11 +458,13 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
       } else {
         // Create new record with all series
         const newRecord = {
-          id: crypto.randomUUID(),
+          id: recordId,
           athlete_id: athleteId,
           program_id: program.id,
           selected_plan: selectedPlan,
+          week_number: currentWeek,
           exercise_name: exercise,
+          exercise_id: getLibraryExercise(selectedPlan, exercise)?.id || null,
           series_data: fullSeriesData,
           date: selectedDate,
           created_at: new Date().toISOString(),
@@ -189,24 +477,27 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
         if (error) throw error;
       }
 
+      await checkForPersonalRecord(recordId, exercise, fullSeriesData);
+
       // Update local state
       setExerciseInputs((prev) => ({
         ...prev,
         [exercise]: {
           ...prev[exercise],
-          series: prev[exercise].series.map((s, i) => ({
-            ...s,
-            saved: true,
-            id: fullSeriesData[i].id,
-          })),
+          series: prev[exercise].series.map((s, i) => {
+            const saved = filledIndexes.indexOf(i);
+            return saved === -1
+              ? s
+              : { ...s, saved: true, id: fullSeriesData[saved].id };
+          }),
         },
       }));
 
       setSavedSeries((prev) => {
         const updated = { ...prev };
-        for (let i = 0; i < fullSeriesData.length; i++) {
+        filledIndexes.forEach((i) => {
           updated[`${exercise}-${i}`] = true;
-        }
+        });
         return updated;
       });
 
@@ -226,27 +517,36 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
   const handleSaveAll = async () => {
     if (!program) return;
 
-    const exercises =
-      selectedPlan === "A"
-        ? program.plan_a_exercises
-        : program.plan_b_exercises;
+    const exercises = (
+      getProgramDay(program, selectedPlan)?.exercises || []
+    ).map((e) => e.exercise);
 
     for (const exercise of exercises) {
       const input = exerciseInputs[exercise];
       if (!input) continue;
 
-      // Prepare the full series_data array (all series for this exercise)
-      const fullSeriesData = input.series.map((s, idx) => ({
-        weight: s.weight === "" ? 0 : Math.abs(Number(s.weight)),
-        reps: s.reps === "" ? 0 : Math.abs(Number(s.reps)),
-        id: s.id || crypto.randomUUID(),
+      // Prepare the series_data array from the series with both weight and
+      // reps entered; blank ones stay open for the athlete to fill in later
+      const filledIndexes = input.series
+        .map((_, i) => i)
+        .filter((i) => {
+          const s = input.series[i];
+          return s.weight !== "" && s.reps !== "";
+        });
+      const fullSeriesData = filledIndexes.map((i) => ({
+        weight: Math.abs(Number(input.series[i].weight)),
+        reps: Math.abs(Number(input.series[i].reps)),
+        id: input.series[i].id || crypto.randomUUID(),
       }));
+      if (fullSeriesData.length === 0) continue;
 
       // Check if we already have a record for this exercise
       const existingRecord = records.find(
         (r) => r.exercise_name === exercise && r.selected_plan === selectedPlan
       );
 
+      const recordId = existingRecord ? existingRecord.id : crypto.randomUUID();
+
       if (existingRecord) {
         // Update existing record with all series
         const { error } = await supabase
@@ -257,11 +557,13 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
       } else {
         // Create new record with all series
         const newRecord = {
-          id: crypto.randomUUID(),
+          id: recordId,
           athlete_id: athleteId,
           program_id: program.id,
           selected_plan: selectedPlan,
+          week_number: currentWeek,
           exercise_name: exercise,
+          exercise_id: getLibraryExercise(selectedPlan, exercise)?.id || null,
           series_data: fullSeriesData,
           date: selectedDate,
           created_at: new Date().toISOString(),
@@ -272,24 +574,27 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
         if (error) throw error;
       }
 
+      await checkForPersonalRecord(recordId, exercise, fullSeriesData);
+
       // Update local state
       setExerciseInputs((prev) => ({
         ...prev,
         [exercise]: {
           ...prev[exercise],
-          series: prev[exercise].series.map((s, i) => ({
-            ...s,
-            saved: true,
-            id: fullSeriesData[i].id,
-          })),
+          series: prev[exercise].series.map((s, i) => {
+            const saved = filledIndexes.indexOf(i);
+            return saved === -1
+              ? s
+              : { ...s, saved: true, id: fullSeriesData[saved].id };
+          }),
         },
       }));
 
       setSavedSeries((prev) => {
         const updated = { ...prev };
-        for (let i = 0; i < fullSeriesData.length; i++) {
+        filledIndexes.forEach((i) => {
           updated[`${exercise}-${i}`] = true;
-        }
+        });
         return updated;
       });
     }
@@ -336,9 +641,11 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
     fetchRecords();
   };
 
-  const hasPlanA = program && program.plan_a_exercises.length > 0;
-  const hasPlanB = program && program.plan_b_exercises.length > 0;
-  const hasPlans = hasPlanA || hasPlanB;
+  const programDays = getProgramDays(program);
+  const hasPlans = programDays.length > 0;
+  const todaysDayId = program
+    ? getTodaysWorkout(program, selectedDate).day?.id
+    : undefined;
 
   // Group records by exercise_name
   const groupedRecords = records.reduce((acc, rec) => {
@@ -347,6 +654,37 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
     return acc;
   }, {} as Record<string, ExerciseRecord[]>);
 
+  const e1rmFormula = getPreferredFormula();
+
+  // Actual vs. prescribed for a logged exercise
+  const renderPrescriptionResult = (record: ExerciseRecord) => {
+    const prescription = getPrescription(
+      record.selected_plan,
+      record.exercise_name,
+      record.week_number ?? currentWeek
+    );
+    if (!hasPrescription(prescription)) return null;
+    const comparison = comparePrescription(
+      record.series_data || [],
+      prescription,
+      getExerciseTargetWeight(prescription, record.exercise_id)
+    );
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span>{formatPrescription(prescription)}</span>
+        <span
+          className={clsx(
+            "px-2 py-0.5 rounded-full text-xs font-medium",
+            PRESCRIPTION_STATUS_STYLES[comparison.status]
+          )}
+        >
+          {comparison.setsOnTarget}/
+          {comparison.setsPrescribed ?? comparison.setsLogged} sets on target
+        </span>
+      </div>
+    );
+  };
+
   return (
     <div
       className={clsx(
@@ -396,39 +734,55 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
         </div>
       </div>
 
+      {prSuggestions.length > 0 && (
+        <div
+          className={clsx(
+            "rounded-lg px-4 py-3 text-sm mb-6 flex items-start gap-2",
+            theme === "dark"
+              ? "bg-yellow-500/10 text-yellow-300"
+              : "bg-yellow-50 text-yellow-800 border border-yellow-200"
+          )}
+        >
+          <Trophy className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {prSuggestions.map((suggestion) => (
+              <p key={suggestion.exercise}>
+                New {suggestion.exercise} best:{" "}
+                <span className="font-semibold">
+                  {suggestion.weight} kg x {suggestion.reps}
+                </span>
+                .
+              </p>
+            ))}
+            <p className="mt-1 text-xs">
+              Suggested as a personal record. Confirm it under Personal Records.
+            </p>
+          </div>
+        </div>
+      )}
+
       {isRecording ? (
         <div className="space-y-6">
-          <div className="flex gap-4">
-            <button
-              onClick={() => setSelectedPlan("A")}
-              className={clsx(
-                "flex-1 px-4 py-3 rounded-lg font-medium text-sm",
-                selectedPlan === "A"
-                  ? theme === "dark"
-                    ? "bg-blue-500/20 text-blue-400"
-                    : "bg-blue-600 text-white"
-                  : theme === "dark"
-                  ? "bg-slate-700/50 text-slate-300 hover:bg-slate-700"
-                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
-              )}
-            >
-              Plan A
-            </button>
-            <button
-              onClick={() => setSelectedPlan("B")}
-              className={clsx(
-                "flex-1 px-4 py-3 rounded-lg font-medium text-sm",
-                selectedPlan === "B"
-                  ? theme === "dark"
-                    ? "bg-blue-500/20 text-blue-400"
-                    : "bg-blue-600 text-white"
-                  : theme === "dark"
-                  ? "bg-slate-700/50 text-slate-300 hover:bg-slate-700"
-                  : "bg-gray-100 text-gray-700 hover:bg-gray-200"
-              )}
-            >
-              Plan B
-            </button>
+          <div className="flex flex-wrap gap-2 sm:gap-4">
+            {programDays.map((day) => (
+              <button
+                key={day.id}
+                onClick={() => setSelectedPlan(day.id)}
+                className={clsx(
+                  "flex-1 px-4 py-3 rounded-lg font-medium text-sm whitespace-nowrap",
+                  selectedPlan === day.id
+                    ? theme === "dark"
+                      ? "bg-blue-500/20 text-blue-400"
+                      : "bg-blue-600 text-white"
+                    : theme === "dark"
+                    ? "bg-slate-700/50 text-slate-300 hover:bg-slate-700"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                )}
+              >
+                {day.name}
+                {day.id === todaysDayId && " (today)"}
+              </button>
+            ))}
           </div>
 
           {selectedPlan !== "none" && program && (
@@ -439,285 +793,381 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                   theme === "dark" ? "text-white" : "text-gray-900"
                 )}
               >
-                {selectedPlan === "A" ? "Plan A" : "Plan B"} Exercises
+                {getDayName(program, selectedPlan)} Exercises
+                {currentWeek !== null && (program.week_count || 1) > 1 && (
+                  <span
+                    className={clsx(
+                      "ml-2 text-sm font-normal",
+                      theme === "dark" ? "text-slate-400" : "text-gray-500"
+                    )}
+                  >
+                    Week {currentWeek} of {program.week_count}
+                  </span>
+                )}
               </h3>
               <div className="space-y-4">
-                {(selectedPlan === "A"
-                  ? program.plan_a_exercises
-                  : program.plan_b_exercises
-                ).map((exercise, index) => {
-                  const input = exerciseInputs[exercise] || {
-                    series: [{ weight: "", reps: "" }],
-                    numSeries: 1,
-                  };
-                  return (
-                    <div
-                      key={index}
-                      className={clsx(
-                        "p-4 rounded-lg",
-                        theme === "dark" ? "bg-slate-700/50" : "bg-gray-50"
-                      )}
-                    >
-                      <div className="flex items-center justify-between mb-2">
-                        <span
-                          className={clsx(
-                            "font-medium",
-                            theme === "dark" ? "text-white" : "text-gray-900"
-                          )}
-                        >
-                          {exercise}
-                        </span>
-                      </div>
-                      <div className="mb-2 flex items-center gap-2">
-                        <label
-                          className={clsx(
-                            "text-sm",
-                            theme === "dark"
-                              ? "text-slate-300"
-                              : "text-gray-600"
-                          )}
-                        >
-                          Series:
-                        </label>
-                        <select
-                          value={input.numSeries}
-                          onChange={(e) => {
-                            const num = Number(e.target.value);
-                            setExerciseInputs((prev) => {
-                              const prevInput = prev[exercise] || {
-                                series: [],
-                                numSeries: 1,
-                              };
-                              let newSeries = [...prevInput.series];
-                              if (num > newSeries.length) {
-                                newSeries = [
-                                  ...newSeries,
-                                  ...Array(num - newSeries.length).fill({
-                                    weight: "",
-                                    reps: "",
-                                  }),
-                                ];
-                              } else if (num < newSeries.length) {
-                                newSeries = newSeries.slice(0, num);
-                              }
-                              return {
-                                ...prev,
-                                [exercise]: {
-                                  ...prevInput,
-                                  numSeries: num,
-                                  series: newSeries,
-                                },
-                              };
-                            });
-                          }}
-                          className={clsx(
-                            "px-2 py-1 rounded border appearance-none pr-8",
-                            theme === "dark"
-                              ? "bg-slate-900/50 border-slate-700 text-white"
-                              : "bg-white border-gray-300 text-gray-900"
+                {(getProgramDay(program, selectedPlan)?.exercises || []).map(
+                  ({ exercise }, index) => {
+                    const input = exerciseInputs[exercise] || {
+                      series: [{ weight: "", reps: "" }],
+                      numSeries: 1,
+                    };
+                    const prescription = getPrescription(
+                      selectedPlan,
+                      exercise
+                    );
+                    const libraryExercise = getLibraryExercise(
+                      selectedPlan,
+                      exercise
+                    );
+                    const targetWeight = getExerciseTargetWeight(
+                      prescription,
+                      libraryExercise?.id
+                    );
+                    const loadSuggestion = getLoadSuggestion(
+                      exercise,
+                      prescription
+                    );
+                    return (
+                      <div
+                        key={index}
+                        className={clsx(
+                          "p-4 rounded-lg",
+                          theme === "dark" ? "bg-slate-700/50" : "bg-gray-50"
+                        )}
+                      >
+                        <div className="flex items-center justify-between mb-2">
+                          <span
+                            className={clsx(
+                              "font-medium",
+                              theme === "dark" ? "text-white" : "text-gray-900"
+                            )}
+                          >
+                            {exercise}
+                          </span>
+                          {libraryExercise?.demo_video_url && (
+                            <a
+                              href={libraryExercise.demo_video_url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={clsx(
+                                "flex items-center gap-1 text-sm",
+                                theme === "dark"
+                                  ? "text-blue-300 hover:text-blue-200"
+                                  : "text-blue-600 hover:text-blue-700"
+                              )}
+                            >
+                              <Video className="h-4 w-4" />
+                              Demo
+                            </a>
                           )}
-                        >
-                          {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((n) => (
-                            <option key={n} value={n}>
-                              {n}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
-                      <div className="space-y-2">
-                        {input.series.map((serie, serieIdx) => (
-                          <div
-                            key={serieIdx}
-                            className="grid grid-cols-2 gap-3"
+                        </div>
+                        {hasPrescription(prescription) && (
+                          <p
+                            className={clsx(
+                              "text-sm mb-2",
+                              theme === "dark"
+                                ? "text-blue-300"
+                                : "text-blue-700"
+                            )}
                           >
-                            <div>
-                              <label
-                                className={clsx(
-                                  "block text-xs mb-1",
-                                  theme === "dark"
-                                    ? "text-slate-300"
-                                    : "text-gray-600"
-                                )}
-                              >
-                                Weight (kg) - Serie {serieIdx + 1}
-                              </label>
-                              <input
-                                type="number"
-                                value={
-                                  serie.weight === 0 || serie.weight === null
-                                    ? ""
-                                    : serie.weight
-                                }
-                                onChange={(e) => {
-                                  const val = e.target.value;
-                                  setExerciseInputs((prev) => {
-                                    const prevInput = prev[exercise] || {
-                                      series: [],
-                                      numSeries: 1,
-                                    };
-                                    let newSeries = [...prevInput.series];
-                                    if (
-                                      newSeries.length < prevInput.numSeries
-                                    ) {
-                                      newSeries = [
-                                        ...newSeries,
-                                        ...Array(
-                                          prevInput.numSeries - newSeries.length
-                                        ).fill({ weight: "", reps: "" }),
-                                      ];
-                                    }
-                                    newSeries = newSeries.map((s, i) =>
-                                      i === serieIdx
-                                        ? {
-                                            ...s,
-                                            weight:
-                                              val === "" ? "" : Number(val),
-                                            saved: false,
-                                          }
-                                        : s
-                                    );
-                                    return {
-                                      ...prev,
-                                      [exercise]: {
-                                        ...prevInput,
-                                        series: newSeries,
-                                      },
-                                    };
-                                  });
-                                }}
-                                className={clsx(
-                                  "w-full px-3 py-2 rounded-lg border",
-                                  theme === "dark"
-                                    ? "bg-slate-900/50 border-slate-700 text-white"
-                                    : "bg-white border-gray-300 text-gray-900",
-                                  serie.saved ? "border-green-500" : ""
-                                )}
-                                disabled={serie.saved}
-                              />
-                            </div>
-                            <div>
-                              <label
-                                className={clsx(
-                                  "block text-xs mb-1",
-                                  theme === "dark"
-                                    ? "text-slate-300"
-                                    : "text-gray-600"
-                                )}
-                              >
-                                Reps - Serie {serieIdx + 1}
-                              </label>
-                              <input
-                                type="number"
-                                value={
-                                  serie.reps === 0 || serie.reps === null
-                                    ? ""
-                                    : serie.reps
+                            Target: {formatPrescription(prescription)}
+                            {targetWeight !== null &&
+                              prescription.load_type === "percent_1rm" &&
+                              ` (${targetWeight} kg)`}
+                          </p>
+                        )}
+                        {loadSuggestion && (
+                          <LoadSuggestion
+                            suggestion={loadSuggestion}
+                            decision={progressionDecisions[exercise]}
+                            onAccept={() =>
+                              applyLoadSuggestion(
+                                exercise,
+                                loadSuggestion,
+                                loadSuggestion.weight,
+                                null
+                              )
+                            }
+                            onOverride={(weight, reason) =>
+                              applyLoadSuggestion(
+                                exercise,
+                                loadSuggestion,
+                                weight,
+                                reason
+                              )
+                            }
+                            theme={theme}
+                          />
+                        )}
+                        <div className="mb-2 flex items-center gap-2">
+                          <label
+                            className={clsx(
+                              "text-sm",
+                              theme === "dark"
+                                ? "text-slate-300"
+                                : "text-gray-600"
+                            )}
+                          >
+                            Series:
+                          </label>
+                          <select
+                            value={input.numSeries}
+                            onChange={(e) => {
+                              const num = Number(e.target.value);
+                              setExerciseInputs((prev) => {
+                                const prevInput = prev[exercise] || {
+                                  series: [],
+                                  numSeries: 1,
+                                };
+                                let newSeries = [...prevInput.series];
+                                if (num > newSeries.length) {
+                                  newSeries = [
+                                    ...newSeries,
+                                    ...Array(num - newSeries.length).fill({
+                                      weight: "",
+                                      reps: "",
+                                    }),
+                                  ];
+                                } else if (num < newSeries.length) {
+                                  newSeries = newSeries.slice(0, num);
                                 }
-                                onChange={(e) => {
-                                  const val = e.target.value;
-                                  setExerciseInputs((prev) => {
-                                    const prevInput = prev[exercise] || {
-                                      series: [],
-                                      numSeries: 1,
-                                    };
-                                    let newSeries = [...prevInput.series];
-                                    if (
-                                      newSeries.length < prevInput.numSeries
-                                    ) {
-                                      newSeries = [
-                                        ...newSeries,
-                                        ...Array(
-                                          prevInput.numSeries - newSeries.length
-                                        ).fill({ weight: "", reps: "" }),
-                                      ];
-                                    }
-                                    newSeries = newSeries.map((s, i) =>
-                                      i === serieIdx
-                                        ? {
-                                            ...s,
-                                            reps: val === "" ? "" : Number(val),
-                                            saved: false,
-                                          }
-                                        : s
-                                    );
-                                    return {
-                                      ...prev,
-                                      [exercise]: {
-                                        ...prevInput,
-                                        series: newSeries,
-                                      },
-                                    };
-                                  });
-                                }}
-                                className={clsx(
-                                  "w-full px-3 py-2 rounded-lg border",
-                                  theme === "dark"
-                                    ? "bg-slate-900/50 border-slate-700 text-white"
-                                    : "bg-white border-gray-300 text-gray-900",
-                                  serie.saved ? "border-green-500" : ""
+                                return {
+                                  ...prev,
+                                  [exercise]: {
+                                    ...prevInput,
+                                    numSeries: num,
+                                    series: newSeries,
+                                  },
+                                };
+                              });
+                            }}
+                            className={clsx(
+                              "px-2 py-1 rounded border appearance-none pr-8",
+                              theme === "dark"
+                                ? "bg-slate-900/50 border-slate-700 text-white"
+                                : "bg-white border-gray-300 text-gray-900"
+                            )}
+                          >
+                            {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map((n) => (
+                              <option key={n} value={n}>
+                                {n}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="space-y-2">
+                          {input.series.map((serie, serieIdx) => (
+                            <div
+                              key={serieIdx}
+                              className="grid grid-cols-2 gap-3"
+                            >
+                              <div>
+                                <label
+                                  className={clsx(
+                                    "block text-xs mb-1",
+                                    theme === "dark"
+                                      ? "text-slate-300"
+                                      : "text-gray-600"
+                                  )}
+                                >
+                                  Weight (kg) - Serie {serieIdx + 1}
+                                </label>
+                                <input
+                                  type="number"
+                                  value={
+                                    serie.weight === 0 || serie.weight === null
+                                      ? ""
+                                      : serie.weight
+                                  }
+                                  placeholder={
+                                    targetWeight !== null
+                                      ? String(targetWeight)
+                                      : undefined
+                                  }
+                                  onChange={(e) => {
+                                    const val = e.target.value;
+                                    setExerciseInputs((prev) => {
+                                      const prevInput = prev[exercise] || {
+                                        series: [],
+                                        numSeries: 1,
+                                      };
+                                      let newSeries = [...prevInput.series];
+                                      if (
+                                        newSeries.length < prevInput.numSeries
+                                      ) {
+                                        newSeries = [
+                                          ...newSeries,
+                                          ...Array(
+                                            prevInput.numSeries -
+                                              newSeries.length
+                                          ).fill({ weight: "", reps: "" }),
+                                        ];
+                                      }
+                                      newSeries = newSeries.map((s, i) =>
+                                        i === serieIdx
+                                          ? {
+                                              ...s,
+                                              weight:
+                                                val === "" ? "" : Number(val),
+                                              saved: false,
+                                            }
+                                          : s
+                                      );
+                                      return {
+                                        ...prev,
+                                        [exercise]: {
+                                          ...prevInput,
+                                          series: newSeries,
+                                        },
+                                      };
+                                    });
+                                  }}
+                                  className={clsx(
+                                    "w-full px-3 py-2 rounded-lg border",
+                                    theme === "dark"
+                                      ? "bg-slate-900/50 border-slate-700 text-white"
+                                      : "bg-white border-gray-300 text-gray-900",
+                                    serie.saved ? "border-green-500" : ""
+                                  )}
+                                  disabled={serie.saved}
+                                />
+                              </div>
+                              <div>
+                                <label
+                                  className={clsx(
+                                    "block text-xs mb-1",
+                                    theme === "dark"
+                                      ? "text-slate-300"
+                                      : "text-gray-600"
+                                  )}
+                                >
+                                  Reps - Serie {serieIdx + 1}
+                                </label>
+                                <input
+                                  type="number"
+                                  value={
+                                    serie.reps === 0 || serie.reps === null
+                                      ? ""
+                                      : serie.reps
+                                  }
+                                  placeholder={
+                                    prescription.reps !== null
+                                      ? String(prescription.reps)
+                                      : undefined
+                                  }
+                                  onChange={(e) => {
+                                    const val = e.target.value;
+                                    setExerciseInputs((prev) => {
+                                      const prevInput = prev[exercise] || {
+                                        series: [],
+                                        numSeries: 1,
+                                      };
+                                      let newSeries = [...prevInput.series];
+                                      if (
+                                        newSeries.length < prevInput.numSeries
+                                      ) {
+                                        newSeries = [
+                                          ...newSeries,
+                                          ...Array(
+                                            prevInput.numSeries -
+                                              newSeries.length
+                                          ).fill({ weight: "", reps: "" }),
+                                        ];
+                                      }
+                                      newSeries = newSeries.map((s, i) =>
+                                        i === serieIdx
+                                          ? {
+                                              ...s,
+                                              reps:
+                                                val === "" ? "" : Number(val),
+                                              saved: false,
+                                            }
+                                          : s
+                                      );
+                                      return {
+                                        ...prev,
+                                        [exercise]: {
+                                          ...prevInput,
+                                          series: newSeries,
+                                        },
+                                      };
+                                    });
+                                  }}
+                                  className={clsx(
+                                    "w-full px-3 py-2 rounded-lg border",
+                                    theme === "dark"
+                                      ? "bg-slate-900/50 border-slate-700 text-white"
+                                      : "bg-white border-gray-300 text-gray-900",
+                                    serie.saved ? "border-green-500" : ""
+                                  )}
+                                  disabled={serie.saved}
+                                />
+                              </div>
+                              <div className="col-span-2 flex justify-end gap-2">
+                                {serie.saved ? (
+                                  <div className="flex items-center gap-2 text-green-500">
+                                    <Check className="h-4 w-4" />
+                                    <span className="text-sm">Saved</span>
+                                  </div>
+                                ) : (
+                                  <>
+                                    <button
+                                      onClick={() =>
+                                        saveSeries(exercise, serieIdx)
+                                      }
+                                      disabled={
+                                        savingSeries[
+                                          `${exercise}-${serieIdx}`
+                                        ] ||
+                                        !serie.weight ||
+                                        !serie.reps
+                                      }
+                                      className={clsx(
+                                        "px-3 py-1 rounded-lg text-sm font-medium flex items-center gap-1",
+                                        theme === "dark"
+                                          ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 disabled:opacity-50"
+                                          : "bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                                      )}
+                                    >
+                                      {savingSeries[
+                                        `${exercise}-${serieIdx}`
+                                      ] ? (
+                                        <>
+                                          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                                          <span>Saving...</span>
+                                        </>
+                                      ) : (
+                                        <>
+                                          <Save className="h-4 w-4" />
+                                          <span>Save Series</span>
+                                        </>
+                                      )}
+                                    </button>
+                                    <button
+                                      onClick={() =>
+                                        deleteSeries(exercise, serieIdx)
+                                      }
+                                      className={clsx(
+                                        "px-3 py-1 rounded-lg text-sm font-medium flex items-center gap-1",
+                                        theme === "dark"
+                                          ? "bg-red-500/20 text-red-400 hover:bg-red-500/30"
+                                          : "bg-red-100 text-red-600 hover:bg-red-200"
+                                      )}
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                      <span>Delete</span>
+                                    </button>
+                                  </>
                                 )}
-                                disabled={serie.saved}
-                              />
-                            </div>
-                            <div className="col-span-2 flex justify-end gap-2">
-                              {serie.saved ? (
-                                <div className="flex items-center gap-2 text-green-500">
-                                  <Check className="h-4 w-4" />
-                                  <span className="text-sm">Saved</span>
-                                </div>
-                              ) : (
-                                <>
-                                  <button
-                                    onClick={() =>
-                                      saveSeries(exercise, serieIdx)
-                                    }
-                                    disabled={
-                                      savingSeries[`${exercise}-${serieIdx}`] ||
-                                      !serie.weight ||
-                                      !serie.reps
-                                    }
-                                    className={clsx(
-                                      "px-3 py-1 rounded-lg text-sm font-medium flex items-center gap-1",
-                                      theme === "dark"
-                                        ? "bg-blue-500/20 text-blue-400 hover:bg-blue-500/30 disabled:opacity-50"
-                                        : "bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
-                                    )}
-                                  >
-                                    {savingSeries[`${exercise}-${serieIdx}`] ? (
-                                      <>
-                                        <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
-                                        <span>Saving...</span>
-                                      </>
-                                    ) : (
-                                      <>
-                                        <Save className="h-4 w-4" />
-                                        <span>Save Series</span>
-                                      </>
-                                    )}
-                                  </button>
-                                  <button
-                                    onClick={() =>
-                                      deleteSeries(exercise, serieIdx)
-                                    }
-                                    className={clsx(
-                                      "px-3 py-1 rounded-lg text-sm font-medium flex items-center gap-1",
-                                      theme === "dark"
-                                        ? "bg-red-500/20 text-red-400 hover:bg-red-500/30"
-                                        : "bg-red-100 text-red-600 hover:bg-red-200"
-                                    )}
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                    <span>Delete</span>
-                                  </button>
-                                </>
-                              )}
+                              </div>
                             </div>
-                          </div>
-                        ))}
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  );
-                })}
+                    );
+                  }
+                )}
               </div>
             </div>
           )}
@@ -764,49 +1214,30 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
             </div>
           ) : (
             <>
-              {hasPlanA && (
-                <div>
+              {programDays.map((day, dayIndex) => (
+                <div key={day.id} className={dayIndex > 0 ? "mt-6" : undefined}>
                   <h3
                     className={clsx(
-                      "text-lg font-semibold mb-4",
+                      "text-lg font-semibold mb-4 flex items-center gap-2",
                       theme === "dark" ? "text-white" : "text-gray-900"
                     )}
                   >
-                    Plan A
-                  </h3>
-                  <ul
-                    className={clsx(
-                      "space-y-2",
-                      theme === "dark" ? "text-slate-300" : "text-gray-600"
-                    )}
-                  >
-                    {program.plan_a_exercises.map((exercise, index) => (
-                      <li key={index} className="flex items-center gap-2">
-                        <span
-                          className={clsx(
-                            "w-6 h-6 rounded-full flex items-center justify-center text-sm font-medium",
-                            theme === "dark"
-                              ? "bg-blue-500/20 text-blue-400"
-                              : "bg-blue-100 text-blue-600"
-                          )}
-                        >
-                          {index + 1}
-                        </span>
-                        {exercise}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              )}
-              {hasPlanB && (
-                <div className={hasPlanA ? "mt-6" : undefined}>
-                  <h3
-                    className={clsx(
-                      "text-lg font-semibold mb-4",
-                      theme === "dark" ? "text-white" : "text-gray-900"
+                    {day.name}
+                    {day.id === todaysDayId && (
+                      <span
+                        className={clsx(
+                          "px-2 py-0.5 rounded-full text-xs font-medium",
+                          theme === "dark"
+                            ? "bg-green-500/20 text-green-300"
+                            : "bg-green-100 text-green-800"
+                        )}
+                      >
+                        Today
+                        {currentWeek !== null &&
+                          (program?.week_count || 1) > 1 &&
+                          ` · Week ${currentWeek}`}
+                      </span>
                     )}
-                  >
-                    Plan B
                   </h3>
                   <ul
                     className={clsx(
@@ -814,7 +1245,7 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                       theme === "dark" ? "text-slate-300" : "text-gray-600"
                     )}
                   >
-                    {program.plan_b_exercises.map((exercise, index) => (
+                    {day.exercises.map(({ exercise }, index) => (
                       <li key={index} className="flex items-center gap-2">
                         <span
                           className={clsx(
@@ -831,7 +1262,7 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                     ))}
                   </ul>
                 </div>
-              )}
+              ))}
               <div className="mb-4">
                 <div
                   className={clsx(
@@ -841,8 +1272,8 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                       : "bg-blue-50 text-blue-800 border border-blue-100"
                   )}
                 >
-                  If you didn't do any of the plans, please do not fill out this
-                  section.
+                  If you didn't do any of the training days, please do not fill
+                  out this section.
                 </div>
               </div>
               {records.length > 0 && (
@@ -881,6 +1312,7 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                                 <span className="font-semibold">Exercise:</span>{" "}
                                 <span>{exercise}</span>
                               </div>
+                              {renderPrescriptionResult(recs[0])}
                               <div className="overflow-x-auto">
                                 <table className="min-w-full text-sm">
                                   <thead>
@@ -888,6 +1320,7 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                                       <th className="pr-2 text-left">Series</th>
                                       <th className="pr-2 text-left">Weight</th>
                                       <th className="pr-2 text-left">Reps</th>
+                                      <th className="pr-2 text-left">e1RM</th>
                                     </tr>
                                   </thead>
                                   <tbody>
@@ -902,6 +1335,13 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                                             <td className="pr-2">
                                               {serie.reps}
                                             </td>
+                                            <td className="pr-2">
+                                              {estimateOneRepMax(
+                                                serie.weight,
+                                                serie.reps,
+                                                e1rmFormula
+                                              ) ?? "-"}
+                                            </td>
                                           </tr>
                                         )
                                       )}
@@ -926,7 +1366,7 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                       <thead>
                         <tr>
                           <th className="px-4 py-2 text-left font-semibold uppercase tracking-wider whitespace-nowrap">
-                            Plan
+                            Day
                           </th>
                           <th className="px-4 py-2 text-left font-semibold uppercase tracking-wider whitespace-nowrap">
                             Exercise
@@ -934,6 +1374,12 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                           <th className="px-4 py-2 text-left font-semibold uppercase tracking-wider whitespace-nowrap">
                             Series (W x R)
                           </th>
+                          <th className="px-4 py-2 text-left font-semibold uppercase tracking-wider whitespace-nowrap">
+                            Best e1RM
+                          </th>
+                          <th className="px-4 py-2 text-left font-semibold uppercase tracking-wider whitespace-nowrap">
+                            Prescribed
+                          </th>
                         </tr>
                       </thead>
                       <tbody
@@ -951,7 +1397,7 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                               className="hover:bg-blue-50 sm:hover:bg-transparent"
                             >
                               <td className="px-4 py-2 whitespace-nowrap">
-                                {recs[0].selected_plan}
+                                {getDayName(program, recs[0].selected_plan)}
                               </td>
                               <td className="px-4 py-2 whitespace-nowrap">
                                 {exercise}
@@ -967,6 +1413,15 @@ export default function TrainingProgramAthlete({ athleteId, theme }: Props) {
                                     )
                                     .join(", ")}
                               </td>
+                              <td className="px-4 py-2 whitespace-nowrap">
+                                {getBestSet(
+                                  recs[0].series_data || [],
+                                  e1rmFormula
+                                )?.e1rm ?? "-"}
+                              </td>
+                              <td className="px-4 py-2 whitespace-nowrap">
+                                {renderPrescriptionResult(recs[0]) ?? "-"}
+                              </td>
                             </tr>
                           )
                         )}
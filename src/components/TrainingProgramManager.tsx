@@ -5,7 +5,33 @@ import type {
   ExerciseRecord,
   Profile,
   AthleteGroup,
+  TrainingCycle,
+  Exercise,
+  ProgramDay,
+  ProgramExercise,
+  ProgressionRule,
+  ProgressionRuleType,
 } from "../lib/database.types";
+import { getCyclesForGroup, getPhaseLabel } from "../lib/periodization";
+import { formatPrescription } from "../lib/prescriptions";
+import { WEEKDAYS } from "../lib/compliance";
+import {
+  DEFAULT_PROGRESSION_RULE,
+  PROGRESSION_RULES,
+} from "../lib/progression";
+import {
+  MAX_WEEK_COUNT,
+  createProgramDay,
+  createProgramExercise,
+  getDayName,
+  getProgramDays,
+  getWeekPrescription,
+  setWeekPrescription,
+  trimWeekPrescriptions,
+} from "../lib/programDays";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import PrescriptionInputs from "./PrescriptionInputs";
+import ProgressionOverrides from "./ProgressionOverrides";
 import {
   Plus,
   Trash2,
@@ -53,11 +79,18 @@ export default function TrainingProgramManager({
     null
   );
   const [isEditing, setIsEditing] = useState(false);
-  const [planAExercises, setPlanAExercises] = useState<string[]>([]);
-  const [planBExercises, setPlanBExercises] = useState<string[]>([]);
+  const [days, setDays] = useState<ProgramDay[]>([]);
+  const [weekCount, setWeekCount] = useState(1);
+  const [startDate, setStartDate] = useState("");
+  const [progressionRule, setProgressionRule] =
+    useState<ProgressionRule | null>(null);
+  // Week whose prescriptions are being edited; null edits the base
+  const [editingWeek, setEditingWeek] = useState<number | null>(null);
+  const [library, setLibrary] = useState<Exercise[]>([]);
   const [programGroup, setProgramGroup] = useState<string>("");
-  const [newExerciseA, setNewExerciseA] = useState("");
-  const [newExerciseB, setNewExerciseB] = useState("");
+  const [programCycle, setProgramCycle] = useState<string>("");
+  // Library exercise picked in each day's "add exercise" select
+  const [newExercises, setNewExercises] = useState<Record<string, string>>({});
   const [records, setRecords] = useState<ExerciseRecord[]>([]);
   const [selectedAthlete, setSelectedAthlete] = useState<string>("all");
   const [selectedGroup, setSelectedGroup] = useState<string>("all");
@@ -67,6 +100,7 @@ export default function TrainingProgramManager({
   const [openRecordKey, setOpenRecordKey] = useState<string | null>(null);
   const [openAthleteKey, setOpenAthleteKey] = useState<string | null>(null);
   const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [cycles, setCycles] = useState<TrainingCycle[]>([]);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [programToDelete, setProgramToDelete] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -75,29 +109,50 @@ export default function TrainingProgramManager({
     fetchPrograms();
     fetchRecords();
     fetchGroups();
+    fetchCycles();
   }, [managerId]);
 
   useEffect(() => {
     fetchRecords();
   }, [selectedAthlete, selectedDate]);
 
+  // Reload when editing starts so exercises just added to the library show up
+  useEffect(() => {
+    if (!isEditing) return;
+    fetchExerciseLibrary(managerId)
+      .then(setLibrary)
+      .catch((error) =>
+        console.error("Error fetching exercise library:", error)
+      );
+  }, [managerId, isEditing]);
+
+  const loadProgramDays = (program: TrainingProgram | null) => {
+    setDays(getProgramDays(program));
+    setWeekCount(program?.week_count || 1);
+    setStartDate(program?.start_date || "");
+    setProgressionRule(program?.progression_rule || null);
+    setEditingWeek(null);
+    setNewExercises({});
+  };
+
   // Function to handle program selection
   const handleProgramSelect = (program: TrainingProgram) => {
     setCurrentProgram(program);
-    setPlanAExercises(program.plan_a_exercises);
-    setPlanBExercises(program.plan_b_exercises);
+    loadProgramDays(program);
     setProgramGroup(
       program.group_id || (groups.length > 0 ? groups[0].id : "")
     );
+    setProgramCycle(program.cycle_id || "");
     setIsEditing(false);
   };
 
   // Function to start creating a new program
   const handleCreateNew = () => {
     setCurrentProgram(null);
-    setPlanAExercises([]);
-    setPlanBExercises([]);
+    loadProgramDays(null);
+    setDays([createProgramDay("Day 1")]);
     setProgramGroup(groups.length > 0 ? groups[0].id : "");
+    setProgramCycle("");
     setIsEditing(true);
   };
 
@@ -116,6 +171,21 @@ export default function TrainingProgramManager({
     setGroups(data || []);
   };
 
+  const fetchCycles = async () => {
+    const { data, error } = await supabase
+      .from("training_cycles")
+      .select("*")
+      .eq("manager_id", managerId)
+      .order("start_date");
+
+    if (error) {
+      console.error("Error fetching training cycles:", error);
+      return;
+    }
+
+    setCycles(data || []);
+  };
+
   const fetchPrograms = async () => {
     const { data, error } = await supabase
       .from("training_programs")
@@ -135,8 +205,7 @@ export default function TrainingProgramManager({
       if (validPrograms.length > 0) {
         // Only set if no current program is selected
         setCurrentProgram(validPrograms[0]);
-        setPlanAExercises(validPrograms[0].plan_a_exercises);
-        setPlanBExercises(validPrograms[0].plan_b_exercises);
+        loadProgramDays(validPrograms[0]);
         setProgramGroup(
           validPrograms[0].group_id || (groups.length > 0 ? groups[0].id : "")
         );
@@ -179,11 +248,38 @@ export default function TrainingProgramManager({
     return group ? group.name : `Group ${program.group_id}`;
   };
 
-  const handleCreateProgram = async () => {
-    if (!planAExercises.length || !planBExercises.length) {
-      console.error("Please add exercises to both plans");
-      return;
+  // Every day needs a name and at least one exercise
+  const validateDays = (): boolean => {
+    if (days.length === 0) {
+      alert("Please add at least one training day");
+      return false;
+    }
+    const invalid = days.find(
+      (day) => !day.name.trim() || day.exercises.length === 0
+    );
+    if (invalid) {
+      alert(
+        `Please give every day a name and at least one exercise (${
+          invalid.name || "unnamed day"
+        })`
+      );
+      return false;
     }
+    return true;
+  };
+
+  const getProgramDaysPayload = () => ({
+    days: trimWeekPrescriptions(
+      days.map((day) => ({ ...day, name: day.name.trim() })),
+      weekCount
+    ),
+    week_count: weekCount,
+    start_date: startDate || null,
+    progression_rule: progressionRule,
+  });
+
+  const handleCreateProgram = async () => {
+    if (!validateDays()) return;
 
     if (!programGroup) {
       console.error("Please select a group");
@@ -210,8 +306,7 @@ export default function TrainingProgramManager({
 
     console.log("Creating program with:", {
       manager_id: managerId,
-      plan_a_exercises: planAExercises,
-      plan_b_exercises: planBExercises,
+      days,
       group_id: programGroup,
     });
 
@@ -220,9 +315,9 @@ export default function TrainingProgramManager({
         .from("training_programs")
         .insert({
           manager_id: managerId,
-          plan_a_exercises: planAExercises,
-          plan_b_exercises: planBExercises,
+          ...getProgramDaysPayload(),
           group_id: programGroup,
+          cycle_id: programCycle || null,
         })
         .select()
         .single();
@@ -267,12 +362,15 @@ export default function TrainingProgramManager({
       return;
     }
 
+    if (!validateDays()) return;
+
+    const payload = getProgramDaysPayload();
     const { error } = await supabase
       .from("training_programs")
       .update({
-        plan_a_exercises: planAExercises,
-        plan_b_exercises: planBExercises,
+        ...payload,
         group_id: programGroup,
+        cycle_id: programCycle || null,
       })
       .eq("id", currentProgram.id);
 
@@ -286,9 +384,9 @@ export default function TrainingProgramManager({
         p.id === currentProgram.id
           ? {
               ...p,
-              plan_a_exercises: planAExercises,
-              plan_b_exercises: planBExercises,
+              ...payload,
               group_id: programGroup,
+              cycle_id: programCycle || null,
             }
           : p
       )
@@ -319,8 +417,7 @@ export default function TrainingProgramManager({
     // If we deleted the currently selected program, clear selection
     if (currentProgram?.id === programToDelete) {
       setCurrentProgram(null);
-      setPlanAExercises([]);
-      setPlanBExercises([]);
+      loadProgramDays(null);
       setProgramGroup(groups.length > 0 ? groups[0].id : "");
     }
 
@@ -333,41 +430,54 @@ export default function TrainingProgramManager({
     setProgramToDelete(null);
   };
 
-  const handleAddExerciseA = () => {
-    if (newExerciseA.trim()) {
-      setPlanAExercises([...planAExercises, newExerciseA.trim()]);
-      setNewExerciseA("");
-    }
-  };
+  const updateDay = (dayId: string, changes: Partial<ProgramDay>) =>
+    setDays((prev) =>
+      prev.map((day) => (day.id === dayId ? { ...day, ...changes } : day))
+    );
 
-  const handleAddExerciseB = () => {
-    if (newExerciseB.trim()) {
-      setPlanBExercises([...planBExercises, newExerciseB.trim()]);
-      setNewExerciseB("");
-    }
-  };
+  const handleAddDay = () =>
+    setDays((prev) => [...prev, createProgramDay(`Day ${prev.length + 1}`)]);
 
-  const handleKeyPressA = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
-      e.preventDefault();
-      handleAddExerciseA();
-    }
-  };
+  const handleRemoveDay = (dayId: string) =>
+    setDays((prev) => prev.filter((day) => day.id !== dayId));
 
-  const handleKeyPressB = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter") {
-      e.preventDefault();
-      handleAddExerciseB();
+  const updateDayExercise = (
+    day: ProgramDay,
+    index: number,
+    exercise: ProgramExercise
+  ) =>
+    updateDay(day.id, {
+      exercises: day.exercises.map((e, i) => (i === index ? exercise : e)),
+    });
+
+  const handleAddExercise = (day: ProgramDay) => {
+    const exercise = library.find((ex) => ex.id === newExercises[day.id]);
+    if (exercise) {
+      updateDay(day.id, {
+        exercises: [...day.exercises, createProgramExercise(exercise)],
+      });
+      setNewExercises((prev) => ({ ...prev, [day.id]: "" }));
     }
   };
 
-  const handleRemoveExerciseA = (index: number) => {
-    setPlanAExercises(planAExercises.filter((_, i) => i !== index));
-  };
+  const handleRemoveExercise = (day: ProgramDay, index: number) =>
+    updateDay(day.id, {
+      exercises: day.exercises.filter((_, i) => i !== index),
+    });
 
-  const handleRemoveExerciseB = (index: number) => {
-    setPlanBExercises(planBExercises.filter((_, i) => i !== index));
-  };
+  const getRecordDayName = (record: ExerciseRecord): string =>
+    getDayName(
+      programs.find((p) => p.id === record.program_id),
+      record.selected_plan
+    );
+
+  // Alternates the record colours between consecutive program days
+  const isFirstDayOfPair = (record: ExerciseRecord): boolean =>
+    getProgramDays(
+      programs.find((p) => p.id === record.program_id) || null
+    ).findIndex((day) => day.id === record.selected_plan) %
+      2 ===
+    0;
 
   // Group records by athlete
   const recordsByAthlete = records.reduce((acc, rec) => {
@@ -503,148 +613,416 @@ export default function TrainingProgramManager({
             </p>
           </div>
 
-          <div className="space-y-6 sm:space-y-0 sm:grid sm:grid-cols-1 lg:grid-cols-2 sm:gap-6">
+          {/* Cycle Selection */}
+          <div>
+            <label
+              className={clsx(
+                "block text-sm font-medium mb-2",
+                theme === "dark" ? "text-white" : "text-gray-900"
+              )}
+            >
+              Training Cycle
+            </label>
+            <select
+              value={programCycle}
+              onChange={(e) => setProgramCycle(e.target.value)}
+              className={clsx(
+                "px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base min-w-48",
+                theme === "dark"
+                  ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                  : "bg-blue-50 border-blue-300 text-blue-900"
+              )}
+            >
+              <option value="">Not linked to a cycle</option>
+              {getCyclesForGroup(cycles, programGroup).map((cycle) => (
+                <option key={cycle.id} value={cycle.id}>
+                  {cycle.name} ({getPhaseLabel(cycle.phase)}, {cycle.start_date}{" "}
+                  – {cycle.end_date})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Schedule */}
+          <div className="flex flex-wrap gap-4">
             <div>
-              <h3
+              <label
                 className={clsx(
-                  "text-lg font-semibold mb-4",
+                  "block text-sm font-medium mb-2",
                   theme === "dark" ? "text-white" : "text-gray-900"
                 )}
               >
-                Plan A Exercises
-              </h3>
-              <div className="space-y-2">
-                {planAExercises.map((exercise, index) => (
-                  <div key={index} className="flex items-center gap-2">
-                    <input
-                      type="text"
-                      value={exercise}
-                      onChange={(e) => {
-                        const newExercises = [...planAExercises];
-                        newExercises[index] = e.target.value;
-                        setPlanAExercises(newExercises);
-                      }}
-                      className={clsx(
-                        "flex-1 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
-                        theme === "dark"
-                          ? "bg-blue-900/50 border-blue-700 text-blue-100"
-                          : "bg-blue-50 border-blue-300 text-blue-900"
-                      )}
-                    />
-                    <button
-                      onClick={() => handleRemoveExerciseA(index)}
-                      className={clsx(
-                        "p-2 rounded-lg",
-                        theme === "dark"
-                          ? "text-red-400 hover:bg-red-500/10"
-                          : "text-red-600 hover:bg-red-50"
-                      )}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </button>
-                  </div>
+                Start Date
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className={clsx(
+                  "px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
+                  theme === "dark"
+                    ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                    : "bg-blue-50 border-blue-300 text-blue-900"
+                )}
+              />
+            </div>
+            <div>
+              <label
+                className={clsx(
+                  "block text-sm font-medium mb-2",
+                  theme === "dark" ? "text-white" : "text-gray-900"
+                )}
+              >
+                Weeks
+              </label>
+              <input
+                type="number"
+                min="1"
+                max={MAX_WEEK_COUNT}
+                value={weekCount}
+                onChange={(e) => {
+                  const weeks = Math.min(
+                    Math.max(Math.round(Number(e.target.value)) || 1, 1),
+                    MAX_WEEK_COUNT
+                  );
+                  setWeekCount(weeks);
+                  if (editingWeek !== null && editingWeek > weeks) {
+                    setEditingWeek(null);
+                  }
+                }}
+                className={clsx(
+                  "w-24 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
+                  theme === "dark"
+                    ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                    : "bg-blue-50 border-blue-300 text-blue-900"
+                )}
+              />
+            </div>
+            <p
+              className={clsx(
+                "text-xs self-end pb-2",
+                theme === "dark" ? "text-blue-300" : "text-blue-600"
+              )}
+            >
+              Athletes see today's workout from the weekday of each day. The
+              template repeats after the last week.
+            </p>
+          </div>
+
+          {/* Progression */}
+          <div className="flex flex-wrap gap-4">
+            <div>
+              <label
+                className={clsx(
+                  "block text-sm font-medium mb-2",
+                  theme === "dark" ? "text-white" : "text-gray-900"
+                )}
+              >
+                Progression Rule
+              </label>
+              <select
+                value={progressionRule?.type || "none"}
+                onChange={(e) =>
+                  setProgressionRule(
+                    e.target.value === "none"
+                      ? null
+                      : {
+                          ...(progressionRule || DEFAULT_PROGRESSION_RULE),
+                          type: e.target.value as ProgressionRuleType,
+                        }
+                  )
+                }
+                className={clsx(
+                  "px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
+                  theme === "dark"
+                    ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                    : "bg-blue-50 border-blue-300 text-blue-900"
+                )}
+              >
+                <option value="none">No suggestions</option>
+                {PROGRESSION_RULES.map((rule) => (
+                  <option key={rule.value} value={rule.value}>
+                    {rule.label}
+                  </option>
                 ))}
-                <div className="flex items-center gap-2">
+              </select>
+            </div>
+            {progressionRule &&
+              (progressionRule.type === "percent_e1rm"
+                ? [{ key: "percent_e1rm" as const, label: "% e1RM" }]
+                : [
+                    { key: "increment_kg" as const, label: "Increment (kg)" },
+                    ...(progressionRule.type === "double"
+                      ? [{ key: "rep_range" as const, label: "Rep Range" }]
+                      : []),
+                  ]
+              ).map(({ key, label }) => (
+                <div key={key}>
+                  <label
+                    className={clsx(
+                      "block text-sm font-medium mb-2",
+                      theme === "dark" ? "text-white" : "text-gray-900"
+                    )}
+                  >
+                    {label}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={key === "increment_kg" ? "0.5" : "1"}
+                    value={progressionRule[key]}
+                    onChange={(e) =>
+                      setProgressionRule({
+                        ...progressionRule,
+                        [key]: Math.max(Number(e.target.value) || 0, 0),
+                      })
+                    }
+                    className={clsx(
+                      "w-24 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
+                      theme === "dark"
+                        ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                        : "bg-blue-50 border-blue-300 text-blue-900"
+                    )}
+                  />
+                </div>
+              ))}
+            <p
+              className={clsx(
+                "text-xs self-end pb-2",
+                theme === "dark" ? "text-blue-300" : "text-blue-600"
+              )}
+            >
+              Athletes get a suggested load per exercise from their last
+              session. Overrides are listed below for review.
+            </p>
+          </div>
+
+          {weekCount > 1 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span
+                className={clsx(
+                  "text-sm font-medium",
+                  theme === "dark" ? "text-white" : "text-gray-900"
+                )}
+              >
+                Prescriptions for:
+              </span>
+              {[
+                null,
+                ...Array.from({ length: weekCount }, (_, i) => i + 1),
+              ].map((week) => (
+                <button
+                  key={week ?? "base"}
+                  onClick={() => setEditingWeek(week)}
+                  className={clsx(
+                    "px-3 py-1 rounded-full text-xs font-medium",
+                    editingWeek === week
+                      ? "bg-blue-600 text-white"
+                      : theme === "dark"
+                      ? "bg-blue-900/50 text-blue-200 hover:bg-blue-800/50"
+                      : "bg-blue-100 text-blue-700 hover:bg-blue-200"
+                  )}
+                >
+                  {week === null ? "All weeks" : `Week ${week}`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-6 sm:space-y-0 sm:grid sm:grid-cols-1 lg:grid-cols-2 sm:gap-6">
+            {days.map((day) => (
+              <div key={day.id}>
+                <div className="flex items-center gap-2 mb-4">
                   <input
                     type="text"
-                    value={newExerciseA}
-                    onChange={(e) => setNewExerciseA(e.target.value)}
-                    onKeyPress={handleKeyPressA}
-                    placeholder="Type exercise name and press Enter"
+                    value={day.name}
+                    onChange={(e) =>
+                      updateDay(day.id, { name: e.target.value })
+                    }
+                    placeholder="Day name"
                     className={clsx(
-                      "flex-1 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
+                      "flex-1 px-3 py-2 rounded-lg border text-base font-semibold",
                       theme === "dark"
-                        ? "bg-blue-900/50 border-blue-700 text-blue-100 placeholder:text-blue-300"
-                        : "bg-blue-50 border-blue-300 text-blue-900 placeholder:text-blue-500"
+                        ? "bg-blue-900/50 border-blue-700 text-white"
+                        : "bg-white border-blue-300 text-gray-900"
                     )}
                   />
+                  <select
+                    value={day.weekday ?? ""}
+                    onChange={(e) =>
+                      updateDay(day.id, {
+                        weekday: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                    className={clsx(
+                      "px-3 py-2 rounded-lg border text-sm",
+                      theme === "dark"
+                        ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                        : "bg-blue-50 border-blue-300 text-blue-900"
+                    )}
+                    title="Scheduled weekday"
+                  >
+                    <option value="">Any day</option>
+                    {WEEKDAYS.map((weekday) => (
+                      <option key={weekday.value} value={weekday.value}>
+                        {weekday.label}
+                      </option>
+                    ))}
+                  </select>
                   <button
-                    onClick={handleAddExerciseA}
+                    onClick={() => handleRemoveDay(day.id)}
                     className={clsx(
                       "p-2 rounded-lg",
                       theme === "dark"
-                        ? "text-blue-400 hover:bg-blue-500/10"
-                        : "text-blue-600 hover:bg-blue-50"
+                        ? "text-red-400 hover:bg-red-500/10"
+                        : "text-red-600 hover:bg-red-50"
                     )}
-                    title="Add exercise"
+                    title="Remove day"
                   >
-                    <Plus className="h-4 w-4" />
+                    <Trash2 className="h-4 w-4" />
                   </button>
                 </div>
-              </div>
-            </div>
-
-            <div>
-              <h3
-                className={clsx(
-                  "text-lg font-semibold mb-4",
-                  theme === "dark" ? "text-white" : "text-gray-900"
-                )}
-              >
-                Plan B Exercises
-              </h3>
-              <div className="space-y-2">
-                {planBExercises.map((exercise, index) => (
-                  <div key={index} className="flex items-center gap-2">
-                    <input
-                      type="text"
-                      value={exercise}
-                      onChange={(e) => {
-                        const newExercises = [...planBExercises];
-                        newExercises[index] = e.target.value;
-                        setPlanBExercises(newExercises);
-                      }}
+                <div className="space-y-2">
+                  {day.exercises.map((exercise, index) => (
+                    <div key={index} className="space-y-2 pb-2">
+                      <div className="flex items-center gap-2">
+                        <select
+                          value={exercise.exercise_id || ""}
+                          onChange={(e) => {
+                            const selected = library.find(
+                              (ex) => ex.id === e.target.value
+                            );
+                            if (!selected) return;
+                            updateDayExercise(day, index, {
+                              ...exercise,
+                              exercise: selected.name,
+                              exercise_id: selected.id,
+                            });
+                          }}
+                          className={clsx(
+                            "flex-1 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
+                            theme === "dark"
+                              ? "bg-blue-900/50 border-blue-700 text-blue-100"
+                              : "bg-blue-50 border-blue-300 text-blue-900"
+                          )}
+                        >
+                          {!exercise.exercise_id && (
+                            <option value="">
+                              {exercise.exercise} (not in library)
+                            </option>
+                          )}
+                          {library.map((ex) => (
+                            <option key={ex.id} value={ex.id}>
+                              {ex.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleRemoveExercise(day, index)}
+                          className={clsx(
+                            "p-2 rounded-lg",
+                            theme === "dark"
+                              ? "text-red-400 hover:bg-red-500/10"
+                              : "text-red-600 hover:bg-red-50"
+                          )}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <PrescriptionInputs
+                        prescription={getWeekPrescription(
+                          exercise,
+                          editingWeek
+                        )}
+                        onChange={(prescription) =>
+                          updateDayExercise(
+                            day,
+                            index,
+                            setWeekPrescription(
+                              exercise,
+                              editingWeek,
+                              prescription
+                            )
+                          )
+                        }
+                        theme={theme}
+                      />
+                      {editingWeek !== null &&
+                        exercise.week_prescriptions[editingWeek - 1] && (
+                          <button
+                            onClick={() =>
+                              updateDayExercise(
+                                day,
+                                index,
+                                setWeekPrescription(exercise, editingWeek, null)
+                              )
+                            }
+                            className={clsx(
+                              "text-xs underline",
+                              theme === "dark"
+                                ? "text-blue-300"
+                                : "text-blue-600"
+                            )}
+                          >
+                            Use the all-weeks prescription in week {editingWeek}
+                          </button>
+                        )}
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={newExercises[day.id] || ""}
+                      onChange={(e) =>
+                        setNewExercises((prev) => ({
+                          ...prev,
+                          [day.id]: e.target.value,
+                        }))
+                      }
                       className={clsx(
                         "flex-1 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
                         theme === "dark"
                           ? "bg-blue-900/50 border-blue-700 text-blue-100"
                           : "bg-blue-50 border-blue-300 text-blue-900"
                       )}
-                    />
+                    >
+                      <option value="">Add an exercise from the library</option>
+                      {library.map((ex) => (
+                        <option key={ex.id} value={ex.id}>
+                          {ex.name}
+                        </option>
+                      ))}
+                    </select>
                     <button
-                      onClick={() => handleRemoveExerciseB(index)}
+                      onClick={() => handleAddExercise(day)}
                       className={clsx(
                         "p-2 rounded-lg",
                         theme === "dark"
-                          ? "text-red-400 hover:bg-red-500/10"
-                          : "text-red-600 hover:bg-red-50"
+                          ? "text-blue-400 hover:bg-blue-500/10"
+                          : "text-blue-600 hover:bg-blue-50"
                       )}
+                      title="Add exercise"
                     >
-                      <Trash2 className="h-4 w-4" />
+                      <Plus className="h-4 w-4" />
                     </button>
                   </div>
-                ))}
-                <div className="flex items-center gap-2">
-                  <input
-                    type="text"
-                    value={newExerciseB}
-                    onChange={(e) => setNewExerciseB(e.target.value)}
-                    onKeyPress={handleKeyPressB}
-                    placeholder="Type exercise name and press Enter"
-                    className={clsx(
-                      "flex-1 px-3 sm:px-4 py-2 rounded-lg border text-sm sm:text-base",
-                      theme === "dark"
-                        ? "bg-blue-900/50 border-blue-700 text-blue-100 placeholder:text-blue-300"
-                        : "bg-blue-50 border-blue-300 text-blue-900 placeholder:text-blue-500"
-                    )}
-                  />
-                  <button
-                    onClick={handleAddExerciseB}
-                    className={clsx(
-                      "p-2 rounded-lg",
-                      theme === "dark"
-                        ? "text-blue-400 hover:bg-blue-500/10"
-                        : "text-blue-600 hover:bg-blue-50"
-                    )}
-                    title="Add exercise"
-                  >
-                    <Plus className="h-4 w-4" />
-                  </button>
                 </div>
               </div>
-            </div>
+            ))}
           </div>
 
+          <button
+            onClick={handleAddDay}
+            className={clsx(
+              "px-4 py-2 rounded-lg font-medium text-sm flex items-center gap-2",
+              theme === "dark"
+                ? "bg-green-500/10 text-green-400 hover:bg-green-500/20"
+                : "bg-green-50 text-green-600 hover:bg-green-100"
+            )}
+          >
+            <Plus className="h-4 w-4" />
+            Add Training Day
+          </button>
+
           <div className="flex flex-col sm:flex-row justify-end gap-3">
             <button
               onClick={() => setIsEditing(false)}
@@ -765,50 +1143,43 @@ export default function TrainingProgramManager({
                             </button>
                           </div>
                           <div className="space-y-2 text-sm">
-                            <div>
-                              <span
-                                className={clsx(
-                                  "font-medium",
-                                  theme === "dark"
-                                    ? "text-blue-300"
-                                    : "text-blue-600"
-                                )}
-                              >
-                                Plan A:
-                              </span>
-                              <span
-                                className={clsx(
-                                  "ml-1",
-                                  theme === "dark"
-                                    ? "text-blue-100"
-                                    : "text-gray-700"
-                                )}
-                              >
-                                {program.plan_a_exercises.length} exercises
-                              </span>
-                            </div>
-                            <div>
-                              <span
+                            {getProgramDays(program).map((day) => (
+                              <div key={day.id}>
+                                <span
+                                  className={clsx(
+                                    "font-medium",
+                                    theme === "dark"
+                                      ? "text-blue-300"
+                                      : "text-blue-600"
+                                  )}
+                                >
+                                  {day.name}:
+                                </span>
+                                <span
+                                  className={clsx(
+                                    "ml-1",
+                                    theme === "dark"
+                                      ? "text-blue-100"
+                                      : "text-gray-700"
+                                  )}
+                                >
+                                  {day.exercises.length} exercises
+                                </span>
+                              </div>
+                            ))}
+                            {(program.week_count || 1) > 1 && (
+                              <div
                                 className={clsx(
-                                  "font-medium",
                                   theme === "dark"
                                     ? "text-blue-300"
                                     : "text-blue-600"
                                 )}
                               >
-                                Plan B:
-                              </span>
-                              <span
-                                className={clsx(
-                                  "ml-1",
-                                  theme === "dark"
-                                    ? "text-blue-100"
-                                    : "text-gray-700"
-                                )}
-                              >
-                                {program.plan_b_exercises.length} exercises
-                              </span>
-                            </div>
+                                {program.week_count}-week template
+                                {program.start_date &&
+                                  ` from ${program.start_date}`}
+                              </div>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -819,61 +1190,58 @@ export default function TrainingProgramManager({
               {/* Selected Program Details */}
               {currentProgram && (
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <div>
-                    <h3
-                      className={clsx(
-                        "text-lg font-semibold mb-4",
-                        theme === "dark" ? "text-white" : "text-gray-900"
-                      )}
-                    >
-                      Plan A
-                    </h3>
-                    <ul
-                      className={clsx(
-                        "space-y-2",
-                        theme === "dark" ? "text-white" : "text-gray-600"
-                      )}
-                    >
-                      {planAExercises.map((exercise, index) => (
-                        <li key={index} className="flex items-center gap-2">
-                          <span className="w-6 h-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-sm font-medium">
-                            {index + 1}
-                          </span>
-                          {exercise}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
-                  <div>
-                    <h3
-                      className={clsx(
-                        "text-lg font-semibold mb-4",
-                        theme === "dark" ? "text-white" : "text-gray-900"
-                      )}
-                    >
-                      Plan B
-                    </h3>
-                    <ul
-                      className={clsx(
-                        "space-y-2",
-                        theme === "dark" ? "text-white" : "text-gray-600"
-                      )}
-                    >
-                      {planBExercises.map((exercise, index) => (
-                        <li key={index} className="flex items-center gap-2">
-                          <span className="w-6 h-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-sm font-medium">
-                            {index + 1}
+                  {days.map((day) => (
+                    <div key={day.id}>
+                      <h3
+                        className={clsx(
+                          "text-lg font-semibold mb-4",
+                          theme === "dark" ? "text-white" : "text-gray-900"
+                        )}
+                      >
+                        {day.name}
+                        {day.weekday && (
+                          <span className="ml-2 text-sm font-normal text-gray-500">
+                            {
+                              WEEKDAYS.find((w) => w.value === day.weekday)
+                                ?.label
+                            }
                           </span>
-                          {exercise}
-                        </li>
-                      ))}
-                    </ul>
-                  </div>
+                        )}
+                      </h3>
+                      <ul
+                        className={clsx(
+                          "space-y-2",
+                          theme === "dark" ? "text-white" : "text-gray-600"
+                        )}
+                      >
+                        {day.exercises.map((exercise, index) => (
+                          <li key={index} className="flex items-center gap-2">
+                            <span className="w-6 h-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-sm font-medium">
+                              {index + 1}
+                            </span>
+                            {exercise.exercise}
+                            {formatPrescription(exercise.prescription) && (
+                              <span className="text-xs text-gray-500">
+                                {formatPrescription(exercise.prescription)}
+                              </span>
+                            )}
+                            {exercise.week_prescriptions.some(Boolean) && (
+                              <span className="text-xs text-blue-500">
+                                varies by week
+                              </span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
                 </div>
               )}
             </>
           )}
 
+          <ProgressionOverrides athletes={athletes} theme={theme} />
+
           <div className="mt-8">
             <h3
               className={clsx(
@@ -981,7 +1349,7 @@ export default function TrainingProgramManager({
                         theme === "dark" ? "text-white" : "text-gray-900"
                       )}
                     >
-                      Plan
+                      Day
                     </th>
                     <th
                       className={clsx(
@@ -1071,9 +1439,9 @@ export default function TrainingProgramManager({
                                 <div className="py-4 px-4">
                                   {athleteRecords.length > 0 && (
                                     <div className="mb-2 text-base font-semibold">
-                                      Plan:{" "}
+                                      Day:{" "}
                                       <span>
-                                        {athleteRecords[0].selected_plan}
+                                        {getRecordDayName(athleteRecords[0])}
                                       </span>
                                     </div>
                                   )}
@@ -1230,7 +1598,7 @@ export default function TrainingProgramManager({
                                 key={rec.id}
                                 className={clsx(
                                   "p-3 rounded-lg border-l-4",
-                                  rec.selected_plan === "A"
+                                  isFirstDayOfPair(rec)
                                     ? theme === "dark"
                                       ? "border-l-blue-400 bg-blue-500/10"
                                       : "border-l-blue-500 bg-blue-50"
@@ -1244,7 +1612,7 @@ export default function TrainingProgramManager({
                                     <span
                                       className={clsx(
                                         "px-2 py-1 rounded text-xs font-medium",
-                                        rec.selected_plan === "A"
+                                        isFirstDayOfPair(rec)
                                           ? theme === "dark"
                                             ? "bg-blue-500/20 text-blue-300"
                                             : "bg-blue-100 text-blue-800"
@@ -1253,7 +1621,7 @@ export default function TrainingProgramManager({
                                           : "bg-green-100 text-green-800"
                                       )}
                                     >
-                                      Plan {rec.selected_plan}
+                                      {getRecordDayName(rec)}
                                     </span>
                                     <span
                                       className={clsx(
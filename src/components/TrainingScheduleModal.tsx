@@ -0,0 +1,305 @@
+import { useEffect, useState } from "react";
+import { Plus, Trash2, X } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import { WEEKDAYS } from "../lib/compliance";
+import type {
+  AthleteGroup,
+  TrainingRestDay,
+  TrainingSchedule,
+} from "../lib/database.types";
+
+interface TrainingScheduleModalProps {
+  managerId: string;
+  group: AthleteGroup | null; // null edits the manager's default schedule
+  theme?: "light" | "dark" | "system";
+  onClose: () => void;
+}
+
+type DayField = "am_days" | "pm_days" | "wellness_days";
+
+const DAY_ROWS: { field: DayField; label: string }[] = [
+  { field: "am_days", label: "AM session" },
+  { field: "pm_days", label: "PM session" },
+  { field: "wellness_days", label: "Wellness check-in" },
+];
+
+export default function TrainingScheduleModal({
+  managerId,
+  group,
+  theme = "light",
+  onClose,
+}: TrainingScheduleModalProps) {
+  const [schedule, setSchedule] = useState<TrainingSchedule | null>(null);
+  const [days, setDays] = useState<Record<DayField, number[]>>({
+    am_days: [1, 2, 3, 4, 5],
+    pm_days: [],
+    wellness_days: [1, 2, 3, 4, 5, 6, 7],
+  });
+  const [restDays, setRestDays] = useState<TrainingRestDay[]>([]);
+  const [newRestDay, setNewRestDay] = useState({ date: "", reason: "" });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      let query = supabase
+        .from("training_schedules")
+        .select("*")
+        .eq("manager_id", managerId);
+      query = group
+        ? query.eq("group_id", group.id)
+        : query.is("group_id", null);
+
+      const { data, error } = await query.maybeSingle();
+      if (error) {
+        console.error("Error fetching training schedule:", error);
+        return;
+      }
+      if (!data) return;
+
+      setSchedule(data);
+      setDays({
+        am_days: data.am_days,
+        pm_days: data.pm_days,
+        wellness_days: data.wellness_days,
+      });
+
+      const { data: restData, error: restError } = await supabase
+        .from("training_rest_days")
+        .select("*")
+        .eq("schedule_id", data.id)
+        .order("date");
+
+      if (restError) {
+        console.error("Error fetching rest days:", restError);
+        return;
+      }
+      setRestDays(restData || []);
+    };
+
+    fetchSchedule();
+  }, [managerId, group]);
+
+  const toggleDay = (field: DayField, weekday: number) =>
+    setDays((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(weekday)
+        ? prev[field].filter((d) => d !== weekday)
+        : [...prev[field], weekday].sort((a, b) => a - b),
+    }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    const { data, error } = schedule
+      ? await supabase
+          .from("training_schedules")
+          .update(days)
+          .eq("id", schedule.id)
+          .select()
+          .single()
+      : await supabase
+          .from("training_schedules")
+          .insert({
+            manager_id: managerId,
+            group_id: group?.id || null,
+            ...days,
+          })
+          .select()
+          .single();
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving training schedule:", error);
+      setError("Failed to save the schedule");
+      return;
+    }
+
+    setSchedule(data);
+  };
+
+  const handleAddRestDay = async () => {
+    if (!schedule || !newRestDay.date) return;
+
+    const { data, error } = await supabase
+      .from("training_rest_days")
+      .insert({
+        schedule_id: schedule.id,
+        date: newRestDay.date,
+        reason: newRestDay.reason.trim() || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error adding rest day:", error);
+      setError("Failed to add the rest day");
+      return;
+    }
+
+    setRestDays((prev) =>
+      [...prev, data].sort((a, b) => a.date.localeCompare(b.date))
+    );
+    setNewRestDay({ date: "", reason: "" });
+  };
+
+  const handleDeleteRestDay = async (restDayId: string) => {
+    const { error } = await supabase
+      .from("training_rest_days")
+      .delete()
+      .eq("id", restDayId);
+
+    if (error) {
+      console.error("Error deleting rest day:", error);
+      return;
+    }
+
+    setRestDays((prev) => prev.filter((r) => r.id !== restDayId));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
+      <div
+        className={clsx(
+          "rounded-xl max-w-2xl w-full p-6 max-h-[80vh] overflow-y-auto",
+          theme === "dark"
+            ? "bg-blue-900/95 border border-blue-700/50 text-blue-100"
+            : "bg-white text-gray-900"
+        )}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-lg font-semibold">
+            Training Schedule - {group ? group.name : "Default"}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <p
+          className={clsx(
+            "text-sm mb-4",
+            theme === "dark" ? "text-blue-200" : "text-gray-600"
+          )}
+        >
+          {group
+            ? "Compliance for athletes in this group is measured against these days."
+            : "Used for athletes without a group and for groups without their own schedule."}
+        </p>
+
+        <div className="overflow-x-auto mb-4">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr>
+                <th className="py-2 pr-4 text-left font-medium">Expected</th>
+                {WEEKDAYS.map((day) => (
+                  <th key={day.value} className="px-2 py-2 font-medium">
+                    {day.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {DAY_ROWS.map((row) => (
+                <tr key={row.field}>
+                  <td className="py-2 pr-4">{row.label}</td>
+                  {WEEKDAYS.map((day) => (
+                    <td key={day.value} className="px-2 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        checked={days[row.field].includes(day.value)}
+                        onChange={() => toggleDay(row.field, day.value)}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end mb-6">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Save Schedule"}
+          </button>
+        </div>
+
+        <h4 className="text-md font-medium mb-3">Planned Rest Days</h4>
+        {schedule ? (
+          <>
+            <div className="flex flex-wrap gap-2 mb-3">
+              <input
+                type="date"
+                value={newRestDay.date}
+                onChange={(e) =>
+                  setNewRestDay({ ...newRestDay, date: e.target.value })
+                }
+                className="rounded-md border-gray-300 shadow-sm text-gray-900 sm:text-sm"
+              />
+              <input
+                type="text"
+                value={newRestDay.reason}
+                onChange={(e) =>
+                  setNewRestDay({ ...newRestDay, reason: e.target.value })
+                }
+                placeholder="Reason (optional)"
+                className="flex-1 rounded-md border-gray-300 shadow-sm text-gray-900 sm:text-sm"
+              />
+              <button
+                onClick={handleAddRestDay}
+                disabled={!newRestDay.date}
+                className="flex items-center gap-1 px-3 py-2 text-sm font-medium text-blue-600 bg-blue-50 rounded-lg hover:bg-blue-100 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4" />
+                Add
+              </button>
+            </div>
+            {restDays.length === 0 ? (
+              <p className="text-sm text-gray-500">No rest days planned.</p>
+            ) : (
+              <ul className="space-y-2">
+                {restDays.map((restDay) => (
+                  <li
+                    key={restDay.id}
+                    className="flex items-center justify-between text-sm"
+                  >
+                    <span>
+                      {new Date(restDay.date).toLocaleDateString()}
+                      {restDay.reason && (
+                        <span className="ml-2 text-gray-500">
+                          {restDay.reason}
+                        </span>
+                      )}
+                    </span>
+                    <button
+                      onClick={() => handleDeleteRestDay(restDay.id)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            Save the schedule before adding rest days.
+          </p>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { PieChart } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import {
+  TRAINING_TYPES,
+  summarizeByTrainingType,
+  summarizeWeeklyByTrainingType,
+} from "../lib/trainingLoad";
+import type {
+  AthleteGroup,
+  Profile,
+  TrainingSession,
+} from "../lib/database.types";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface TrainingTypeDistributionProps {
+  managerId: string;
+  athletes: Profile[];
+  selectedAthlete: string;
+  startDate: string;
+  endDate: string;
+}
+
+type DistributionSession = Pick<
+  TrainingSession,
+  "athlete_id" | "date" | "training_type" | "duration" | "unit_load"
+>;
+
+// PostgREST returns at most this many rows per request
+const SESSIONS_PAGE_SIZE = 1000;
+
+export default function TrainingTypeDistribution({
+  managerId,
+  athletes,
+  selectedAthlete,
+  startDate,
+  endDate,
+}: TrainingTypeDistributionProps) {
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  // "athlete:<id>", "group:<id>" or "all"
+  const [scope, setScope] = useState<string>(`athlete:${selectedAthlete}`);
+  const [metric, setMetric] = useState<"load" | "minutes">("load");
+  const [sessions, setSessions] = useState<DistributionSession[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setScope(`athlete:${selectedAthlete}`);
+  }, [selectedAthlete]);
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      const { data, error } = await supabase
+        .from("athlete_groups")
+        .select("*")
+        .eq("manager_id", managerId)
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching groups:", error);
+        return;
+      }
+
+      setGroups(data || []);
+    };
+
+    fetchGroups();
+  }, [managerId]);
+
+  const scopeAthletes = useMemo(() => {
+    const [kind, id] = scope.split(":");
+    if (kind === "athlete") return athletes.filter((a) => a.id === id);
+    if (kind === "group") return athletes.filter((a) => a.group_id === id);
+    return athletes;
+  }, [scope, athletes]);
+
+  useEffect(() => {
+    const athleteIds = scopeAthletes.map((a) => a.id);
+    if (athleteIds.length === 0) {
+      setSessions([]);
+      return;
+    }
+
+    // Longer ranges for a group or the team exceed that limit, so the
+    // sessions are read a page at a time in a stable order
+    const fetchSessions = async () => {
+      setLoading(true);
+      const rows: DistributionSession[] = [];
+      for (let from = 0; ; from += SESSIONS_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("training_sessions")
+          .select("athlete_id, date, training_type, duration, unit_load")
+          .in("athlete_id", athleteIds)
+          .gte("date", startDate)
+          .lte("date", endDate)
+          .order("id")
+          .range(from, from + SESSIONS_PAGE_SIZE - 1);
+
+        if (error) {
+          console.error("Error fetching training sessions:", error);
+          setSessions([]);
+          setLoading(false);
+          return;
+        }
+        rows.push(...(data || []));
+        if (!data || data.length < SESSIONS_PAGE_SIZE) break;
+      }
+      setSessions(rows);
+      setLoading(false);
+    };
+
+    fetchSessions();
+  }, [scopeAthletes, startDate, endDate]);
+
+  const totals = useMemo(() => summarizeByTrainingType(sessions), [sessions]);
+  const weeks = useMemo(
+    () => summarizeWeeklyByTrainingType(sessions, startDate, endDate),
+    [sessions, startDate, endDate]
+  );
+  // Only types that were actually trained in the range
+  const usedTotals = totals.filter((t) => t.sessions > 0);
+  const usedTypes = TRAINING_TYPES.filter((type) =>
+    usedTotals.some((t) => t.trainingType === type.value)
+  );
+  const isTeamScope = !scope.startsWith("athlete:");
+
+  const chartData = {
+    labels: weeks.map((w) =>
+      new Date(w.weekStart).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      })
+    ),
+    datasets: usedTypes.map((type) => ({
+      label: type.label,
+      data: weeks.map((w) => {
+        const total = w.totals.find((t) => t.trainingType === type.value);
+        return Math.round(total?.[metric] || 0);
+      }),
+      backgroundColor: type.color,
+      stack: "types",
+    })),
+  };
+
+  const chartOptions = {
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: "top" as const },
+    },
+    scales: {
+      x: { stacked: true, title: { display: true, text: "Week starting" } },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: metric === "load" ? "Load (AU)" : "Minutes",
+        },
+      },
+    },
+  };
+
+  // Share of each athlete's load per type, for group and team views
+  const athleteBreakdown = scopeAthletes.map((athlete) => ({
+    athlete,
+    totals: summarizeByTrainingType(
+      sessions.filter((s) => s.athlete_id === athlete.id)
+    ),
+  }));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <PieChart className="h-5 w-5 mr-2 text-indigo-500" />
+          Load Distribution by Training Type
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <optgroup label="Athletes">
+              {athletes.map((athlete) => (
+                <option key={athlete.id} value={`athlete:${athlete.id}`}>
+                  {athlete.full_name}
+                </option>
+              ))}
+            </optgroup>
+            {groups.length > 0 && (
+              <optgroup label="Groups">
+                {groups.map((group) => (
+                  <option key={group.id} value={`group:${group.id}`}>
+                    {group.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <option value="all">All athletes</option>
+          </select>
+          <div className="flex rounded-md shadow-sm">
+            {(["load", "minutes"] as const).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`px-3 py-1.5 text-sm font-medium border first:rounded-l-md last:rounded-r-md ${
+                  metric === m
+                    ? "bg-indigo-600 text-white border-indigo-600"
+                    : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {m === "load" ? "Load" : "Minutes"}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-8 text-center text-gray-500">Loading...</div>
+      ) : usedTypes.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">
+            No training sessions recorded for the selected period.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="h-72 mb-6">
+            <Bar data={chartData} options={chartOptions} />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Training Type
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Sessions
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Minutes
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Load (AU)
+                  </th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase w-1/3">
+                    Share of {metric === "load" ? "Load" : "Minutes"}
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {usedTypes.map((type, i) => {
+                  const total = usedTotals[i];
+                  const share =
+                    metric === "load" ? total.loadShare : total.minutesShare;
+                  return (
+                    <tr key={type.value}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        <span
+                          className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+                          style={{ backgroundColor: type.color }}
+                        />
+                        {type.label}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {total.sessions}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {total.minutes}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {Math.round(total.load)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-gray-100 rounded-full">
+                            <div
+                              className="h-2 rounded-full"
+                              style={{
+                                width: `${share}%`,
+                                backgroundColor: type.color,
+                              }}
+                            />
+                          </div>
+                          <span className="w-12 text-right">
+                            {share.toFixed(1)}%
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {isTeamScope && athleteBreakdown.length > 0 && (
+            <div className="mt-6">
+              <h3 className="text-sm font-medium text-gray-500 mb-2">
+                Split per Athlete
+              </h3>
+              <div className="space-y-2">
+                {athleteBreakdown.map(({ athlete, totals: athleteTotals }) => (
+                  <div key={athlete.id} className="flex items-center gap-3">
+                    <span className="w-40 truncate text-sm text-gray-700">
+                      {athlete.full_name}
+                    </span>
+                    <div className="flex flex-1 h-4 rounded overflow-hidden bg-gray-100">
+                      {usedTypes.map((type) => {
+                        const total = athleteTotals.find(
+                          (t) => t.trainingType === type.value
+                        );
+                        const share =
+                          (metric === "load"
+                            ? total?.loadShare
+                            : total?.minutesShare) || 0;
+                        return share > 0 ? (
+                          <div
+                            key={type.value}
+                            style={{
+                              width: `${share}%`,
+                              backgroundColor: type.color,
+                            }}
+                            title={`${type.label}: ${share.toFixed(1)}%`}
+                          />
+                        ) : null;
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from "react";
+import { Check, Gauge } from "lucide-react";
+import clsx from "clsx";
+import { findExercise, getPRExercises } from "../lib/exerciseLibrary";
+import {
+  MIN_BASELINE_CHECKS,
+  describeLoadAdjustment,
+} from "../lib/velocityReadiness";
+import type { VelocityReadiness } from "../lib/velocityReadiness";
+import { fetchAthleteExerciseLibrary } from "../services/exerciseLibrary";
+import {
+  fetchLatestVelocityCheck,
+  fetchVelocityReadiness,
+  saveVelocityCheck,
+} from "../services/velocityReadiness";
+import VelocityReadinessBadge from "./VelocityReadinessBadge";
+import type { Exercise } from "../lib/database.types";
+
+interface Props {
+  athleteId: string;
+  date: string;
+  theme?: "light" | "dark" | "system";
+}
+
+export default function VelocityCheck({
+  athleteId,
+  date,
+  theme = "light",
+}: Props) {
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  const [exerciseName, setExerciseName] = useState("");
+  const [load, setLoad] = useState("");
+  const [velocity, setVelocity] = useState("");
+  const [readiness, setReadiness] = useState<VelocityReadiness>();
+  const [saved, setSaved] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [exercises, latest, results] = await Promise.all([
+          fetchAthleteExerciseLibrary(athleteId),
+          fetchLatestVelocityCheck(athleteId),
+          fetchVelocityReadiness([athleteId], date, date),
+        ]);
+        const prExercises = getPRExercises(exercises);
+        setLibrary(prExercises);
+        // The standard load stays the same from day to day
+        setExerciseName(latest?.exercise_name || prExercises[0]?.name || "");
+        setLoad(latest ? String(latest.load) : "");
+        setVelocity(
+          latest && latest.date === date ? String(latest.velocity) : ""
+        );
+        setSaved(latest?.date === date);
+        setReadiness(results[0]);
+      } catch (err) {
+        console.error("Error fetching velocity check:", err);
+      }
+    };
+    if (athleteId) fetchData();
+  }, [athleteId, date]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const loadValue = parseFloat(load);
+    const velocityValue = parseFloat(velocity);
+    if (!exerciseName || !(loadValue > 0) || !(velocityValue > 0)) {
+      setError("Please enter the exercise, load and velocity");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await saveVelocityCheck(
+        athleteId,
+        {
+          id: findExercise(library, exerciseName)?.id || null,
+          name: exerciseName,
+        },
+        date,
+        loadValue,
+        velocityValue
+      );
+      const results = await fetchVelocityReadiness([athleteId], date, date);
+      setReadiness(results[0]);
+      setSaved(true);
+    } catch (err) {
+      console.error("Error saving velocity check:", err);
+      setError("Failed to save the velocity check");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = clsx(
+    "w-full px-3 py-2 rounded-lg border text-sm",
+    theme === "dark"
+      ? "bg-slate-900/50 border-slate-700 text-white"
+      : "bg-white border-gray-300"
+  );
+  const mutedClass = theme === "dark" ? "text-slate-400" : "text-gray-500";
+
+  return (
+    <div
+      className={clsx(
+        "rounded-2xl p-6",
+        theme === "dark"
+          ? "bg-slate-800/50 ring-1 ring-slate-700/50"
+          : "bg-white border border-gray-200"
+      )}
+    >
+      <div className="flex items-center gap-4 mb-4">
+        <div
+          className={clsx(
+            "p-3 rounded-xl",
+            theme === "dark"
+              ? "bg-blue-500/10 text-blue-400"
+              : "bg-blue-100 text-blue-600"
+          )}
+        >
+          <Gauge className="w-6 h-6" />
+        </div>
+        <div className="flex-1">
+          <h2
+            className={clsx(
+              "text-lg font-semibold",
+              theme === "dark" ? "text-white" : "text-gray-900"
+            )}
+          >
+            Velocity Check
+          </h2>
+          <p className={clsx("text-sm", mutedClass)}>
+            Warm-up velocity at your standard load
+          </p>
+        </div>
+        <VelocityReadinessBadge readiness={readiness} />
+      </div>
+
+      <form onSubmit={handleSave} className="space-y-3">
+        <select
+          value={exerciseName}
+          onChange={(e) => setExerciseName(e.target.value)}
+          className={inputClass}
+        >
+          {library.length === 0 && <option value="">No exercises</option>}
+          {library.map((exercise) => (
+            <option key={exercise.id} value={exercise.name}>
+              {exercise.name}
+            </option>
+          ))}
+        </select>
+        <div className="grid grid-cols-2 gap-3">
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={load}
+            onChange={(e) => setLoad(e.target.value)}
+            placeholder="Load (kg)"
+            className={inputClass}
+          />
+          <input
+            type="number"
+            step="0.01"
+            min="0"
+            value={velocity}
+            onChange={(e) => {
+              setVelocity(e.target.value);
+              setSaved(false);
+            }}
+            placeholder="Velocity (m/s)"
+            className={inputClass}
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saved && <Check className="w-4 h-4" />}
+          {saving ? "Saving..." : saved ? "Saved" : "Save Check"}
+        </button>
+      </form>
+
+      {saved && (
+        <p className={clsx("mt-3 text-sm", mutedClass)}>
+          {readiness
+            ? `${readiness.velocity.toFixed(2)} m/s against a baseline of ${readiness.baseline.toFixed(2)} m/s. ${describeLoadAdjustment(readiness)}.`
+            : `Your readiness shows up after ${MIN_BASELINE_CHECKS} earlier checks at the same exercise and load.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import clsx from "clsx";
+import { READINESS_FLAG_STYLES } from "../lib/readiness";
+import {
+  VELOCITY_BASELINE_DAYS,
+  describeLoadAdjustment,
+} from "../lib/velocityReadiness";
+import type { VelocityReadiness } from "../lib/velocityReadiness";
+
+interface VelocityReadinessBadgeProps {
+  readiness: VelocityReadiness | undefined;
+  className?: string;
+}
+
+export default function VelocityReadinessBadge({
+  readiness,
+  className,
+}: VelocityReadinessBadgeProps) {
+  if (!readiness) return null;
+
+  return (
+    <span
+      className={clsx(
+        "px-2.5 py-0.5 rounded-full text-xs font-semibold",
+        READINESS_FLAG_STYLES[readiness.flag],
+        className
+      )}
+      title={`${readiness.exerciseName} at ${readiness.load} kg: ${readiness.velocity.toFixed(2)} m/s vs ${readiness.baseline.toFixed(2)} m/s ${VELOCITY_BASELINE_DAYS}-day baseline. ${describeLoadAdjustment(readiness)}.`}
+    >
+      Velocity {readiness.changePercent > 0 ? "+" : ""}
+      {readiness.changePercent.toFixed(1)}%
+    </span>
+  );
+}
@@ -0,0 +1,430 @@
+import { useEffect, useMemo, useState } from "react";
+import { Line } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { Dumbbell } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import { findExercise, getCategoryLabel } from "../lib/exerciseLibrary";
+import {
+  HARD_SET_E1RM_SHARE,
+  VOLUME_METRICS,
+  getBestE1RMs,
+  getVolumeMetric,
+  getVolumeTrend,
+  summarizeVolume,
+  summarizeWeeklyVolume,
+} from "../lib/volumeLoad";
+import type { VolumeGroupBy, VolumeMetric } from "../lib/volumeLoad";
+import { fetchExerciseLibrary } from "../services/exerciseLibrary";
+import type {
+  AthleteGroup,
+  Exercise,
+  ExerciseRecord,
+  Profile,
+} from "../lib/database.types";
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface VolumeLoadReportProps {
+  managerId: string;
+  athletes: Profile[];
+  selectedAthlete: string;
+  startDate: string;
+  endDate: string;
+}
+
+type VolumeRecord = Pick<
+  ExerciseRecord,
+  | "athlete_id"
+  | "exercise_name"
+  | "exercise_id"
+  | "date"
+  | "weight"
+  | "reps"
+  | "series_data"
+>;
+
+const GROUP_BY_OPTIONS: { value: VolumeGroupBy; label: string }[] = [
+  { value: "exercise", label: "Exercise" },
+  { value: "category", label: "Category" },
+  { value: "athlete", label: "Athlete" },
+  { value: "group", label: "Group" },
+];
+
+// More lines than this make the trend chart unreadable
+const MAX_CHART_SERIES = 8;
+
+const RECORDS_PAGE_SIZE = 1000;
+
+const COLORS = [
+  "#6366f1",
+  "#f59e42",
+  "#10b981",
+  "#ef4444",
+  "#0ea5e9",
+  "#a21caf",
+  "#eab308",
+  "#64748b",
+];
+
+const formatMetric = (value: number | null, metric: VolumeMetric) => {
+  if (value === null) return "–";
+  if (metric === "averageIntensity") return `${value.toFixed(1)}%`;
+  return Math.round(value).toLocaleString();
+};
+
+export default function VolumeLoadReport({
+  managerId,
+  athletes,
+  selectedAthlete,
+  startDate,
+  endDate,
+}: VolumeLoadReportProps) {
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  const [library, setLibrary] = useState<Exercise[]>([]);
+  // "athlete:<id>", "group:<id>" or "all"
+  const [scope, setScope] = useState<string>(`athlete:${selectedAthlete}`);
+  const [groupBy, setGroupBy] = useState<VolumeGroupBy>("exercise");
+  const [metric, setMetric] = useState<VolumeMetric>("volumeLoad");
+  const [records, setRecords] = useState<VolumeRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setScope(`athlete:${selectedAthlete}`);
+  }, [selectedAthlete]);
+
+  useEffect(() => {
+    const fetchGroupsAndLibrary = async () => {
+      const { data, error } = await supabase
+        .from("athlete_groups")
+        .select("*")
+        .eq("manager_id", managerId)
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching groups:", error);
+      } else {
+        setGroups(data || []);
+      }
+
+      try {
+        setLibrary(await fetchExerciseLibrary(managerId));
+      } catch (libraryError) {
+        console.error("Error fetching exercise library:", libraryError);
+      }
+    };
+
+    fetchGroupsAndLibrary();
+  }, [managerId]);
+
+  const scopeAthletes = useMemo(() => {
+    const [kind, id] = scope.split(":");
+    if (kind === "athlete") return athletes.filter((a) => a.id === id);
+    if (kind === "group") return athletes.filter((a) => a.group_id === id);
+    return athletes;
+  }, [scope, athletes]);
+
+  useEffect(() => {
+    const athleteIds = scopeAthletes.map((a) => a.id);
+    if (athleteIds.length === 0) {
+      setRecords([]);
+      return;
+    }
+
+    // A group's records over a few weeks pass PostgREST's 1000-row limit,
+    // so they are read a page at a time in a stable order
+    const fetchRecords = async () => {
+      setLoading(true);
+      const rows: VolumeRecord[] = [];
+      for (let from = 0; ; from += RECORDS_PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("exercise_records")
+          .select(
+            "athlete_id, exercise_name, exercise_id, date, weight, reps, series_data"
+          )
+          .in("athlete_id", athleteIds)
+          .gte("date", startDate)
+          .lte("date", endDate)
+          .order("id")
+          .range(from, from + RECORDS_PAGE_SIZE - 1);
+
+        if (error) {
+          console.error("Error fetching exercise records:", error);
+          setRecords([]);
+          setLoading(false);
+          return;
+        }
+        rows.push(...((data as VolumeRecord[]) || []));
+        if (!data || data.length < RECORDS_PAGE_SIZE) break;
+      }
+      setRecords(rows);
+      setLoading(false);
+    };
+
+    fetchRecords();
+  }, [scopeAthletes, startDate, endDate]);
+
+  // Key and label of the series a record belongs to
+  const { getKey, labels } = useMemo(() => {
+    const describe = (record: VolumeRecord): [string, string] => {
+      if (groupBy === "exercise") {
+        return [record.exercise_name, record.exercise_name];
+      }
+      if (groupBy === "category") {
+        const exercise =
+          library.find((e) => e.id === record.exercise_id) ||
+          findExercise(library, record.exercise_name);
+        return [
+          exercise?.category || "uncategorized",
+          getCategoryLabel(exercise?.category || null) || "Other",
+        ];
+      }
+      const athlete = athletes.find((a) => a.id === record.athlete_id);
+      if (groupBy === "athlete") {
+        return [record.athlete_id, athlete?.full_name || "Unknown athlete"];
+      }
+      return [
+        athlete?.group_id || "none",
+        groups.find((g) => g.id === athlete?.group_id)?.name || "No group",
+      ];
+    };
+    return {
+      getKey: (record: VolumeRecord) => describe(record)[0],
+      labels: Object.fromEntries(records.map(describe)),
+    };
+  }, [groupBy, library, athletes, groups, records]);
+
+  const weeks = useMemo(
+    () => summarizeWeeklyVolume(records, getKey, startDate, endDate),
+    [records, getKey, startDate, endDate]
+  );
+  const totals = useMemo(
+    () => summarizeVolume(records, getKey, getBestE1RMs(records)),
+    [records, getKey]
+  );
+
+  // Largest series first
+  const keys = Object.keys(totals).sort(
+    (a, b) => totals[b].volumeLoad - totals[a].volumeLoad
+  );
+  const chartKeys = keys.slice(0, MAX_CHART_SERIES);
+
+  const chartData = {
+    labels: weeks.map((w) =>
+      new Date(w.weekStart).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      })
+    ),
+    datasets: chartKeys.map((key, i) => ({
+      label: labels[key],
+      data: weeks.map((w) => getVolumeMetric(w.totals[key], metric)),
+      borderColor: COLORS[i % COLORS.length],
+      backgroundColor: COLORS[i % COLORS.length],
+      tension: 0.3,
+      spanGaps: true,
+    })),
+  };
+
+  const chartOptions = {
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { position: "top" as const },
+    },
+    scales: {
+      x: { title: { display: true, text: "Week starting" } },
+      y: {
+        beginAtZero: true,
+        title: {
+          display: true,
+          text: VOLUME_METRICS.find((m) => m.value === metric)?.label || "",
+        },
+      },
+    },
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Dumbbell className="h-5 w-5 mr-2 text-indigo-500" />
+          Volume Load &amp; Intensity
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            <optgroup label="Athletes">
+              {athletes.map((athlete) => (
+                <option key={athlete.id} value={`athlete:${athlete.id}`}>
+                  {athlete.full_name}
+                </option>
+              ))}
+            </optgroup>
+            {groups.length > 0 && (
+              <optgroup label="Groups">
+                {groups.map((group) => (
+                  <option key={group.id} value={`group:${group.id}`}>
+                    {group.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            <option value="all">All athletes</option>
+          </select>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as VolumeGroupBy)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          >
+            {GROUP_BY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                By {option.label.toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <div className="flex rounded-md shadow-sm">
+            {VOLUME_METRICS.map((m) => (
+              <button
+                key={m.value}
+                onClick={() => setMetric(m.value)}
+                className={`px-3 py-1.5 text-sm font-medium border first:rounded-l-md last:rounded-r-md ${
+                  metric === m.value
+                    ? "bg-indigo-600 text-white border-indigo-600"
+                    : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="py-8 text-center text-gray-500">Loading...</div>
+      ) : keys.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">
+            No logged sets for the selected period.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="h-72 mb-6">
+            <Line data={chartData} options={chartOptions} />
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    {GROUP_BY_OPTIONS.find((o) => o.value === groupBy)?.label}
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Volume Load (kg)
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Sets
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Hard Sets
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Avg Load (kg)
+                  </th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">
+                    Avg Intensity
+                  </th>
+                  <th
+                    className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase"
+                    title="Change from the first to the last week with data"
+                  >
+                    Trend
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {keys.map((key) => {
+                  const total = totals[key];
+                  const trend = getVolumeTrend(weeks, key, metric);
+                  const color = chartKeys.includes(key)
+                    ? COLORS[chartKeys.indexOf(key) % COLORS.length]
+                    : undefined;
+                  return (
+                    <tr key={key}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {color && (
+                          <span
+                            className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+                            style={{ backgroundColor: color }}
+                          />
+                        )}
+                        {labels[key]}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {formatMetric(total.volumeLoad, "volumeLoad")}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {total.sets}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {total.hardSets}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {total.averageLoad.toFixed(1)}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-gray-700">
+                        {formatMetric(
+                          total.averageIntensity,
+                          "averageIntensity"
+                        )}
+                      </td>
+                      <td
+                        className={`px-4 py-2 text-sm text-right font-medium ${
+                          trend === null
+                            ? "text-gray-400"
+                            : trend >= 0
+                              ? "text-green-600"
+                              : "text-red-600"
+                        }`}
+                      >
+                        {trend === null
+                          ? "–"
+                          : `${trend > 0 ? "+" : ""}${trend.toFixed(0)}%`}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-3 text-xs text-gray-500">
+            Hard sets are sets with an estimated 1RM of at least{" "}
+            {HARD_SET_E1RM_SHARE * 100}% of the athlete's best in the period.
+            Intensity is relative to that best.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
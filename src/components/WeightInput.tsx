@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from "react";
 import { supabase } from "../lib/supabase";
-import type { WeightRecord } from "../lib/database.types";
+import { SEXES } from "../lib/strength";
+import { updateAthleteSex } from "../services/strength";
+import type { Sex, WeightRecord } from "../lib/database.types";
 import { Scale, Plus, Check } from "lucide-react";
 import clsx from "clsx";
 
@@ -17,11 +19,35 @@ export default function WeightInput({ athleteId, theme = "light" }: Props) {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState(false);
+  const [sex, setSex] = useState<Sex | "">("");
 
   useEffect(() => {
     fetchWeightRecords();
+    fetchSex();
   }, [athleteId]);
 
+  const fetchSex = async () => {
+    const { data } = await supabase
+      .from("profiles")
+      .select("sex")
+      .eq("id", athleteId)
+      .single();
+    setSex(data?.sex || "");
+  };
+
+  // Body weight and sex give the relative strength of personal records
+  const handleSexChange = async (value: Sex | "") => {
+    const previous = sex;
+    setSex(value);
+    try {
+      await updateAthleteSex(athleteId, value || null);
+    } catch (err) {
+      console.error("Error saving sex:", err);
+      setSex(previous);
+      setError("Failed to save your sex");
+    }
+  };
+
   const fetchWeightRecords = async () => {
     try {
       const { data, error } = await supabase
@@ -142,6 +168,31 @@ export default function WeightInput({ athleteId, theme = "light" }: Props) {
           </p>
         </div>
       </div>
+      <label
+        className={clsx(
+          "flex items-center justify-between gap-2 mb-4 text-sm",
+          theme === "dark" ? "text-slate-300" : "text-gray-600"
+        )}
+      >
+        Sex (for strength scores)
+        <select
+          value={sex}
+          onChange={(e) => handleSexChange(e.target.value as Sex | "")}
+          className={clsx(
+            "px-3 py-1.5 rounded-lg border text-sm",
+            theme === "dark"
+              ? "bg-slate-900/50 border-slate-700 text-white"
+              : "bg-white border-gray-300 text-gray-900"
+          )}
+        >
+          <option value="">Not set</option>
+          {SEXES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
       <form onSubmit={handleAddWeight} className="mb-6">
         <div className="flex gap-2">
           <div className="flex-1">
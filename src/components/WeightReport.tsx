@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, Fragment } from "react";
+import React, { useState, useEffect, Fragment } from "react";
 import { supabase } from "../lib/supabase";
 import type { WeightRecord } from "../lib/database.types";
 import {
@@ -9,10 +9,10 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  Legend,
 } from "recharts";
 import { Scale, ChevronLeft, ChevronRight } from "lucide-react";
 import clsx from "clsx";
+import LoadVelocityProfile from "./LoadVelocityProfile";
 
 interface Props {
   athleteId: string;
@@ -33,161 +33,10 @@ export default function WeightReport({ athleteId, theme = "light" }: Props) {
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
 
-  // Load-Velocity/Power state
-  const [lvDate, setLvDate] = useState(
-    () => new Date().toISOString().split("T")[0]
-  );
-  const [lvInputs, setLvInputs] = useState<
-    { load: string; velocity: string; power: string }[]
-  >([
-    { load: "", velocity: "", power: "" },
-    { load: "", velocity: "", power: "" },
-    { load: "", velocity: "", power: "" },
-    { load: "", velocity: "", power: "" },
-  ]);
-  const [lvLoading, setLvLoading] = useState(false);
-  const [lvError, setLvError] = useState<string | null>(null);
-
-  const [compareDates, setCompareDates] = useState<string[]>([]);
-  const [showCompare, setShowCompare] = useState(false);
-  const [allEntries, setAllEntries] = useState<any[]>([]);
-  const [compareDropdownOpen, setCompareDropdownOpen] = useState(false);
-
   useEffect(() => {
     fetchWeightRecords();
   }, [athleteId]);
 
-  // Reset inputs when date changes
-  const handleDateChange = (newDate: string) => {
-    setLvDate(newDate);
-    // Reset inputs immediately when date changes
-    setLvInputs([
-      { load: "", velocity: "", power: "" },
-      { load: "", velocity: "", power: "" },
-      { load: "", velocity: "", power: "" },
-      { load: "", velocity: "", power: "" },
-    ]);
-  };
-
-  // Fetch from Supabase on mount or date change
-  useEffect(() => {
-    const fetchLV = async () => {
-      setLvLoading(true);
-      setLvError(null);
-      try {
-        const { data, error } = await supabase
-          .from("load_velocity_power")
-          .select("entries")
-          .eq("athlete_id", athleteId)
-          .single();
-        if (error) {
-          if (error.code === "PGRST116" || error.code === "406") {
-            // No data for this athlete or 406 Not Acceptable: treat as empty
-            setLvInputs([
-              { load: "", velocity: "", power: "" },
-              { load: "", velocity: "", power: "" },
-              { load: "", velocity: "", power: "" },
-              { load: "", velocity: "", power: "" },
-            ]);
-            return;
-          }
-          throw error;
-        }
-        if (data && data.entries) {
-          // Find entry for this date
-          const entry = (data.entries as any[]).find((e) => e.date === lvDate);
-          if (entry) {
-            const loads = entry.loads || [];
-            const velocities = entry.velocities || [];
-            const powers = entry.powers || [];
-            const arr = [0, 1, 2, 3].map((i) => ({
-              load: loads[i] !== undefined ? String(loads[i]) : "",
-              velocity:
-                velocities[i] !== undefined ? String(velocities[i]) : "",
-              power: powers[i] !== undefined ? String(powers[i]) : "",
-            }));
-            setLvInputs(arr);
-          } else {
-            setLvInputs([
-              { load: "", velocity: "", power: "" },
-              { load: "", velocity: "", power: "" },
-              { load: "", velocity: "", power: "" },
-              { load: "", velocity: "", power: "" },
-            ]);
-          }
-        } else {
-          setLvInputs([
-            { load: "", velocity: "", power: "" },
-            { load: "", velocity: "", power: "" },
-            { load: "", velocity: "", power: "" },
-            { load: "", velocity: "", power: "" },
-          ]);
-        }
-      } catch (err) {
-        setLvError("Failed to load Load-Velocity/Power data");
-      } finally {
-        setLvLoading(false);
-      }
-    };
-    if (athleteId && lvDate) fetchLV();
-  }, [athleteId, lvDate]);
-
-  // Save to Supabase on input change
-  useEffect(() => {
-    const saveLV = async () => {
-      if (!athleteId || !lvDate) return;
-      // Only save if at least one value is present
-      const hasAny = lvInputs.some(
-        (row) => row.load || row.velocity || row.power
-      );
-      if (!hasAny) return;
-      setLvLoading(true);
-      setLvError(null);
-      try {
-        // Fetch current entries
-        const { data, error } = await supabase
-          .from("load_velocity_power")
-          .select("entries")
-          .eq("athlete_id", athleteId)
-          .single();
-        let entries = data && data.entries ? [...data.entries] : [];
-        // Remove any entry for this date
-        entries = entries.filter((e: any) => e.date !== lvDate);
-        // Add new/updated entry
-        const loads = lvInputs.map((r) => (r.load ? parseFloat(r.load) : null));
-        const velocities = lvInputs.map((r) =>
-          r.velocity ? parseFloat(r.velocity) : null
-        );
-        const powers = lvInputs.map((r) =>
-          r.power ? parseFloat(r.power) : null
-        );
-        entries.push({ date: lvDate, loads, velocities, powers });
-        // Upsert the row
-        const { error: upsertError } = await supabase
-          .from("load_velocity_power")
-          .upsert([{ athlete_id: athleteId, entries }]);
-        if (upsertError) throw upsertError;
-      } catch (err) {
-        setLvError("Failed to save Load-Velocity/Power data");
-      } finally {
-        setLvLoading(false);
-      }
-    };
-    saveLV();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [lvInputs, athleteId, lvDate]);
-
-  // Prepare data for charts
-  const lvData = lvInputs
-    .map((row) => ({
-      load: parseFloat(row.load),
-      velocity: parseFloat(row.velocity),
-      power: parseFloat(row.power),
-    }))
-    .filter(
-      (row) => !isNaN(row.load) && (!isNaN(row.velocity) || !isNaN(row.power))
-    );
-
   const fetchWeightRecords = async () => {
     try {
       const { data, error } = await supabase
@@ -231,44 +80,6 @@ export default function WeightReport({ athleteId, theme = "light" }: Props) {
     return true;
   });
 
-  // Fetch all entries for this athlete on mount
-  useEffect(() => {
-    const fetchAll = async () => {
-      const { data, error } = await supabase
-        .from("load_velocity_power")
-        .select("entries")
-        .eq("athlete_id", athleteId)
-        .single();
-      if (data && data.entries) setAllEntries(data.entries);
-      else setAllEntries([]);
-    };
-    if (athleteId) fetchAll();
-  }, [athleteId]);
-
-  // Prepare comparison data
-  const compareData = useMemo(() => {
-    if (!showCompare || compareDates.length === 0) return [];
-    return compareDates
-      .map((date) => {
-        const entry = allEntries.find((e) => e.date === date);
-        if (!entry) return null;
-        return {
-          date,
-          lvData: [0, 1, 2, 3]
-            .map((i) => ({
-              load: entry.loads?.[i],
-              velocity: entry.velocities?.[i],
-              power: entry.powers?.[i],
-            }))
-            .filter(
-              (row) =>
-                !isNaN(row.load) && (!isNaN(row.velocity) || !isNaN(row.power))
-            ),
-        };
-      })
-      .filter(Boolean);
-  }, [showCompare, compareDates, allEntries]);
-
   return (
     <div
       className={clsx(
@@ -278,401 +89,7 @@ export default function WeightReport({ athleteId, theme = "light" }: Props) {
           : "bg-white border border-gray-200"
       )}
     >
-      {/* Compare UI - custom multi-select dropdown */}
-      <div className="mb-4 relative">
-        <label className="font-medium text-sm mr-2">Compare Dates:</label>
-        <div className="inline-block relative">
-          <button
-            type="button"
-            className={clsx(
-              "px-3 py-1.5 border rounded shadow-sm text-sm min-w-[140px] text-left",
-              theme === "dark"
-                ? "bg-blue-900/50 border-blue-700/50 text-blue-100"
-                : "bg-white border-gray-300"
-            )}
-            onClick={() => setCompareDropdownOpen((v) => !v)}
-          >
-            {compareDates.length > 0
-              ? compareDates.join(", ")
-              : "Select dates..."}
-            <span className="ml-2">▼</span>
-          </button>
-          {compareDropdownOpen && (
-            <div
-              className={clsx(
-                "absolute z-10 mt-1 border rounded shadow-lg min-w-[180px] max-h-48 overflow-y-auto",
-                theme === "dark"
-                  ? "bg-blue-900/80 border-blue-700/50"
-                  : "bg-white border-gray-300"
-              )}
-            >
-              {allEntries.length === 0 && (
-                <div className="px-4 py-2 text-gray-400 text-sm">
-                  No dates available
-                </div>
-              )}
-              {allEntries.map((entry) => (
-                <label
-                  key={entry.date}
-                  className="flex items-center px-4 py-2 hover:bg-blue-50 cursor-pointer text-sm"
-                >
-                  <input
-                    type="checkbox"
-                    checked={compareDates.includes(entry.date)}
-                    onChange={() => {
-                      setCompareDates((prev) =>
-                        prev.includes(entry.date)
-                          ? prev.filter((d) => d !== entry.date)
-                          : [...prev, entry.date]
-                      );
-                    }}
-                    className="mr-2"
-                  />
-                  {entry.date}
-                </label>
-              ))}
-            </div>
-          )}
-        </div>
-        {/* Show selected dates as chips */}
-        <div className="inline-flex flex-wrap gap-2 ml-3 align-middle">
-          {compareDates.map((date) => (
-            <span
-              key={date}
-              className="bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full text-xs flex items-center gap-1"
-            >
-              {date}
-              <button
-                type="button"
-                className="ml-1 text-blue-500 hover:text-blue-700"
-                onClick={() =>
-                  setCompareDates((prev) => prev.filter((d) => d !== date))
-                }
-                aria-label={`Remove ${date}`}
-              >
-                ×
-              </button>
-            </span>
-          ))}
-        </div>
-        {/* Compare/Cancel buttons */}
-        {showCompare ? (
-          <button
-            className="ml-4 px-3 py-1 rounded bg-gray-300 text-gray-700 text-sm font-medium"
-            onClick={() => {
-              setShowCompare(false);
-              setCompareDates([]);
-            }}
-          >
-            Cancel Compare
-          </button>
-        ) : (
-          <button
-            className="ml-4 px-3 py-1 rounded bg-blue-600 text-white text-sm font-medium disabled:opacity-50"
-            onClick={() => setShowCompare(true)}
-            disabled={compareDates.length < 2}
-          >
-            Compare
-          </button>
-        )}
-      </div>
-      {/* Load-Velocity/Power Section */}
-      <div className="mb-10">
-        <h2
-          className={clsx(
-            "text-lg font-bold mb-2",
-            theme === "dark" ? "text-white" : "text-gray-900"
-          )}
-        >
-          Load-Velocity & Power Curves
-        </h2>
-        <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-4">
-          <label className="font-medium text-sm">Select Date:</label>
-          <input
-            type="date"
-            value={lvDate}
-            onChange={(e) => handleDateChange(e.target.value)}
-            className={clsx(
-              "px-2 py-1 rounded border text-sm",
-              theme === "dark"
-                ? "bg-blue-900/50 border-blue-700 text-blue-100"
-                : "bg-white border-gray-300"
-            )}
-          />
-        </div>
-        <div className="overflow-x-auto">
-          <table
-            className={clsx(
-              "min-w-full mb-4 border rounded-lg",
-              theme === "dark"
-                ? "border-blue-700 bg-blue-900/20"
-                : "border-gray-300 bg-white"
-            )}
-          >
-            <thead
-              className={theme === "dark" ? "bg-blue-800/50" : "bg-gray-50"}
-            >
-              <tr>
-                <th
-                  className={clsx(
-                    "px-3 py-2 text-left text-xs font-medium uppercase tracking-wider",
-                    theme === "dark" ? "text-white" : "text-gray-900"
-                  )}
-                >
-                  Load (kg)
-                </th>
-                <th
-                  className={clsx(
-                    "px-3 py-2 text-left text-xs font-medium uppercase tracking-wider",
-                    theme === "dark" ? "text-white" : "text-gray-900"
-                  )}
-                >
-                  Velocity (m/s)
-                </th>
-                <th
-                  className={clsx(
-                    "px-3 py-2 text-left text-xs font-medium uppercase tracking-wider",
-                    theme === "dark" ? "text-white" : "text-gray-900"
-                  )}
-                >
-                  Power (W)
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {lvInputs.map((row, idx) => (
-                <tr key={idx}>
-                  <td className="px-3 py-2">
-                    <input
-                      type="number"
-                      step="0.1"
-                      value={row.load}
-                      onChange={(e) => {
-                        const v = e.target.value;
-                        setLvInputs((prev) =>
-                          prev.map((r, i) =>
-                            i === idx ? { ...r, load: v } : r
-                          )
-                        );
-                      }}
-                      className={clsx(
-                        "w-24 px-2 py-1 rounded border text-sm",
-                        theme === "dark"
-                          ? "bg-blue-900/50 border-blue-700 text-blue-100"
-                          : "bg-white border-gray-300"
-                      )}
-                    />
-                  </td>
-                  <td className="px-3 py-2">
-                    <input
-                      type="number"
-                      step="0.01"
-                      value={row.velocity}
-                      onChange={(e) => {
-                        const v = e.target.value;
-                        setLvInputs((prev) =>
-                          prev.map((r, i) =>
-                            i === idx ? { ...r, velocity: v } : r
-                          )
-                        );
-                      }}
-                      className={clsx(
-                        "w-24 px-2 py-1 rounded border text-sm",
-                        theme === "dark"
-                          ? "bg-blue-900/50 border-blue-700 text-blue-100"
-                          : "bg-white border-gray-300"
-                      )}
-                    />
-                  </td>
-                  <td className="px-3 py-2">
-                    <input
-                      type="number"
-                      step="0.1"
-                      value={row.power}
-                      onChange={(e) => {
-                        const v = e.target.value;
-                        setLvInputs((prev) =>
-                          prev.map((r, i) =>
-                            i === idx ? { ...r, power: v } : r
-                          )
-                        );
-                      }}
-                      className={clsx(
-                        "w-24 px-2 py-1 rounded border text-sm",
-                        theme === "dark"
-                          ? "bg-blue-900/50 border-blue-700 text-blue-100"
-                          : "bg-white border-gray-300"
-                      )}
-                    />
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-          {/* Load-Velocity Chart */}
-          <div
-            className={clsx(
-              "rounded-xl shadow p-4 border",
-              theme === "dark"
-                ? "bg-blue-900/30 border-blue-700/50"
-                : "bg-white border-gray-100"
-            )}
-          >
-            <h3
-              className={clsx(
-                "font-semibold mb-2",
-                theme === "dark" ? "text-blue-300" : "text-blue-700"
-              )}
-            >
-              Load-Velocity Curve
-            </h3>
-            <ResponsiveContainer width="100%" height={260}>
-              <LineChart
-                data={
-                  showCompare
-                    ? undefined
-                    : lvData.filter((d) => !isNaN(d.velocity))
-                }
-                margin={{ top: 20, right: 30, left: 10, bottom: 20 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="load"
-                  type="number"
-                  domain={["auto", "auto"]}
-                  tick={{ fontSize: 12 }}
-                  label={{
-                    value: "Load (kg)",
-                    position: "insideBottom",
-                    offset: -5,
-                  }}
-                />
-                <YAxis
-                  type="number"
-                  domain={["auto", "auto"]}
-                  tick={{ fontSize: 12 }}
-                  label={{
-                    value: "Velocity (m/s)",
-                    angle: -90,
-                    position: "insideLeft",
-                  }}
-                />
-                <Tooltip />
-                <Legend />
-                {showCompare ? (
-                  compareData.map((d, idx) =>
-                    d ? (
-                      <Line
-                        key={d.date}
-                        type="monotone"
-                        data={d.lvData.filter((row) => !isNaN(row.velocity))}
-                        dataKey="velocity"
-                        stroke={
-                          ["#2563eb", "#f59e42", "#10b981", "#a21caf"][idx % 4]
-                        }
-                        strokeWidth={2}
-                        dot={{ r: 5 }}
-                        name={d.date}
-                      />
-                    ) : null
-                  )
-                ) : (
-                  <Line
-                    type="monotone"
-                    dataKey="velocity"
-                    stroke="#2563eb"
-                    strokeWidth={2}
-                    dot={{ r: 5 }}
-                    name="Velocity (m/s)"
-                  />
-                )}
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-          {/* Load-Power Chart */}
-          <div
-            className={clsx(
-              "rounded-xl shadow p-4 border",
-              theme === "dark"
-                ? "bg-blue-900/30 border-blue-700/50"
-                : "bg-white border-gray-100"
-            )}
-          >
-            <h3
-              className={clsx(
-                "font-semibold mb-2",
-                theme === "dark" ? "text-blue-300" : "text-purple-700"
-              )}
-            >
-              Load-Power Curve
-            </h3>
-            <ResponsiveContainer width="100%" height={260}>
-              <LineChart
-                data={
-                  showCompare
-                    ? undefined
-                    : lvData.filter((d) => !isNaN(d.power))
-                }
-                margin={{ top: 20, right: 30, left: 10, bottom: 20 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis
-                  dataKey="load"
-                  type="number"
-                  domain={["auto", "auto"]}
-                  tick={{ fontSize: 12 }}
-                  label={{
-                    value: "Load (kg)",
-                    position: "insideBottom",
-                    offset: -5,
-                  }}
-                />
-                <YAxis
-                  type="number"
-                  domain={["auto", "auto"]}
-                  tick={{ fontSize: 12 }}
-                  label={{
-                    value: "Power (W)",
-                    angle: -90,
-                    position: "insideLeft",
-                  }}
-                />
-                <Tooltip />
-                <Legend />
-                {showCompare ? (
-                  compareData.map((d, idx) =>
-                    d ? (
-                      <Line
-                        key={d.date}
-                        type="monotone"
-                        data={d.lvData.filter((row) => !isNaN(row.power))}
-                        dataKey="power"
-                        stroke={
-                          ["#a21caf", "#f59e42", "#10b981", "#2563eb"][idx % 4]
-                        }
-                        strokeWidth={2}
-                        dot={{ r: 5 }}
-                        name={d.date}
-                      />
-                    ) : null
-                  )
-                ) : (
-                  <Line
-                    type="monotone"
-                    dataKey="power"
-                    stroke="#a21caf"
-                    strokeWidth={2}
-                    dot={{ r: 5 }}
-                    name="Power (W)"
-                  />
-                )}
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
-      </div>
+      <LoadVelocityProfile athleteId={athleteId} theme={theme} />
       <div className="flex items-center gap-4 mb-6">
         <div
           className={clsx(
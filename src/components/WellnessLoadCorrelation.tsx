@@ -0,0 +1,372 @@
+import { useEffect, useMemo, useState } from "react";
+import { Scatter } from "react-chartjs-2";
+import {
+  Chart as ChartJS,
+  LinearScale,
+  PointElement,
+  Tooltip,
+  Legend,
+} from "chart.js";
+import { GitCompare } from "lucide-react";
+import { supabase } from "../lib/supabase";
+import { addDays } from "../lib/trainingLoad";
+import {
+  CORRELATION_LAGS,
+  MIN_CORRELATION_SAMPLE,
+  buildLaggedPairs,
+  correlatePairs,
+  getCorrelationColor,
+  getCorrelationStrength,
+} from "../lib/wellnessCorrelation";
+import type { LoadWellnessPair } from "../lib/wellnessCorrelation";
+import type {
+  AthleteGroup,
+  CustomMetric,
+  MetricResponse,
+  Profile,
+  TrainingSession,
+} from "../lib/database.types";
+
+ChartJS.register(LinearScale, PointElement, Tooltip, Legend);
+
+interface WellnessLoadCorrelationProps {
+  managerId: string;
+  athletes: Profile[];
+  metrics: CustomMetric[];
+  selectedAthlete: string;
+  startDate: string;
+  endDate: string;
+}
+
+const MAX_LAG = Math.max(...CORRELATION_LAGS.map((l) => l.value));
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const formatR = (r: number | null) => (r === null ? "-" : r.toFixed(2));
+
+export default function WellnessLoadCorrelation({
+  managerId,
+  athletes,
+  metrics,
+  selectedAthlete,
+  startDate,
+  endDate,
+}: WellnessLoadCorrelationProps) {
+  const ratingMetrics = useMemo(
+    () => metrics.filter((m) => m.type === "rating"),
+    [metrics]
+  );
+  const [groups, setGroups] = useState<AthleteGroup[]>([]);
+  // "athlete:<id>", "group:<id>" or "all"
+  const [scope, setScope] = useState<string>(`athlete:${selectedAthlete}`);
+  const [selectedMetricId, setSelectedMetricId] = useState<string>("");
+  const [sessions, setSessions] = useState<
+    Pick<TrainingSession, "athlete_id" | "date" | "unit_load">[]
+  >([]);
+  const [responses, setResponses] = useState<
+    Pick<MetricResponse, "athlete_id" | "metric_id" | "date" | "rating_value">[]
+  >([]);
+  const [loading, setLoading] = useState(false);
+
+  // Loads are needed for the days before the first response as well
+  const loadStartDate = addDays(startDate, -MAX_LAG);
+
+  useEffect(() => {
+    setScope(`athlete:${selectedAthlete}`);
+  }, [selectedAthlete]);
+
+  useEffect(() => {
+    if (!selectedMetricId && ratingMetrics.length > 0) {
+      setSelectedMetricId(ratingMetrics[0].id);
+    }
+  }, [ratingMetrics, selectedMetricId]);
+
+  useEffect(() => {
+    const fetchGroups = async () => {
+      const { data, error } = await supabase
+        .from("athlete_groups")
+        .select("*")
+        .eq("manager_id", managerId)
+        .order("name");
+
+      if (error) {
+        console.error("Error fetching groups:", error);
+        return;
+      }
+
+      setGroups(data || []);
+    };
+
+    fetchGroups();
+  }, [managerId]);
+
+  const scopeAthletes = useMemo(() => {
+    const [kind, id] = scope.split(":");
+    if (kind === "athlete") return athletes.filter((a) => a.id === id);
+    if (kind === "group") return athletes.filter((a) => a.group_id === id);
+    return athletes;
+  }, [scope, athletes]);
+
+  useEffect(() => {
+    const athleteIds = scopeAthletes.map((a) => a.id);
+    const metricIds = ratingMetrics.map((m) => m.id);
+    if (athleteIds.length === 0 || metricIds.length === 0) {
+      setSessions([]);
+      setResponses([]);
+      return;
+    }
+
+    // A group or the whole team goes past that limit within weeks, so both
+    // reads are paged in a stable order
+    const fetchSessions = async () => {
+      const rows: typeof sessions = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("training_sessions")
+          .select("athlete_id, date, unit_load")
+          .in("athlete_id", athleteIds)
+          .gte("date", loadStartDate)
+          .lte("date", endDate)
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    };
+
+    const fetchResponses = async () => {
+      const rows: typeof responses = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from("metric_responses")
+          .select("athlete_id, metric_id, date, rating_value")
+          .in("athlete_id", athleteIds)
+          .in("metric_id", metricIds)
+          .not("rating_value", "is", null)
+          .gte("date", startDate)
+          .lte("date", endDate)
+          .order("id")
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw error;
+        rows.push(...(data || []));
+        if (!data || data.length < PAGE_SIZE) return rows;
+      }
+    };
+
+    const fetchData = async () => {
+      setLoading(true);
+      try {
+        const [sessionsData, responsesData] = await Promise.all([
+          fetchSessions(),
+          fetchResponses(),
+        ]);
+
+        setSessions(sessionsData);
+        setResponses(responsesData);
+      } catch (error) {
+        console.error("Error fetching wellness and load data:", error);
+        setSessions([]);
+        setResponses([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [scopeAthletes, ratingMetrics, startDate, endDate, loadStartDate]);
+
+  // Pairs for every rating metric and lag, keyed by metric id
+  const pairsByMetric = useMemo(() => {
+    const result: Record<string, LoadWellnessPair[][]> = {};
+    ratingMetrics.forEach((metric) => {
+      const metricResponses = responses.filter(
+        (r) => r.metric_id === metric.id
+      );
+      result[metric.id] = CORRELATION_LAGS.map((lag) =>
+        buildLaggedPairs(
+          sessions,
+          metricResponses,
+          lag.value,
+          loadStartDate,
+          endDate
+        )
+      );
+    });
+    return result;
+  }, [sessions, responses, ratingMetrics, loadStartDate, endDate]);
+
+  const selectedMetric = ratingMetrics.find((m) => m.id === selectedMetricId);
+  const selectedPairs = pairsByMetric[selectedMetricId] || [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <GitCompare className="h-5 w-5 mr-2 text-indigo-500" />
+          Wellness vs. Training Load
+        </h2>
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value)}
+          className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        >
+          <optgroup label="Athletes">
+            {athletes.map((athlete) => (
+              <option key={athlete.id} value={`athlete:${athlete.id}`}>
+                {athlete.full_name}
+              </option>
+            ))}
+          </optgroup>
+          {groups.length > 0 && (
+            <optgroup label="Groups">
+              {groups.map((group) => (
+                <option key={group.id} value={`group:${group.id}`}>
+                  {group.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <option value="all">All athletes</option>
+        </select>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Pearson correlation between daily load (sRPE) and each rating, on the
+        same day and one or two days later. Days without training count as zero
+        load. Coefficients from fewer than {MIN_CORRELATION_SAMPLE} pairs are
+        greyed out.
+      </p>
+
+      {loading ? (
+        <div className="py-8 text-center text-gray-500">Loading...</div>
+      ) : ratingMetrics.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-gray-500">No rating metrics configured.</p>
+        </div>
+      ) : (
+        <>
+          <div className="overflow-x-auto mb-6">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                    Metric
+                  </th>
+                  {CORRELATION_LAGS.map((lag) => (
+                    <th
+                      key={lag.value}
+                      className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase"
+                    >
+                      {lag.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {ratingMetrics.map((metric) => (
+                  <tr
+                    key={metric.id}
+                    onClick={() => setSelectedMetricId(metric.id)}
+                    className={`cursor-pointer hover:bg-gray-50 ${
+                      metric.id === selectedMetricId ? "bg-indigo-50" : ""
+                    }`}
+                  >
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">
+                      {metric.title}
+                    </td>
+                    {(pairsByMetric[metric.id] || []).map((pairs, i) => {
+                      const result = correlatePairs(pairs);
+                      return (
+                        <td
+                          key={CORRELATION_LAGS[i].value}
+                          className="px-4 py-2 text-sm text-right"
+                        >
+                          <span
+                            className={`font-semibold ${getCorrelationColor(
+                              result
+                            )}`}
+                          >
+                            {formatR(result.r)}
+                          </span>
+                          <span className="ml-1 text-xs text-gray-400">
+                            (n={result.n})
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedMetric && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {selectedPairs.map((pairs, i) => {
+                const result = correlatePairs(pairs);
+                return (
+                  <div
+                    key={CORRELATION_LAGS[i].value}
+                    className="border border-gray-200 rounded-lg p-4"
+                  >
+                    <div className="flex items-baseline justify-between mb-2">
+                      <h4 className="text-sm font-medium text-gray-600">
+                        {selectedMetric.title}: {CORRELATION_LAGS[i].label}
+                      </h4>
+                      <span className="text-xs text-gray-500">
+                        n = {result.n}
+                      </span>
+                    </div>
+                    <p
+                      className={`text-lg font-semibold mb-2 ${getCorrelationColor(
+                        result
+                      )}`}
+                    >
+                      r = {formatR(result.r)}{" "}
+                      <span className="text-sm font-normal">
+                        ({getCorrelationStrength(result.r)})
+                      </span>
+                    </p>
+                    <div className="h-48">
+                      <Scatter
+                        data={{
+                          datasets: [
+                            {
+                              label: selectedMetric.title,
+                              data: pairs.map((p) => ({
+                                x: p.load,
+                                y: p.rating,
+                              })),
+                              backgroundColor: "rgba(79, 70, 229, 0.5)",
+                            },
+                          ],
+                        }}
+                        options={{
+                          maintainAspectRatio: false,
+                          plugins: { legend: { display: false } },
+                          scales: {
+                            x: {
+                              beginAtZero: true,
+                              title: { display: true, text: "Load (AU)" },
+                            },
+                            y: {
+                              title: { display: true, text: "Rating" },
+                            },
+                          },
+                        }}
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
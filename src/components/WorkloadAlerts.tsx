@@ -0,0 +1,314 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Check, Settings } from "lucide-react";
+import clsx from "clsx";
+import { supabase } from "../lib/supabase";
+import {
+  ACWR_SAFE_MAX,
+  ACWR_SAFE_MIN,
+  WEEKLY_CHANGE_ALERT_THRESHOLD,
+} from "../lib/trainingLoad";
+import type {
+  Profile,
+  WorkloadAlert,
+  WorkloadAlertSettings,
+  WorkloadAlertType,
+} from "../lib/database.types";
+
+interface WorkloadAlertsProps {
+  managerId: string;
+  athletes: Profile[];
+  theme?: "light" | "dark" | "system";
+}
+
+const ALERT_LABELS: Record<WorkloadAlertType, string> = {
+  acwr_high: "High ACWR",
+  acwr_low: "Low ACWR",
+  load_spike: "Load Spike",
+};
+
+export default function WorkloadAlerts({
+  managerId,
+  athletes,
+  theme = "light",
+}: WorkloadAlertsProps) {
+  const [alerts, setAlerts] = useState<WorkloadAlert[]>([]);
+  const [settings, setSettings] = useState<WorkloadAlertSettings>({
+    manager_id: managerId,
+    acwr_min: ACWR_SAFE_MIN,
+    acwr_max: ACWR_SAFE_MAX,
+    weekly_change_threshold: WEEKLY_CHANGE_ALERT_THRESHOLD,
+    email_notifications: true,
+  });
+  const [showSettings, setShowSettings] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!managerId) return;
+
+    const fetchAlerts = async () => {
+      const { data, error } = await supabase
+        .from("workload_alerts")
+        .select("*")
+        .eq("manager_id", managerId)
+        .eq("status", "active")
+        .order("date", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching workload alerts:", error);
+        return;
+      }
+
+      setAlerts(data || []);
+    };
+
+    const fetchSettings = async () => {
+      const { data, error } = await supabase
+        .from("workload_alert_settings")
+        .select("*")
+        .eq("manager_id", managerId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching alert settings:", error);
+        return;
+      }
+
+      if (data) {
+        setSettings(data);
+      }
+    };
+
+    fetchAlerts();
+    fetchSettings();
+  }, [managerId]);
+
+  const handleAcknowledge = async (alertId: string) => {
+    const { error } = await supabase
+      .from("workload_alerts")
+      .update({
+        status: "acknowledged",
+        acknowledged_at: new Date().toISOString(),
+      })
+      .eq("id", alertId);
+
+    if (error) {
+      console.error("Error acknowledging alert:", error);
+      return;
+    }
+
+    setAlerts((prev) => prev.filter((a) => a.id !== alertId));
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (settings.acwr_min >= settings.acwr_max) {
+      setError("The minimum ACWR must be lower than the maximum");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    const { error } = await supabase.from("workload_alert_settings").upsert({
+      manager_id: managerId,
+      acwr_min: settings.acwr_min,
+      acwr_max: settings.acwr_max,
+      weekly_change_threshold: settings.weekly_change_threshold,
+      email_notifications: settings.email_notifications,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving alert settings:", error);
+      setError("Failed to save alert settings");
+      return;
+    }
+
+    setShowSettings(false);
+  };
+
+  const getAthleteName = (athleteId: string) =>
+    athletes.find((a) => a.id === athleteId)?.full_name || "Unknown athlete";
+
+  return (
+    <div
+      className={clsx(
+        "rounded-3xl shadow-lg p-8 mb-12 transition-all duration-300 backdrop-blur-xl border",
+        theme === "dark"
+          ? "bg-blue-900/40 ring-1 ring-blue-700/50 border-blue-700/30"
+          : "bg-white/80 border-blue-200/50"
+      )}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <AlertTriangle
+            className={clsx(
+              "w-6 h-6",
+              alerts.length > 0 ? "text-red-500" : "text-green-500"
+            )}
+          />
+          <h2
+            className={clsx(
+              "text-2xl font-bold tracking-tight",
+              theme === "dark" ? "text-blue-100" : "text-blue-900"
+            )}
+          >
+            Workload Alerts
+          </h2>
+          {alerts.length > 0 && (
+            <span className="px-2.5 py-0.5 rounded-full bg-red-100 text-red-700 text-sm font-semibold">
+              {alerts.length}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setShowSettings((prev) => !prev)}
+          className={clsx(
+            "p-2 rounded-lg transition-colors",
+            theme === "dark"
+              ? "text-blue-200 hover:bg-blue-800/50"
+              : "text-gray-600 hover:bg-gray-100"
+          )}
+          title="Alert settings"
+        >
+          <Settings className="w-5 h-5" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <form
+          onSubmit={handleSaveSettings}
+          className={clsx(
+            "grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6 p-4 rounded-xl border",
+            theme === "dark"
+              ? "border-blue-700/50 text-blue-100"
+              : "border-gray-200 text-gray-700"
+          )}
+        >
+          <label className="text-sm font-medium">
+            Min ACWR
+            <input
+              type="number"
+              step="0.05"
+              min={0}
+              value={settings.acwr_min}
+              onChange={(e) =>
+                setSettings({ ...settings, acwr_min: Number(e.target.value) })
+              }
+              className="mt-1 w-full rounded-md border-gray-300 shadow-sm text-gray-900 sm:text-sm"
+            />
+          </label>
+          <label className="text-sm font-medium">
+            Max ACWR
+            <input
+              type="number"
+              step="0.05"
+              min={0}
+              value={settings.acwr_max}
+              onChange={(e) =>
+                setSettings({ ...settings, acwr_max: Number(e.target.value) })
+              }
+              className="mt-1 w-full rounded-md border-gray-300 shadow-sm text-gray-900 sm:text-sm"
+            />
+          </label>
+          <label className="text-sm font-medium">
+            Weekly increase (%)
+            <input
+              type="number"
+              min={1}
+              value={settings.weekly_change_threshold}
+              onChange={(e) =>
+                setSettings({
+                  ...settings,
+                  weekly_change_threshold: Number(e.target.value),
+                })
+              }
+              className="mt-1 w-full rounded-md border-gray-300 shadow-sm text-gray-900 sm:text-sm"
+            />
+          </label>
+          <div className="flex flex-col justify-between gap-2">
+            <label className="flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={settings.email_notifications}
+                onChange={(e) =>
+                  setSettings({
+                    ...settings,
+                    email_notifications: e.target.checked,
+                  })
+                }
+                className="rounded border-gray-300"
+              />
+              Email me
+            </label>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+          {error && (
+            <p className="sm:col-span-4 text-sm text-red-600">{error}</p>
+          )}
+        </form>
+      )}
+
+      {alerts.length === 0 ? (
+        <p
+          className={clsx(
+            "text-sm",
+            theme === "dark" ? "text-blue-200" : "text-gray-500"
+          )}
+        >
+          All athletes are within their workload thresholds.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {alerts.map((alert) => (
+            <li
+              key={alert.id}
+              className={clsx(
+                "flex items-center justify-between gap-4 p-4 rounded-xl border",
+                alert.alert_type === "acwr_low"
+                  ? "border-yellow-300 bg-yellow-50"
+                  : "border-red-300 bg-red-50"
+              )}
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-900">
+                    {getAthleteName(alert.athlete_id)}
+                  </span>
+                  <span
+                    className={clsx(
+                      "px-2 py-0.5 rounded-full text-xs font-semibold",
+                      alert.alert_type === "acwr_low"
+                        ? "bg-yellow-200 text-yellow-800"
+                        : "bg-red-200 text-red-800"
+                    )}
+                  >
+                    {ALERT_LABELS[alert.alert_type]}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {new Date(alert.date).toLocaleDateString()}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-700 mt-1">{alert.message}</p>
+              </div>
+              <button
+                onClick={() => handleAcknowledge(alert.id)}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                title="Acknowledge"
+              >
+                <Check className="w-4 h-4" />
+                Acknowledge
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
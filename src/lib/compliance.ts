@@ -0,0 +1,146 @@
+import { addDays } from "./trainingLoad";
+import type {
+  TrainingRestDay,
+  TrainingSchedule,
+  TrainingSession,
+} from "./database.types";
+
+export const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 7, label: "Sun" },
+];
+
+// "any" is used without a schedule: one session of either kind is expected
+export type ExpectedSlot = "AM" | "PM" | "any";
+
+export interface ExpectedDay {
+  date: string;
+  sessions: ExpectedSlot[];
+  wellness: boolean;
+  restDay: boolean; // planned rest day from the schedule's exceptions
+}
+
+export interface MissedDay {
+  date: string;
+  missedSessions: ExpectedSlot[];
+  missedWellness: boolean;
+}
+
+export interface ComplianceSummary {
+  expectedSessions: number;
+  loggedSessions: number;
+  trainingCompliance: number; // %
+  expectedForms: number;
+  submittedForms: number;
+  wellnessCompliance: number; // %
+  missedDays: MissedDay[];
+}
+
+type Schedule = Pick<
+  TrainingSchedule,
+  "id" | "group_id" | "am_days" | "pm_days" | "wellness_days"
+>;
+
+// ISO weekday (1 = Monday) of a YYYY-MM-DD date
+export const getISOWeekday = (date: string): number =>
+  new Date(`${date}T00:00:00Z`).getUTCDay() || 7;
+
+// A group's own schedule, or the manager's default (group_id null)
+export const getScheduleForGroup = <T extends Schedule>(
+  schedules: T[],
+  groupId: string | null | undefined
+): T | undefined =>
+  schedules.find((s) => groupId && s.group_id === groupId) ||
+  schedules.find((s) => s.group_id === null);
+
+export const getExpectedDays = (
+  schedule: Schedule | undefined,
+  restDays: Pick<TrainingRestDay, "schedule_id" | "date">[],
+  startDate: string,
+  endDate: string
+): ExpectedDay[] => {
+  const restDates = new Set(
+    restDays.filter((r) => r.schedule_id === schedule?.id).map((r) => r.date)
+  );
+
+  const days: ExpectedDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    if (!schedule) {
+      days.push({ date, sessions: ["any"], wellness: true, restDay: false });
+      continue;
+    }
+
+    const weekday = getISOWeekday(date);
+    const restDay = restDates.has(date);
+    const sessions: ExpectedSlot[] = [];
+    if (!restDay && schedule.am_days.includes(weekday)) sessions.push("AM");
+    if (!restDay && schedule.pm_days.includes(weekday)) sessions.push("PM");
+
+    days.push({
+      date,
+      sessions,
+      wellness: schedule.wellness_days.includes(weekday),
+      restDay,
+    });
+  }
+  return days;
+};
+
+// Compare logged sessions and submitted wellness forms with what the
+// schedule expected. Sessions on unscheduled days neither count nor hurt.
+export const calculateCompliance = (
+  expectedDays: ExpectedDay[],
+  sessions: Pick<TrainingSession, "date" | "session">[],
+  formDates: string[]
+): ComplianceSummary => {
+  const submittedDates = new Set(formDates);
+  let expectedSessions = 0;
+  let loggedSessions = 0;
+  let expectedForms = 0;
+  let submittedForms = 0;
+  const missedDays: MissedDay[] = [];
+
+  expectedDays.forEach((day) => {
+    const daySessions = sessions.filter((s) => s.date === day.date);
+    const missedSessions = day.sessions.filter((slot) =>
+      slot === "any"
+        ? daySessions.length === 0
+        : !daySessions.some((s) => s.session === slot)
+    );
+    const missedWellness = day.wellness && !submittedDates.has(day.date);
+
+    expectedSessions += day.sessions.length;
+    loggedSessions += day.sessions.length - missedSessions.length;
+    if (day.wellness) {
+      expectedForms++;
+      if (!missedWellness) submittedForms++;
+    }
+
+    if (missedSessions.length > 0 || missedWellness) {
+      missedDays.push({ date: day.date, missedSessions, missedWellness });
+    }
+  });
+
+  return {
+    expectedSessions,
+    loggedSessions,
+    trainingCompliance:
+      expectedSessions > 0 ? (loggedSessions / expectedSessions) * 100 : 100,
+    expectedForms,
+    submittedForms,
+    wellnessCompliance:
+      expectedForms > 0 ? (submittedForms / expectedForms) * 100 : 100,
+    missedDays,
+  };
+};
+
+export const getComplianceColor = (compliance: number): string => {
+  if (compliance >= 90) return "text-green-600";
+  if (compliance >= 75) return "text-yellow-600";
+  return "text-red-600";
+};
@@ -46,6 +46,8 @@ export interface Database {
           description: string | null;
           type: string;
           is_active: boolean;
+          readiness_weight: number;
+          readiness_invert: boolean;
           created_at: string;
         };
         Insert: {
@@ -55,6 +57,8 @@ export interface Database {
           description?: string | null;
           type: string;
           is_active?: boolean;
+          readiness_weight?: number;
+          readiness_invert?: boolean;
           created_at?: string;
         };
         Update: {
@@ -64,6 +68,8 @@ export interface Database {
           description?: string | null;
           type?: string;
           is_active?: boolean;
+          readiness_weight?: number;
+          readiness_invert?: boolean;
           created_at?: string;
         };
       };
@@ -135,6 +141,7 @@ export interface Database {
           email: string;
           avatar_url: string | null;
           group_id: string | null;
+          sex: Sex | null;
         };
         Insert: {
           id: string;
@@ -145,6 +152,7 @@ export interface Database {
           email: string;
           avatar_url?: string | null;
           group_id?: string | null;
+          sex?: Sex | null;
         };
         Update: {
           id?: string;
@@ -155,6 +163,7 @@ export interface Database {
           email?: string;
           avatar_url?: string | null;
           group_id?: string | null;
+          sex?: Sex | null;
         };
       };
       manager_invitations: {
@@ -241,7 +250,16 @@ export interface Database {
           manager_id: string;
           plan_a_exercises: string[];
           plan_b_exercises: string[];
+          plan_a_prescriptions: ExercisePrescription[];
+          plan_b_prescriptions: ExercisePrescription[];
+          plan_a_exercise_ids: (string | null)[];
+          plan_b_exercise_ids: (string | null)[];
+          days: ProgramDay[];
+          week_count: number;
+          start_date: string | null;
+          progression_rule: ProgressionRule | null;
           group_id: string | null;
+          cycle_id: string | null;
           created_at: string;
           updated_at: string;
           is_active: boolean;
@@ -249,9 +267,18 @@ export interface Database {
         Insert: {
           id?: string;
           manager_id: string;
-          plan_a_exercises: string[];
-          plan_b_exercises: string[];
+          plan_a_exercises?: string[];
+          plan_b_exercises?: string[];
+          plan_a_prescriptions?: ExercisePrescription[];
+          plan_b_prescriptions?: ExercisePrescription[];
+          plan_a_exercise_ids?: (string | null)[];
+          plan_b_exercise_ids?: (string | null)[];
+          days?: ProgramDay[];
+          week_count?: number;
+          start_date?: string | null;
+          progression_rule?: ProgressionRule | null;
           group_id?: string | null;
+          cycle_id?: string | null;
           created_at?: string;
           updated_at?: string;
           is_active?: boolean;
@@ -261,18 +288,608 @@ export interface Database {
           manager_id?: string;
           plan_a_exercises?: string[];
           plan_b_exercises?: string[];
+          plan_a_prescriptions?: ExercisePrescription[];
+          plan_b_prescriptions?: ExercisePrescription[];
+          plan_a_exercise_ids?: (string | null)[];
+          plan_b_exercise_ids?: (string | null)[];
+          days?: ProgramDay[];
+          week_count?: number;
+          start_date?: string | null;
+          progression_rule?: ProgressionRule | null;
           group_id?: string | null;
+          cycle_id?: string | null;
           created_at?: string;
           updated_at?: string;
           is_active?: boolean;
         };
       };
+      planned_training_loads: {
+        Row: {
+          id: string;
+          manager_id: string;
+          group_id: string;
+          week_start: string;
+          planned_load: number;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          group_id: string;
+          week_start: string;
+          planned_load?: number;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          group_id?: string;
+          week_start?: string;
+          planned_load?: number;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      planned_training_sessions: {
+        Row: {
+          id: string;
+          plan_id: string;
+          date: string;
+          session: "AM" | "PM";
+          training_type: string | null;
+          duration: number;
+          target_rpe: number;
+          planned_load: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          plan_id: string;
+          date: string;
+          session?: "AM" | "PM";
+          training_type?: string | null;
+          duration: number;
+          target_rpe: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          plan_id?: string;
+          date?: string;
+          session?: "AM" | "PM";
+          training_type?: string | null;
+          duration?: number;
+          target_rpe?: number;
+          created_at?: string;
+        };
+      };
+      workload_alert_settings: {
+        Row: {
+          manager_id: string;
+          acwr_min: number;
+          acwr_max: number;
+          weekly_change_threshold: number;
+          email_notifications: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          manager_id: string;
+          acwr_min?: number;
+          acwr_max?: number;
+          weekly_change_threshold?: number;
+          email_notifications?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          manager_id?: string;
+          acwr_min?: number;
+          acwr_max?: number;
+          weekly_change_threshold?: number;
+          email_notifications?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      workload_alerts: {
+        Row: {
+          id: string;
+          manager_id: string;
+          athlete_id: string;
+          alert_type: "acwr_high" | "acwr_low" | "load_spike";
+          date: string;
+          value: number;
+          threshold: number;
+          message: string;
+          status: "active" | "acknowledged";
+          notified_at: string | null;
+          acknowledged_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          athlete_id: string;
+          alert_type: "acwr_high" | "acwr_low" | "load_spike";
+          date: string;
+          value: number;
+          threshold: number;
+          message: string;
+          status?: "active" | "acknowledged";
+          notified_at?: string | null;
+          acknowledged_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          athlete_id?: string;
+          alert_type?: "acwr_high" | "acwr_low" | "load_spike";
+          date?: string;
+          value?: number;
+          threshold?: number;
+          message?: string;
+          status?: "active" | "acknowledged";
+          notified_at?: string | null;
+          acknowledged_at?: string | null;
+          created_at?: string;
+        };
+      };
+      training_cycles: {
+        Row: {
+          id: string;
+          manager_id: string;
+          group_id: string | null;
+          parent_id: string | null;
+          level: "macro" | "meso" | "micro";
+          name: string;
+          phase: TrainingPhase;
+          start_date: string;
+          end_date: string;
+          target_load: number | null;
+          notes: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          group_id?: string | null;
+          parent_id?: string | null;
+          level: "macro" | "meso" | "micro";
+          name: string;
+          phase: TrainingPhase;
+          start_date: string;
+          end_date: string;
+          target_load?: number | null;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          group_id?: string | null;
+          parent_id?: string | null;
+          level?: "macro" | "meso" | "micro";
+          name?: string;
+          phase?: TrainingPhase;
+          start_date?: string;
+          end_date?: string;
+          target_load?: number | null;
+          notes?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      training_schedules: {
+        Row: {
+          id: string;
+          manager_id: string;
+          group_id: string | null;
+          am_days: number[];
+          pm_days: number[];
+          wellness_days: number[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          group_id?: string | null;
+          am_days?: number[];
+          pm_days?: number[];
+          wellness_days?: number[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          group_id?: string | null;
+          am_days?: number[];
+          pm_days?: number[];
+          wellness_days?: number[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      training_rest_days: {
+        Row: {
+          id: string;
+          schedule_id: string;
+          date: string;
+          reason: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          schedule_id: string;
+          date: string;
+          reason?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          schedule_id?: string;
+          date?: string;
+          reason?: string | null;
+          created_at?: string;
+        };
+      };
+      exercises: {
+        Row: {
+          id: string;
+          manager_id: string | null;
+          name: string;
+          aliases: string[];
+          category: string | null;
+          muscle_group: string | null;
+          unit_type: ExerciseUnitType;
+          demo_video_url: string | null;
+          min_velocity_threshold: number | null;
+          powerlift: Powerlift | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          name: string;
+          aliases?: string[];
+          category?: string | null;
+          muscle_group?: string | null;
+          unit_type?: ExerciseUnitType;
+          demo_video_url?: string | null;
+          min_velocity_threshold?: number | null;
+          powerlift?: Powerlift | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          name?: string;
+          aliases?: string[];
+          category?: string | null;
+          muscle_group?: string | null;
+          unit_type?: ExerciseUnitType;
+          demo_video_url?: string | null;
+          min_velocity_threshold?: number | null;
+          powerlift?: Powerlift | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      load_velocity_entries: {
+        Row: {
+          id: string;
+          athlete_id: string;
+          exercise_id: string | null;
+          exercise_name: string;
+          date: string;
+          load: number;
+          velocity: number | null;
+          power: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          athlete_id: string;
+          exercise_id?: string | null;
+          exercise_name: string;
+          date: string;
+          load: number;
+          velocity?: number | null;
+          power?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          athlete_id?: string;
+          exercise_id?: string | null;
+          exercise_name?: string;
+          date?: string;
+          load?: number;
+          velocity?: number | null;
+          power?: number | null;
+          created_at?: string;
+        };
+      };
+      velocity_checks: {
+        Row: {
+          id: string;
+          athlete_id: string;
+          exercise_id: string | null;
+          exercise_name: string;
+          date: string;
+          load: number;
+          velocity: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          athlete_id: string;
+          exercise_id?: string | null;
+          exercise_name: string;
+          date: string;
+          load: number;
+          velocity: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          athlete_id?: string;
+          exercise_id?: string | null;
+          exercise_name?: string;
+          date?: string;
+          load?: number;
+          velocity?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      strength_standards: {
+        Row: {
+          id: string;
+          manager_id: string;
+          exercise_id: string;
+          sex: Sex;
+          tiers: StrengthTier[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          exercise_id: string;
+          sex: Sex;
+          tiers?: StrengthTier[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          exercise_id?: string;
+          sex?: Sex;
+          tiers?: StrengthTier[];
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      leaderboard_scoring: {
+        Row: {
+          id: string;
+          manager_id: string;
+          group_id: string | null;
+          scheme: ScoringScheme;
+          baseline_date: string | null;
+          exercise_weights: Record<string, number>;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          group_id?: string | null;
+          scheme?: ScoringScheme;
+          baseline_date?: string | null;
+          exercise_weights?: Record<string, number>;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          group_id?: string | null;
+          scheme?: ScoringScheme;
+          baseline_date?: string | null;
+          exercise_weights?: Record<string, number>;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      leaderboard_seasons: {
+        Row: {
+          id: string;
+          manager_id: string;
+          group_id: string | null;
+          name: string;
+          start_date: string;
+          end_date: string;
+          snapshot: SeasonSnapshot | null;
+          archived_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          manager_id: string;
+          group_id?: string | null;
+          name: string;
+          start_date: string;
+          end_date: string;
+          snapshot?: SeasonSnapshot | null;
+          archived_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          manager_id?: string;
+          group_id?: string | null;
+          name?: string;
+          start_date?: string;
+          end_date?: string;
+          snapshot?: SeasonSnapshot | null;
+          archived_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      record_history: {
+        Row: {
+          id: string;
+          table_name: HistoryTable;
+          record_id: string;
+          athlete_id: string;
+          operation: HistoryOperation;
+          old_data: Record<string, unknown> | null;
+          new_data: Record<string, unknown> | null;
+          changed_by: string | null;
+          changed_at: string;
+        };
+        Insert: {
+          id?: string;
+          table_name: HistoryTable;
+          record_id: string;
+          athlete_id: string;
+          operation: HistoryOperation;
+          old_data?: Record<string, unknown> | null;
+          new_data?: Record<string, unknown> | null;
+          changed_by?: string | null;
+          changed_at?: string;
+        };
+        Update: {
+          id?: string;
+          table_name?: HistoryTable;
+          record_id?: string;
+          athlete_id?: string;
+          operation?: HistoryOperation;
+          old_data?: Record<string, unknown> | null;
+          new_data?: Record<string, unknown> | null;
+          changed_by?: string | null;
+          changed_at?: string;
+        };
+      };
+      progression_decisions: {
+        Row: {
+          id: string;
+          athlete_id: string;
+          program_id: string | null;
+          exercise_id: string | null;
+          exercise_name: string;
+          date: string;
+          rule: ProgressionRuleType;
+          suggested_weight: number;
+          suggested_reps: number | null;
+          chosen_weight: number;
+          status: ProgressionDecisionStatus;
+          reason: string | null;
+          reviewed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          athlete_id: string;
+          program_id?: string | null;
+          exercise_id?: string | null;
+          exercise_name: string;
+          date: string;
+          rule: ProgressionRuleType;
+          suggested_weight: number;
+          suggested_reps?: number | null;
+          chosen_weight: number;
+          status: ProgressionDecisionStatus;
+          reason?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          athlete_id?: string;
+          program_id?: string | null;
+          exercise_id?: string | null;
+          exercise_name?: string;
+          date?: string;
+          rule?: ProgressionRuleType;
+          suggested_weight?: number;
+          suggested_reps?: number | null;
+          chosen_weight?: number;
+          status?: ProgressionDecisionStatus;
+          reason?: string | null;
+          reviewed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
     Views: {
-      [_ in never]: never;
+      daily_training_loads: {
+        Row: {
+          athlete_id: string;
+          date: string;
+          daily_load: number;
+          total_duration: number;
+          session_count: number;
+        };
+        Relationships: [];
+      };
     };
     Functions: {
-      [_ in never]: never;
+      get_team_training_loads: {
+        Args: {
+          p_manager_id: string;
+          p_start_date: string;
+          p_end_date: string;
+        };
+        Returns: {
+          athlete_id: string;
+          date: string;
+          daily_load: number;
+          weekly_load: number;
+          chronic_load: number;
+          acwr: number;
+          compliance: number;
+        }[];
+      };
+      restore_record_version: {
+        Args: {
+          p_history_id: string;
+        };
+        Returns: undefined;
+      };
+      save_planned_training_load: {
+        Args: {
+          p_group_id: string;
+          p_week_start: string;
+          p_planned_load: number;
+          p_notes: string | null;
+          p_sessions: Json;
+        };
+        Returns: string;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -284,6 +901,10 @@ export type Tables<T extends keyof Database["public"]["Tables"]> =
   Database["public"]["Tables"][T]["Row"];
 export type Enums<T extends keyof Database["public"]["Enums"]> =
   Database["public"]["Enums"][T];
+export type Views<T extends keyof Database["public"]["Views"]> =
+  Database["public"]["Views"][T]["Row"];
+export type FunctionReturns<T extends keyof Database["public"]["Functions"]> =
+  Database["public"]["Functions"][T]["Returns"];
 
 // Derived types
 export interface Profile {
@@ -294,6 +915,7 @@ export interface Profile {
   role: "manager" | "athlete";
   manager_id: string | null;
   group_id: string | null;
+  sex?: Sex | null;
   created_at: string;
   updated_at: string;
 }
@@ -314,6 +936,8 @@ export interface CustomMetric {
   title: string;
   description: string | null;
   type: "rating" | "text";
+  readiness_weight: number; // 0 leaves the metric out of the readiness score
+  readiness_invert: boolean; // true when a higher rating means worse readiness
   created_at: string;
   updated_at: string;
 }
@@ -356,6 +980,11 @@ export interface TrainingSession {
   updated_at: string;
 }
 
+export type DailyTrainingLoad = Views<"daily_training_loads">;
+
+export type TeamTrainingLoad =
+  FunctionReturns<"get_team_training_loads">[number];
+
 export type TrainingType =
   | "regenerative"
   | "interval_metabolic"
@@ -386,12 +1015,51 @@ export type AthleteManagerConnection = {
   status: "active" | "inactive";
 };
 
+export type PrescriptionLoadType = "percent_1rm" | "rpe" | "kg";
+
+// Prescription for one exercise of a plan. Null fields are left open.
+export type ExercisePrescription = {
+  sets: number | null;
+  reps: number | null;
+  load_type: PrescriptionLoadType | null;
+  load_value: number | null;
+  rest_seconds: number | null;
+  tempo: string | null; // e.g. "3-1-1-0"
+};
+
+export type ProgramExercise = {
+  exercise: string;
+  exercise_id: string | null;
+  prescription: ExercisePrescription;
+  // Overrides per template week (index 0 = week 1); null keeps the base
+  week_prescriptions: (ExercisePrescription | null)[];
+};
+
+export type ProgramDay = {
+  id: string; // "A" and "B" for days migrated from Plan A / Plan B
+  name: string;
+  weekday: number | null; // ISO weekday the day is scheduled on
+  exercises: ProgramExercise[];
+};
+
 export type TrainingProgram = {
   id: string;
   manager_id: string;
+  // Deprecated Plan A / Plan B, migrated to days
   plan_a_exercises: string[];
   plan_b_exercises: string[];
+  // Same order as the exercise lists; may be shorter for older programs
+  plan_a_prescriptions?: ExercisePrescription[];
+  plan_b_prescriptions?: ExercisePrescription[];
+  // Library exercise of each entry, same order as the exercise lists
+  plan_a_exercise_ids?: (string | null)[];
+  plan_b_exercise_ids?: (string | null)[];
+  days?: ProgramDay[];
+  week_count?: number;
+  start_date?: string | null; // first day of week 1
+  progression_rule?: ProgressionRule | null; // null: no load suggestions
   group_id: string | null;
+  cycle_id?: string | null;
   created_at: string;
   updated_at: string;
   is_active: boolean;
@@ -401,8 +1069,10 @@ export type ExerciseRecord = {
   id: string;
   athlete_id: string;
   program_id: string;
-  selected_plan: "A" | "B" | "none";
+  selected_plan: string; // program day id, or "none"
+  week_number?: number | null;
   exercise_name: string;
+  exercise_id?: string | null;
   weight: number | null;
   reps: number | null;
   date: string;
@@ -410,6 +1080,29 @@ export type ExerciseRecord = {
   series_data?: { weight: number; reps: number }[];
 };
 
+export type PlannedTrainingLoad = {
+  id: string;
+  manager_id: string;
+  group_id: string;
+  week_start: string;
+  planned_load: number;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PlannedTrainingSession = {
+  id: string;
+  plan_id: string;
+  date: string;
+  session: "AM" | "PM";
+  training_type: TrainingType | null;
+  duration: number;
+  target_rpe: number;
+  planned_load: number;
+  created_at: string;
+};
+
 export type WeightRecord = {
   id: string;
   athlete_id: string;
@@ -417,3 +1110,240 @@ export type WeightRecord = {
   date: string;
   created_at: string;
 };
+
+export type WorkloadAlertType = "acwr_high" | "acwr_low" | "load_spike";
+
+export type WorkloadAlert = {
+  id: string;
+  manager_id: string;
+  athlete_id: string;
+  alert_type: WorkloadAlertType;
+  date: string;
+  value: number;
+  threshold: number;
+  message: string;
+  status: "active" | "acknowledged";
+  notified_at: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+};
+
+export type WorkloadAlertSettings = {
+  manager_id: string;
+  acwr_min: number;
+  acwr_max: number;
+  weekly_change_threshold: number;
+  email_notifications: boolean;
+  created_at?: string;
+  updated_at?: string;
+};
+
+export type TrainingPhase =
+  | "preparation"
+  | "pre_competition"
+  | "competition"
+  | "taper"
+  | "transition";
+
+export type CycleLevel = "macro" | "meso" | "micro";
+
+export type TrainingCycle = {
+  id: string;
+  manager_id: string;
+  group_id: string | null;
+  parent_id: string | null;
+  level: CycleLevel;
+  name: string;
+  phase: TrainingPhase;
+  start_date: string;
+  end_date: string;
+  target_load: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Weekdays use ISO numbering: 1 = Monday ... 7 = Sunday
+export type TrainingSchedule = {
+  id: string;
+  manager_id: string;
+  group_id: string | null; // null is the manager's default schedule
+  am_days: number[];
+  pm_days: number[];
+  wellness_days: number[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type TrainingRestDay = {
+  id: string;
+  schedule_id: string;
+  date: string;
+  reason: string | null;
+  created_at: string;
+};
+
+export type ExerciseUnitType = "kg" | "seconds" | "metres" | "reps";
+
+export type Exercise = {
+  id: string;
+  manager_id: string | null; // null is a built-in exercise
+  name: string;
+  aliases: string[];
+  category: string | null;
+  muscle_group: string | null;
+  unit_type: ExerciseUnitType;
+  demo_video_url: string | null;
+  min_velocity_threshold?: number | null; // m/s at 1RM for load-velocity profiles
+  powerlift?: Powerlift | null; // scored with DOTS / Wilks / IPF GL
+  created_at: string;
+  updated_at: string;
+};
+
+export type LoadVelocityEntry = {
+  id: string;
+  athlete_id: string;
+  exercise_id: string | null;
+  exercise_name: string;
+  date: string;
+  load: number; // kg
+  velocity: number | null; // mean velocity, m/s
+  power: number | null; // W
+  created_at: string;
+};
+
+export type VelocityCheck = {
+  id: string;
+  athlete_id: string;
+  exercise_id: string | null;
+  exercise_name: string;
+  date: string;
+  load: number; // kg, the athlete's standard warm-up load
+  velocity: number; // mean velocity, m/s
+  created_at: string;
+  updated_at: string;
+};
+
+export type ProgressionRuleType = "linear" | "double" | "percent_e1rm";
+
+// How a program suggests the next session's load from the last one
+export type ProgressionRule = {
+  type: ProgressionRuleType;
+  increment_kg: number; // added once the target reps are met (linear, double)
+  rep_range: number; // double progression: reps below the target to restart at
+  percent_e1rm: number; // %e1RM of the last session, unless prescribed as %1RM
+};
+
+export type ProgressionDecisionStatus = "accepted" | "overridden";
+
+export type ProgressionDecision = {
+  id: string;
+  athlete_id: string;
+  program_id: string | null;
+  exercise_id: string | null;
+  exercise_name: string;
+  date: string;
+  rule: ProgressionRuleType;
+  suggested_weight: number; // kg
+  suggested_reps: number | null;
+  chosen_weight: number; // kg
+  status: ProgressionDecisionStatus;
+  reason: string | null; // the athlete's reason for an override
+  reviewed_at: string | null; // set once the coach has reviewed an override
+  created_at: string;
+  updated_at: string;
+};
+
+export type Sex = "male" | "female";
+
+export type Powerlift = "squat" | "bench" | "deadlift";
+
+export type StrengthTier = {
+  name: string;
+  ratio: number; // kg lifted per kg body weight to reach the tier
+};
+
+export type StrengthStandard = {
+  id: string;
+  manager_id: string;
+  exercise_id: string;
+  sex: Sex;
+  tiers: StrengthTier[];
+  created_at: string;
+  updated_at: string;
+};
+
+export type HistoryTable = "exercise_records" | "personal_records";
+
+export type HistoryOperation = "insert" | "update" | "delete";
+
+// One logged change to an exercise or personal record. Rows are written by
+// a database trigger and never changed.
+export type RecordHistoryEntry = {
+  id: string;
+  table_name: HistoryTable;
+  record_id: string;
+  athlete_id: string;
+  operation: HistoryOperation;
+  old_data: Record<string, unknown> | null; // row before the change
+  new_data: Record<string, unknown> | null; // row after the change
+  changed_by: string | null;
+  changed_at: string;
+};
+
+export type ScoringScheme = "podium" | "sliding" | "relative" | "improvement";
+
+// How a manager's leaderboard awards points. group_id null is the default
+// for all of the manager's groups.
+export type LeaderboardScoring = {
+  id: string;
+  manager_id: string;
+  group_id: string | null;
+  scheme: ScoringScheme;
+  baseline_date: string | null; // improvement is measured from this date
+  exercise_weights: Record<string, number>; // points multiplier by exercise name
+  created_at: string;
+  updated_at: string;
+};
+
+export type SeasonStanding = {
+  athlete_id: string;
+  full_name: string;
+  total_points: number;
+  rank: number; // tied totals share a rank
+};
+
+// An athlete's best record in an exercise during the season
+export type SeasonBest = {
+  athlete_id: string;
+  exercise: string;
+  weight: number;
+  record_date: string;
+};
+
+// Results of a season frozen at its end
+export type SeasonSnapshot = {
+  scoring: Pick<
+    LeaderboardScoring,
+    "scheme" | "baseline_date" | "exercise_weights"
+  >;
+  standings: SeasonStanding[];
+  bests: SeasonBest[];
+};
+
+export type LeaderboardSeason = {
+  id: string;
+  manager_id: string;
+  group_id: string | null; // null for all of the manager's groups
+  name: string;
+  start_date: string;
+  end_date: string;
+  snapshot: SeasonSnapshot | null;
+  archived_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Coach review of a personal record; only approved records count on the
+// leaderboards
+export type PRVerificationStatus = "pending" | "approved" | "rejected";
@@ -0,0 +1,79 @@
+import type { Exercise, ExerciseUnitType } from "./database.types";
+
+export const EXERCISE_UNIT_TYPES: { value: ExerciseUnitType; label: string }[] =
+  [
+    { value: "kg", label: "Weight (kg)" },
+    { value: "seconds", label: "Time (seconds)" },
+    { value: "metres", label: "Distance (metres)" },
+    { value: "reps", label: "Repetitions" },
+  ];
+
+export const EXERCISE_CATEGORIES = [
+  { value: "strength", label: "Strength" },
+  { value: "power", label: "Power" },
+  { value: "plyometric", label: "Plyometric" },
+  { value: "speed", label: "Speed" },
+  { value: "conditioning", label: "Conditioning" },
+  { value: "mobility", label: "Mobility" },
+  { value: "core", label: "Core" },
+  { value: "other", label: "Other" },
+];
+
+export const getCategoryLabel = (category: string | null): string =>
+  EXERCISE_CATEGORIES.find((c) => c.value === category)?.label ||
+  category ||
+  "";
+
+export const getUnitLabel = (unitType: ExerciseUnitType): string =>
+  EXERCISE_UNIT_TYPES.find((u) => u.value === unitType)?.label || unitType;
+
+const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// Same matching as find_exercise_id in the database: name or alias, ignoring
+// case, with the manager's own exercises before built-in ones
+export const findExercise = <
+  T extends Pick<Exercise, "name" | "aliases" | "manager_id">,
+>(
+  library: T[],
+  name: string
+): T | undefined => {
+  const target = normalizeName(name);
+  if (!target) return undefined;
+  const matches = library.filter(
+    (e) =>
+      normalizeName(e.name) === target ||
+      e.aliases.some((alias) => normalizeName(alias) === target)
+  );
+  return matches.find((e) => e.manager_id !== null) || matches[0];
+};
+
+export const sortExercises = <T extends Pick<Exercise, "name">>(
+  library: T[]
+): T[] => [...library].sort((a, b) => a.name.localeCompare(b.name));
+
+// Exercises personal records can be kept for
+export const getPRExercises = <T extends Pick<Exercise, "unit_type">>(
+  library: T[]
+): T[] => library.filter((e) => e.unit_type === "kg");
+
+// Library ids padded to the exercise list, for programs saved before the
+// library existed
+export const alignExerciseIds = (
+  exercises: string[],
+  exerciseIds: (string | null)[] | undefined
+): (string | null)[] => exercises.map((_, i) => (exerciseIds || [])[i] || null);
+
+// Personal records selected with `exercises(name)` are shown under the
+// library name, so renaming an exercise carries over to existing records
+type LinkedExercise = { name: string } | { name: string }[] | null;
+
+export const withLibraryName = <
+  T extends { exercise: string; exercises?: LinkedExercise },
+>(
+  record: T
+): T => {
+  const linked = Array.isArray(record.exercises)
+    ? record.exercises[0]
+    : record.exercises;
+  return { ...record, exercise: linked?.name || record.exercise };
+};
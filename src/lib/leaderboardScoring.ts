@@ -0,0 +1,169 @@
+import { getClosestBodyWeight } from "./strength";
+import type { AthleteStrengthProfile } from "./strength";
+import type { LeaderboardScoring, ScoringScheme } from "./database.types";
+
+export const SCORING_SCHEMES: {
+  value: ScoringScheme;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "podium",
+    label: "Podium",
+    description: "3, 2 and 1 points for the top three in each exercise",
+  },
+  {
+    value: "sliding",
+    label: "Sliding scale",
+    description: "Points for every rank in each exercise, one less per place",
+  },
+  {
+    value: "relative",
+    label: "Body-weight relative",
+    description:
+      "Ranked by kg lifted per kg body weight, points for every rank",
+  },
+  {
+    value: "improvement",
+    label: "Improvement",
+    description: "1 point per % gained in each exercise since the baseline",
+  },
+];
+
+export type ScoringSettings = Pick<
+  LeaderboardScoring,
+  "scheme" | "baseline_date" | "exercise_weights"
+>;
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  scheme: "podium",
+  baseline_date: null,
+  exercise_weights: {},
+};
+
+export const getScoringDescription = (scoring: ScoringSettings): string => {
+  const scheme = SCORING_SCHEMES.find((s) => s.value === scoring.scheme);
+  const description = scheme?.description || "";
+  return scoring.scheme === "improvement" && scoring.baseline_date
+    ? `${description} (${scoring.baseline_date})`
+    : description;
+};
+
+// The group's own scoring, else the manager's default
+export const findLeaderboardScoring = (
+  scorings: LeaderboardScoring[],
+  groupId: string | null | undefined
+): ScoringSettings =>
+  (groupId && scorings.find((s) => s.group_id === groupId)) ||
+  scorings.find((s) => !s.group_id) ||
+  DEFAULT_SCORING;
+
+export const getExerciseWeight = (
+  scoring: ScoringSettings,
+  exercise: string
+): number => scoring.exercise_weights[exercise] ?? 1;
+
+interface ScoredRecord {
+  athlete_id: string;
+  exercise: string;
+  weight: number;
+  record_date: string;
+}
+
+// Each athlete's best value among the records, skipping records without one
+const bestByAthlete = (
+  records: ScoredRecord[],
+  value: (record: ScoredRecord) => number | null
+): Map<string, number> => {
+  const best = new Map<string, number>();
+  records.forEach((record) => {
+    const v = value(record);
+    if (v === null) return;
+    if (!best.has(record.athlete_id) || v > best.get(record.athlete_id)!) {
+      best.set(record.athlete_id, v);
+    }
+  });
+  return best;
+};
+
+// Points by rank. Equal values share a place and the next value takes the
+// next place, so ties do not push anyone down.
+const rankPoints = (
+  values: Map<string, number>,
+  scheme: ScoringScheme
+): Map<string, number> => {
+  const distinct = Array.from(new Set(values.values())).sort((a, b) => b - a);
+  const points = new Map<string, number>();
+  values.forEach((value, athleteId) => {
+    const place = distinct.indexOf(value) + 1;
+    points.set(
+      athleteId,
+      scheme === "podium" ? Math.max(4 - place, 0) : distinct.length - place + 1
+    );
+  });
+  return points;
+};
+
+// Percentage gained over the best record up to the baseline date. Athletes
+// without a record by then have nothing to improve on and score nothing.
+const improvementPoints = (
+  records: ScoredRecord[],
+  baselineDate: string | null
+): Map<string, number> => {
+  const points = new Map<string, number>();
+  if (!baselineDate) return points;
+
+  const baseline = bestByAthlete(records, (r) =>
+    r.record_date <= baselineDate ? r.weight : null
+  );
+  const current = bestByAthlete(records, (r) => r.weight);
+  baseline.forEach((start, athleteId) => {
+    const best = current.get(athleteId) || start;
+    if (start > 0) {
+      points.set(athleteId, Math.max(((best - start) / start) * 100, 0));
+    }
+  });
+  return points;
+};
+
+// Total points of each athlete over all exercises, rounded to 0.1
+export const scoreLeaderboard = (
+  records: ScoredRecord[],
+  athleteIds: string[],
+  scoring: ScoringSettings,
+  strengthProfiles: Record<string, AthleteStrengthProfile> = {}
+): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  athleteIds.forEach((id) => (totals[id] = 0));
+
+  const scored = records.filter((r) => r.athlete_id in totals);
+  const exercises = Array.from(new Set(scored.map((r) => r.exercise)));
+
+  exercises.forEach((exercise) => {
+    const exerciseRecords = scored.filter((r) => r.exercise === exercise);
+    const points =
+      scoring.scheme === "improvement"
+        ? improvementPoints(exerciseRecords, scoring.baseline_date)
+        : rankPoints(
+            bestByAthlete(exerciseRecords, (r) => {
+              if (scoring.scheme !== "relative") return r.weight;
+              const bodyWeight = getClosestBodyWeight(
+                strengthProfiles[r.athlete_id]?.bodyWeights || [],
+                r.record_date
+              );
+              return bodyWeight ? r.weight / bodyWeight : null;
+            }),
+            scoring.scheme
+          );
+
+    const multiplier = getExerciseWeight(scoring, exercise);
+    points.forEach((value, athleteId) => {
+      totals[athleteId] += value * multiplier;
+    });
+  });
+
+  Object.keys(totals).forEach((id) => {
+    totals[id] = Math.round(totals[id] * 10) / 10;
+  });
+  return totals;
+};
@@ -0,0 +1,189 @@
+import { scoreLeaderboard } from "./leaderboardScoring";
+import type { ScoringSettings } from "./leaderboardScoring";
+import type { AthleteStrengthProfile } from "./strength";
+import type {
+  LeaderboardSeason,
+  SeasonBest,
+  SeasonSnapshot,
+  SeasonStanding,
+} from "./database.types";
+
+export type SeasonStatus = "upcoming" | "active" | "ended" | "archived";
+
+export const SEASON_STATUS_LABELS: Record<SeasonStatus, string> = {
+  upcoming: "Upcoming",
+  active: "Active",
+  ended: "Ended",
+  archived: "Archived",
+};
+
+export const SEASON_STATUS_STYLES: Record<SeasonStatus, string> = {
+  upcoming: "bg-gray-100 text-gray-700",
+  active: "bg-green-100 text-green-800",
+  ended: "bg-yellow-100 text-yellow-800",
+  archived: "bg-blue-100 text-blue-800",
+};
+
+interface SeasonRecord extends SeasonBest {
+  id?: string;
+}
+
+interface SeasonAthlete {
+  id: string;
+  full_name: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+export const getSeasonStatus = (season: LeaderboardSeason): SeasonStatus => {
+  if (season.snapshot) return "archived";
+  if (today() < season.start_date) return "upcoming";
+  if (today() > season.end_date) return "ended";
+  return "active";
+};
+
+export const isInSeason = (
+  record: { record_date: string },
+  season: LeaderboardSeason
+): boolean =>
+  record.record_date >= season.start_date &&
+  record.record_date <= season.end_date;
+
+// Seasons shown for a group view: the group's own seasons, or the seasons
+// for all groups when no single group is selected
+export const getGroupSeasons = (
+  seasons: LeaderboardSeason[],
+  groupId: string | null
+): LeaderboardSeason[] =>
+  seasons.filter((s) => (groupId ? s.group_id === groupId : !s.group_id));
+
+// The latest season of the same groups that ended before this one started
+export const findPreviousSeason = (
+  seasons: LeaderboardSeason[],
+  season: LeaderboardSeason
+): LeaderboardSeason | null =>
+  seasons
+    .filter(
+      (s) => s.group_id === season.group_id && s.end_date < season.start_date
+    )
+    .sort((a, b) => b.end_date.localeCompare(a.end_date))[0] || null;
+
+const dayBefore = (date: string): string => {
+  const d = new Date(date);
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().split("T")[0];
+};
+
+// Points of the season. Only records inside the window count; improvement
+// is measured from the best record before the season started.
+export const scoreSeason = (
+  records: SeasonRecord[],
+  athleteIds: string[],
+  season: LeaderboardSeason,
+  scoring: ScoringSettings,
+  strengthProfiles: Record<string, AthleteStrengthProfile> = {}
+): Record<string, number> =>
+  scoring.scheme === "improvement"
+    ? scoreLeaderboard(
+        records.filter((r) => r.record_date <= season.end_date),
+        athleteIds,
+        { ...scoring, baseline_date: dayBefore(season.start_date) },
+        strengthProfiles
+      )
+    : scoreLeaderboard(
+        records.filter((r) => isInSeason(r, season)),
+        athleteIds,
+        scoring,
+        strengthProfiles
+      );
+
+// Standings by total points, highest first. Tied totals share a rank and
+// the next total skips the tied places (1, 1, 3).
+export const rankStandings = (
+  athletes: SeasonAthlete[],
+  totals: Record<string, number>
+): SeasonStanding[] => {
+  const sorted = athletes
+    .map((athlete) => ({
+      athlete_id: athlete.id,
+      full_name: athlete.full_name,
+      total_points: totals[athlete.id] || 0,
+    }))
+    .sort((a, b) => b.total_points - a.total_points);
+
+  return sorted.map((standing) => ({
+    ...standing,
+    rank: sorted.findIndex((s) => s.total_points === standing.total_points) + 1,
+  }));
+};
+
+// Each athlete's best record per exercise
+export const getSeasonBests = (records: SeasonRecord[]): SeasonBest[] => {
+  const bests = new Map<string, SeasonBest>();
+  records.forEach((record) => {
+    const key = `${record.athlete_id}:${record.exercise}`;
+    const best = bests.get(key);
+    if (!best || record.weight > best.weight) {
+      bests.set(key, {
+        athlete_id: record.athlete_id,
+        exercise: record.exercise,
+        weight: record.weight,
+        record_date: record.record_date,
+      });
+    }
+  });
+  return Array.from(bests.values());
+};
+
+// Standings of a season: frozen ones when archived, otherwise worked out
+// from the records
+export const getSeasonStandings = (
+  season: LeaderboardSeason,
+  records: SeasonRecord[],
+  athletes: SeasonAthlete[],
+  scoring: ScoringSettings,
+  strengthProfiles: Record<string, AthleteStrengthProfile> = {}
+): SeasonStanding[] =>
+  season.snapshot
+    ? season.snapshot.standings
+    : rankStandings(
+        athletes,
+        scoreSeason(
+          records,
+          athletes.map((a) => a.id),
+          season,
+          scoring,
+          strengthProfiles
+        )
+      );
+
+export const buildSeasonSnapshot = (
+  season: LeaderboardSeason,
+  records: SeasonRecord[],
+  athletes: SeasonAthlete[],
+  scoring: ScoringSettings,
+  strengthProfiles: Record<string, AthleteStrengthProfile> = {}
+): SeasonSnapshot => ({
+  scoring,
+  standings: getSeasonStandings(
+    season,
+    records,
+    athletes,
+    scoring,
+    strengthProfiles
+  ),
+  bests: getSeasonBests(records.filter((r) => isInSeason(r, season))),
+});
+
+// Places gained (positive) or lost since the previous season, by athlete.
+// Null for athletes who were not ranked in the previous season.
+export const getRankMovement = (
+  current: SeasonStanding[],
+  previous: SeasonStanding[]
+): Record<string, number | null> =>
+  Object.fromEntries(
+    current.map((standing) => {
+      const before = previous.find((p) => p.athlete_id === standing.athlete_id);
+      return [standing.athlete_id, before ? before.rank - standing.rank : null];
+    })
+  );
@@ -0,0 +1,123 @@
+import type { LoadVelocityEntry } from "./database.types";
+
+// Mean velocity at 1RM when the exercise has no threshold of its own. Close
+// to the published value for squat and bench press.
+export const DEFAULT_MIN_VELOCITY_THRESHOLD = 0.3;
+
+const GRAVITY = 9.81;
+
+export type LoadVelocityPoint = { load: number; velocity: number };
+
+export interface LoadVelocityProfile {
+  date: string;
+  points: LoadVelocityPoint[];
+  slope: number; // m/s per kg, negative for a valid profile
+  intercept: number; // m/s
+  r2: number;
+  e1rm: number | null; // kg at the minimum velocity threshold
+  l0: number | null; // kg at zero velocity
+  v0: number | null; // m/s at zero load
+  pmax: number | null; // W, theoretical peak of the load-power parabola
+}
+
+// Least-squares fit of velocity against load. Needs at least two distinct
+// loads; returns null otherwise.
+export const linearRegression = (
+  points: LoadVelocityPoint[]
+): { slope: number; intercept: number; r2: number } | null => {
+  const n = points.length;
+  if (n < 2) return null;
+
+  const meanLoad = points.reduce((sum, p) => sum + p.load, 0) / n;
+  const meanVelocity = points.reduce((sum, p) => sum + p.velocity, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  points.forEach((p) => {
+    sxx += (p.load - meanLoad) ** 2;
+    sxy += (p.load - meanLoad) * (p.velocity - meanVelocity);
+    syy += (p.velocity - meanVelocity) ** 2;
+  });
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanVelocity - slope * meanLoad;
+  // All velocities equal: the line fits them exactly
+  const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+  return { slope, intercept, r2 };
+};
+
+// Load-velocity profile of one session. The 1RM, L0 and V0 are only given
+// for a falling profile, as a flat or rising line has no meaningful
+// intercepts.
+export const buildLoadVelocityProfile = (
+  date: string,
+  points: LoadVelocityPoint[],
+  minVelocityThreshold: number
+): LoadVelocityProfile | null => {
+  const fit = linearRegression(points);
+  if (!fit) return null;
+
+  const { slope, intercept, r2 } = fit;
+  const falling = slope < 0 && intercept > 0;
+  const l0 = falling ? -intercept / slope : null;
+  const v0 = falling ? intercept : null;
+  const e1rm =
+    falling && minVelocityThreshold < intercept
+      ? Math.round(((minVelocityThreshold - intercept) / slope) * 2) / 2
+      : null;
+  const pmax =
+    l0 !== null && v0 !== null
+      ? Math.round((l0 * GRAVITY * v0) / 4)
+      : null;
+
+  return {
+    date,
+    points: [...points].sort((a, b) => a.load - b.load),
+    slope,
+    intercept,
+    r2,
+    e1rm,
+    l0: l0 !== null ? Math.round(l0 * 10) / 10 : null,
+    v0: v0 !== null ? Math.round(v0 * 100) / 100 : null,
+    pmax,
+  };
+};
+
+// One profile per date for an exercise, oldest first. Entries without a
+// velocity are left out of the fit.
+export const buildLoadVelocityProfiles = (
+  entries: Pick<LoadVelocityEntry, "date" | "load" | "velocity">[],
+  minVelocityThreshold: number
+): LoadVelocityProfile[] => {
+  const byDate: Record<string, LoadVelocityPoint[]> = {};
+  entries.forEach((entry) => {
+    if (entry.velocity === null || entry.velocity === undefined) return;
+    if (!byDate[entry.date]) byDate[entry.date] = [];
+    byDate[entry.date].push({
+      load: Number(entry.load),
+      velocity: Number(entry.velocity),
+    });
+  });
+
+  return Object.keys(byDate)
+    .sort()
+    .map((date) =>
+      buildLoadVelocityProfile(date, byDate[date], minVelocityThreshold)
+    )
+    .filter((p): p is LoadVelocityProfile => p !== null);
+};
+
+// Two points of the fitted line, from zero load to L0 (or the heaviest
+// measured load when the line never reaches zero velocity)
+export const getRegressionLine = (
+  profile: LoadVelocityProfile
+): LoadVelocityPoint[] => {
+  const maxLoad =
+    profile.l0 ?? Math.max(...profile.points.map((p) => p.load));
+  return [
+    { load: 0, velocity: profile.intercept },
+    { load: maxLoad, velocity: profile.intercept + profile.slope * maxLoad },
+  ];
+};
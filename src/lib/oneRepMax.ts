@@ -0,0 +1,111 @@
+import type { ExerciseRecord } from "./database.types";
+
+export type E1RMFormula = "epley" | "brzycki" | "lombardi";
+
+export const E1RM_FORMULAS: { value: E1RMFormula; label: string }[] = [
+  { value: "epley", label: "Epley" },
+  { value: "brzycki", label: "Brzycki" },
+  { value: "lombardi", label: "Lombardi" },
+];
+
+export const DEFAULT_E1RM_FORMULA: E1RMFormula = "epley";
+
+// Rep-based estimates drift quickly past this point, so longer sets are
+// left out of e1RM history and PR detection
+export const MAX_E1RM_REPS = 12;
+
+export interface E1RMPoint {
+  date: string;
+  e1rm: number;
+  weight: number;
+  reps: number;
+  recordId: string;
+}
+
+type LoggedSet = { weight: number; reps: number };
+
+const FORMULA_STORAGE_KEY = "e1rmFormula";
+
+export const getPreferredFormula = (): E1RMFormula => {
+  const saved = localStorage.getItem(FORMULA_STORAGE_KEY);
+  return E1RM_FORMULAS.some((f) => f.value === saved)
+    ? (saved as E1RMFormula)
+    : DEFAULT_E1RM_FORMULA;
+};
+
+export const setPreferredFormula = (formula: E1RMFormula) =>
+  localStorage.setItem(FORMULA_STORAGE_KEY, formula);
+
+export const getFormulaLabel = (formula: E1RMFormula): string =>
+  E1RM_FORMULAS.find((f) => f.value === formula)?.label || formula;
+
+// Estimated one-rep max of a single set, rounded to 0.5 kg. Returns null
+// for empty sets and sets above MAX_E1RM_REPS.
+export const estimateOneRepMax = (
+  weight: number,
+  reps: number,
+  formula: E1RMFormula
+): number | null => {
+  if (!weight || !reps || reps < 1 || reps > MAX_E1RM_REPS) return null;
+  if (reps === 1) return weight;
+
+  let estimate: number;
+  switch (formula) {
+    case "brzycki":
+      estimate = (weight * 36) / (37 - reps);
+      break;
+    case "lombardi":
+      estimate = weight * Math.pow(reps, 0.1);
+      break;
+    default:
+      estimate = weight * (1 + reps / 30);
+  }
+  return Math.round(estimate * 2) / 2;
+};
+
+// The set with the highest e1RM, or null when no set qualifies
+export const getBestSet = (
+  series: LoggedSet[],
+  formula: E1RMFormula
+): (LoggedSet & { e1rm: number }) | null =>
+  series.reduce<(LoggedSet & { e1rm: number }) | null>((best, set) => {
+    const e1rm = estimateOneRepMax(
+      Number(set.weight),
+      Number(set.reps),
+      formula
+    );
+    if (e1rm === null || (best && best.e1rm >= e1rm)) return best;
+    return { weight: Number(set.weight), reps: Number(set.reps), e1rm };
+  }, null);
+
+// Best e1RM per exercise and day, oldest first
+export const buildE1RMHistory = (
+  records: Pick<
+    ExerciseRecord,
+    "id" | "exercise_name" | "date" | "series_data"
+  >[],
+  formula: E1RMFormula
+): Record<string, E1RMPoint[]> => {
+  const byExercise: Record<string, Record<string, E1RMPoint>> = {};
+
+  records.forEach((record) => {
+    const best = getBestSet(record.series_data || [], formula);
+    if (!best) return;
+
+    if (!byExercise[record.exercise_name]) {
+      byExercise[record.exercise_name] = {};
+    }
+    const days = byExercise[record.exercise_name];
+    const current = days[record.date];
+    if (!current || best.e1rm > current.e1rm) {
+      days[record.date] = { date: record.date, recordId: record.id, ...best };
+    }
+  });
+
+  return Object.fromEntries(
+    Object.entries(byExercise).map(([exercise, days]) => [
+      exercise,
+      Object.values(days).sort((a, b) => a.date.localeCompare(b.date)),
+    ])
+  );
+};
@@ -0,0 +1,130 @@
+import type {
+  CycleLevel,
+  TrainingCycle,
+  TrainingPhase,
+} from "./database.types";
+
+export const TRAINING_PHASES: {
+  value: TrainingPhase;
+  label: string;
+  color: string;
+}[] = [
+  { value: "preparation", label: "Preparation", color: "59, 130, 246" },
+  { value: "pre_competition", label: "Pre-Competition", color: "245, 158, 11" },
+  { value: "competition", label: "Competition", color: "239, 68, 68" },
+  { value: "taper", label: "Taper", color: "139, 92, 246" },
+  { value: "transition", label: "Transition", color: "16, 185, 129" },
+];
+
+export const CYCLE_LEVELS: { value: CycleLevel; label: string }[] = [
+  { value: "macro", label: "Macrocycle" },
+  { value: "meso", label: "Mesocycle" },
+  { value: "micro", label: "Microcycle" },
+];
+
+const LEVEL_PRIORITY: Record<CycleLevel, number> = {
+  macro: 0,
+  meso: 1,
+  micro: 2,
+};
+
+export const getPhaseLabel = (phase: TrainingPhase) =>
+  TRAINING_PHASES.find((p) => p.value === phase)?.label || phase;
+
+export const getPhaseColor = (phase: TrainingPhase, alpha = 1) =>
+  `rgba(${
+    TRAINING_PHASES.find((p) => p.value === phase)?.color || "148, 163, 184"
+  }, ${alpha})`;
+
+// Cycles that apply to a group: its own cycles plus those for all groups
+export const getCyclesForGroup = (
+  cycles: TrainingCycle[],
+  groupId: string | null | undefined
+) => cycles.filter((c) => !c.group_id || c.group_id === groupId);
+
+// The most specific cycle (micro > meso > macro) covering a date
+export const getCycleForDate = (
+  cycles: TrainingCycle[],
+  date: string
+): TrainingCycle | undefined =>
+  cycles
+    .filter((c) => c.start_date <= date && c.end_date >= date)
+    .sort((a, b) => LEVEL_PRIORITY[b.level] - LEVEL_PRIORITY[a.level])[0];
+
+// Box annotations (chartjs-plugin-annotation) shading a category axis by
+// phase. `dates` holds the YYYY-MM-DD date of every label on the x axis.
+export const buildPhaseAnnotations = (
+  cycles: TrainingCycle[],
+  dates: string[]
+) => {
+  const annotations: Record<string, object> = {};
+  let start = 0;
+
+  for (let i = 1; i <= dates.length; i++) {
+    const phase = getCycleForDate(cycles, dates[start])?.phase;
+    const nextPhase =
+      i < dates.length ? getCycleForDate(cycles, dates[i])?.phase : undefined;
+    if (i < dates.length && nextPhase === phase) continue;
+
+    if (phase) {
+      annotations[`phase${start}`] = {
+        type: "box" as const,
+        xMin: start - 0.5,
+        xMax: i - 0.5,
+        backgroundColor: getPhaseColor(phase, 0.08),
+        borderWidth: 0,
+        drawTime: "beforeDatasetsDraw" as const,
+        label: {
+          display: true,
+          content: getPhaseLabel(phase),
+          position: { x: "center" as const, y: "start" as const },
+          color: getPhaseColor(phase, 0.9),
+          font: { size: 10 },
+        },
+      };
+    }
+    start = i;
+  }
+
+  return annotations;
+};
+
+// Labelled box annotations marking competition cycles on a category axis.
+// `dates` holds the YYYY-MM-DD date of every label; a competition with no
+// label inside it is left out.
+export const buildCompetitionAnnotations = (
+  cycles: TrainingCycle[],
+  dates: string[]
+) => {
+  const annotations: Record<string, object> = {};
+
+  cycles
+    .filter((cycle) => cycle.phase === "competition")
+    .forEach((cycle) => {
+      const inside = dates
+        .map((date, i) =>
+          date >= cycle.start_date && date <= cycle.end_date ? i : -1
+        )
+        .filter((i) => i !== -1);
+      if (inside.length === 0) return;
+
+      annotations[`competition${cycle.id}`] = {
+        type: "box" as const,
+        xMin: inside[0] - 0.5,
+        xMax: inside[inside.length - 1] + 0.5,
+        backgroundColor: getPhaseColor("competition", 0.08),
+        borderColor: getPhaseColor("competition", 0.5),
+        borderWidth: 1,
+        drawTime: "beforeDatasetsDraw" as const,
+        label: {
+          display: true,
+          content: cycle.name,
+          position: { x: "center" as const, y: "start" as const },
+          color: getPhaseColor("competition", 0.9),
+          font: { size: 10 },
+        },
+      };
+    });
+
+  return annotations;
+};
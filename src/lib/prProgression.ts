@@ -0,0 +1,109 @@
+import { getClosestBodyWeight } from "./strength";
+import type { AthleteStrengthProfile } from "./strength";
+import type { PRVerificationStatus } from "./database.types";
+
+export type ProgressionUnit = "absolute" | "relative";
+
+export const PROGRESSION_UNITS: { value: ProgressionUnit; label: string }[] = [
+  { value: "absolute", label: "Absolute (kg)" },
+  { value: "relative", label: "Relative (× BW)" },
+];
+
+export interface ProgressionRecord {
+  athlete_id: string;
+  exercise: string;
+  weight: number;
+  record_date: string;
+  verification_status: PRVerificationStatus;
+}
+
+export interface PRProgression {
+  dates: string[]; // YYYY-MM-DD, shared by every athlete
+  series: Record<string, (number | null)[]>; // by athlete, aligned to dates
+  // Whether each value rests on a record the coach has not approved yet
+  pending: Record<string, boolean[]>;
+}
+
+// kg lifted, or kg per kg body weight. Null when a relative value has no
+// body weight logged to go on.
+const getProgressionValue = (
+  record: ProgressionRecord,
+  unit: ProgressionUnit,
+  athlete: AthleteStrengthProfile | undefined
+): number | null => {
+  if (unit === "absolute") return record.weight;
+  const bodyWeight = getClosestBodyWeight(
+    athlete?.bodyWeights || [],
+    record.record_date
+  );
+  return bodyWeight
+    ? Math.round((record.weight / bodyWeight) * 100) / 100
+    : null;
+};
+
+type ProgressionValue = {
+  athleteId: string;
+  date: string;
+  value: number;
+  pending: boolean;
+};
+
+// Each athlete's best to date in the exercise, on one timeline for all of
+// them. An athlete is null on dates they set no record, so each line only
+// joins their own records. A best set by a record still waiting for the
+// coach is flagged as pending until an approved record matches or beats it.
+// Marker dates (such as competitions) that fall within the records are
+// added to the timeline.
+export const buildPRProgression = (
+  records: ProgressionRecord[],
+  athleteIds: string[],
+  exercise: string,
+  unit: ProgressionUnit,
+  strengthProfiles: Record<string, AthleteStrengthProfile>,
+  markerDates: string[] = []
+): PRProgression => {
+  const values = records
+    .filter((r) => r.exercise === exercise && athleteIds.includes(r.athlete_id))
+    .map((r) => ({
+      athleteId: r.athlete_id,
+      date: r.record_date,
+      value: getProgressionValue(r, unit, strengthProfiles[r.athlete_id]),
+      pending: r.verification_status === "pending",
+    }))
+    .filter((v): v is ProgressionValue => v.value !== null);
+  if (values.length === 0) return { dates: [], series: {}, pending: {} };
+
+  const recordDates = values.map((v) => v.date).sort();
+  const first = recordDates[0];
+  const last = recordDates[recordDates.length - 1];
+  const dates = Array.from(
+    new Set([
+      ...recordDates,
+      ...markerDates.filter((date) => date >= first && date <= last),
+    ])
+  ).sort();
+
+  const series: Record<string, (number | null)[]> = {};
+  const pending: Record<string, boolean[]> = {};
+  athleteIds.forEach((id) => {
+    let best = 0;
+    let bestPending = false;
+    series[id] = [];
+    pending[id] = [];
+    dates.forEach((date) => {
+      const onDate = values.filter(
+        (v) => v.athleteId === id && v.date === date
+      );
+      onDate.forEach((v) => {
+        if (v.value > best || (v.value === best && !v.pending)) {
+          best = v.value;
+          bestPending = v.pending;
+        }
+      });
+      series[id].push(onDate.length > 0 ? best : null);
+      pending[id].push(onDate.length > 0 && bestPending);
+    });
+  });
+
+  return { dates, series, pending };
+};
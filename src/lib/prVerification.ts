@@ -0,0 +1,13 @@
+import type { PRVerificationStatus } from "./database.types";
+
+export const VERIFICATION_LABELS: Record<PRVerificationStatus, string> = {
+  pending: "Pending review",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const VERIFICATION_STYLES: Record<PRVerificationStatus, string> = {
+  pending: "bg-gray-100 text-gray-700",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
@@ -0,0 +1,67 @@
+// Lift videos of personal records. Uploads are stored privately under the
+// athlete's id and personal_records.video_url keeps the storage path; older
+// records may still hold an external https URL.
+export const PR_VIDEO_BUCKET = "personal-records-videos";
+
+export const MAX_VIDEO_SIZE_MB = 100;
+
+// Accepted formats and the file extension each is stored with
+export const VIDEO_EXTENSIONS: Record<string, string> = {
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+// Signed URLs stay valid for an hour
+export const SIGNED_URL_TTL = 60 * 60;
+
+export const validateVideoFile = (file: File): string | null => {
+  if (!VIDEO_EXTENSIONS[file.type]) {
+    return "Upload an MP4, MOV or WebM video";
+  }
+  if (file.size > MAX_VIDEO_SIZE_MB * 1024 * 1024) {
+    return `Videos can be at most ${MAX_VIDEO_SIZE_MB} MB`;
+  }
+  return null;
+};
+
+export const isStoredVideo = (ref: string | null | undefined): ref is string =>
+  !!ref && !/^https?:\/\//.test(ref);
+
+// The thumbnail sits next to the video: athlete/123.mp4 -> athlete/123.jpg
+export const getThumbnailPath = (videoPath: string): string =>
+  videoPath.replace(/\.[^./]+$/, "") + ".jpg";
+
+// A JPEG of the frame one second in (or halfway through shorter clips),
+// at most maxWidth wide. Null when the browser cannot decode the video.
+export const extractVideoThumbnail = (
+  file: File,
+  maxWidth = 480
+): Promise<Blob | null> =>
+  new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    const done = (blob: Blob | null) => {
+      URL.revokeObjectURL(url);
+      resolve(blob);
+    };
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "metadata";
+    video.onerror = () => done(null);
+    video.onloadedmetadata = () => {
+      video.currentTime = Math.min(1, (video.duration || 0) / 2);
+    };
+    video.onseeked = () => {
+      const scale = Math.min(1, maxWidth / (video.videoWidth || maxWidth));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      const context = canvas.getContext("2d");
+      if (!context || canvas.width === 0) return done(null);
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(done, "image/jpeg", 0.8);
+    };
+    video.src = url;
+  });
@@ -0,0 +1,118 @@
+import type {
+  ExercisePrescription,
+  PrescriptionLoadType,
+} from "./database.types";
+
+export const LOAD_TYPES: { value: PrescriptionLoadType; label: string }[] = [
+  { value: "percent_1rm", label: "% 1RM" },
+  { value: "rpe", label: "RPE" },
+  { value: "kg", label: "kg" },
+];
+
+export const EMPTY_PRESCRIPTION: ExercisePrescription = {
+  sets: null,
+  reps: null,
+  load_type: null,
+  load_value: null,
+  rest_seconds: null,
+  tempo: null,
+};
+
+// %1RM targets are rounded to what can be loaded on a bar
+export const TARGET_WEIGHT_STEP = 2.5;
+
+export type PrescriptionStatus = "met" | "partial" | "missed";
+
+export interface PrescriptionComparison {
+  setsPrescribed: number | null;
+  setsLogged: number;
+  setsOnTarget: number; // logged sets reaching the target reps and load
+  status: PrescriptionStatus;
+}
+
+// Prescriptions padded to the exercise list, for programs saved before
+// prescriptions existed or lists edited since
+export const alignPrescriptions = (
+  exercises: string[],
+  prescriptions: ExercisePrescription[] | undefined
+): ExercisePrescription[] =>
+  exercises.map((_, i) => (prescriptions || [])[i] || EMPTY_PRESCRIPTION);
+
+export const hasPrescription = (p: ExercisePrescription): boolean =>
+  Object.values(p).some((value) => value !== null && value !== "");
+
+export const formatRest = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+export const formatLoad = (p: ExercisePrescription): string | null => {
+  if (p.load_type === null || p.load_value === null) return null;
+  switch (p.load_type) {
+    case "percent_1rm":
+      return `${p.load_value}% 1RM`;
+    case "rpe":
+      return `RPE ${p.load_value}`;
+    default:
+      return `${p.load_value} kg`;
+  }
+};
+
+// e.g. "4 x 6 @ 75% 1RM · rest 2:00 · tempo 3-1-1-0"
+export const formatPrescription = (p: ExercisePrescription): string => {
+  const volume =
+    p.sets !== null || p.reps !== null
+      ? `${p.sets ?? "?"} x ${p.reps ?? "?"}`
+      : "";
+  const load = formatLoad(p);
+  const parts = [[volume, load].filter(Boolean).join(" @ ")];
+  if (p.rest_seconds) parts.push(`rest ${formatRest(p.rest_seconds)}`);
+  if (p.tempo) parts.push(`tempo ${p.tempo}`);
+  return parts.filter(Boolean).join(" · ");
+};
+
+// Target weight in kg, when the prescription allows one. %1RM needs the
+// athlete's 1RM; RPE targets have no fixed weight.
+export const getTargetWeight = (
+  p: ExercisePrescription,
+  oneRepMax: number | undefined
+): number | null => {
+  if (p.load_value === null) return null;
+  if (p.load_type === "kg") return p.load_value;
+  if (p.load_type === "percent_1rm" && oneRepMax) {
+    return (
+      Math.round((oneRepMax * p.load_value) / 100 / TARGET_WEIGHT_STEP) *
+      TARGET_WEIGHT_STEP
+    );
+  }
+  return null;
+};
+
+export const comparePrescription = (
+  series: { weight: number; reps: number }[],
+  p: ExercisePrescription,
+  targetWeight: number | null
+): PrescriptionComparison => {
+  const logged = series.filter((s) => Number(s.reps) > 0);
+  const setsOnTarget = logged.filter(
+    (s) =>
+      (p.reps === null || Number(s.reps) >= p.reps) &&
+      (targetWeight === null || Number(s.weight) >= targetWeight)
+  ).length;
+  const setsRequired = p.sets ?? logged.length;
+
+  let status: PrescriptionStatus = "partial";
+  if (logged.length === 0) status = "missed";
+  else if (setsOnTarget >= setsRequired) status = "met";
+
+  return {
+    setsPrescribed: p.sets,
+    setsLogged: logged.length,
+    setsOnTarget,
+    status,
+  };
+};
+
+export const PRESCRIPTION_STATUS_STYLES: Record<PrescriptionStatus, string> = {
+  met: "bg-green-100 text-green-800",
+  partial: "bg-yellow-100 text-yellow-800",
+  missed: "bg-red-100 text-red-800",
+};
@@ -0,0 +1,115 @@
+import { daysBetween } from "./trainingLoad";
+import { getISOWeekday } from "./compliance";
+import { EMPTY_PRESCRIPTION } from "./prescriptions";
+import type {
+  Exercise,
+  ExercisePrescription,
+  ProgramDay,
+  ProgramExercise,
+  TrainingProgram,
+} from "./database.types";
+
+export const MAX_WEEK_COUNT = 52;
+
+export const createProgramDay = (name: string): ProgramDay => ({
+  id: crypto.randomUUID(),
+  name,
+  weekday: null,
+  exercises: [],
+});
+
+export const createProgramExercise = (
+  exercise: Pick<Exercise, "id" | "name">
+): ProgramExercise => ({
+  exercise: exercise.name,
+  exercise_id: exercise.id,
+  prescription: EMPTY_PRESCRIPTION,
+  week_prescriptions: [],
+});
+
+export const getProgramDays = (
+  program: Pick<TrainingProgram, "days"> | null
+): ProgramDay[] => program?.days || [];
+
+export const getProgramDay = (
+  program: Pick<TrainingProgram, "days"> | null,
+  dayId: string
+): ProgramDay | undefined =>
+  getProgramDays(program).find((day) => day.id === dayId);
+
+// Name of the day an exercise record was logged under. Records from before
+// days existed keep "A" / "B".
+export const getDayName = (
+  program: Pick<TrainingProgram, "days"> | null | undefined,
+  dayId: string
+): string =>
+  getProgramDay(program || null, dayId)?.name ||
+  (dayId === "A" || dayId === "B" ? `Plan ${dayId}` : dayId);
+
+// Template week (1-based) a date falls in. The template repeats after
+// week_count weeks. Null before the start date or without one.
+export const getProgramWeek = (
+  program: Pick<TrainingProgram, "start_date" | "week_count">,
+  date: string
+): number | null => {
+  if (!program.start_date) return null;
+  const days = daysBetween(program.start_date, date);
+  if (days < 0) return null;
+  return (Math.floor(days / 7) % Math.max(program.week_count || 1, 1)) + 1;
+};
+
+export interface TodaysWorkout {
+  day: ProgramDay | null; // null on days without a scheduled workout
+  week: number | null;
+}
+
+// Day scheduled on the weekday of `date`. Days without a weekday can still
+// be picked by hand.
+export const getTodaysWorkout = (
+  program: Pick<TrainingProgram, "days" | "start_date" | "week_count">,
+  date: string
+): TodaysWorkout => {
+  if (program.start_date && date < program.start_date) {
+    return { day: null, week: null };
+  }
+  const weekday = getISOWeekday(date);
+  return {
+    day: getProgramDays(program).find((day) => day.weekday === weekday) || null,
+    week: getProgramWeek(program, date),
+  };
+};
+
+// Prescription for a week of the template, falling back to the base
+export const getWeekPrescription = (
+  exercise: ProgramExercise,
+  week: number | null
+): ExercisePrescription =>
+  (week !== null && exercise.week_prescriptions[week - 1]) ||
+  exercise.prescription;
+
+export const setWeekPrescription = (
+  exercise: ProgramExercise,
+  week: number | null,
+  prescription: ExercisePrescription | null
+): ProgramExercise => {
+  if (week === null) {
+    return { ...exercise, prescription: prescription || EMPTY_PRESCRIPTION };
+  }
+  const weeks = [...exercise.week_prescriptions];
+  while (weeks.length < week) weeks.push(null);
+  weeks[week - 1] = prescription;
+  return { ...exercise, week_prescriptions: weeks };
+};
+
+// Drops overrides for weeks past the end of the template
+export const trimWeekPrescriptions = (
+  days: ProgramDay[],
+  weekCount: number
+): ProgramDay[] =>
+  days.map((day) => ({
+    ...day,
+    exercises: day.exercises.map((exercise) => ({
+      ...exercise,
+      week_prescriptions: exercise.week_prescriptions.slice(0, weekCount),
+    })),
+  }));
@@ -0,0 +1,122 @@
+import { comparePrescription, TARGET_WEIGHT_STEP } from "./prescriptions";
+import { getBestSet } from "./oneRepMax";
+import type { E1RMFormula } from "./oneRepMax";
+import type {
+  ExercisePrescription,
+  ProgressionRule,
+  ProgressionRuleType,
+} from "./database.types";
+
+export const PROGRESSION_RULES: {
+  value: ProgressionRuleType;
+  label: string;
+}[] = [
+  { value: "linear", label: "Linear increment" },
+  { value: "double", label: "Double progression" },
+  { value: "percent_e1rm", label: "% e1RM" },
+];
+
+export const DEFAULT_PROGRESSION_RULE: ProgressionRule = {
+  type: "linear",
+  increment_kg: 2.5,
+  rep_range: 4,
+  percent_e1rm: 80,
+};
+
+export interface LoadSuggestion {
+  weight: number; // kg
+  reps: number | null;
+  reason: string;
+}
+
+type LoggedSet = { weight: number; reps: number };
+
+const roundToStep = (weight: number): number =>
+  Math.round(weight / TARGET_WEIGHT_STEP) * TARGET_WEIGHT_STEP;
+
+// Linear and double progression need target reps to tell when to add
+// weight; without them the weight is held
+const holdWithoutTargetReps = (weight: number): LoadSuggestion => ({
+  weight,
+  reps: null,
+  reason: "No target reps prescribed: repeat the weight",
+});
+
+export const getProgressionRuleLabel = (type: ProgressionRuleType): string =>
+  PROGRESSION_RULES.find((r) => r.value === type)?.label || type;
+
+// Suggested load for the next session from the sets of the last one.
+// Progression is judged on the sets at the heaviest weight, so warm-up and
+// back-off sets do not hold it back. Linear and double progression hold the
+// weight when the prescription has no target reps. Returns null without
+// logged sets.
+export const suggestNextLoad = (
+  lastSets: LoggedSet[],
+  prescription: ExercisePrescription,
+  rule: ProgressionRule,
+  formula: E1RMFormula
+): LoadSuggestion | null => {
+  const sets = lastSets.filter((s) => s.weight > 0 && s.reps > 0);
+  if (sets.length === 0) return null;
+
+  const topWeight = Math.max(...sets.map((s) => s.weight));
+  const topSets = sets.filter((s) => s.weight === topWeight);
+
+  switch (rule.type) {
+    case "percent_e1rm": {
+      const best = getBestSet(sets, formula);
+      if (!best) return null;
+      const percent =
+        prescription.load_type === "percent_1rm" &&
+        prescription.load_value !== null
+          ? prescription.load_value
+          : rule.percent_e1rm;
+      return {
+        weight: roundToStep((best.e1rm * percent) / 100),
+        reps: prescription.reps,
+        reason: `${percent}% of last session's e1RM (${best.e1rm} kg)`,
+      };
+    }
+    case "double": {
+      if (prescription.reps === null) return holdWithoutTargetReps(topWeight);
+      const maxReps = prescription.reps;
+      const minReps = Math.max(1, maxReps - rule.rep_range);
+      const { status } = comparePrescription(
+        topSets,
+        { ...prescription, reps: maxReps },
+        topWeight
+      );
+      if (status === "met") {
+        return {
+          weight: topWeight + rule.increment_kg,
+          reps: minReps,
+          reason: `Reached ${maxReps} reps on every set: +${rule.increment_kg} kg, back to ${minReps} reps`,
+        };
+      }
+      const reps = Math.min(
+        maxReps,
+        Math.max(minReps, Math.min(...topSets.map((s) => s.reps)) + 1)
+      );
+      return {
+        weight: topWeight,
+        reps,
+        reason: `Below ${maxReps} reps last session: same weight, aim for ${reps} reps`,
+      };
+    }
+    default: {
+      if (prescription.reps === null) return holdWithoutTargetReps(topWeight);
+      const { status } = comparePrescription(topSets, prescription, topWeight);
+      return status === "met"
+        ? {
+            weight: topWeight + rule.increment_kg,
+            reps: prescription.reps,
+            reason: `Target reps met last session: +${rule.increment_kg} kg`,
+          }
+        : {
+            weight: topWeight,
+            reps: prescription.reps,
+            reason: "Target reps missed last session: repeat the weight",
+          };
+    }
+  }
+};
@@ -0,0 +1,136 @@
+import { addDays } from "./trainingLoad";
+import type { CustomMetric, MetricResponse } from "./database.types";
+
+// Each rating is compared with the athlete's own answers over the previous
+// four weeks (the day itself excluded)
+export const READINESS_BASELINE_DAYS = 28;
+
+// A metric needs this many baseline answers before it counts towards the score
+export const MIN_BASELINE_RESPONSES = 7;
+
+// Floor for the baseline standard deviation (rating points), so an athlete
+// who always answers the same does not get extreme z-scores from one change
+export const MIN_BASELINE_SD = 0.5;
+
+export const READINESS_CAUTION_THRESHOLD = -0.5;
+export const READINESS_LOW_THRESHOLD = -1;
+
+export type ReadinessFlag = "green" | "yellow" | "red";
+
+export interface ReadinessComponent {
+  metricId: string;
+  value: number;
+  zScore: number; // already inverted for metrics where higher is worse
+}
+
+export interface ReadinessScore {
+  athleteId: string;
+  date: string;
+  score: number; // weighted mean z-score
+  flag: ReadinessFlag;
+  components: ReadinessComponent[];
+}
+
+type ReadinessMetric = Pick<
+  CustomMetric,
+  "id" | "type" | "readiness_weight" | "readiness_invert"
+>;
+
+export type ReadinessResponse = Pick<
+  MetricResponse,
+  "athlete_id" | "metric_id" | "date" | "rating_value"
+>;
+
+export const getReadinessMetrics = <T extends ReadinessMetric>(
+  metrics: T[]
+): T[] =>
+  metrics.filter((m) => m.type === "rating" && Number(m.readiness_weight) > 0);
+
+export const getReadinessFlag = (score: number): ReadinessFlag => {
+  if (score >= READINESS_CAUTION_THRESHOLD) return "green";
+  if (score >= READINESS_LOW_THRESHOLD) return "yellow";
+  return "red";
+};
+
+export const READINESS_FLAG_STYLES: Record<ReadinessFlag, string> = {
+  green: "bg-green-100 text-green-800",
+  yellow: "bg-yellow-100 text-yellow-800",
+  red: "bg-red-100 text-red-800",
+};
+
+// Scores for every athlete and day in the range with at least one answered
+// readiness metric. `responses` must include the baseline window before
+// startDate.
+export const calculateReadinessScores = (
+  metrics: ReadinessMetric[],
+  responses: ReadinessResponse[],
+  startDate: string,
+  endDate: string
+): ReadinessScore[] => {
+  const readinessMetrics = getReadinessMetrics(metrics);
+
+  // Rating history per athlete and metric
+  const history: Record<string, Record<string, number>> = {};
+  responses.forEach((r) => {
+    if (r.rating_value === null) return;
+    const key = `${r.athlete_id}:${r.metric_id}`;
+    history[key] = history[key] || {};
+    history[key][r.date] = r.rating_value;
+  });
+
+  const athleteIds = Array.from(new Set(responses.map((r) => r.athlete_id)));
+  const scores: ReadinessScore[] = [];
+
+  athleteIds.forEach((athleteId) => {
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const baselineStart = addDays(date, -READINESS_BASELINE_DAYS);
+      const components: (ReadinessComponent & { weight: number })[] = [];
+
+      readinessMetrics.forEach((metric) => {
+        const ratings = history[`${athleteId}:${metric.id}`];
+        const value = ratings?.[date];
+        if (value === undefined) return;
+
+        const baseline = Object.entries(ratings)
+          .filter(([d]) => d >= baselineStart && d < date)
+          .map(([, v]) => v);
+        if (baseline.length < MIN_BASELINE_RESPONSES) return;
+
+        const mean = baseline.reduce((sum, v) => sum + v, 0) / baseline.length;
+        const sd = Math.sqrt(
+          baseline.reduce((sum, v) => sum + (v - mean) ** 2, 0) /
+            baseline.length
+        );
+        const zScore = (value - mean) / Math.max(sd, MIN_BASELINE_SD);
+
+        components.push({
+          metricId: metric.id,
+          value,
+          zScore: metric.readiness_invert ? -zScore : zScore,
+          weight: Number(metric.readiness_weight),
+        });
+      });
+
+      if (components.length === 0) continue;
+
+      const totalWeight = components.reduce((sum, c) => sum + c.weight, 0);
+      const score =
+        components.reduce((sum, c) => sum + c.zScore * c.weight, 0) /
+        totalWeight;
+
+      scores.push({
+        athleteId,
+        date,
+        score,
+        flag: getReadinessFlag(score),
+        components: components.map(({ metricId, value, zScore }) => ({
+          metricId,
+          value,
+          zScore,
+        })),
+      });
+    }
+  });
+
+  return scores;
+};
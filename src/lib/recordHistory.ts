@@ -0,0 +1,97 @@
+import type {
+  HistoryOperation,
+  HistoryTable,
+  RecordHistoryEntry,
+} from "./database.types";
+
+export const HISTORY_TABLES: { value: HistoryTable; label: string }[] = [
+  { value: "exercise_records", label: "Training sets" },
+  { value: "personal_records", label: "Personal records" },
+];
+
+export const HISTORY_OPERATION_LABELS: Record<HistoryOperation, string> = {
+  insert: "Added",
+  update: "Edited",
+  delete: "Deleted",
+};
+
+export const HISTORY_OPERATION_STYLES: Record<HistoryOperation, string> = {
+  insert: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+// Fields shown in the diff, in order. Ids and timestamps are left out.
+const HISTORY_FIELDS: Record<HistoryTable, { field: string; label: string }[]> =
+  {
+    exercise_records: [
+      { field: "exercise_name", label: "Exercise" },
+      { field: "date", label: "Date" },
+      { field: "series_data", label: "Sets" },
+      { field: "weight", label: "Weight (kg)" },
+      { field: "reps", label: "Reps" },
+      { field: "selected_plan", label: "Program day" },
+      { field: "week_number", label: "Week" },
+    ],
+    personal_records: [
+      { field: "exercise", label: "Exercise" },
+      { field: "weight", label: "Load (kg)" },
+      { field: "record_date", label: "Date" },
+      { field: "status", label: "Status" },
+      { field: "notes", label: "Notes" },
+      { field: "video_url", label: "Video" },
+      { field: "verification_status", label: "Verification" },
+      { field: "verification_comment", label: "Coach comment" },
+    ],
+  };
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: string | null;
+  after: string | null;
+}
+
+// e.g. "100 kg x 5, 100 kg x 4". Series ids are not shown, so re-saving the
+// same sets is not reported as a change.
+const formatSets = (value: unknown): string =>
+  Array.isArray(value)
+    ? value
+        .map((s) => `${Number(s?.weight) || 0} kg x ${Number(s?.reps) || 0}`)
+        .join(", ")
+    : "";
+
+export const formatHistoryValue = (
+  field: string,
+  value: unknown
+): string | null => {
+  if (value === null || value === undefined || value === "") return null;
+  if (field === "series_data") return formatSets(value) || null;
+  return String(value);
+};
+
+// Fields that differ between the row before and after the change. An
+// insert lists every field it set and a delete every field it removed.
+export const diffHistoryEntry = (entry: RecordHistoryEntry): FieldChange[] =>
+  HISTORY_FIELDS[entry.table_name]
+    .map(({ field, label }) => ({
+      field,
+      label,
+      before: formatHistoryValue(field, entry.old_data?.[field]),
+      after: formatHistoryValue(field, entry.new_data?.[field]),
+    }))
+    .filter((change) => change.before !== change.after);
+
+// e.g. "Squat · 2025-06-01"
+export const describeHistoryRecord = (entry: RecordHistoryEntry): string => {
+  const data = entry.new_data || entry.old_data || {};
+  const [name, date] =
+    entry.table_name === "exercise_records"
+      ? [data.exercise_name, data.date]
+      : [data.exercise, data.record_date];
+  return [name, date].filter(Boolean).join(" · ");
+};
+
+// Only changes with an earlier version can be undone
+export const canRestore = (entry: RecordHistoryEntry): boolean =>
+  entry.old_data !== null;
@@ -0,0 +1,255 @@
+import type {
+  Powerlift,
+  Sex,
+  StrengthStandard,
+  StrengthTier,
+} from "./database.types";
+
+export const SEXES: { value: Sex; label: string }[] = [
+  { value: "male", label: "Male" },
+  { value: "female", label: "Female" },
+];
+
+export const POWERLIFTS: { value: Powerlift; label: string }[] = [
+  { value: "squat", label: "Squat" },
+  { value: "bench", label: "Bench press" },
+  { value: "deadlift", label: "Deadlift" },
+];
+
+export type PointsFormula = "dots" | "wilks" | "ipf_gl";
+
+export const POINTS_FORMULAS: { value: PointsFormula; label: string }[] = [
+  { value: "dots", label: "DOTS" },
+  { value: "wilks", label: "Wilks" },
+  { value: "ipf_gl", label: "IPF GL" },
+];
+
+export const DEFAULT_POINTS_FORMULA: PointsFormula = "dots";
+
+export const STRENGTH_TIER_NAMES = [
+  "Beginner",
+  "Novice",
+  "Intermediate",
+  "Advanced",
+  "Elite",
+];
+
+export const STRENGTH_TIER_STYLES: Record<string, string> = {
+  Beginner: "bg-gray-100 text-gray-700",
+  Novice: "bg-blue-100 text-blue-800",
+  Intermediate: "bg-green-100 text-green-800",
+  Advanced: "bg-purple-100 text-purple-800",
+  Elite: "bg-yellow-100 text-yellow-800",
+};
+
+// Body-weight multiples used for the powerlifts until a manager sets their
+// own standards
+const DEFAULT_RATIOS: Record<Powerlift, Record<Sex, number[]>> = {
+  squat: {
+    male: [0.75, 1.25, 1.5, 2.25, 2.75],
+    female: [0.5, 0.75, 1.25, 1.5, 2],
+  },
+  bench: {
+    male: [0.5, 0.75, 1.25, 1.75, 2],
+    female: [0.25, 0.5, 0.75, 1, 1.5],
+  },
+  deadlift: {
+    male: [1, 1.5, 2, 2.5, 3],
+    female: [0.5, 1, 1.25, 1.75, 2.5],
+  },
+};
+
+export const getDefaultStrengthTiers = (
+  powerlift: Powerlift | null | undefined,
+  sex: Sex
+): StrengthTier[] =>
+  powerlift
+    ? STRENGTH_TIER_NAMES.map((name, i) => ({
+        name,
+        ratio: DEFAULT_RATIOS[powerlift][sex][i],
+      }))
+    : [];
+
+export type BodyWeight = { weight: number; date: string };
+
+// Body weight logged closest to the date, before or after
+export const getClosestBodyWeight = (
+  bodyWeights: BodyWeight[],
+  date: string
+): number | null => {
+  const target = new Date(date).getTime();
+  const distance = (entry: BodyWeight) =>
+    Math.abs(new Date(entry.date).getTime() - target);
+  const closest = bodyWeights.reduce<BodyWeight | null>(
+    (best, entry) => (!best || distance(entry) < distance(best) ? entry : best),
+    null
+  );
+  return closest ? closest.weight : null;
+};
+
+// Coefficients of the scoring formulas, by sex
+const DOTS: Record<Sex, number[]> = {
+  male: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093],
+  female: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706],
+};
+const DOTS_BODY_WEIGHT: Record<Sex, [number, number]> = {
+  male: [40, 210],
+  female: [40, 150],
+};
+
+const WILKS: Record<Sex, number[]> = {
+  male: [
+    -216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8,
+  ],
+  female: [
+    594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913,
+    4.731582e-5, -9.054e-8,
+  ],
+};
+const WILKS_BODY_WEIGHT: Record<Sex, [number, number]> = {
+  male: [40, 201.9],
+  female: [26.51, 154.53],
+};
+
+// Classic (raw) IPF GL: [A, B, C] for the total and for bench-only
+const IPF_GL: Record<"total" | "bench", Record<Sex, number[]>> = {
+  total: {
+    male: [1199.72839, 1025.18162, 0.00921],
+    female: [610.32796, 1045.59282, 0.03048],
+  },
+  bench: {
+    male: [320.98041, 281.40258, 0.01008],
+    female: [142.40398, 442.52671, 0.04724],
+  },
+};
+
+const polynomial = (coefficients: number[], x: number): number =>
+  coefficients.reduce((sum, c, i) => sum + c * Math.pow(x, i), 0);
+
+const clamp = (value: number, [min, max]: [number, number]): number =>
+  Math.min(Math.max(value, min), max);
+
+// Points for a lift at a body weight, rounded to 0.1. DOTS and Wilks scale
+// any lift by the body-weight coefficient. IPF GL is only defined for a
+// full total and for bench-only, so squat and deadlift have no GL points.
+export const calculatePoints = (
+  formula: PointsFormula,
+  lifted: number,
+  bodyWeight: number,
+  sex: Sex,
+  powerlift: Powerlift | "total"
+): number | null => {
+  if (!(lifted > 0) || !(bodyWeight > 0)) return null;
+
+  let points: number;
+  switch (formula) {
+    case "wilks":
+      points =
+        (lifted * 500) /
+        polynomial(WILKS[sex], clamp(bodyWeight, WILKS_BODY_WEIGHT[sex]));
+      break;
+    case "ipf_gl": {
+      if (powerlift !== "total" && powerlift !== "bench") return null;
+      const [a, b, c] = IPF_GL[powerlift][sex];
+      points = (lifted * 100) / (a - b * Math.exp(-c * bodyWeight));
+      break;
+    }
+    default:
+      points =
+        (lifted * 500) /
+        polynomial(DOTS[sex], clamp(bodyWeight, DOTS_BODY_WEIGHT[sex]));
+  }
+  return Math.round(points * 10) / 10;
+};
+
+export const getPointsFormulaLabel = (formula: PointsFormula): string =>
+  POINTS_FORMULAS.find((f) => f.value === formula)?.label || formula;
+
+const POINTS_STORAGE_KEY = "pointsFormula";
+
+export const getPreferredPointsFormula = (): PointsFormula => {
+  const saved = localStorage.getItem(POINTS_STORAGE_KEY);
+  return POINTS_FORMULAS.some((f) => f.value === saved)
+    ? (saved as PointsFormula)
+    : DEFAULT_POINTS_FORMULA;
+};
+
+export const setPreferredPointsFormula = (formula: PointsFormula) =>
+  localStorage.setItem(POINTS_STORAGE_KEY, formula);
+
+// Highest tier the body-weight ratio reaches, or null below the first
+export const getStrengthTier = (
+  tiers: StrengthTier[],
+  ratio: number
+): string | null =>
+  [...tiers]
+    .sort((a, b) => a.ratio - b.ratio)
+    .reduce<string | null>(
+      (reached, tier) => (ratio >= tier.ratio ? tier.name : reached),
+      null
+    );
+
+// Tiers for an exercise and sex: the manager's standard, else the defaults
+// for powerlifts
+export const findStrengthTiers = (
+  standards: StrengthStandard[],
+  exercise: { id: string; powerlift?: Powerlift | null } | undefined,
+  sex: Sex
+): StrengthTier[] => {
+  if (!exercise) return [];
+  const standard = standards.find(
+    (s) => s.exercise_id === exercise.id && s.sex === sex
+  );
+  return standard
+    ? standard.tiers
+    : getDefaultStrengthTiers(exercise.powerlift, sex);
+};
+
+export interface StrengthScore {
+  bodyWeight: number;
+  relative: number; // kg lifted per kg body weight
+  points: number | null;
+  tier: string | null;
+}
+
+export interface AthleteStrengthProfile {
+  sex: Sex | null;
+  bodyWeights: BodyWeight[];
+}
+
+// Relative strength, points and tier of a record. Null when the athlete has
+// no body weight logged; points and tier also need the athlete's sex.
+export const scoreRecord = (
+  record: { weight: number; record_date: string },
+  athlete: AthleteStrengthProfile | undefined,
+  exercise: { id: string; powerlift?: Powerlift | null } | undefined,
+  standards: StrengthStandard[],
+  formula: PointsFormula
+): StrengthScore | null => {
+  if (!athlete) return null;
+  const bodyWeight = getClosestBodyWeight(
+    athlete.bodyWeights,
+    record.record_date
+  );
+  if (!bodyWeight) return null;
+
+  const relative = Math.round((record.weight / bodyWeight) * 100) / 100;
+  const sex = athlete.sex;
+  return {
+    bodyWeight,
+    relative,
+    points:
+      sex && exercise?.powerlift
+        ? calculatePoints(
+            formula,
+            record.weight,
+            bodyWeight,
+            sex,
+            exercise.powerlift
+          )
+        : null,
+    tier: sex
+      ? getStrengthTier(findStrengthTiers(standards, exercise, sex), relative)
+      : null,
+  };
+};
@@ -0,0 +1,406 @@
+import type {
+  PlannedTrainingLoad,
+  PlannedTrainingSession,
+  TrainingSession,
+  TrainingType,
+} from "./database.types";
+
+export const TRAINING_TYPES: {
+  value: TrainingType;
+  label: string;
+  color: string;
+}[] = [
+  { value: "regenerative", label: "Regenerative", color: "rgb(16, 185, 129)" },
+  {
+    value: "interval_metabolic",
+    label: "Interval Metabolic",
+    color: "rgb(239, 68, 68)",
+  },
+  {
+    value: "technical_tactical",
+    label: "Technical/Tactical",
+    color: "rgb(59, 130, 246)",
+  },
+  {
+    value: "strength_power",
+    label: "Strength/Power",
+    color: "rgb(139, 92, 246)",
+  },
+  {
+    value: "speed_agility",
+    label: "Speed/Agility",
+    color: "rgb(245, 158, 11)",
+  },
+  {
+    value: "mobility_regenerative",
+    label: "Mobility & Regenerative",
+    color: "rgb(20, 184, 166)",
+  },
+  { value: "competition", label: "Competition", color: "rgb(220, 38, 38)" },
+  {
+    value: "injury_prevention",
+    label: "Injury Prevention",
+    color: "rgb(236, 72, 153)",
+  },
+  {
+    value: "other_activity",
+    label: "Other Activity",
+    color: "rgb(107, 114, 128)",
+  },
+  { value: "travel", label: "Travel", color: "rgb(203, 213, 225)" },
+];
+
+export type ACWRModel = "rolling" | "ewma";
+
+export interface EWMAConfig {
+  acuteDays: number; // Time constant (N) for the acute EWMA
+  chronicDays: number; // Time constant (N) for the chronic EWMA
+}
+
+export const DEFAULT_EWMA_CONFIG: EWMAConfig = {
+  acuteDays: 7,
+  chronicDays: 28,
+};
+
+export interface DailyLoad {
+  date: string;
+  load: number;
+}
+
+export interface DailyACWRPoint {
+  date: string;
+  dailyLoad: number;
+  acuteLoad: number;
+  chronicLoad: number;
+  acwr: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Dates are handled as YYYY-MM-DD strings in UTC so day arithmetic is not
+// affected by daylight saving changes
+export const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split("T")[0];
+};
+
+export const daysBetween = (start: string, end: string): number =>
+  Math.round(
+    (new Date(`${end}T00:00:00Z`).getTime() -
+      new Date(`${start}T00:00:00Z`).getTime()) /
+      MS_PER_DAY
+  );
+
+// Sum unit_load per calendar day, filling days without sessions with 0
+export const buildDailyLoads = (
+  sessions: Pick<TrainingSession, "date" | "unit_load">[],
+  startDate: string,
+  endDate: string
+): DailyLoad[] => {
+  const totals: Record<string, number> = {};
+  sessions.forEach((session) => {
+    totals[session.date] =
+      (totals[session.date] || 0) + (session.unit_load || 0);
+  });
+
+  const days: DailyLoad[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    days.push({ date, load: totals[date] || 0 });
+  }
+  return days;
+};
+
+// Monday of the week a date falls in
+export const getWeekStart = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+};
+
+// Smoothing factor from Williams et al. (2017): lambda = 2 / (N + 1)
+export const ewmaDecay = (days: number): number => 2 / (Math.max(days, 1) + 1);
+
+// Rolling average model: acute = last 7 days summed, chronic = average weekly
+// load of the 4 weeks preceding the acute window (uncoupled)
+export const calculateRollingACWRSeries = (
+  dailyLoads: DailyLoad[]
+): DailyACWRPoint[] =>
+  dailyLoads.map((day, index) => {
+    const acuteWindow = dailyLoads.slice(Math.max(0, index - 6), index + 1);
+    const chronicWindow = dailyLoads.slice(
+      Math.max(0, index - 34),
+      Math.max(0, index - 6)
+    );
+    const acuteLoad = acuteWindow.reduce((sum, d) => sum + d.load, 0);
+    const chronicLoad = chronicWindow.reduce((sum, d) => sum + d.load, 0) / 4;
+
+    return {
+      date: day.date,
+      dailyLoad: day.load,
+      acuteLoad,
+      chronicLoad,
+      acwr: chronicLoad > 0 ? acuteLoad / chronicLoad : 0,
+    };
+  });
+
+// Exponentially weighted model: each day's load is weighted by lambda and the
+// previous EWMA by (1 - lambda). Both EWMAs are seeded with the first day.
+export const calculateEWMAACWRSeries = (
+  dailyLoads: DailyLoad[],
+  config: EWMAConfig = DEFAULT_EWMA_CONFIG
+): DailyACWRPoint[] => {
+  const acuteDecay = ewmaDecay(config.acuteDays);
+  const chronicDecay = ewmaDecay(config.chronicDays);
+  let acute = dailyLoads[0]?.load || 0;
+  let chronic = dailyLoads[0]?.load || 0;
+
+  return dailyLoads.map((day, index) => {
+    if (index > 0) {
+      acute = day.load * acuteDecay + (1 - acuteDecay) * acute;
+      chronic = day.load * chronicDecay + (1 - chronicDecay) * chronic;
+    }
+
+    return {
+      date: day.date,
+      dailyLoad: day.load,
+      acuteLoad: acute,
+      chronicLoad: chronic,
+      acwr: chronic > 0 ? acute / chronic : 0,
+    };
+  });
+};
+
+export const calculateACWRSeries = (
+  dailyLoads: DailyLoad[],
+  model: ACWRModel,
+  config: EWMAConfig = DEFAULT_EWMA_CONFIG
+): DailyACWRPoint[] =>
+  model === "ewma"
+    ? calculateEWMAACWRSeries(dailyLoads, config)
+    : calculateRollingACWRSeries(dailyLoads);
+
+// Default ACWR range outside of which a workload alert is raised
+export const ACWR_SAFE_MIN = 0.8;
+export const ACWR_SAFE_MAX = 1.3;
+
+// Default % increase in weekly load that raises a workload alert
+export const WEEKLY_CHANGE_ALERT_THRESHOLD = 15;
+
+// 0.8-1.3 is the "sweet spot", 0.6-0.8 and 1.3-1.5 are caution zones
+export const getACWRColor = (acwr: number): string => {
+  if (acwr >= ACWR_SAFE_MIN && acwr <= ACWR_SAFE_MAX) return "text-green-600";
+  if ((acwr >= 0.6 && acwr < 0.8) || (acwr > 1.3 && acwr <= 1.5))
+    return "text-yellow-600";
+  return "text-red-600";
+};
+
+export const ACWR_ZONE_ANNOTATIONS = {
+  greenZone: {
+    type: "box" as const,
+    yMin: 0.8,
+    yMax: 1.3,
+    backgroundColor: "rgba(34, 197, 94, 0.1)",
+    borderWidth: 0,
+  },
+  yellowZone1: {
+    type: "box" as const,
+    yMin: 0.6,
+    yMax: 0.8,
+    backgroundColor: "rgba(234, 179, 8, 0.1)",
+    borderWidth: 0,
+  },
+  yellowZone2: {
+    type: "box" as const,
+    yMin: 1.3,
+    yMax: 1.5,
+    backgroundColor: "rgba(234, 179, 8, 0.1)",
+    borderWidth: 0,
+  },
+  redZone1: {
+    type: "box" as const,
+    yMin: 0,
+    yMax: 0.6,
+    backgroundColor: "rgba(239, 68, 68, 0.1)",
+    borderWidth: 0,
+  },
+  redZone2: {
+    type: "box" as const,
+    yMin: 1.5,
+    yMax: 2,
+    backgroundColor: "rgba(239, 68, 68, 0.1)",
+    borderWidth: 0,
+  },
+};
+
+export interface WeeklyLoadSummary {
+  weekStart: string;
+  weekEnd: string;
+  weeklyLoad: number;
+  meanDailyLoad: number;
+  standardDeviation: number;
+  monotony: number | null;
+  strain: number | null;
+  weeklyChange: number | null; // % change from the previous week
+}
+
+// Foster (1998): monotony = mean daily load / standard deviation of daily load.
+// The same non-zero load every day has no spread, so monotony (and strain)
+// is unbounded; it is null then rather than a misleading 0.
+export const calculateMonotony = (loads: number[]) => {
+  const days = loads.length || 1;
+  const total = loads.reduce((sum, load) => sum + load, 0);
+  const meanDailyLoad = total / days;
+  const standardDeviation = Math.sqrt(
+    loads.reduce((acc, load) => acc + Math.pow(load - meanDailyLoad, 2), 0) /
+      days
+  );
+  let monotony: number | null = 0;
+  if (standardDeviation > 0) monotony = meanDailyLoad / standardDeviation;
+  else if (total > 0) monotony = null;
+
+  return {
+    weeklyLoad: total,
+    meanDailyLoad,
+    standardDeviation,
+    monotony,
+    strain: monotony === null ? null : total * monotony,
+  };
+};
+
+// Split daily loads into 7-day weeks aligned to the last day, dropping an
+// incomplete first week
+export const summarizeWeeklyLoads = (
+  dailyLoads: DailyLoad[]
+): WeeklyLoadSummary[] => {
+  const weeks: DailyLoad[][] = [];
+  for (let end = dailyLoads.length; end - 7 >= 0; end -= 7) {
+    weeks.unshift(dailyLoads.slice(end - 7, end));
+  }
+
+  return weeks.map((week, index) => {
+    const stats = calculateMonotony(week.map((d) => d.load));
+    const previousLoad =
+      index > 0
+        ? weeks[index - 1].reduce((sum, d) => sum + d.load, 0)
+        : undefined;
+
+    return {
+      weekStart: week[0].date,
+      weekEnd: week[week.length - 1].date,
+      ...stats,
+      weeklyChange:
+        previousLoad && previousLoad > 0
+          ? ((stats.weeklyLoad - previousLoad) / previousLoad) * 100
+          : null,
+    };
+  });
+};
+
+// Monotony above 2.0 is associated with overtraining and illness. Null is
+// an identical load every day, the most monotonous week there is.
+export const getMonotonyColor = (monotony: number | null): string => {
+  if (monotony === null || monotony > 2) return "text-red-600";
+  if (monotony > 1.5) return "text-yellow-600";
+  return "text-green-600";
+};
+
+export const STRAIN_CAUTION_THRESHOLD = 4000;
+export const STRAIN_HIGH_THRESHOLD = 6000;
+
+export const getStrainColor = (strain: number | null): string => {
+  if (strain === null || strain > STRAIN_HIGH_THRESHOLD) return "text-red-600";
+  if (strain > STRAIN_CAUTION_THRESHOLD) return "text-yellow-600";
+  return "text-green-600";
+};
+
+// Week-to-week load increases above 10-15% raise injury risk
+export const getWeeklyChangeColor = (change: number | null): string => {
+  if (change === null) return "text-gray-500";
+  if (change > WEEKLY_CHANGE_ALERT_THRESHOLD) return "text-red-600";
+  if (change > 10) return "text-yellow-600";
+  return "text-green-600";
+};
+
+// Planned sessions, when entered, take precedence over the weekly figure
+export const getPlannedWeeklyLoad = (
+  plan: Pick<PlannedTrainingLoad, "planned_load"> | undefined,
+  sessions: Pick<PlannedTrainingSession, "duration" | "target_rpe">[] = []
+): number => {
+  if (sessions.length > 0) {
+    return sessions.reduce((sum, s) => sum + s.duration * s.target_rpe, 0);
+  }
+  return Number(plan?.planned_load) || 0;
+};
+
+// Percentage by which the actual load over- (+) or under-shoots (-) the plan
+export const calculateLoadDeviation = (
+  planned: number,
+  actual: number
+): number | null => (planned > 0 ? ((actual - planned) / planned) * 100 : null);
+
+export const getDeviationColor = (deviation: number | null): string => {
+  if (deviation === null) return "text-gray-500";
+  const absolute = Math.abs(deviation);
+  if (absolute <= 10) return "text-green-600";
+  if (absolute <= 20) return "text-yellow-600";
+  return "text-red-600";
+};
+
+export interface TrainingTypeTotals {
+  trainingType: TrainingType;
+  sessions: number;
+  minutes: number;
+  load: number;
+  loadShare: number; // % of total load
+  minutesShare: number; // % of total minutes
+}
+
+type DistributionSession = Pick<
+  TrainingSession,
+  "date" | "training_type" | "duration" | "unit_load"
+>;
+
+// Load and minutes per training type, in TRAINING_TYPES order
+export const summarizeByTrainingType = (
+  sessions: DistributionSession[]
+): TrainingTypeTotals[] => {
+  const totalLoad = sessions.reduce((sum, s) => sum + (s.unit_load || 0), 0);
+  const totalMinutes = sessions.reduce((sum, s) => sum + (s.duration || 0), 0);
+
+  return TRAINING_TYPES.map(({ value }) => {
+    const ofType = sessions.filter((s) => s.training_type === value);
+    const load = ofType.reduce((sum, s) => sum + (s.unit_load || 0), 0);
+    const minutes = ofType.reduce((sum, s) => sum + (s.duration || 0), 0);
+    return {
+      trainingType: value,
+      sessions: ofType.length,
+      minutes,
+      load,
+      loadShare: totalLoad > 0 ? (load / totalLoad) * 100 : 0,
+      minutesShare: totalMinutes > 0 ? (minutes / totalMinutes) * 100 : 0,
+    };
+  });
+};
+
+// Per-type totals for every Monday-based week overlapping the range
+export const summarizeWeeklyByTrainingType = (
+  sessions: DistributionSession[],
+  startDate: string,
+  endDate: string
+): { weekStart: string; totals: TrainingTypeTotals[] }[] => {
+  const weeks: { weekStart: string; totals: TrainingTypeTotals[] }[] = [];
+  for (
+    let weekStart = getWeekStart(startDate);
+    weekStart <= endDate;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    const weekEnd = addDays(weekStart, 6);
+    weeks.push({
+      weekStart,
+      totals: summarizeByTrainingType(
+        sessions.filter((s) => s.date >= weekStart && s.date <= weekEnd)
+      ),
+    });
+  }
+  return weeks;
+};
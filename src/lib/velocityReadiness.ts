@@ -0,0 +1,133 @@
+import { addDays } from "./trainingLoad";
+import type { ReadinessFlag } from "./readiness";
+import type { LoadVelocityProfile } from "./loadVelocity";
+import type { VelocityCheck } from "./database.types";
+
+// Each check is compared with the athlete's checks at the same exercise and
+// load over the previous four weeks (the day itself excluded)
+export const VELOCITY_BASELINE_DAYS = 28;
+
+// A check needs this many earlier checks before it is flagged
+export const MIN_BASELINE_CHECKS = 3;
+
+// Smallest worthwhile change as a share of the baseline standard deviation,
+// with a floor so a very consistent athlete is not flagged for noise
+export const SWC_FACTOR = 0.5;
+export const MIN_SWC = 0.02; // m/s
+
+// Drops beyond this many SWCs are red rather than yellow
+export const RED_SWC_MULTIPLE = 2;
+
+// Only load-velocity profiles measured this many days before the range are
+// used to size the load adjustment; older ones no longer reflect the athlete
+export const PROFILE_MAX_AGE_DAYS = 90;
+
+// Load reduction when there is no load-velocity profile to derive one from
+const FALLBACK_LOAD_REDUCTION: Record<ReadinessFlag, number> = {
+  green: 0,
+  yellow: 5,
+  red: 10,
+};
+const MAX_LOAD_REDUCTION = 20;
+
+export interface VelocityReadiness {
+  athleteId: string;
+  date: string;
+  exerciseName: string;
+  load: number;
+  velocity: number;
+  baseline: number; // mean velocity of the baseline checks
+  change: number; // m/s against the baseline
+  changePercent: number;
+  swc: number;
+  flag: ReadinessFlag;
+  loadAdjustmentPercent: number; // 0 or negative
+}
+
+type Check = Pick<
+  VelocityCheck,
+  "athlete_id" | "exercise_name" | "date" | "load" | "velocity"
+>;
+
+export type ReadinessProfile = Pick<LoadVelocityProfile, "slope" | "e1rm">;
+
+// Suggested change to the day's loads, as a share of the profile's e1RM so
+// it applies to the working sets rather than the lighter check load. The
+// velocity drop is converted to the load it corresponds to with the profile
+// slope; without a falling profile a fixed reduction per flag is used.
+export const getLoadAdjustment = (
+  flag: ReadinessFlag,
+  change: number,
+  profile?: ReadinessProfile | null
+): number => {
+  if (flag === "green") return 0;
+  if (!profile || profile.slope >= 0 || !profile.e1rm) {
+    return -FALLBACK_LOAD_REDUCTION[flag];
+  }
+
+  const percent = Math.round((change / profile.slope / profile.e1rm) * 100);
+  return -Math.min(MAX_LOAD_REDUCTION, Math.max(1, percent));
+};
+
+// Readiness of every check in the range with enough baseline. `checks` must
+// include the baseline window before startDate. `profiles` holds the latest
+// load-velocity profile per "athleteId:exercise".
+export const calculateVelocityReadiness = (
+  checks: Check[],
+  startDate: string,
+  endDate: string,
+  profiles: Record<string, ReadinessProfile> = {}
+): VelocityReadiness[] =>
+  checks
+    .filter((check) => check.date >= startDate && check.date <= endDate)
+    .map((check) => {
+      const load = Number(check.load);
+      const velocity = Number(check.velocity);
+      const baselineStart = addDays(check.date, -VELOCITY_BASELINE_DAYS);
+      const baseline = checks
+        .filter(
+          (c) =>
+            c.athlete_id === check.athlete_id &&
+            c.exercise_name === check.exercise_name &&
+            Number(c.load) === load &&
+            c.date >= baselineStart &&
+            c.date < check.date
+        )
+        .map((c) => Number(c.velocity));
+      if (baseline.length < MIN_BASELINE_CHECKS) return null;
+
+      const mean = baseline.reduce((sum, v) => sum + v, 0) / baseline.length;
+      const sd = Math.sqrt(
+        baseline.reduce((sum, v) => sum + (v - mean) ** 2, 0) / baseline.length
+      );
+      const swc = Math.max(sd * SWC_FACTOR, MIN_SWC);
+      const change = velocity - mean;
+
+      let flag: ReadinessFlag = "green";
+      if (change < -swc * RED_SWC_MULTIPLE) flag = "red";
+      else if (change < -swc) flag = "yellow";
+
+      return {
+        athleteId: check.athlete_id,
+        date: check.date,
+        exerciseName: check.exercise_name,
+        load,
+        velocity,
+        baseline: mean,
+        change,
+        changePercent: (change / mean) * 100,
+        swc,
+        flag,
+        loadAdjustmentPercent: getLoadAdjustment(
+          flag,
+          change,
+          profiles[`${check.athlete_id}:${check.exercise_name}`]
+        ),
+      };
+    })
+    .filter((r): r is VelocityReadiness => r !== null);
+
+export const describeLoadAdjustment = (readiness: VelocityReadiness): string =>
+  readiness.loadAdjustmentPercent === 0
+    ? "Train as planned"
+    : `Reduce today's loads by about ${-readiness.loadAdjustmentPercent}%`;
@@ -0,0 +1,188 @@
+import { addDays, getWeekStart } from "./trainingLoad";
+import { DEFAULT_E1RM_FORMULA, estimateOneRepMax } from "./oneRepMax";
+import type { ExerciseRecord } from "./database.types";
+
+// A set counts as hard when its estimated 1RM is at least this share of the
+// athlete's best estimate for the exercise, i.e. it was close to failure
+export const HARD_SET_E1RM_SHARE = 0.85;
+
+export type VolumeGroupBy = "exercise" | "category" | "athlete" | "group";
+
+export type VolumeMetric = "volumeLoad" | "hardSets" | "averageIntensity";
+
+export const VOLUME_METRICS: { value: VolumeMetric; label: string }[] = [
+  { value: "volumeLoad", label: "Volume load (kg)" },
+  { value: "hardSets", label: "Hard sets" },
+  { value: "averageIntensity", label: "Avg intensity (%e1RM)" },
+];
+
+export interface VolumeTotals {
+  volumeLoad: number; // sets × reps × kg
+  sets: number;
+  reps: number;
+  hardSets: number;
+  averageLoad: number; // kg per rep
+  averageIntensity: number | null; // % of best e1RM, per rep
+}
+
+export interface WeeklyVolume {
+  weekStart: string;
+  totals: Record<string, VolumeTotals>;
+}
+
+type VolumeRecord = Pick<
+  ExerciseRecord,
+  "athlete_id" | "exercise_name" | "date" | "weight" | "reps" | "series_data"
+>;
+
+type LoggedSet = { weight: number; reps: number };
+
+// Sets of a record, falling back to the single weight × reps of records
+// logged before series_data existed
+export const getRecordSets = (record: VolumeRecord): LoggedSet[] => {
+  const sets =
+    record.series_data && record.series_data.length > 0
+      ? record.series_data
+      : record.weight != null && record.reps != null
+        ? [{ weight: record.weight, reps: record.reps }]
+        : [];
+  return sets
+    .map((s) => ({ weight: Number(s.weight), reps: Number(s.reps) }))
+    .filter((s) => s.weight > 0 && s.reps > 0);
+};
+
+type VolumeSums = {
+  volumeLoad: number;
+  sets: number;
+  reps: number;
+  hardSets: number;
+  intensitySum: number; // %e1RM × reps
+  intensityReps: number;
+};
+
+// Best e1RM per "athleteId:exercise" over the given records
+export const getBestE1RMs = (
+  records: VolumeRecord[]
+): Record<string, number> => {
+  const best: Record<string, number> = {};
+  records.forEach((record) => {
+    const key = `${record.athlete_id}:${record.exercise_name}`;
+    getRecordSets(record).forEach((set) => {
+      const e1rm = estimateOneRepMax(
+        set.weight,
+        set.reps,
+        DEFAULT_E1RM_FORMULA
+      );
+      if (e1rm !== null && e1rm > (best[key] || 0)) best[key] = e1rm;
+    });
+  });
+  return best;
+};
+
+// Totals per key for the given records. `getKey` returns null to leave a
+// record out. Intensity and hard sets are measured against `bestE1RMs`.
+export const summarizeVolume = (
+  records: VolumeRecord[],
+  getKey: (record: VolumeRecord) => string | null,
+  bestE1RMs: Record<string, number>
+): Record<string, VolumeTotals> => {
+  const sums: Record<string, VolumeSums> = {};
+
+  records.forEach((record) => {
+    const key = getKey(record);
+    if (key === null) return;
+    const best = bestE1RMs[`${record.athlete_id}:${record.exercise_name}`];
+    const total = (sums[key] = sums[key] || {
+      volumeLoad: 0,
+      sets: 0,
+      reps: 0,
+      hardSets: 0,
+      intensitySum: 0,
+      intensityReps: 0,
+    });
+
+    getRecordSets(record).forEach((set) => {
+      total.volumeLoad += set.weight * set.reps;
+      total.sets += 1;
+      total.reps += set.reps;
+      if (!best) return;
+
+      total.intensitySum += (set.weight / best) * 100 * set.reps;
+      total.intensityReps += set.reps;
+
+      const e1rm = estimateOneRepMax(
+        set.weight,
+        set.reps,
+        DEFAULT_E1RM_FORMULA
+      );
+      if (e1rm !== null && e1rm >= best * HARD_SET_E1RM_SHARE) {
+        total.hardSets += 1;
+      }
+    });
+  });
+
+  return Object.fromEntries(
+    Object.entries(sums).map(
+      ([key, { intensitySum, intensityReps, ...total }]) => [
+        key,
+        {
+          ...total,
+          averageLoad: total.reps > 0 ? total.volumeLoad / total.reps : 0,
+          averageIntensity:
+            intensityReps > 0 ? intensitySum / intensityReps : null,
+        },
+      ]
+    )
+  );
+};
+
+// Totals per key for every week (Monday start) touching the range
+export const summarizeWeeklyVolume = (
+  records: VolumeRecord[],
+  getKey: (record: VolumeRecord) => string | null,
+  startDate: string,
+  endDate: string
+): WeeklyVolume[] => {
+  const bestE1RMs = getBestE1RMs(records);
+  const weeks: WeeklyVolume[] = [];
+  for (
+    let weekStart = getWeekStart(startDate);
+    weekStart <= endDate;
+    weekStart = addDays(weekStart, 7)
+  ) {
+    const weekEnd = addDays(weekStart, 6);
+    weeks.push({
+      weekStart,
+      totals: summarizeVolume(
+        records.filter((r) => r.date >= weekStart && r.date <= weekEnd),
+        getKey,
+        bestE1RMs
+      ),
+    });
+  }
+  return weeks;
+};
+
+export const getVolumeMetric = (
+  totals: VolumeTotals | undefined,
+  metric: VolumeMetric
+): number | null => {
+  if (!totals) return null;
+  return metric === "averageIntensity"
+    ? totals.averageIntensity
+    : totals[metric];
+};
+
+// Change between the first and last week with data, in percent, to show
+// whether volume progresses through a block
+export const getVolumeTrend = (
+  weeks: WeeklyVolume[],
+  key: string,
+  metric: VolumeMetric
+): number | null => {
+  const values = weeks
+    .map((w) => getVolumeMetric(w.totals[key], metric))
+    .filter((v): v is number => v !== null && v > 0);
+  if (values.length < 2) return null;
+  return ((values[values.length - 1] - values[0]) / values[0]) * 100;
+};
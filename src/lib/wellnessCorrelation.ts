@@ -0,0 +1,116 @@
+import { addDays, buildDailyLoads } from "./trainingLoad";
+import type { MetricResponse, TrainingSession } from "./database.types";
+
+// Days between the training load and the wellness response it is paired with
+export const CORRELATION_LAGS = [
+  { value: 0, label: "Same day" },
+  { value: 1, label: "Next day" },
+  { value: 2, label: "2 days later" },
+];
+
+// Below this many pairs a coefficient is shown but flagged as unreliable
+export const MIN_CORRELATION_SAMPLE = 10;
+
+export interface LoadWellnessPair {
+  athleteId: string;
+  loadDate: string;
+  load: number;
+  rating: number;
+}
+
+export interface CorrelationResult {
+  r: number | null;
+  n: number;
+}
+
+export const pearsonCorrelation = (
+  xs: number[],
+  ys: number[]
+): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+
+  const meanX = xs.slice(0, n).reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, y) => sum + y, 0) / n;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY);
+    varianceX += (xs[i] - meanX) ** 2;
+    varianceY += (ys[i] - meanY) ** 2;
+  }
+
+  // Undefined when either variable never changes
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Pair each athlete's daily load with their rating `lag` days later. Days
+// without sessions count as zero load, so rest days are part of the sample.
+export const buildLaggedPairs = (
+  sessions: Pick<TrainingSession, "athlete_id" | "date" | "unit_load">[],
+  responses: Pick<MetricResponse, "athlete_id" | "date" | "rating_value">[],
+  lag: number,
+  startDate: string,
+  endDate: string
+): LoadWellnessPair[] => {
+  const loadsByAthlete: Record<string, Record<string, number>> = {};
+  const athleteIds = new Set(responses.map((r) => r.athlete_id));
+  athleteIds.forEach((athleteId) => {
+    loadsByAthlete[athleteId] = {};
+    buildDailyLoads(
+      sessions.filter((s) => s.athlete_id === athleteId),
+      startDate,
+      endDate
+    ).forEach((day) => {
+      loadsByAthlete[athleteId][day.date] = day.load;
+    });
+  });
+
+  const pairs: LoadWellnessPair[] = [];
+  responses.forEach((response) => {
+    if (response.rating_value === null) return;
+    const loadDate = addDays(response.date, -lag);
+    const load = loadsByAthlete[response.athlete_id]?.[loadDate];
+    if (load === undefined) return;
+    pairs.push({
+      athleteId: response.athlete_id,
+      loadDate,
+      load,
+      rating: response.rating_value,
+    });
+  });
+  return pairs;
+};
+
+export const correlatePairs = (
+  pairs: LoadWellnessPair[]
+): CorrelationResult => ({
+  r: pearsonCorrelation(
+    pairs.map((p) => p.load),
+    pairs.map((p) => p.rating)
+  ),
+  n: pairs.length,
+});
+
+// Conventional thresholds for the magnitude of r (Hopkins, 2002)
+export const getCorrelationStrength = (r: number | null): string => {
+  if (r === null) return "n/a";
+  const absolute = Math.abs(r);
+  if (absolute < 0.1) return "Trivial";
+  if (absolute < 0.3) return "Small";
+  if (absolute < 0.5) return "Moderate";
+  if (absolute < 0.7) return "Large";
+  return "Very large";
+};
+
+export const getCorrelationColor = (result: CorrelationResult): string => {
+  if (result.r === null || result.n < MIN_CORRELATION_SAMPLE) {
+    return "text-gray-400";
+  }
+  const absolute = Math.abs(result.r);
+  if (absolute >= 0.5) return "text-red-600";
+  if (absolute >= 0.3) return "text-yellow-600";
+  return "text-gray-700";
+};
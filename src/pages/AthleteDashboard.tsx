@@ -31,6 +31,10 @@ import PersonalRecordsChart from "../components/PersonalRecordsChart";
 import TeamPersonalBests from "../components/TeamPersonalBests";
 import WeightInput from "../components/WeightInput";
 import TrainingProgramAthlete from "../components/TrainingProgramAthlete";
+import ReadinessBadge from "../components/ReadinessBadge";
+import VelocityCheck from "../components/VelocityCheck";
+import { fetchReadinessScores } from "../services/readiness";
+import type { ReadinessScore } from "../lib/readiness";
 
 const TRAINING_TYPES: { value: TrainingType; label: string }[] = [
   { value: "regenerative", label: "Regenerative" },
@@ -301,6 +305,7 @@ export default function AthleteDashboard({ profile: initialProfile }: Props) {
   const [showNoTrainingModal, setShowNoTrainingModal] = useState(false);
   const [highlightTraining, setHighlightTraining] = useState(false);
   const [metricsSubmitted, setMetricsSubmitted] = useState(false);
+  const [readinessScore, setReadinessScore] = useState<ReadinessScore>();
   const [notification, setNotification] = useState<{
     type: "success" | "error";
     message: string;
@@ -493,6 +498,25 @@ export default function AthleteDashboard({ profile: initialProfile }: Props) {
     fetchInitialData();
   }, [profile, selectedDate]);
 
+  // Readiness is only available once today's check-in has been submitted
+  useEffect(() => {
+    if (!profile.manager_id || !metricsSubmitted) {
+      setReadinessScore(undefined);
+      return;
+    }
+
+    fetchReadinessScores(
+      profile.manager_id,
+      [profile.id],
+      selectedDate,
+      selectedDate
+    )
+      .then((scores) => setReadinessScore(scores[0]))
+      .catch((error) => {
+        console.error("Error fetching readiness score:", error);
+      });
+  }, [profile.id, profile.manager_id, selectedDate, metricsSubmitted]);
+
   useEffect(() => {
     if (profile?.avatar_url) {
       setShowPhotoModal(false);
@@ -943,6 +967,9 @@ export default function AthleteDashboard({ profile: initialProfile }: Props) {
                 <h2 className="text-lg sm:text-xl font-bold bg-gradient-to-r from-blue-600 to-purple-600 bg-clip-text text-transparent">
                   Daily Check-in
                 </h2>
+                {metricsSubmitted && readinessScore && (
+                  <ReadinessBadge score={readinessScore} />
+                )}
               </div>
               <div
                 className={clsx(
@@ -1551,11 +1578,18 @@ export default function AthleteDashboard({ profile: initialProfile }: Props) {
           </div>
         </div>
 
-        {/* Weight Entry Section - moved below Daily Check-in */}
-        <div className="w-full flex flex-col items-center justify-center mt-8 mb-10">
+        {/* Weight Entry and Velocity Check - below Daily Check-in */}
+        <div className="w-full flex flex-col md:flex-row items-center md:items-start justify-center gap-6 mt-8 mb-10">
           <div className="w-full max-w-md">
             <WeightInput athleteId={profile.id} theme={theme} />
           </div>
+          <div className="w-full max-w-md">
+            <VelocityCheck
+              athleteId={profile.id}
+              date={selectedDate}
+              theme={theme}
+            />
+          </div>
         </div>
 
         {/* Divider before Personal Records */}
@@ -32,6 +32,8 @@ import {
   Activity,
   Home,
   ChevronDown,
+  CalendarRange,
+  Library,
 } from "lucide-react";
 import clsx from "clsx";
 import ProfilePicture from "../components/ProfilePicture";
@@ -43,11 +45,17 @@ import { useTheme } from "../components/ThemeProvider";
 import PersonalRecordsTable from "../components/PersonalRecordsTable";
 import GroupsManagement from "../components/GroupsManagement";
 import PersonalRecordsChart from "../components/PersonalRecordsChart";
+import E1RMHistory from "../components/E1RMHistory";
 import ManagerLeaderboard from "../components/ManagerLeaderboard";
 import TrainingProgramManager from "../components/TrainingProgramManager";
 import WeightReport from "../components/WeightReport";
 import Statistics from "./Statistics";
 import DailyResponsesTab from "../components/DailyResponsesTab";
+import WorkloadAlerts from "../components/WorkloadAlerts";
+import PRReviewQueue from "../components/PRReviewQueue";
+import SeasonCalendar from "../components/SeasonCalendar";
+import ExerciseLibrary from "../components/ExerciseLibrary";
+import ReadinessOverview from "../components/ReadinessOverview";
 
 type ManagerInvitation = Tables<"manager_invitations">;
 
@@ -719,6 +727,15 @@ function RecordsTab({
                 />
               </div>
             </div>
+            <div className="bg-blue-50 rounded-xl p-6 border border-blue-200">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                Estimated 1RM History
+              </h3>
+              <E1RMHistory
+                athleteId={selectedAthleteId}
+                refreshKey={prRefreshKey}
+              />
+            </div>
           </div>
         ) : (
           <div className="text-center py-12">
@@ -2379,6 +2396,23 @@ function ManagerDashboard({ profile: initialProfile }: Props) {
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
         {mainTab === "dashboard" ? (
           <>
+            {/* Workload-risk alerts */}
+            <WorkloadAlerts
+              managerId={profile.id}
+              athletes={athletes}
+              theme={theme}
+            />
+
+            {/* Personal records waiting for approval */}
+            <PRReviewQueue athletes={athletes} theme={theme} />
+
+            {/* Composite readiness from wellness check-ins */}
+            <ReadinessOverview
+              managerId={profile.id}
+              athletes={athletes}
+              theme={theme}
+            />
+
             {/* Form Status Settings */}
             <div
               className={clsx(
@@ -2643,6 +2677,78 @@ function ManagerDashboard({ profile: initialProfile }: Props) {
               </div>
             </div>
 
+            {/* Season Calendar Section */}
+            <div className="mb-12">
+              <div className="flex items-center gap-6 mb-8">
+                <div
+                  className={clsx(
+                    "p-5 rounded-3xl shadow-lg",
+                    theme === "dark"
+                      ? "bg-gradient-to-br from-blue-500/20 to-indigo-600/20 text-blue-400 ring-1 ring-blue-500/30"
+                      : "bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-blue-500/25"
+                  )}
+                >
+                  <CalendarRange className="w-7 h-7" />
+                </div>
+                <div>
+                  <h2
+                    className={clsx(
+                      "text-3xl font-bold tracking-tight",
+                      theme === "dark" ? "text-blue-100" : "text-blue-900"
+                    )}
+                  >
+                    Season Calendar
+                  </h2>
+                  <p
+                    className={clsx(
+                      "text-base mt-2",
+                      theme === "dark" ? "text-blue-200" : "text-blue-700"
+                    )}
+                  >
+                    Plan macro-, meso- and microcycles with phases and target
+                    loads
+                  </p>
+                </div>
+              </div>
+              <SeasonCalendar managerId={profile.id} theme={theme} />
+            </div>
+
+            {/* Exercise Library Section */}
+            <div className="mb-12">
+              <div className="flex items-center gap-6 mb-8">
+                <div
+                  className={clsx(
+                    "p-5 rounded-3xl shadow-lg",
+                    theme === "dark"
+                      ? "bg-gradient-to-br from-blue-500/20 to-indigo-600/20 text-blue-400 ring-1 ring-blue-500/30"
+                      : "bg-gradient-to-br from-blue-500 to-indigo-600 text-white shadow-blue-500/25"
+                  )}
+                >
+                  <Library className="w-7 h-7" />
+                </div>
+                <div>
+                  <h2
+                    className={clsx(
+                      "text-3xl font-bold tracking-tight",
+                      theme === "dark" ? "text-blue-100" : "text-blue-900"
+                    )}
+                  >
+                    Exercise Library
+                  </h2>
+                  <p
+                    className={clsx(
+                      "text-base mt-2",
+                      theme === "dark" ? "text-blue-200" : "text-blue-700"
+                    )}
+                  >
+                    Canonical exercise names used by programs, records and
+                    leaderboards
+                  </p>
+                </div>
+              </div>
+              <ExerciseLibrary managerId={profile.id} theme={theme} />
+            </div>
+
             {/* Training Programs Section */}
             <div className="mb-12">
               <div className="flex items-center gap-6 mb-8">
@@ -11,10 +11,21 @@ import {
   Menu,
   X,
   LogOut,
+  Medal,
+  Settings,
+  CalendarRange,
+  LineChart,
 } from "lucide-react";
 import PersonalRecordsChart from "../components/PersonalRecordsChart";
+import E1RMHistory from "../components/E1RMHistory";
 import PersonalRecordsTable from "../components/PersonalRecordsTable";
 import ManagerLeaderboard from "../components/ManagerLeaderboard";
+import StrengthStandards from "../components/StrengthStandards";
+import RecordHistory from "../components/RecordHistory";
+import PRVideoGallery from "../components/PRVideoGallery";
+import PRProgressionOverlay from "../components/PRProgressionOverlay";
+import LeaderboardScoringSettings from "../components/LeaderboardScoringSettings";
+import LeaderboardSeasons from "../components/LeaderboardSeasons";
 
 export default function Records() {
   const navigate = useNavigate();
@@ -34,7 +45,8 @@ export default function Records() {
     notes: "",
   });
   const [editingPRId, setEditingPRId] = useState<string | null>(null);
-  const [prRefreshKey] = useState(0);
+  const [prRefreshKey, setPRRefreshKey] = useState(0);
+  const [leaderboardRefreshKey, setLeaderboardRefreshKey] = useState(0);
 
   // Selected athlete for viewing records
   const [selectedAthleteId, setSelectedAthleteId] = useState<string>("");
@@ -253,7 +265,68 @@ export default function Records() {
                 Team Leaderboard
               </h2>
             </div>
-            <ManagerLeaderboard managerId={user.id} refreshKey={0} />
+            <ManagerLeaderboard
+              managerId={user.id}
+              refreshKey={leaderboardRefreshKey}
+            />
+          </div>
+        )}
+
+        {/* PR Progression Section */}
+        {profile.role === "manager" && (
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mb-8">
+            <div className="flex items-center gap-3 mb-6">
+              <LineChart className="w-6 h-6 text-blue-600" />
+              <h2 className="text-xl font-semibold text-gray-900">
+                PR Progression
+              </h2>
+            </div>
+            <PRProgressionOverlay managerId={user.id} athletes={athletes} />
+          </div>
+        )}
+
+        {/* Leaderboard Scoring Section */}
+        {profile.role === "manager" && (
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mb-8">
+            <div className="flex items-center gap-3 mb-6">
+              <Settings className="w-6 h-6 text-yellow-600" />
+              <h2 className="text-xl font-semibold text-gray-900">
+                Leaderboard Scoring
+              </h2>
+            </div>
+            <LeaderboardScoringSettings
+              managerId={user.id}
+              onSaved={() => setLeaderboardRefreshKey((key) => key + 1)}
+            />
+          </div>
+        )}
+
+        {/* Leaderboard Seasons Section */}
+        {profile.role === "manager" && (
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mb-8">
+            <div className="flex items-center gap-3 mb-6">
+              <CalendarRange className="w-6 h-6 text-yellow-600" />
+              <h2 className="text-xl font-semibold text-gray-900">
+                Leaderboard Seasons
+              </h2>
+            </div>
+            <LeaderboardSeasons
+              managerId={user.id}
+              onSaved={() => setLeaderboardRefreshKey((key) => key + 1)}
+            />
+          </div>
+        )}
+
+        {/* Strength Standards Section */}
+        {profile.role === "manager" && (
+          <div className="bg-white rounded-xl border border-gray-200 p-6 shadow-sm mb-8">
+            <div className="flex items-center gap-3 mb-6">
+              <Medal className="w-6 h-6 text-purple-600" />
+              <h2 className="text-xl font-semibold text-gray-900">
+                Strength Standards
+              </h2>
+            </div>
+            <StrengthStandards managerId={user.id} />
           </div>
         )}
 
@@ -323,6 +396,40 @@ export default function Records() {
                   />
                 </div>
               </div>
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  Estimated 1RM History
+                </h3>
+                <E1RMHistory
+                  athleteId={
+                    profile.role === "athlete" ? user.id : selectedAthleteId
+                  }
+                  refreshKey={prRefreshKey}
+                />
+              </div>
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  Lift Videos
+                </h3>
+                <PRVideoGallery
+                  athleteId={
+                    profile.role === "athlete" ? user.id : selectedAthleteId
+                  }
+                  refreshKey={prRefreshKey}
+                />
+              </div>
+              <div className="bg-gray-50 rounded-xl p-6 border border-gray-100">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                  Change History
+                </h3>
+                <RecordHistory
+                  athleteId={
+                    profile.role === "athlete" ? user.id : selectedAthleteId
+                  }
+                  refreshKey={prRefreshKey}
+                  onRestored={() => setPRRefreshKey((key) => key + 1)}
+                />
+              </div>
             </div>
           ) : (
             <div className="text-center py-12">
@@ -1,14 +1,29 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "../lib/supabase";
 import type {
   Profile,
   CustomMetric,
   MetricResponse,
-  TrainingType,
   TrainingSession,
   TrainingProgram,
+  TrainingCycle,
 } from "../lib/database.types";
+import {
+  ACWR_ZONE_ANNOTATIONS,
+  DEFAULT_EWMA_CONFIG,
+  addDays,
+  buildDailyLoads,
+  calculateACWRSeries,
+  calculateMonotony,
+  calculateRollingACWRSeries,
+  ewmaDecay,
+  getACWRColor,
+  summarizeWeeklyLoads,
+  TRAINING_TYPES,
+} from "../lib/trainingLoad";
+import type { ACWRModel, DailyLoad, EWMAConfig } from "../lib/trainingLoad";
+import { buildPhaseAnnotations, getCyclesForGroup } from "../lib/periodization";
 import { Bar, Line } from "react-chartjs-2";
 import {
   Chart as ChartJS,
@@ -34,6 +49,19 @@ import {
   ChevronDown,
 } from "lucide-react";
 import clsx from "clsx";
+import LoadVariationReport from "../components/LoadVariationReport";
+import TrainingTypeDistribution from "../components/TrainingTypeDistribution";
+import VolumeLoadReport from "../components/VolumeLoadReport";
+import WellnessLoadCorrelation from "../components/WellnessLoadCorrelation";
+import ComplianceReport from "../components/ComplianceReport";
+import {
+  calculateCompliance,
+  getExpectedDays,
+  getScheduleForGroup,
+} from "../lib/compliance";
+import { fetchTrainingSchedules } from "../services/compliance";
+import TeamLoadOverview from "../components/TeamLoadOverview";
+import PlannedVsActualLoad from "../components/PlannedVsActualLoad";
 
 // Register ChartJS components
 ChartJS.register(
@@ -85,6 +113,13 @@ interface AthleteTrainingLoad {
   data: TrainingLoadData[];
 }
 
+// Weeks of history fetched before the displayed week: the 4 earlier weeks
+// shown with it (5 in all) plus the 4-week chronic window each of them needs
+const LOAD_HISTORY_WEEKS = 8;
+
+// Number of days shown in the daily ACWR chart
+const DAILY_ACWR_DAYS = 28;
+
 // Add this constant at the top of the file with other constants
 const DAYS_OF_WEEK = [
   "Monday",
@@ -97,126 +132,6 @@ const DAYS_OF_WEEK = [
 ] as const;
 type DayOfWeek = (typeof DAYS_OF_WEEK)[number];
 
-// Add these helper functions before the component
-const calculateDailyLoad = async (
-  athleteId: string,
-  date: string
-): Promise<number> => {
-  const { data: sessions, error } = await supabase
-    .from("training_sessions")
-    .select("unit_load")
-    .eq("athlete_id", athleteId)
-    .eq("date", date);
-
-  if (error) {
-    console.error("Error fetching daily load:", error);
-    return 0;
-  }
-
-  return (
-    sessions?.reduce((sum, session) => sum + (session.unit_load || 0), 0) || 0
-  );
-};
-
-const calculateWeeklyLoad = async (
-  athleteId: string,
-  endDate: string
-): Promise<number> => {
-  const startDate = new Date(endDate);
-  startDate.setDate(startDate.getDate() - 6); // Get last 7 days including end date
-
-  const { data: sessions, error } = await supabase
-    .from("training_sessions")
-    .select("unit_load")
-    .eq("athlete_id", athleteId)
-    .gte("date", startDate.toISOString().split("T")[0])
-    .lte("date", endDate);
-
-  if (error) {
-    console.error("Error fetching weekly load:", error);
-    return 0;
-  }
-
-  return (
-    sessions?.reduce((sum, session) => sum + (session.unit_load || 0), 0) || 0
-  );
-};
-
-const calculateChronicLoad = async (
-  athleteId: string,
-  endDate: string
-): Promise<number> => {
-  const startDate = new Date(endDate);
-  startDate.setDate(startDate.getDate() - 27); // Get last 28 days including end date
-
-  const { data: sessions, error } = await supabase
-    .from("training_sessions")
-    .select("unit_load")
-    .eq("athlete_id", athleteId)
-    .gte("date", startDate.toISOString().split("T")[0])
-    .lte("date", endDate);
-
-  if (error) {
-    console.error("Error fetching chronic load:", error);
-    return 0;
-  }
-
-  const totalLoad =
-    sessions?.reduce((sum, session) => sum + (session.unit_load || 0), 0) || 0;
-  return sessions?.length ? totalLoad / 28 : 0; // Average over 28 days
-};
-
-const calculateACWR = (weeklyLoad: number, chronicLoad: number): number => {
-  return chronicLoad > 0 ? weeklyLoad / chronicLoad : 0;
-};
-
-const getACWRColor = (acwr: number): string => {
-  if (acwr >= 0.8 && acwr <= 1.3) return "text-green-600";
-  if ((acwr >= 0.6 && acwr < 0.8) || (acwr > 1.3 && acwr <= 1.5))
-    return "text-yellow-600";
-  return "text-red-600";
-};
-
-const calculateCompliance = async (
-  athleteId: string,
-  startDate: string,
-  endDate: string
-): Promise<number> => {
-  const start = new Date(startDate);
-  const end = new Date(endDate);
-  const totalDays =
-    Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-
-  const { data: sessions, error } = await supabase
-    .from("training_sessions")
-    .select("date")
-    .eq("athlete_id", athleteId)
-    .gte("date", startDate)
-    .lte("date", endDate);
-
-  if (error) {
-    console.error("Error fetching compliance data:", error);
-    return 0;
-  }
-
-  const uniqueDays = new Set(sessions?.map((s) => s.date));
-  return (uniqueDays.size / totalDays) * 100;
-};
-
-// Add this constant before the WeeklyLoadTable component
-const TRAINING_TYPES: { value: TrainingType; label: string }[] = [
-  { value: "regenerative", label: "Regenerative" },
-  { value: "interval_metabolic", label: "Interval Metabolic" },
-  { value: "technical_tactical", label: "Technical/Tactical" },
-  { value: "strength_power", label: "Strength/Power" },
-  { value: "speed_agility", label: "Speed/Agility" },
-  { value: "mobility_regenerative", label: "Mobility & Regenerative" },
-  { value: "competition", label: "Competition" },
-  { value: "injury_prevention", label: "Injury Prevention" },
-  { value: "other_activity", label: "Other Activity" },
-  { value: "travel", label: "Travel" },
-];
-
 interface WeeklyLoadTableProps {
   trainingSessions: TrainingSession[];
 }
@@ -243,29 +158,15 @@ const WeeklyLoadTable = ({ trainingSessions }: WeeklyLoadTableProps) => {
     "Saturday",
     "Sunday",
   ];
-  const weeklyLoad = Object.values(sessionsByDay).reduce(
-    (sum, day) => sum + (day.dailyLoad || 0),
-    0
-  );
-
-  // Calculate statistics with safety checks
+  // Calculate weekly load, standard deviation, monotony and strain
   const dailyLoads = days.map((day) => sessionsByDay[day]?.dailyLoad || 0);
-  const meanDailyLoad = weeklyLoad / 7;
-
-  // Calculate standard deviation with safety check
-  const standardDeviation = Math.sqrt(
-    dailyLoads.reduce(
-      (acc, load) => acc + Math.pow(load - meanDailyLoad, 2),
-      0
-    ) / 7
-  );
-
-  // Calculate training monotony with safety check for division by zero
-  const trainingMonotony =
-    standardDeviation === 0 ? 0 : meanDailyLoad / standardDeviation;
-
-  // Calculate strain
-  const strain = weeklyLoad * trainingMonotony;
+  const {
+    weeklyLoad,
+    meanDailyLoad,
+    standardDeviation,
+    monotony: trainingMonotony,
+    strain,
+  } = calculateMonotony(dailyLoads);
 
   return (
     <div className="bg-white rounded-xl shadow-sm overflow-hidden border border-gray-200">
@@ -406,9 +307,9 @@ const WeeklyLoadTable = ({ trainingSessions }: WeeklyLoadTableProps) => {
                 TRAINING MONOTONY
               </td>
               <td className="px-6 py-3 text-gray-900">
-                {!isNaN(trainingMonotony)
-                  ? trainingMonotony.toFixed(2)
-                  : "0.00"}
+                {trainingMonotony === null
+                  ? "n/a"
+                  : trainingMonotony.toFixed(2)}
               </td>
             </tr>
             <tr className="bg-blue-50 border border-blue-200">
@@ -419,7 +320,7 @@ const WeeklyLoadTable = ({ trainingSessions }: WeeklyLoadTableProps) => {
                 STRAIN
               </td>
               <td className="px-6 py-3 text-gray-900">
-                {!isNaN(strain) ? Math.round(strain) : 0}
+                {strain === null ? "n/a" : Math.round(strain)}
               </td>
             </tr>
           </tfoot>
@@ -429,20 +330,6 @@ const WeeklyLoadTable = ({ trainingSessions }: WeeklyLoadTableProps) => {
   );
 };
 
-// Add this helper function to calculate weekly loads for a given date range
-const getWeeklyLoad = (
-  sessions: TrainingSession[],
-  startDate: Date,
-  endDate: Date
-): number => {
-  return sessions
-    .filter((session) => {
-      const sessionDate = new Date(session.date);
-      return sessionDate >= startDate && sessionDate <= endDate;
-    })
-    .reduce((sum, session) => sum + (session.unit_load || 0), 0);
-};
-
 // Add these helper functions for date manipulation
 const getWeekDates = (date: Date) => {
   const monday = new Date(date);
@@ -684,6 +571,32 @@ export default function Statistics({ profile }: StatsProps) {
   const [planAExercises, setPlanAExercises] = useState<string[]>([]);
   const [planBExercises, setPlanBExercises] = useState<string[]>([]);
   const [allExerciseRecords, setAllExerciseRecords] = useState<any[]>([]);
+  const [dailyLoads, setDailyLoads] = useState<DailyLoad[]>([]);
+  const [acwrModel, setACWRModel] = useState<ACWRModel>("rolling");
+  const [ewmaConfig, setEWMAConfig] = useState<EWMAConfig>(DEFAULT_EWMA_CONFIG);
+  const [trainingCycles, setTrainingCycles] = useState<TrainingCycle[]>([]);
+
+  // Per-day acute/chronic loads for the selected model, recomputed locally so
+  // switching models or decay constants does not refetch sessions
+  const acwrSeries = useMemo(
+    () => calculateACWRSeries(dailyLoads, acwrModel, ewmaConfig),
+    [dailyLoads, acwrModel, ewmaConfig]
+  );
+  const dailyACWRSeries = acwrSeries.slice(-DAILY_ACWR_DAYS);
+  const weeklySummaries = useMemo(
+    () => summarizeWeeklyLoads(dailyLoads),
+    [dailyLoads]
+  );
+
+  // Periodization cycles that apply to the selected athlete's group
+  const athleteCycles = useMemo(
+    () =>
+      getCyclesForGroup(
+        trainingCycles,
+        athletes.find((a) => a.id === selectedAthlete)?.group_id
+      ),
+    [trainingCycles, athletes, selectedAthlete]
+  );
 
   // Add a new constant for the current week's end date string
   const currentWeekEndDateString = currentWeek?.end
@@ -767,8 +680,20 @@ export default function Statistics({ profile }: StatsProps) {
 
         if (metricsError) throw metricsError;
 
+        // Fetch periodization cycles
+        const { data: cyclesData, error: cyclesError } = await supabase
+          .from("training_cycles")
+          .select("*")
+          .eq("manager_id", profile.id)
+          .order("start_date");
+
+        if (cyclesError) {
+          console.error("Error fetching training cycles:", cyclesError);
+        }
+
         setAthletes(athletesData || []);
         setMetrics(metricsData || []);
+        setTrainingCycles(cyclesData || []);
 
         // Set the first athlete as default if there are athletes
         if (athletesData && athletesData.length > 0) {
@@ -824,24 +749,23 @@ export default function Statistics({ profile }: StatsProps) {
       // Reset training loads when starting a new fetch
       setTrainingLoads([]);
       setTrainingSessions([]);
+      setDailyLoads([]);
 
       // Ensure currentWeek is available before proceeding
       if (!currentWeek) return;
 
-      // Get date 5 weeks before the start date for ACWR calculation
+      // Get the history needed before the start date for ACWR calculation
       const startDate = new Date(currentWeek.start);
-      const fiveWeeksBeforeStart = new Date(startDate);
-      fiveWeeksBeforeStart.setDate(fiveWeeksBeforeStart.getDate() - 7 * 5);
-      const fiveWeeksBeforeStartStr = fiveWeeksBeforeStart
-        .toISOString()
-        .split("T")[0];
+      const historyStart = new Date(startDate);
+      historyStart.setDate(historyStart.getDate() - 7 * LOAD_HISTORY_WEEKS);
+      const historyStartStr = historyStart.toISOString().split("T")[0];
 
       // Fetch training sessions for selected athlete, including historical data for ACWR
       const { data: sessions, error: sessionsError } = await supabase
         .from("training_sessions")
         .select("*")
         .eq("athlete_id", selectedAthleteId)
-        .gte("date", fiveWeeksBeforeStartStr)
+        .gte("date", historyStartStr)
         .lte("date", currentWeek.end.toISOString().split("T")[0])
         .order("date");
 
@@ -864,82 +788,54 @@ export default function Statistics({ profile }: StatsProps) {
 
       // Only calculate and display training loads if there are sessions in the selected date range
       if (selectedAthlete && allSessions.length > 0) {
+        const { schedules, restDays } = await fetchTrainingSchedules(
+          profile.id
+        );
+        const schedule = getScheduleForGroup(
+          schedules,
+          selectedAthlete.group_id
+        );
+
         const loads: AthleteTrainingLoad[] = [];
         const athleteLoadData: TrainingLoadData[] = [];
 
-        // Iterate for the last 5 weeks (or as many as available up to range.start)
+        const allDailyLoads = buildDailyLoads(
+          allSessions,
+          historyStartStr,
+          currentWeek.end.toISOString().split("T")[0]
+        );
+        // Weekly values are read off the daily rolling series so the cards,
+        // charts and team overview share one ACWR definition
+        const rollingSeries = calculateRollingACWRSeries(allDailyLoads);
+
+        // Iterate for the last 5 weeks
         for (let i = 0; i < 5; i++) {
           const weekEndDate = new Date(currentWeek.end);
           weekEndDate.setDate(weekEndDate.getDate() - i * 7);
-          const weekStartDate = new Date(weekEndDate);
-          weekStartDate.setDate(weekStartDate.getDate() - 6);
-
-          // Ensure we don't go before the fetched data's earliest date
-          // For simplicity, we'll just calculate based on available sessions.
-          // A more robust solution might fetch more historical data if needed.
-
-          const currentWeeklyLoad = getWeeklyLoad(
-            allSessions,
-            weekStartDate,
-            weekEndDate
+          const weekPoint = rollingSeries.find(
+            (p) => p.date === weekEndDate.toISOString().split("T")[0]
           );
 
-          // Calculate previous 4 weeks' loads for chronic load relative to this week
-          const previousFourWeeksLoads: number[] = [];
-          for (let j = 1; j <= 4; j++) {
-            const prevWeekEnd = new Date(weekStartDate);
-            prevWeekEnd.setDate(prevWeekEnd.getDate() - 1);
-            const prevWeekStart = new Date(prevWeekEnd);
-            prevWeekStart.setDate(prevWeekStart.getDate() - 6);
-
-            const weekLoad = getWeeklyLoad(
-              allSessions,
-              prevWeekStart,
-              prevWeekEnd
-            );
-            previousFourWeeksLoads.push(weekLoad);
-          }
-
-          const chronicLoad =
-            previousFourWeeksLoads.length > 0
-              ? previousFourWeeksLoads.reduce((sum, load) => sum + load, 0) /
-                previousFourWeeksLoads.length
-              : 0;
-
-          const acwr = chronicLoad > 0 ? currentWeeklyLoad / chronicLoad : 0;
-
-          const dailyLoad = allSessions
-            .filter(
-              (session) =>
-                session.date === weekEndDate.toISOString().split("T")[0]
-            )
-            .reduce((sum, session) => sum + (session.unit_load || 0), 0);
-
-          // Calculate compliance for this specific week's end date (last 28 days from this end date)
-          const complianceEndDate = weekEndDate;
-          const complianceStartDate = new Date(complianceEndDate);
-          complianceStartDate.setDate(complianceStartDate.getDate() - 27);
-
-          const uniqueDates = new Set(
-            allSessions
-              .filter((session) => {
-                const sessionDate = new Date(session.date);
-                return (
-                  sessionDate >= complianceStartDate &&
-                  sessionDate <= complianceEndDate
-                );
-              })
-              .map((session) => session.date)
+          // Compliance over the 28 days up to this week's end date, measured
+          // against the sessions the athlete's schedule expected
+          const complianceEndStr = weekEndDate.toISOString().split("T")[0];
+          const { trainingCompliance: compliance } = calculateCompliance(
+            getExpectedDays(
+              schedule,
+              restDays,
+              addDays(complianceEndStr, -27),
+              complianceEndStr
+            ),
+            allSessions,
+            []
           );
 
-          const compliance = (uniqueDates.size / 28) * 100;
-
           athleteLoadData.push({
             date: weekEndDate.toISOString().split("T")[0],
-            dailyLoad,
-            weeklyLoad: currentWeeklyLoad,
-            chronicLoad,
-            acwr,
+            dailyLoad: weekPoint?.dailyLoad || 0,
+            weeklyLoad: weekPoint?.acuteLoad || 0,
+            chronicLoad: weekPoint?.chronicLoad || 0,
+            acwr: weekPoint?.acwr || 0,
             compliance,
           });
         }
@@ -956,6 +852,7 @@ export default function Statistics({ profile }: StatsProps) {
         });
 
         setTrainingLoads(loads);
+        setDailyLoads(allDailyLoads);
       }
 
       // Rest of the function for metric responses (use date range filter instead of current week)...
@@ -1267,15 +1164,88 @@ export default function Statistics({ profile }: StatsProps) {
           </div>
         </div>
 
+        {/* Team Load Overview */}
+        <TeamLoadOverview
+          managerId={profile.id}
+          athletes={athletes}
+          endDate={currentWeekEndDateString}
+          selectedAthlete={selectedAthlete}
+          onSelectAthlete={setSelectedAthlete}
+        />
+
         {/* Weekly Load Table */}
         <WeeklyLoadTable trainingSessions={trainingSessions} />
 
         {/* Training Load Analysis */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <TrendingUp className="h-5 w-5 mr-2 text-indigo-500" />
-            Training Load Analysis
-          </h2>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <TrendingUp className="h-5 w-5 mr-2 text-indigo-500" />
+              Training Load Analysis
+            </h2>
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+                {(
+                  [
+                    { value: "rolling", label: "Rolling Average" },
+                    { value: "ewma", label: "EWMA" },
+                  ] as { value: ACWRModel; label: string }[]
+                ).map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setACWRModel(option.value)}
+                    className={clsx(
+                      "px-3 py-1.5 text-sm font-medium",
+                      acwrModel === option.value
+                        ? "bg-indigo-600 text-white"
+                        : "bg-white text-gray-700 hover:bg-gray-50"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              {acwrModel === "ewma" && (
+                <>
+                  <label className="flex items-center text-sm text-gray-600">
+                    Acute (days)
+                    <input
+                      type="number"
+                      min={1}
+                      value={ewmaConfig.acuteDays}
+                      onChange={(e) =>
+                        setEWMAConfig({
+                          ...ewmaConfig,
+                          acuteDays: Math.max(1, Number(e.target.value) || 1),
+                        })
+                      }
+                      className="ml-2 w-16 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  </label>
+                  <label className="flex items-center text-sm text-gray-600">
+                    Chronic (days)
+                    <input
+                      type="number"
+                      min={1}
+                      value={ewmaConfig.chronicDays}
+                      onChange={(e) =>
+                        setEWMAConfig({
+                          ...ewmaConfig,
+                          chronicDays: Math.max(1, Number(e.target.value) || 1),
+                        })
+                      }
+                      className="ml-2 w-16 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                    />
+                  </label>
+                  <span className="text-xs text-gray-500">
+                    λ<sub>a</sub> = {ewmaDecay(ewmaConfig.acuteDays).toFixed(3)}
+                    , λ<sub>c</sub> ={" "}
+                    {ewmaDecay(ewmaConfig.chronicDays).toFixed(3)}
+                  </span>
+                </>
+              )}
+            </div>
+          </div>
 
           {trainingLoads.length > 0 ? (
             trainingLoads.map((athleteLoad) => {
@@ -1293,6 +1263,16 @@ export default function Statistics({ profile }: StatsProps) {
               );
               console.log("Found currentWeekData:", currentWeekData);
 
+              // ACWR for a week-end date according to the selected model
+              const getModelACWR = (data?: TrainingLoadData) => {
+                if (!data) return 0;
+                if (acwrModel === "rolling") return data.acwr;
+                return acwrSeries.find((p) => p.date === data.date)?.acwr || 0;
+              };
+              const currentEWMAPoint = acwrSeries.find(
+                (p) => p.date === currentWeekEndDateString
+              );
+
               return (
                 <div key={athleteLoad.athleteId} className="mb-8 last:mb-0">
                   <h3 className="text-md font-medium text-gray-900 mb-4">
@@ -1323,16 +1303,37 @@ export default function Statistics({ profile }: StatsProps) {
                       </p>
                     </div>
 
-                    <div className="bg-white border border-gray-200 p-4 rounded-lg shadow-sm">
-                      <h4 className="text-sm font-medium text-gray-600">
-                        Chronic Load
-                      </h4>
-                      <p className="text-2xl font-semibold text-gray-900">
-                        {athleteLoad.data
-                          .find((d) => d.date === currentWeekEndDateString)
-                          ?.chronicLoad.toFixed(0) || 0}
-                      </p>
-                    </div>
+                    {acwrModel === "rolling" ? (
+                      <div className="bg-white border border-gray-200 p-4 rounded-lg shadow-sm">
+                        <h4 className="text-sm font-medium text-gray-600">
+                          Chronic Load
+                        </h4>
+                        <p className="text-2xl font-semibold text-gray-900">
+                          {athleteLoad.data
+                            .find((d) => d.date === currentWeekEndDateString)
+                            ?.chronicLoad.toFixed(0) || 0}
+                        </p>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="bg-white border border-gray-200 p-4 rounded-lg shadow-sm">
+                          <h4 className="text-sm font-medium text-gray-600">
+                            Acute EWMA (AU/day)
+                          </h4>
+                          <p className="text-2xl font-semibold text-gray-900">
+                            {currentEWMAPoint?.acuteLoad.toFixed(0) || 0}
+                          </p>
+                        </div>
+                        <div className="bg-white border border-gray-200 p-4 rounded-lg shadow-sm">
+                          <h4 className="text-sm font-medium text-gray-600">
+                            Chronic EWMA (AU/day)
+                          </h4>
+                          <p className="text-2xl font-semibold text-gray-900">
+                            {currentEWMAPoint?.chronicLoad.toFixed(0) || 0}
+                          </p>
+                        </div>
+                      </>
+                    )}
 
                     <div className="bg-white border border-gray-200 p-4 rounded-lg shadow-sm">
                       <h4 className="text-sm font-medium text-gray-600">
@@ -1340,14 +1341,10 @@ export default function Statistics({ profile }: StatsProps) {
                       </h4>
                       <p
                         className={`text-2xl font-semibold ${getACWRColor(
-                          athleteLoad.data.find(
-                            (d) => d.date === currentWeekEndDateString
-                          )?.acwr || 0
+                          getModelACWR(currentWeekData)
                         )}`}
                       >
-                        {athleteLoad.data
-                          .find((d) => d.date === currentWeekEndDateString)
-                          ?.acwr.toFixed(2) || "0.00"}
+                        {getModelACWR(currentWeekData).toFixed(2)}
                       </p>
                     </div>
                   </div>
@@ -1364,7 +1361,9 @@ export default function Statistics({ profile }: StatsProps) {
                           datasets: [
                             {
                               label: "ACWR",
-                              data: athleteLoad.data.map((d) => d.acwr),
+                              data: athleteLoad.data.map((d) =>
+                                getModelACWR(d)
+                              ),
                               borderColor: "rgb(79, 70, 229)",
                               tension: 0.4,
                             },
@@ -1381,41 +1380,74 @@ export default function Statistics({ profile }: StatsProps) {
                           plugins: {
                             annotation: {
                               annotations: {
-                                greenZone: {
-                                  type: "box",
-                                  yMin: 0.8,
-                                  yMax: 1.3,
-                                  backgroundColor: "rgba(34, 197, 94, 0.1)",
-                                  borderWidth: 0,
-                                },
-                                yellowZone1: {
-                                  type: "box",
-                                  yMin: 0.6,
-                                  yMax: 0.8,
-                                  backgroundColor: "rgba(234, 179, 8, 0.1)",
-                                  borderWidth: 0,
-                                },
-                                yellowZone2: {
-                                  type: "box",
-                                  yMin: 1.3,
-                                  yMax: 1.5,
-                                  backgroundColor: "rgba(234, 179, 8, 0.1)",
-                                  borderWidth: 0,
-                                },
-                                redZone1: {
-                                  type: "box",
-                                  yMin: 0,
-                                  yMax: 0.6,
-                                  backgroundColor: "rgba(239, 68, 68, 0.1)",
-                                  borderWidth: 0,
-                                },
-                                redZone2: {
-                                  type: "box",
-                                  yMin: 1.5,
-                                  yMax: 2,
-                                  backgroundColor: "rgba(239, 68, 68, 0.1)",
-                                  borderWidth: 0,
-                                },
+                                ...buildPhaseAnnotations(
+                                  athleteCycles,
+                                  athleteLoad.data.map((d) => d.date)
+                                ),
+                                ...ACWR_ZONE_ANNOTATIONS,
+                              },
+                            },
+                          },
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Daily ACWR Chart */}
+                  <div className="mt-6">
+                    <h4 className="text-sm font-medium text-gray-500 mb-2">
+                      Daily ACWR (
+                      {acwrModel === "ewma" ? "EWMA" : "Rolling Average"}, last{" "}
+                      {DAILY_ACWR_DAYS} days)
+                    </h4>
+                    <div className="h-64">
+                      <Line
+                        data={{
+                          labels: dailyACWRSeries.map((d) => d.date),
+                          datasets: [
+                            {
+                              label: "ACWR",
+                              data: dailyACWRSeries.map((d) => d.acwr),
+                              borderColor: "rgb(79, 70, 229)",
+                              tension: 0.3,
+                              pointRadius: 2,
+                              yAxisID: "y",
+                            },
+                            {
+                              label: "Daily Load",
+                              data: dailyACWRSeries.map((d) => d.dailyLoad),
+                              borderColor: "rgba(148, 163, 184, 0.8)",
+                              backgroundColor: "rgba(148, 163, 184, 0.2)",
+                              fill: true,
+                              stepped: true,
+                              pointRadius: 0,
+                              yAxisID: "y1",
+                            },
+                          ],
+                        }}
+                        options={{
+                          maintainAspectRatio: false,
+                          scales: {
+                            y: {
+                              beginAtZero: true,
+                              max: 2,
+                              title: { display: true, text: "ACWR" },
+                            },
+                            y1: {
+                              beginAtZero: true,
+                              position: "right",
+                              grid: { drawOnChartArea: false },
+                              title: { display: true, text: "Load (AU)" },
+                            },
+                          },
+                          plugins: {
+                            annotation: {
+                              annotations: {
+                                ...buildPhaseAnnotations(
+                                  athleteCycles,
+                                  dailyACWRSeries.map((d) => d.date)
+                                ),
+                                ...ACWR_ZONE_ANNOTATIONS,
                               },
                             },
                           },
@@ -1435,6 +1467,66 @@ export default function Statistics({ profile }: StatsProps) {
           )}
         </div>
 
+        {/* Monotony, Strain and Weekly Variation */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <BarChart2 className="h-5 w-5 mr-2 text-indigo-500" />
+            Monotony, Strain &amp; Weekly Load Variation
+          </h2>
+          <LoadVariationReport
+            athleteName={
+              athletes.find((a) => a.id === selectedAthlete)?.full_name || ""
+            }
+            weeks={weeklySummaries}
+            cycles={athleteCycles}
+          />
+        </div>
+
+        {/* Load Distribution by Training Type */}
+        <TrainingTypeDistribution
+          managerId={profile.id}
+          athletes={athletes}
+          selectedAthlete={selectedAthlete}
+          startDate={dateRange.start}
+          endDate={dateRange.end}
+        />
+
+        {/* Volume Load and Intensity from logged sets */}
+        <VolumeLoadReport
+          managerId={profile.id}
+          athletes={athletes}
+          selectedAthlete={selectedAthlete}
+          startDate={dateRange.start}
+          endDate={dateRange.end}
+        />
+
+        {/* Schedule-based compliance */}
+        <ComplianceReport
+          managerId={profile.id}
+          athletes={athletes}
+          startDate={dateRange.start}
+          endDate={dateRange.end}
+        />
+
+        {/* Wellness vs. Training Load */}
+        <WellnessLoadCorrelation
+          managerId={profile.id}
+          athletes={athletes}
+          metrics={metrics}
+          selectedAthlete={selectedAthlete}
+          startDate={dateRange.start}
+          endDate={dateRange.end}
+        />
+
+        {/* Planned vs. Actual Load */}
+        {currentWeek && (
+          <PlannedVsActualLoad
+            managerId={profile.id}
+            athletes={athletes}
+            weekStart={formatDate(currentWeek.start)}
+          />
+        )}
+
         {/* Metric Charts - Only show if there's data */}
         {athleteStats.length > 0 && (
           <>
@@ -0,0 +1,31 @@
+import { supabase } from "../lib/supabase";
+import type { TrainingRestDay, TrainingSchedule } from "../lib/database.types";
+
+// All schedules of a manager (group schedules and the default) with their
+// planned rest days
+export const fetchTrainingSchedules = async (
+  managerId: string
+): Promise<{ schedules: TrainingSchedule[]; restDays: TrainingRestDay[] }> => {
+  const { data: schedules, error: schedulesError } = await supabase
+    .from("training_schedules")
+    .select("*")
+    .eq("manager_id", managerId);
+
+  if (schedulesError) throw schedulesError;
+  if (!schedules || schedules.length === 0) {
+    return { schedules: [], restDays: [] };
+  }
+
+  const { data: restDays, error: restDaysError } = await supabase
+    .from("training_rest_days")
+    .select("*")
+    .in(
+      "schedule_id",
+      schedules.map((s) => s.id)
+    )
+    .order("date");
+
+  if (restDaysError) throw restDaysError;
+
+  return { schedules, restDays: restDays || [] };
+};
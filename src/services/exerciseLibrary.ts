@@ -0,0 +1,33 @@
+import { supabase } from "../lib/supabase";
+import { sortExercises } from "../lib/exerciseLibrary";
+import type { Exercise } from "../lib/database.types";
+
+// Built-in exercises plus the manager's own, sorted by name
+export const fetchExerciseLibrary = async (
+  managerId: string | null
+): Promise<Exercise[]> => {
+  let query = supabase.from("exercises").select("*");
+  query = managerId
+    ? query.or(`manager_id.is.null,manager_id.eq.${managerId}`)
+    : query.is("manager_id", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return sortExercises(data || []);
+};
+
+// The library of an athlete's manager
+export const fetchAthleteExerciseLibrary = async (
+  athleteId: string
+): Promise<Exercise[]> => {
+  const { data: athlete, error } = await supabase
+    .from("profiles")
+    .select("manager_id")
+    .eq("id", athleteId)
+    .single();
+
+  if (error) throw error;
+
+  return fetchExerciseLibrary(athlete?.manager_id || null);
+};
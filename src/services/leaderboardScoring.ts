@@ -0,0 +1,53 @@
+import { supabase } from "../lib/supabase";
+import type { ScoringSettings } from "../lib/leaderboardScoring";
+import type { LeaderboardScoring } from "../lib/database.types";
+
+// The manager's default scoring and any per-group overrides
+export const fetchLeaderboardScoring = async (
+  managerId: string | null
+): Promise<LeaderboardScoring[]> => {
+  if (!managerId) return [];
+
+  const { data, error } = await supabase
+    .from("leaderboard_scoring")
+    .select("*")
+    .eq("manager_id", managerId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Saves the scoring for a group, or the manager's default without one
+export const saveLeaderboardScoring = async (
+  managerId: string,
+  groupId: string | null,
+  scoring: ScoringSettings
+): Promise<void> => {
+  const { error } = await supabase.from("leaderboard_scoring").upsert(
+    {
+      manager_id: managerId,
+      group_id: groupId,
+      scheme: scoring.scheme,
+      baseline_date:
+        scoring.scheme === "improvement" ? scoring.baseline_date : null,
+      exercise_weights: scoring.exercise_weights,
+    },
+    { onConflict: "manager_id,group_id" }
+  );
+
+  if (error) throw error;
+};
+
+// Drops a group's own scoring so it follows the manager's default again
+export const deleteGroupLeaderboardScoring = async (
+  managerId: string,
+  groupId: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from("leaderboard_scoring")
+    .delete()
+    .eq("manager_id", managerId)
+    .eq("group_id", groupId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,63 @@
+import { supabase } from "../lib/supabase";
+import type { LeaderboardSeason, SeasonSnapshot } from "../lib/database.types";
+
+export interface SeasonInput {
+  name: string;
+  group_id: string | null;
+  start_date: string;
+  end_date: string;
+}
+
+// The manager's seasons, latest first
+export const fetchLeaderboardSeasons = async (
+  managerId: string | null
+): Promise<LeaderboardSeason[]> => {
+  if (!managerId) return [];
+
+  const { data, error } = await supabase
+    .from("leaderboard_seasons")
+    .select("*")
+    .eq("manager_id", managerId)
+    .order("start_date", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The window and group of a frozen season stay as its snapshot was taken;
+// the database rejects changes to them
+export const saveLeaderboardSeason = async (
+  managerId: string,
+  season: SeasonInput,
+  id?: string
+): Promise<void> => {
+  const { error } = id
+    ? await supabase.from("leaderboard_seasons").update(season).eq("id", id)
+    : await supabase
+        .from("leaderboard_seasons")
+        .insert({ ...season, manager_id: managerId });
+
+  if (error) throw error;
+};
+
+export const deleteLeaderboardSeason = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("leaderboard_seasons")
+    .delete()
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+// Freezes the season's results so later records leave them unchanged
+export const archiveLeaderboardSeason = async (
+  id: string,
+  snapshot: SeasonSnapshot
+): Promise<void> => {
+  const { error } = await supabase
+    .from("leaderboard_seasons")
+    .update({ snapshot, archived_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+};
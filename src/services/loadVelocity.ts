@@ -0,0 +1,57 @@
+import { supabase } from "../lib/supabase";
+import type { LoadVelocityEntry } from "../lib/database.types";
+
+export type LoadVelocityInput = {
+  load: number;
+  velocity: number | null;
+  power: number | null;
+};
+
+// All of an athlete's load-velocity entries, oldest first
+export const fetchLoadVelocityEntries = async (
+  athleteId: string
+): Promise<LoadVelocityEntry[]> => {
+  const { data, error } = await supabase
+    .from("load_velocity_entries")
+    .select("*")
+    .eq("athlete_id", athleteId)
+    .order("date", { ascending: true })
+    .order("load", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Replaces the athlete's entries for one exercise and date
+export const saveLoadVelocitySession = async (
+  athleteId: string,
+  exercise: { id: string | null; name: string },
+  date: string,
+  rows: LoadVelocityInput[]
+): Promise<LoadVelocityEntry[]> => {
+  const { error: deleteError } = await supabase
+    .from("load_velocity_entries")
+    .delete()
+    .eq("athlete_id", athleteId)
+    .eq("exercise_name", exercise.name)
+    .eq("date", date);
+
+  if (deleteError) throw deleteError;
+  if (rows.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("load_velocity_entries")
+    .insert(
+      rows.map((row) => ({
+        athlete_id: athleteId,
+        exercise_id: exercise.id,
+        exercise_name: exercise.name,
+        date,
+        ...row,
+      }))
+    )
+    .select();
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,166 @@
+import { supabase } from "../lib/supabase";
+import {
+  estimateOneRepMax,
+  getFormulaLabel,
+  getPreferredFormula,
+} from "../lib/oneRepMax";
+import { withLibraryName } from "../lib/exerciseLibrary";
+import type { ProgressionRecord } from "../lib/prProgression";
+import type { Exercise, PRVerificationStatus } from "../lib/database.types";
+
+export interface PRSuggestion {
+  exercise: string;
+  weight: number;
+  reps: number;
+}
+
+// Heaviest set logged, the one with the most reps among equal weights
+const getHeaviestSet = (series: { weight: number; reps: number }[]) =>
+  series
+    .map((s) => ({ weight: Number(s.weight), reps: Number(s.reps) }))
+    .filter((s) => s.weight > 0 && s.reps > 0)
+    .reduce<{ weight: number; reps: number } | null>(
+      (best, set) =>
+        !best ||
+        set.weight > best.weight ||
+        (set.weight === best.weight && set.reps > best.reps)
+          ? set
+          : best,
+      null
+    );
+
+// Suggest a personal record when the heaviest set of a logged exercise beats
+// the athlete's current best (confirmed or still suggested; records the coach
+// rejected do not count). The record holds the weight actually lifted, with
+// the estimated 1RM in its notes. A pending suggestion for the same exercise
+// is raised instead of adding a second one. Only library exercises measured
+// in kg have personal records.
+export const suggestPersonalRecord = async (
+  athleteId: string,
+  exerciseRecordId: string,
+  exercise: Pick<Exercise, "id" | "name" | "unit_type">,
+  series: { weight: number; reps: number }[],
+  date: string
+): Promise<PRSuggestion | null> => {
+  if (exercise.unit_type !== "kg") return null;
+
+  const best = getHeaviestSet(series);
+  if (!best) return null;
+
+  const { data: existing, error } = await supabase
+    .from("personal_records")
+    .select("id, weight, status, verification_status")
+    .eq("athlete_id", athleteId)
+    .eq("exercise_id", exercise.id);
+
+  if (error) throw error;
+
+  const currentBest = Math.max(
+    0,
+    ...(existing || [])
+      .filter((r) => r.verification_status !== "rejected")
+      .map((r) => r.weight)
+  );
+  if (best.weight <= currentBest) return null;
+
+  const formula = getPreferredFormula();
+  const e1rm = estimateOneRepMax(best.weight, best.reps, formula);
+  const suggestion = {
+    weight: best.weight,
+    record_date: date,
+    source_record_id: exerciseRecordId,
+    notes:
+      `Logged ${best.weight} kg x ${best.reps}` +
+      (e1rm !== null && best.reps > 1
+        ? ` (estimated 1RM ${e1rm} kg, ${getFormulaLabel(formula)})`
+        : ""),
+  };
+
+  const pending = (existing || []).find((r) => r.status === "suggested");
+  const { error: saveError } = pending
+    ? await supabase
+        .from("personal_records")
+        .update(suggestion)
+        .eq("id", pending.id)
+    : await supabase.from("personal_records").insert({
+        ...suggestion,
+        athlete_id: athleteId,
+        exercise: exercise.name,
+        exercise_id: exercise.id,
+        video_url: "",
+        status: "suggested",
+      });
+
+  if (saveError) throw saveError;
+
+  return { exercise: exercise.name, weight: best.weight, reps: best.reps };
+};
+
+export interface PRForReview {
+  id: string;
+  athlete_id: string;
+  exercise: string;
+  weight: number;
+  record_date: string;
+  video_url: string;
+  notes: string | null;
+}
+
+// Confirmed records of the athletes still waiting for the coach, oldest
+// first
+export const fetchPRsForReview = async (
+  athleteIds: string[]
+): Promise<PRForReview[]> => {
+  if (athleteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("personal_records")
+    .select("id, athlete_id, exercise, weight, record_date, video_url, notes")
+    .in("athlete_id", athleteIds)
+    .eq("status", "confirmed")
+    .eq("verification_status", "pending")
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// The coach's decision on a record. Who reviewed it and when is stamped by
+// the verify_personal_record trigger.
+export const reviewPersonalRecord = async (
+  id: string,
+  status: Exclude<PRVerificationStatus, "pending">,
+  comment?: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from("personal_records")
+    .update({
+      verification_status: status,
+      verification_comment: status === "rejected" ? comment || null : null,
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+// Confirmed records of the athletes under their library names, oldest
+// first. Records the coach rejected are left out; pending ones are kept
+// for the chart to mark.
+export const fetchPRProgressionRecords = async (
+  athleteIds: string[]
+): Promise<ProgressionRecord[]> => {
+  if (athleteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("personal_records")
+    .select(
+      "athlete_id, exercise, weight, record_date, verification_status, exercises(name)"
+    )
+    .in("athlete_id", athleteIds)
+    .eq("status", "confirmed")
+    .neq("verification_status", "rejected")
+    .order("record_date", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(withLibraryName);
+};
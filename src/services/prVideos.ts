@@ -0,0 +1,197 @@
+import { supabase } from "../lib/supabase";
+import {
+  PR_VIDEO_BUCKET,
+  SIGNED_URL_TTL,
+  VIDEO_EXTENSIONS,
+  extractVideoThumbnail,
+  getThumbnailPath,
+  isStoredVideo,
+} from "../lib/prVideos";
+import type { PRVerificationStatus } from "../lib/database.types";
+
+// Uploads stay in storage this long before an unused one is removed, so a
+// record still being filled in keeps its video
+const UNUSED_UPLOAD_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const HISTORY_PAGE_SIZE = 1000;
+
+export interface PRVideo {
+  id: string;
+  exercise: string;
+  weight: number;
+  record_date: string;
+  video_url: string;
+  verification_status: PRVerificationStatus;
+}
+
+// Uploads a lift video and its thumbnail, returning the video's path. A
+// thumbnail that fails is left out; the video still counts.
+export const uploadPRVideo = async (
+  athleteId: string,
+  file: File
+): Promise<string> => {
+  const path = `${athleteId}/${Date.now()}.${VIDEO_EXTENSIONS[file.type]}`;
+  const { error } = await supabase.storage
+    .from(PR_VIDEO_BUCKET)
+    .upload(path, file, {
+      cacheControl: "3600",
+      contentType: file.type,
+      upsert: false,
+    });
+  if (error) throw error;
+
+  const thumbnail = await extractVideoThumbnail(file);
+  if (thumbnail) {
+    const { error: thumbnailError } = await supabase.storage
+      .from(PR_VIDEO_BUCKET)
+      .upload(getThumbnailPath(path), thumbnail, {
+        cacheControl: "3600",
+        contentType: "image/jpeg",
+        upsert: false,
+      });
+    if (thumbnailError) {
+      console.error("Error uploading video thumbnail:", thumbnailError);
+    }
+  }
+
+  return path;
+};
+
+// Removes a stored video and its thumbnail. External URLs are left alone.
+export const removePRVideo = async (ref: string): Promise<void> => {
+  if (!isStoredVideo(ref)) return;
+
+  const { error } = await supabase.storage
+    .from(PR_VIDEO_BUCKET)
+    .remove([ref, getThumbnailPath(ref)]);
+  if (error) throw error;
+};
+
+const createSignedUrls = async (
+  paths: string[]
+): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(PR_VIDEO_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL);
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || [])
+      .filter((d) => d.path && d.signedUrl && !d.error)
+      .map((d) => [d.path as string, d.signedUrl])
+  );
+};
+
+// Playable URLs of the videos, keyed by video_url. External URLs map to
+// themselves.
+export const getSignedVideoUrls = async (
+  refs: string[]
+): Promise<Record<string, string>> => {
+  const unique = Array.from(new Set(refs.filter(Boolean)));
+  const signed = await createSignedUrls(unique.filter(isStoredVideo));
+  return Object.fromEntries(
+    unique
+      .map((ref) => [ref, isStoredVideo(ref) ? signed[ref] : ref])
+      .filter(([, url]) => !!url)
+  );
+};
+
+// Thumbnail URLs of stored videos, keyed by video_url. Videos without a
+// thumbnail are missing from the result.
+export const getSignedThumbnailUrls = async (
+  refs: string[]
+): Promise<Record<string, string>> => {
+  const stored = Array.from(new Set(refs.filter(isStoredVideo)));
+  const signed = await createSignedUrls(stored.map(getThumbnailPath));
+  return Object.fromEntries(
+    stored
+      .filter((ref) => signed[getThumbnailPath(ref)])
+      .map((ref) => [ref, signed[getThumbnailPath(ref)]])
+  );
+};
+
+// Every personal record of the athlete that has a video, latest first
+export const fetchAthleteVideos = async (
+  athleteId: string
+): Promise<PRVideo[]> => {
+  const { data, error } = await supabase
+    .from("personal_records")
+    .select("id, exercise, weight, record_date, video_url, verification_status")
+    .eq("athlete_id", athleteId)
+    .neq("video_url", "")
+    .not("video_url", "is", null)
+    .order("record_date", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Videos in versions of the athlete's personal records kept by the record
+// history, which a restore can bring back. Read a page at a time so none
+// are cut off by the API's row limit.
+const fetchHistoryVideos = async (athleteId: string): Promise<string[]> => {
+  const videos: string[] = [];
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("record_history")
+      .select("old_data, new_data")
+      .eq("athlete_id", athleteId)
+      .eq("table_name", "personal_records")
+      .order("id")
+      .range(from, from + HISTORY_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    (data || []).forEach(({ old_data, new_data }) => {
+      [old_data, new_data].forEach((version) => {
+        const videoUrl = version?.video_url;
+        if (typeof videoUrl === "string") videos.push(videoUrl);
+      });
+    });
+    if (!data || data.length < HISTORY_PAGE_SIZE) return videos;
+  }
+};
+
+// Removes files in the athlete's folder that no personal record, current or
+// in its history, points to, such as uploads of records that were never
+// saved. Returns how many videos and thumbnails were removed.
+export const removeUnusedVideos = async (
+  athleteId: string
+): Promise<number> => {
+  const [filesResult, recordsResult, historyVideos] = await Promise.all([
+    supabase.storage.from(PR_VIDEO_BUCKET).list(athleteId, { limit: 1000 }),
+    supabase
+      .from("personal_records")
+      .select("video_url")
+      .eq("athlete_id", athleteId),
+    fetchHistoryVideos(athleteId),
+  ]);
+  if (filesResult.error) throw filesResult.error;
+  if (recordsResult.error) throw recordsResult.error;
+
+  const used = new Set<string>();
+  [
+    ...(recordsResult.data || []).map((r) => r.video_url),
+    ...historyVideos,
+  ].forEach((videoUrl) => {
+    if (isStoredVideo(videoUrl)) {
+      used.add(videoUrl);
+      used.add(getThumbnailPath(videoUrl));
+    }
+  });
+
+  const cutoff = Date.now() - UNUSED_UPLOAD_GRACE_MS;
+  const unused = (filesResult.data || [])
+    .map((file) => ({
+      path: `${athleteId}/${file.name}`,
+      createdAt: new Date(file.created_at).getTime(),
+    }))
+    .filter((file) => !used.has(file.path) && file.createdAt < cutoff)
+    .map((file) => file.path);
+  if (unused.length === 0) return 0;
+
+  const { error } = await supabase.storage.from(PR_VIDEO_BUCKET).remove(unused);
+  if (error) throw error;
+  return unused.length;
+};
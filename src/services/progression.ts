@@ -0,0 +1,98 @@
+import { supabase } from "../lib/supabase";
+import { getRecordSets } from "../lib/volumeLoad";
+import type { ProgressionDecision } from "../lib/database.types";
+
+type LoggedSet = { weight: number; reps: number };
+
+// Sets of the most recent session before `date` per exercise
+export const fetchLastSessions = async (
+  athleteId: string,
+  exercises: string[],
+  date: string
+): Promise<Record<string, LoggedSet[]>> => {
+  if (exercises.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("exercise_records")
+    .select("athlete_id, exercise_name, date, weight, reps, series_data")
+    .eq("athlete_id", athleteId)
+    .in("exercise_name", exercises)
+    .lt("date", date)
+    .order("date", { ascending: false });
+
+  if (error) throw error;
+
+  const sessions: Record<string, LoggedSet[]> = {};
+  (data || []).forEach((record) => {
+    if (sessions[record.exercise_name]) return;
+    const sets = getRecordSets(record);
+    if (sets.length > 0) sessions[record.exercise_name] = sets;
+  });
+  return sessions;
+};
+
+// The athlete's decisions for the day, keyed by exercise
+export const fetchProgressionDecisions = async (
+  athleteId: string,
+  date: string
+): Promise<Record<string, ProgressionDecision>> => {
+  const { data, error } = await supabase
+    .from("progression_decisions")
+    .select("*")
+    .eq("athlete_id", athleteId)
+    .eq("date", date);
+
+  if (error) throw error;
+
+  return Object.fromEntries(
+    (data || []).map((decision) => [decision.exercise_name, decision])
+  );
+};
+
+// Records whether a suggestion was accepted or overridden, replacing an
+// earlier decision for the same exercise and day
+export const saveProgressionDecision = async (
+  decision: Omit<
+    ProgressionDecision,
+    "id" | "reviewed_at" | "created_at" | "updated_at"
+  >
+): Promise<ProgressionDecision> => {
+  const { data, error } = await supabase
+    .from("progression_decisions")
+    .upsert(
+      { ...decision, reviewed_at: null },
+      { onConflict: "athlete_id,exercise_name,date" }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Overrides of the given athletes the coach has not reviewed yet, newest first
+export const fetchPendingOverrides = async (
+  athleteIds: string[]
+): Promise<ProgressionDecision[]> => {
+  if (athleteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("progression_decisions")
+    .select("*")
+    .in("athlete_id", athleteIds)
+    .eq("status", "overridden")
+    .is("reviewed_at", null)
+    .order("date", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const markOverrideReviewed = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("progression_decisions")
+    .update({ reviewed_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,57 @@
+import { supabase } from "../lib/supabase";
+import { addDays } from "../lib/trainingLoad";
+import {
+  READINESS_BASELINE_DAYS,
+  calculateReadinessScores,
+  getReadinessMetrics,
+} from "../lib/readiness";
+import type { ReadinessResponse, ReadinessScore } from "../lib/readiness";
+import type { CustomMetric } from "../lib/database.types";
+
+// PostgREST returns at most this many rows per request
+const RESPONSES_PAGE_SIZE = 1000;
+
+// Readiness scores for the given athletes and date range, using the
+// weights configured on the manager's rating metrics
+export const fetchReadinessScores = async (
+  managerId: string,
+  athleteIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<ReadinessScore[]> => {
+  if (athleteIds.length === 0) return [];
+
+  const { data: metricsData, error: metricsError } = await supabase
+    .from("custom_metrics")
+    .select("*")
+    .eq("manager_id", managerId);
+
+  if (metricsError) throw metricsError;
+
+  const metrics = getReadinessMetrics<CustomMetric>(metricsData || []);
+  if (metrics.length === 0) return [];
+
+  // A team's answers over the baseline window can exceed that limit, so
+  // they are read a page at a time in a stable order
+  const responses: ReadinessResponse[] = [];
+  for (let from = 0; ; from += RESPONSES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("metric_responses")
+      .select("athlete_id, metric_id, date, rating_value")
+      .in("athlete_id", athleteIds)
+      .in(
+        "metric_id",
+        metrics.map((m) => m.id)
+      )
+      .gte("date", addDays(startDate, -READINESS_BASELINE_DAYS))
+      .lte("date", endDate)
+      .order("id")
+      .range(from, from + RESPONSES_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    responses.push(...(data || []));
+    if (!data || data.length < RESPONSES_PAGE_SIZE) break;
+  }
+
+  return calculateReadinessScores(metrics, responses, startDate, endDate);
+};
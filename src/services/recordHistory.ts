@@ -0,0 +1,49 @@
+import { supabase } from "../lib/supabase";
+import type { HistoryTable, RecordHistoryEntry } from "../lib/database.types";
+
+const HISTORY_LIMIT = 200;
+
+// Latest changes to the athlete's records, newest first
+export const fetchRecordHistory = async (
+  athleteId: string,
+  table?: HistoryTable
+): Promise<RecordHistoryEntry[]> => {
+  let query = supabase
+    .from("record_history")
+    .select("*")
+    .eq("athlete_id", athleteId)
+    .order("changed_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (table) query = query.eq("table_name", table);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Names of the users who made the changes, keyed by id
+export const fetchHistoryAuthors = async (
+  entries: RecordHistoryEntry[]
+): Promise<Record<string, string>> => {
+  const ids = Array.from(
+    new Set(entries.map((e) => e.changed_by).filter((id): id is string => !!id))
+  );
+  if (ids.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("id, full_name")
+    .in("id", ids);
+
+  if (error) throw error;
+  return Object.fromEntries((data || []).map((p) => [p.id, p.full_name]));
+};
+
+// Puts the record back as it was before the change (see
+// restore_record_version)
+export const restoreRecordVersion = async (historyId: string) => {
+  const { error } = await supabase.rpc("restore_record_version", {
+    p_history_id: historyId,
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,121 @@
+import { supabase } from "../lib/supabase";
+import type { AthleteStrengthProfile } from "../lib/strength";
+import type {
+  Sex,
+  StrengthStandard,
+  StrengthTier,
+} from "../lib/database.types";
+
+// Weights and their dates are kept as parallel arrays, one row per athlete
+type WeightRecordRow = {
+  athlete_id: string;
+  weights: number[] | null;
+  weight_dates: string[] | null;
+};
+
+// Sex and logged body weights of the given athletes, to score their records
+export const fetchStrengthProfiles = async (
+  athleteIds: string[]
+): Promise<Record<string, AthleteStrengthProfile>> => {
+  if (athleteIds.length === 0) return {};
+
+  const [profilesResult, weightsResult] = await Promise.all([
+    supabase.from("profiles").select("id, sex").in("id", athleteIds),
+    supabase
+      .from("weight_records")
+      .select("athlete_id, weights, weight_dates")
+      .in("athlete_id", athleteIds),
+  ]);
+
+  if (profilesResult.error) throw profilesResult.error;
+  if (weightsResult.error) throw weightsResult.error;
+
+  const profiles: Record<string, AthleteStrengthProfile> = {};
+  athleteIds.forEach((id) => {
+    profiles[id] = {
+      sex: profilesResult.data?.find((p) => p.id === id)?.sex || null,
+      bodyWeights: [],
+    };
+  });
+
+  ((weightsResult.data || []) as unknown as WeightRecordRow[]).forEach(
+    (row) => {
+      const dates = row.weight_dates || [];
+      const bodyWeights = (row.weights || [])
+        .map((weight, i) => ({ weight: Number(weight), date: dates[i] }))
+        .filter((entry) => entry.date && entry.weight > 0);
+      if (profiles[row.athlete_id]) {
+        profiles[row.athlete_id].bodyWeights = bodyWeights;
+      }
+    }
+  );
+
+  return profiles;
+};
+
+export const fetchStrengthStandards = async (
+  managerId: string | null
+): Promise<StrengthStandard[]> => {
+  if (!managerId) return [];
+
+  const { data, error } = await supabase
+    .from("strength_standards")
+    .select("*")
+    .eq("manager_id", managerId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Saves the manager's tiers for an exercise and sex. No tiers removes the
+// standard, so built-in defaults apply again.
+export const saveStrengthStandard = async (
+  managerId: string,
+  exerciseId: string,
+  sex: Sex,
+  tiers: StrengthTier[]
+): Promise<void> => {
+  const { error } =
+    tiers.length === 0
+      ? await supabase
+          .from("strength_standards")
+          .delete()
+          .eq("manager_id", managerId)
+          .eq("exercise_id", exerciseId)
+          .eq("sex", sex)
+      : await supabase
+          .from("strength_standards")
+          .upsert(
+            { manager_id: managerId, exercise_id: exerciseId, sex, tiers },
+            { onConflict: "manager_id,exercise_id,sex" }
+          );
+
+  if (error) throw error;
+};
+
+export const updateAthleteSex = async (
+  athleteId: string,
+  sex: Sex | null
+): Promise<void> => {
+  const { error } = await supabase
+    .from("profiles")
+    .update({ sex })
+    .eq("id", athleteId);
+
+  if (error) throw error;
+};
+
+// The standards of an athlete's manager
+export const fetchAthleteStrengthStandards = async (
+  athleteId: string
+): Promise<StrengthStandard[]> => {
+  const { data: athlete, error } = await supabase
+    .from("profiles")
+    .select("manager_id")
+    .eq("id", athleteId)
+    .single();
+
+  if (error) throw error;
+
+  return fetchStrengthStandards(athlete?.manager_id || null);
+};
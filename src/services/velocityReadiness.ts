@@ -0,0 +1,120 @@
+import { supabase } from "../lib/supabase";
+import { addDays } from "../lib/trainingLoad";
+import {
+  DEFAULT_MIN_VELOCITY_THRESHOLD,
+  buildLoadVelocityProfiles,
+} from "../lib/loadVelocity";
+import {
+  PROFILE_MAX_AGE_DAYS,
+  VELOCITY_BASELINE_DAYS,
+  calculateVelocityReadiness,
+} from "../lib/velocityReadiness";
+import type {
+  ReadinessProfile,
+  VelocityReadiness,
+} from "../lib/velocityReadiness";
+import type { VelocityCheck } from "../lib/database.types";
+
+// Latest recent load-velocity profile per athlete and exercise checked, used
+// to turn a velocity drop into a load adjustment
+const fetchReadinessProfiles = async (
+  athleteIds: string[],
+  exerciseNames: string[],
+  startDate: string,
+  endDate: string
+): Promise<Record<string, ReadinessProfile>> => {
+  const { data, error } = await supabase
+    .from("load_velocity_entries")
+    .select("athlete_id, exercise_name, date, load, velocity")
+    .in("athlete_id", athleteIds)
+    .in("exercise_name", exerciseNames)
+    .gte("date", addDays(startDate, -PROFILE_MAX_AGE_DAYS))
+    .lte("date", endDate);
+
+  if (error) throw error;
+
+  const groups: Record<string, NonNullable<typeof data>> = {};
+  (data || []).forEach((entry) => {
+    const key = `${entry.athlete_id}:${entry.exercise_name}`;
+    groups[key] = groups[key] || [];
+    groups[key].push(entry);
+  });
+
+  return Object.fromEntries(
+    Object.entries(groups)
+      .map(([key, entries]) => {
+        const profiles = buildLoadVelocityProfiles(
+          entries,
+          DEFAULT_MIN_VELOCITY_THRESHOLD
+        );
+        return [key, profiles[profiles.length - 1]] as const;
+      })
+      .filter(([, profile]) => profile !== undefined)
+  );
+};
+
+// Velocity readiness for the given athletes and date range
+export const fetchVelocityReadiness = async (
+  athleteIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<VelocityReadiness[]> => {
+  if (athleteIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("velocity_checks")
+    .select("athlete_id, exercise_name, date, load, velocity")
+    .in("athlete_id", athleteIds)
+    .gte("date", addDays(startDate, -VELOCITY_BASELINE_DAYS))
+    .lte("date", endDate);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const profiles = await fetchReadinessProfiles(
+    athleteIds,
+    Array.from(new Set(data.map((c) => c.exercise_name))),
+    startDate,
+    endDate
+  );
+  return calculateVelocityReadiness(data, startDate, endDate, profiles);
+};
+
+// The athlete's most recent check, to prefill the exercise and standard load
+export const fetchLatestVelocityCheck = async (
+  athleteId: string
+): Promise<VelocityCheck | null> => {
+  const { data, error } = await supabase
+    .from("velocity_checks")
+    .select("*")
+    .eq("athlete_id", athleteId)
+    .order("date", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Records the day's check, replacing an earlier one for the same day
+export const saveVelocityCheck = async (
+  athleteId: string,
+  exercise: { id: string | null; name: string },
+  date: string,
+  load: number,
+  velocity: number
+): Promise<void> => {
+  const { error } = await supabase.from("velocity_checks").upsert(
+    {
+      athlete_id: athleteId,
+      exercise_id: exercise.id,
+      exercise_name: exercise.name,
+      date,
+      load,
+      velocity,
+    },
+    { onConflict: "athlete_id,date" }
+  );
+
+  if (error) throw error;
+};
@@ -0,0 +1,273 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+// Used when a manager has not saved their own thresholds
+const DEFAULT_SETTINGS = {
+  acwr_min: 0.8,
+  acwr_max: 1.3,
+  weekly_change_threshold: 15,
+  email_notifications: true,
+};
+
+interface AlertInsert {
+  manager_id: string;
+  athlete_id: string;
+  alert_type: "acwr_high" | "acwr_low" | "load_spike";
+  date: string;
+  value: number;
+  threshold: number;
+  message: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 204,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    console.log("Starting workload alert check...");
+    const startTime = Date.now();
+
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    // The check runs early in the morning, before anyone has logged today's
+    // sessions, so it looks at the last completed day
+    const checkDay = new Date();
+    checkDay.setUTCDate(checkDay.getUTCDate() - 1);
+    const checkDate = checkDay.toISOString().split("T")[0];
+    const lastWeek = new Date(checkDay);
+    lastWeek.setUTCDate(lastWeek.getUTCDate() - 7);
+    const lastWeekDate = lastWeek.toISOString().split("T")[0];
+
+    const { data: managers, error: managersError } = await supabaseClient
+      .from("profiles")
+      .select("id, email, full_name")
+      .eq("role", "manager");
+
+    if (managersError) {
+      console.error("Error fetching managers:", managersError);
+      throw managersError;
+    }
+
+    const { data: allSettings } = await supabaseClient
+      .from("workload_alert_settings")
+      .select("*");
+
+    // Track statistics
+    let alertsCreated = 0;
+    let emailsSent = 0;
+    let errors = 0;
+
+    for (const manager of managers || []) {
+      try {
+        const settings = {
+          ...DEFAULT_SETTINGS,
+          ...(allSettings || []).find((s) => s.manager_id === manager.id),
+        };
+
+        // Loads for the checked day and the same day last week (for week-over-week change)
+        const { data: loads, error: loadsError } = await supabaseClient.rpc(
+          "get_team_training_loads",
+          {
+            p_manager_id: manager.id,
+            p_start_date: lastWeekDate,
+            p_end_date: checkDate,
+          }
+        );
+
+        if (loadsError) {
+          console.error(
+            `Error fetching loads for manager ${manager.id}:`,
+            loadsError
+          );
+          errors++;
+          continue;
+        }
+
+        const { data: athletes } = await supabaseClient
+          .from("profiles")
+          .select("id, full_name")
+          .eq("manager_id", manager.id)
+          .eq("role", "athlete");
+
+        const alerts: AlertInsert[] = [];
+        for (const athlete of athletes || []) {
+          const current = (loads || []).find(
+            (l) => l.athlete_id === athlete.id && l.date === checkDate
+          );
+          const previous = (loads || []).find(
+            (l) => l.athlete_id === athlete.id && l.date === lastWeekDate
+          );
+          if (!current) continue;
+
+          const acwr = Number(current.acwr);
+          const chronicLoad = Number(current.chronic_load);
+          const weeklyLoad = Number(current.weekly_load);
+          const previousWeeklyLoad = Number(previous?.weekly_load) || 0;
+
+          if (chronicLoad > 0 && acwr > settings.acwr_max) {
+            alerts.push({
+              manager_id: manager.id,
+              athlete_id: athlete.id,
+              alert_type: "acwr_high",
+              date: checkDate,
+              value: acwr,
+              threshold: settings.acwr_max,
+              message: `${athlete.full_name}'s ACWR is ${acwr.toFixed(
+                2
+              )}, above ${settings.acwr_max}`,
+            });
+          } else if (chronicLoad > 0 && acwr < settings.acwr_min) {
+            alerts.push({
+              manager_id: manager.id,
+              athlete_id: athlete.id,
+              alert_type: "acwr_low",
+              date: checkDate,
+              value: acwr,
+              threshold: settings.acwr_min,
+              message: `${athlete.full_name}'s ACWR is ${acwr.toFixed(
+                2
+              )}, below ${settings.acwr_min}`,
+            });
+          }
+
+          if (previousWeeklyLoad > 0) {
+            const change =
+              ((weeklyLoad - previousWeeklyLoad) / previousWeeklyLoad) * 100;
+            if (change > settings.weekly_change_threshold) {
+              alerts.push({
+                manager_id: manager.id,
+                athlete_id: athlete.id,
+                alert_type: "load_spike",
+                date: checkDate,
+                value: Math.round(change * 10) / 10,
+                threshold: settings.weekly_change_threshold,
+                message: `${athlete.full_name}'s weekly load rose ${change.toFixed(
+                  0
+                )}% (${Math.round(previousWeeklyLoad)} → ${Math.round(
+                  weeklyLoad
+                )})`,
+              });
+            }
+          }
+        }
+
+        if (alerts.length === 0) continue;
+
+        // Existing alerts for the same athlete, type and day are left untouched
+        const { data: inserted, error: insertError } = await supabaseClient
+          .from("workload_alerts")
+          .upsert(alerts, {
+            onConflict: "athlete_id,alert_type,date",
+            ignoreDuplicates: true,
+          })
+          .select("id, message");
+
+        if (insertError) {
+          console.error(
+            `Error saving alerts for manager ${manager.id}:`,
+            insertError
+          );
+          errors++;
+          continue;
+        }
+
+        alertsCreated += inserted?.length || 0;
+
+        if (!inserted?.length || !settings.email_notifications) continue;
+
+        const { error: emailError } = await supabaseClient.functions.invoke(
+          "send-email",
+          {
+            body: {
+              to: [manager.email],
+              subject: `TrackBack: ${inserted.length} workload alert${
+                inserted.length === 1 ? "" : "s"
+              }`,
+              text: `
+Hi ${manager.full_name},
+
+The following athletes need your attention:
+
+${inserted.map((alert) => `- ${alert.message}`).join("\n")}
+
+Open your TrackBack dashboard to review and acknowledge these alerts.
+
+Best regards,
+The TrackBack Team
+              `,
+            },
+          }
+        );
+
+        if (emailError) {
+          console.error(`Error emailing manager ${manager.id}:`, emailError);
+          errors++;
+          continue;
+        }
+
+        emailsSent++;
+        await supabaseClient
+          .from("workload_alerts")
+          .update({ notified_at: new Date().toISOString() })
+          .in(
+            "id",
+            inserted.map((alert) => alert.id)
+          );
+      } catch (error) {
+        console.error(`Error processing manager ${manager.id}:`, error);
+        errors++;
+      }
+    }
+
+    const executionTime = Date.now() - startTime;
+    console.log(`
+Workload alert check completed:
+- Execution time: ${executionTime}ms
+- Alerts created: ${alertsCreated}
+- Emails sent: ${emailsSent}
+- Errors encountered: ${errors}
+    `);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        statistics: {
+          executionTime,
+          alertsCreated,
+          emailsSent,
+          errors,
+        },
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error in check-workload-alerts function:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+      }),
+      {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,96 @@
+-- Aggregate training load on the server so Statistics can load a whole team
+-- in a single request instead of one query per athlete and metric
+
+-- Daily totals per athlete (AM + PM sessions summed)
+CREATE OR REPLACE VIEW public.daily_training_loads
+WITH (security_invoker = true) AS
+SELECT
+    athlete_id,
+    date,
+    SUM(COALESCE(unit_load, 0))::NUMERIC AS daily_load,
+    SUM(COALESCE(duration, 0))::NUMERIC AS total_duration,
+    COUNT(*)::INTEGER AS session_count
+FROM public.training_sessions
+GROUP BY athlete_id, date;
+
+COMMENT ON VIEW public.daily_training_loads IS 'Sum of unit_load and duration per athlete and day';
+
+-- Index used by the view and the range queries below
+CREATE INDEX IF NOT EXISTS idx_training_sessions_athlete_date
+ON public.training_sessions(athlete_id, date);
+
+-- Per-athlete, per-day load figures for every athlete of a manager.
+-- weekly_load: rolling 7-day sum
+-- chronic_load: average weekly load of the 28 days before the 7-day window
+--   (uncoupled, as calculateRollingACWRSeries in trainingLoad.ts)
+-- acwr: weekly_load / chronic_load
+-- compliance: % of the last 28 days with at least one logged session
+CREATE OR REPLACE FUNCTION public.get_team_training_loads(
+    p_manager_id UUID,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS TABLE (
+    athlete_id UUID,
+    date DATE,
+    daily_load NUMERIC,
+    weekly_load NUMERIC,
+    chronic_load NUMERIC,
+    acwr NUMERIC,
+    compliance NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH athletes AS (
+        SELECT id
+        FROM public.profiles
+        WHERE manager_id = p_manager_id AND role = 'athlete'
+    ),
+    days AS (
+        -- Include 34 days before the range so the first day has a full chronic window
+        SELECT generate_series(p_start_date - 34, p_end_date, INTERVAL '1 day')::DATE AS date
+    ),
+    loads AS (
+        SELECT
+            a.id AS athlete_id,
+            d.date,
+            COALESCE(l.daily_load, 0) AS daily_load,
+            (l.athlete_id IS NOT NULL) AS trained
+        FROM athletes a
+        CROSS JOIN days d
+        LEFT JOIN public.daily_training_loads l
+            ON l.athlete_id = a.id AND l.date = d.date
+    ),
+    windowed AS (
+        SELECT
+            athlete_id,
+            date,
+            daily_load,
+            SUM(daily_load) OVER w7 AS weekly_load,
+            COALESCE(SUM(daily_load) OVER chronic, 0) / 4 AS chronic_load,
+            COUNT(*) FILTER (WHERE trained) OVER w28 AS days_trained
+        FROM loads
+        WINDOW
+            w7 AS (PARTITION BY athlete_id ORDER BY date ROWS BETWEEN 6 PRECEDING AND CURRENT ROW),
+            chronic AS (PARTITION BY athlete_id ORDER BY date ROWS BETWEEN 34 PRECEDING AND 7 PRECEDING),
+            w28 AS (PARTITION BY athlete_id ORDER BY date ROWS BETWEEN 27 PRECEDING AND CURRENT ROW)
+    )
+    SELECT
+        athlete_id,
+        date,
+        daily_load,
+        weekly_load,
+        chronic_load,
+        CASE WHEN chronic_load > 0 THEN ROUND(weekly_load / chronic_load, 2) ELSE 0 END AS acwr,
+        ROUND(days_trained * 100.0 / 28, 1) AS compliance
+    FROM windowed
+    WHERE date BETWEEN p_start_date AND p_end_date
+    ORDER BY athlete_id, date;
+$$;
+
+COMMENT ON FUNCTION public.get_team_training_loads IS 'Daily, weekly, chronic, ACWR and compliance figures for all athletes of a manager in a date range';
+
+GRANT SELECT ON public.daily_training_loads TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_team_training_loads(UUID, DATE, DATE) TO authenticated;
@@ -0,0 +1,113 @@
+-- Planned weekly session-RPE load per athlete group
+CREATE TABLE IF NOT EXISTS public.planned_training_loads (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES public.athlete_groups(id) ON DELETE CASCADE,
+    week_start DATE NOT NULL, -- Monday of the planned week
+    planned_load NUMERIC NOT NULL DEFAULT 0 CHECK (planned_load >= 0),
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (group_id, week_start)
+);
+
+-- Optional planned sessions; when present their load replaces planned_load
+CREATE TABLE IF NOT EXISTS public.planned_training_sessions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    plan_id UUID NOT NULL REFERENCES public.planned_training_loads(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    session VARCHAR(2) NOT NULL DEFAULT 'AM' CHECK (session IN ('AM', 'PM')),
+    training_type TEXT,
+    duration INTEGER NOT NULL CHECK (duration > 0), -- minutes
+    target_rpe INTEGER NOT NULL CHECK (target_rpe BETWEEN 1 AND 10),
+    planned_load NUMERIC GENERATED ALWAYS AS (duration * target_rpe) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_planned_training_loads_manager_id ON public.planned_training_loads(manager_id);
+CREATE INDEX IF NOT EXISTS idx_planned_training_loads_group_week ON public.planned_training_loads(group_id, week_start);
+CREATE INDEX IF NOT EXISTS idx_planned_training_sessions_plan_id ON public.planned_training_sessions(plan_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.planned_training_loads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.planned_training_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Managers manage the plans of their own groups
+CREATE POLICY "Managers can manage their planned loads" ON public.planned_training_loads
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (
+        auth.uid() = manager_id
+        AND EXISTS (
+            SELECT 1 FROM public.athlete_groups g
+            WHERE g.id = planned_training_loads.group_id AND g.manager_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Managers can manage their planned sessions" ON public.planned_training_sessions
+    FOR ALL USING (
+        plan_id IN (
+            SELECT id FROM public.planned_training_loads WHERE manager_id = auth.uid()
+        )
+    ) WITH CHECK (
+        plan_id IN (
+            SELECT id FROM public.planned_training_loads WHERE manager_id = auth.uid()
+        )
+    );
+
+-- Athletes can view the plan of their group
+CREATE POLICY "Athletes can view their group planned loads" ON public.planned_training_loads
+    FOR SELECT USING (
+        group_id IN (
+            SELECT group_id FROM public.profiles
+            WHERE id = auth.uid() AND group_id IS NOT NULL
+        )
+    );
+
+CREATE POLICY "Athletes can view their group planned sessions" ON public.planned_training_sessions
+    FOR SELECT USING (
+        plan_id IN (
+            SELECT ptl.id FROM public.planned_training_loads ptl
+            JOIN public.profiles p ON p.group_id = ptl.group_id
+            WHERE p.id = auth.uid()
+        )
+    );
+
+CREATE TRIGGER update_planned_training_loads_updated_at
+    BEFORE UPDATE ON public.planned_training_loads
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Saves a group's plan for a week and replaces its planned sessions in one
+-- transaction. Runs with the caller's rights, so the policies above apply.
+-- p_sessions: [{ "date", "session", "training_type", "duration", "target_rpe" }]
+CREATE OR REPLACE FUNCTION public.save_planned_training_load(
+    p_group_id UUID,
+    p_week_start DATE,
+    p_planned_load NUMERIC,
+    p_notes TEXT,
+    p_sessions JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    v_plan_id UUID;
+BEGIN
+    INSERT INTO public.planned_training_loads (manager_id, group_id, week_start, planned_load, notes)
+    VALUES (auth.uid(), p_group_id, p_week_start, p_planned_load, p_notes)
+    ON CONFLICT (group_id, week_start) DO UPDATE
+        SET planned_load = EXCLUDED.planned_load,
+            notes = EXCLUDED.notes
+    RETURNING id INTO v_plan_id;
+
+    DELETE FROM public.planned_training_sessions WHERE plan_id = v_plan_id;
+
+    INSERT INTO public.planned_training_sessions (plan_id, date, session, training_type, duration, target_rpe)
+    SELECT v_plan_id, s.date, s.session, s.training_type, s.duration, s.target_rpe
+    FROM jsonb_to_recordset(COALESCE(p_sessions, '[]'::jsonb))
+        AS s(date DATE, session VARCHAR(2), training_type TEXT, duration INTEGER, target_rpe INTEGER);
+
+    RETURN v_plan_id;
+END;
+$$;
@@ -0,0 +1,66 @@
+-- Per-manager thresholds for workload-risk alerts
+CREATE TABLE IF NOT EXISTS public.workload_alert_settings (
+    manager_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+    acwr_min NUMERIC NOT NULL DEFAULT 0.8,
+    acwr_max NUMERIC NOT NULL DEFAULT 1.3,
+    weekly_change_threshold NUMERIC NOT NULL DEFAULT 15, -- % increase vs previous week
+    email_notifications BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (acwr_min < acwr_max)
+);
+
+-- Alerts raised by the check-workload-alerts edge function
+CREATE TABLE IF NOT EXISTS public.workload_alerts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    athlete_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    alert_type TEXT NOT NULL CHECK (alert_type IN ('acwr_high', 'acwr_low', 'load_spike')),
+    date DATE NOT NULL,
+    value NUMERIC NOT NULL,
+    threshold NUMERIC NOT NULL,
+    message TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'acknowledged')),
+    notified_at TIMESTAMP WITH TIME ZONE,
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (athlete_id, alert_type, date)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_workload_alerts_manager_status ON public.workload_alerts(manager_id, status);
+CREATE INDEX IF NOT EXISTS idx_workload_alerts_athlete_date ON public.workload_alerts(athlete_id, date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.workload_alert_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workload_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage their alert settings" ON public.workload_alert_settings
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+CREATE POLICY "Managers can view their alerts" ON public.workload_alerts
+    FOR SELECT USING (auth.uid() = manager_id);
+
+CREATE POLICY "Managers can acknowledge their alerts" ON public.workload_alerts
+    FOR UPDATE USING (auth.uid() = manager_id);
+
+CREATE TRIGGER update_workload_alert_settings_updated_at
+    BEFORE UPDATE ON public.workload_alert_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Check every athlete's workload once a day
+SELECT cron.schedule(
+  'check-workload-alerts',
+  '0 6 * * *',
+  $$
+  SELECT net.http_post(
+    'https://' || (SELECT value FROM secrets.decrypted WHERE key = 'SUPABASE_URL') || '/functions/v1/check-workload-alerts',
+    '{}',
+    'application/json',
+    ARRAY[
+      ('Authorization', 'Bearer ' || (SELECT value FROM secrets.decrypted WHERE key = 'SUPABASE_SERVICE_ROLE_KEY'))::http_header
+    ]
+  );
+  $$
+);
@@ -0,0 +1,56 @@
+-- Season periodization: macro-, meso- and microcycles with phases and target loads
+CREATE TABLE IF NOT EXISTS public.training_cycles (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    group_id UUID REFERENCES public.athlete_groups(id) ON DELETE SET NULL, -- NULL means all groups
+    parent_id UUID REFERENCES public.training_cycles(id) ON DELETE CASCADE,
+    level TEXT NOT NULL CHECK (level IN ('macro', 'meso', 'micro')),
+    name VARCHAR(255) NOT NULL,
+    phase TEXT NOT NULL CHECK (phase IN ('preparation', 'pre_competition', 'competition', 'taper', 'transition')),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    target_load NUMERIC CHECK (target_load >= 0), -- weekly session-RPE load target
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (start_date <= end_date)
+);
+
+-- Link training programs to the cycle they belong to
+ALTER TABLE public.training_programs
+ADD COLUMN IF NOT EXISTS cycle_id UUID REFERENCES public.training_cycles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.training_programs.cycle_id IS 'Periodization cycle this program is used in. NULL means not linked to a cycle.';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_training_cycles_manager_dates ON public.training_cycles(manager_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_training_cycles_group_id ON public.training_cycles(group_id);
+CREATE INDEX IF NOT EXISTS idx_training_cycles_parent_id ON public.training_cycles(parent_id);
+CREATE INDEX IF NOT EXISTS idx_training_programs_cycle_id ON public.training_programs(cycle_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.training_cycles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage their training cycles" ON public.training_cycles
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+-- Athletes can view the cycles of their group and those for all groups
+CREATE POLICY "Athletes can view their training cycles" ON public.training_cycles
+    FOR SELECT USING (
+        manager_id IN (
+            SELECT manager_id FROM public.profiles
+            WHERE id = auth.uid() AND role = 'athlete'
+        )
+        AND (
+            group_id IS NULL OR
+            group_id IN (
+                SELECT group_id FROM public.profiles
+                WHERE id = auth.uid() AND group_id IS NOT NULL
+            )
+        )
+    );
+
+CREATE TRIGGER update_training_cycles_updated_at
+    BEFORE UPDATE ON public.training_cycles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Readiness score configuration on rating metrics
+ALTER TABLE public.custom_metrics
+ADD COLUMN IF NOT EXISTS readiness_weight NUMERIC NOT NULL DEFAULT 0 CHECK (readiness_weight >= 0),
+ADD COLUMN IF NOT EXISTS readiness_invert BOOLEAN NOT NULL DEFAULT false;
+
+-- Add comments to explain the fields
+COMMENT ON COLUMN public.custom_metrics.readiness_weight IS 'Weight of this rating metric in the composite readiness score. 0 means the metric is not used.';
+COMMENT ON COLUMN public.custom_metrics.readiness_invert IS 'True when a higher rating means lower readiness (e.g. soreness, stress).';
+
+-- Baseline lookups read each athlete's recent responses per metric
+CREATE INDEX IF NOT EXISTS idx_metric_responses_athlete_metric_date ON public.metric_responses(athlete_id, metric_id, date);
@@ -0,0 +1,174 @@
+-- Expected weekly training schedule per group, used to measure compliance
+-- against planned sessions instead of calendar days
+CREATE TABLE IF NOT EXISTS public.training_schedules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    group_id UUID REFERENCES public.athlete_groups(id) ON DELETE CASCADE, -- NULL is the manager's default schedule
+    am_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}', -- ISO weekdays (1 = Monday) with an AM session
+    pm_days SMALLINT[] NOT NULL DEFAULT '{}', -- ISO weekdays with a PM session
+    wellness_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5,6,7}', -- ISO weekdays with a wellness check-in
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (manager_id, group_id)
+);
+
+-- Planned rest days on top of the weekly pattern (holidays, travel, recovery)
+CREATE TABLE IF NOT EXISTS public.training_rest_days (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    schedule_id UUID NOT NULL REFERENCES public.training_schedules(id) ON DELETE CASCADE,
+    date DATE NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (schedule_id, date)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_training_schedules_manager_id ON public.training_schedules(manager_id);
+CREATE INDEX IF NOT EXISTS idx_training_rest_days_schedule_date ON public.training_rest_days(schedule_id, date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.training_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.training_rest_days ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage their training schedules" ON public.training_schedules
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+CREATE POLICY "Athletes can view their training schedules" ON public.training_schedules
+    FOR SELECT USING (
+        manager_id IN (
+            SELECT manager_id FROM public.profiles
+            WHERE id = auth.uid() AND role = 'athlete'
+        )
+    );
+
+CREATE POLICY "Managers can manage their rest days" ON public.training_rest_days
+    FOR ALL USING (
+        schedule_id IN (
+            SELECT id FROM public.training_schedules WHERE manager_id = auth.uid()
+        )
+    ) WITH CHECK (
+        schedule_id IN (
+            SELECT id FROM public.training_schedules WHERE manager_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Athletes can view their rest days" ON public.training_rest_days
+    FOR SELECT USING (
+        schedule_id IN (
+            SELECT s.id FROM public.training_schedules s
+            JOIN public.profiles p ON p.manager_id = s.manager_id
+            WHERE p.id = auth.uid() AND p.role = 'athlete'
+        )
+    );
+
+CREATE TRIGGER update_training_schedules_updated_at
+    BEFORE UPDATE ON public.training_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Compliance is now the share of expected sessions logged over the last 28
+-- days. An athlete's schedule is their group's, falling back to the manager's
+-- default; without any schedule every day expects one session of either kind.
+CREATE OR REPLACE FUNCTION public.get_team_training_loads(
+    p_manager_id UUID,
+    p_start_date DATE,
+    p_end_date DATE
+)
+RETURNS TABLE (
+    athlete_id UUID,
+    date DATE,
+    daily_load NUMERIC,
+    weekly_load NUMERIC,
+    chronic_load NUMERIC,
+    acwr NUMERIC,
+    compliance NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    WITH athletes AS (
+        SELECT a.id AS athlete_id, s.id AS schedule_id, s.am_days, s.pm_days
+        FROM public.profiles a
+        LEFT JOIN LATERAL (
+            SELECT ts.id, ts.am_days, ts.pm_days
+            FROM public.training_schedules ts
+            WHERE ts.manager_id = p_manager_id
+              AND (ts.group_id = a.group_id OR ts.group_id IS NULL)
+            ORDER BY ts.group_id NULLS LAST
+            LIMIT 1
+        ) s ON TRUE
+        WHERE a.manager_id = p_manager_id AND a.role = 'athlete'
+    ),
+    days AS (
+        -- Include 34 days before the range so the first day has a full chronic window
+        SELECT generate_series(p_start_date - 34, p_end_date, INTERVAL '1 day')::DATE AS date
+    ),
+    sessions AS (
+        SELECT
+            ts.athlete_id,
+            ts.date,
+            SUM(COALESCE(ts.unit_load, 0))::NUMERIC AS daily_load,
+            BOOL_OR(ts.session = 'AM') AS has_am,
+            BOOL_OR(ts.session = 'PM') AS has_pm
+        FROM public.training_sessions ts
+        JOIN athletes a ON a.athlete_id = ts.athlete_id
+        WHERE ts.date BETWEEN p_start_date - 34 AND p_end_date
+        GROUP BY ts.athlete_id, ts.date
+    ),
+    loads AS (
+        SELECT
+            a.athlete_id,
+            d.date,
+            COALESCE(s.daily_load, 0) AS daily_load,
+            CASE
+                WHEN a.schedule_id IS NULL THEN 1
+                WHEN r.id IS NOT NULL THEN 0
+                ELSE (EXTRACT(ISODOW FROM d.date)::SMALLINT = ANY (a.am_days))::INT
+                   + (EXTRACT(ISODOW FROM d.date)::SMALLINT = ANY (a.pm_days))::INT
+            END AS expected_sessions,
+            CASE
+                WHEN a.schedule_id IS NULL THEN (s.athlete_id IS NOT NULL)::INT
+                WHEN r.id IS NOT NULL THEN 0
+                ELSE (EXTRACT(ISODOW FROM d.date)::SMALLINT = ANY (a.am_days) AND COALESCE(s.has_am, FALSE))::INT
+                   + (EXTRACT(ISODOW FROM d.date)::SMALLINT = ANY (a.pm_days) AND COALESCE(s.has_pm, FALSE))::INT
+            END AS logged_sessions
+        FROM athletes a
+        CROSS JOIN days d
+        LEFT JOIN sessions s
+            ON s.athlete_id = a.athlete_id AND s.date = d.date
+        LEFT JOIN public.training_rest_days r
+            ON r.schedule_id = a.schedule_id AND r.date = d.date
+    ),
+    windowed AS (
+        SELECT
+            athlete_id,
+            date,
+            daily_load,
+            SUM(daily_load) OVER w7 AS weekly_load,
+            COALESCE(SUM(daily_load) OVER chronic, 0) / 4 AS chronic_load,
+            SUM(expected_sessions) OVER w28 AS expected_sessions,
+            SUM(logged_sessions) OVER w28 AS logged_sessions
+        FROM loads
+        WINDOW
+            w7 AS (PARTITION BY athlete_id ORDER BY date ROWS BETWEEN 6 PRECEDING AND CURRENT ROW),
+            chronic AS (PARTITION BY athlete_id ORDER BY date ROWS BETWEEN 34 PRECEDING AND 7 PRECEDING),
+            w28 AS (PARTITION BY athlete_id ORDER BY date ROWS BETWEEN 27 PRECEDING AND CURRENT ROW)
+    )
+    SELECT
+        athlete_id,
+        date,
+        daily_load,
+        weekly_load,
+        chronic_load,
+        CASE WHEN chronic_load > 0 THEN ROUND(weekly_load / chronic_load, 2) ELSE 0 END AS acwr,
+        CASE
+            WHEN expected_sessions > 0 THEN ROUND(logged_sessions * 100.0 / expected_sessions, 1)
+            ELSE 100
+        END AS compliance
+    FROM windowed
+    WHERE date BETWEEN p_start_date AND p_end_date
+    ORDER BY athlete_id, date;
+$$;
+
+COMMENT ON FUNCTION public.get_team_training_loads IS 'Daily, weekly, chronic, ACWR and schedule-based compliance figures for all athletes of a manager in a date range';
@@ -0,0 +1,13 @@
+-- Personal records suggested automatically from logged sets. Suggestions stay
+-- out of charts and leaderboards until the athlete or coach confirms them.
+ALTER TABLE public.personal_records
+ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'confirmed' CHECK (status IN ('suggested', 'confirmed')),
+ADD COLUMN IF NOT EXISTS source_record_id UUID REFERENCES public.exercise_records(id) ON DELETE SET NULL;
+
+-- Add comments to explain the fields
+COMMENT ON COLUMN public.personal_records.status IS 'suggested when created from a logged set and not yet confirmed, otherwise confirmed.';
+COMMENT ON COLUMN public.personal_records.source_record_id IS 'Exercise record whose heaviest set was suggested as a record.';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_personal_records_athlete_exercise_status ON public.personal_records(athlete_id, exercise, status);
+CREATE INDEX IF NOT EXISTS idx_exercise_records_athlete_exercise_date ON public.exercise_records(athlete_id, exercise_name, date);
@@ -0,0 +1,9 @@
+-- Sets, reps, load, rest and tempo for each exercise of a plan. Each array is
+-- in the same order as the matching plan_*_exercises array.
+ALTER TABLE public.training_programs
+ADD COLUMN IF NOT EXISTS plan_a_prescriptions JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS plan_b_prescriptions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Add comments to explain the fields
+COMMENT ON COLUMN public.training_programs.plan_a_prescriptions IS 'Prescription per Plan A exercise: {sets, reps, load_type (percent_1rm, rpe or kg), load_value, rest_seconds, tempo}. Null fields are left open.';
+COMMENT ON COLUMN public.training_programs.plan_b_prescriptions IS 'Prescription per Plan B exercise, same shape as plan_a_prescriptions.';
@@ -0,0 +1,161 @@
+-- Shared exercise library. Rows without a manager are built-in exercises every
+-- team sees; managers add their own on top. Programs, exercise records and
+-- personal records reference it so "Back Squat" and "Squat" share one history.
+CREATE TABLE IF NOT EXISTS public.exercises (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE, -- NULL is a built-in exercise
+    name VARCHAR(255) NOT NULL,
+    aliases TEXT[] NOT NULL DEFAULT '{}', -- other names matched to this exercise
+    category TEXT,
+    muscle_group TEXT,
+    unit_type TEXT NOT NULL DEFAULT 'kg' CHECK (unit_type IN ('kg', 'seconds', 'metres', 'reps')),
+    demo_video_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (manager_id, name)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_exercises_manager_id ON public.exercises(manager_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.exercises ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view built-in exercises" ON public.exercises
+    FOR SELECT USING (manager_id IS NULL AND auth.uid() IS NOT NULL);
+
+CREATE POLICY "Managers can manage their exercises" ON public.exercises
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+CREATE POLICY "Athletes can view their manager's exercises" ON public.exercises
+    FOR SELECT USING (
+        manager_id IN (
+            SELECT manager_id FROM public.profiles
+            WHERE id = auth.uid() AND role = 'athlete'
+        )
+    );
+
+CREATE TRIGGER update_exercises_updated_at
+    BEFORE UPDATE ON public.exercises
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Built-in lifts (the five previously hardcoded for personal records)
+INSERT INTO public.exercises (manager_id, name, aliases, category, muscle_group, unit_type) VALUES
+    (NULL, 'Bench Press', '{"Bench", "Flat Bench Press", "Barbell Bench Press"}', 'strength', 'Chest', 'kg'),
+    (NULL, 'Row', '{"Barbell Row", "Bent Over Row", "Bent-Over Row"}', 'strength', 'Back', 'kg'),
+    (NULL, 'Deadlift', '{"Conventional Deadlift", "Barbell Deadlift"}', 'strength', 'Posterior chain', 'kg'),
+    (NULL, 'Power Clean', '{"Clean", "Hang Power Clean"}', 'power', 'Full body', 'kg'),
+    (NULL, 'Squat', '{"Back Squat", "Barbell Squat", "Barbell Back Squat"}', 'strength', 'Legs', 'kg')
+ON CONFLICT DO NOTHING;
+
+-- Library exercise a name refers to, by name or alias and ignoring case.
+-- A manager's own exercises take precedence over built-in ones.
+CREATE OR REPLACE FUNCTION public.find_exercise_id(
+    p_manager_id UUID,
+    p_name TEXT
+)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+    SELECT e.id
+    FROM public.exercises e
+    WHERE (e.manager_id = p_manager_id OR e.manager_id IS NULL)
+      AND (
+          LOWER(e.name) = LOWER(TRIM(p_name))
+          OR LOWER(TRIM(p_name)) IN (SELECT LOWER(a) FROM unnest(e.aliases) a)
+      )
+    ORDER BY e.manager_id NULLS LAST
+    LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION public.find_exercise_id IS 'Exercise library entry matching a free-text exercise name for a manager, or NULL';
+
+-- References from programs, exercise records and personal records
+ALTER TABLE public.training_programs
+ADD COLUMN IF NOT EXISTS plan_a_exercise_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS plan_b_exercise_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.exercise_records
+ADD COLUMN IF NOT EXISTS exercise_id UUID REFERENCES public.exercises(id) ON DELETE SET NULL;
+
+ALTER TABLE public.personal_records
+ADD COLUMN IF NOT EXISTS exercise_id UUID REFERENCES public.exercises(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.training_programs.plan_a_exercise_ids IS 'Library exercise of each Plan A exercise, same order as plan_a_exercises.';
+COMMENT ON COLUMN public.training_programs.plan_b_exercise_ids IS 'Library exercise of each Plan B exercise, same order as plan_b_exercises.';
+
+CREATE INDEX IF NOT EXISTS idx_exercise_records_exercise_id ON public.exercise_records(exercise_id);
+CREATE INDEX IF NOT EXISTS idx_personal_records_exercise_id ON public.personal_records(exercise_id);
+
+-- Map existing free-text names. Names that match nothing become exercises in
+-- their manager's library, one per name regardless of case.
+INSERT INTO public.exercises (manager_id, name)
+SELECT DISTINCT ON (names.manager_id, LOWER(names.name)) names.manager_id, names.name
+FROM (
+    SELECT tp.manager_id, TRIM(e.name) AS name
+    FROM public.training_programs tp,
+        unnest(tp.plan_a_exercises || tp.plan_b_exercises) AS e(name)
+    UNION
+    SELECT tp.manager_id, TRIM(er.exercise_name)
+    FROM public.exercise_records er
+    JOIN public.training_programs tp ON tp.id = er.program_id
+    UNION
+    SELECT p.manager_id, TRIM(pr.exercise)
+    FROM public.personal_records pr
+    JOIN public.profiles p ON p.id = pr.athlete_id
+    WHERE p.manager_id IS NOT NULL
+) names
+WHERE names.name <> ''
+  AND public.find_exercise_id(names.manager_id, names.name) IS NULL
+ORDER BY names.manager_id, LOWER(names.name), names.name
+ON CONFLICT DO NOTHING;
+
+UPDATE public.training_programs tp
+SET plan_a_exercise_ids = ARRAY(
+        SELECT public.find_exercise_id(tp.manager_id, e.name)
+        FROM unnest(tp.plan_a_exercises) WITH ORDINALITY AS e(name, position)
+        ORDER BY e.position
+    ),
+    plan_b_exercise_ids = ARRAY(
+        SELECT public.find_exercise_id(tp.manager_id, e.name)
+        FROM unnest(tp.plan_b_exercises) WITH ORDINALITY AS e(name, position)
+        ORDER BY e.position
+    );
+
+UPDATE public.exercise_records er
+SET exercise_id = public.find_exercise_id(tp.manager_id, er.exercise_name)
+FROM public.training_programs tp
+WHERE tp.id = er.program_id AND er.exercise_id IS NULL;
+
+UPDATE public.personal_records pr
+SET exercise_id = public.find_exercise_id(p.manager_id, pr.exercise)
+FROM public.profiles p
+WHERE p.id = pr.athlete_id AND pr.exercise_id IS NULL;
+
+-- Store canonical names everywhere so name-based views line up too
+UPDATE public.training_programs tp
+SET plan_a_exercises = ARRAY(
+        SELECT COALESCE(ex.name, e.name)
+        FROM unnest(tp.plan_a_exercises, tp.plan_a_exercise_ids) WITH ORDINALITY AS e(name, exercise_id, position)
+        LEFT JOIN public.exercises ex ON ex.id = e.exercise_id
+        ORDER BY e.position
+    ),
+    plan_b_exercises = ARRAY(
+        SELECT COALESCE(ex.name, e.name)
+        FROM unnest(tp.plan_b_exercises, tp.plan_b_exercise_ids) WITH ORDINALITY AS e(name, exercise_id, position)
+        LEFT JOIN public.exercises ex ON ex.id = e.exercise_id
+        ORDER BY e.position
+    );
+
+UPDATE public.exercise_records er
+SET exercise_name = ex.name
+FROM public.exercises ex
+WHERE ex.id = er.exercise_id AND er.exercise_name <> ex.name;
+
+UPDATE public.personal_records pr
+SET exercise = ex.name
+FROM public.exercises ex
+WHERE ex.id = pr.exercise_id AND pr.exercise <> ex.name;
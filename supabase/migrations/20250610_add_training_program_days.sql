@@ -0,0 +1,78 @@
+-- Training programs with any number of named days and multi-week templates.
+-- Each day in `days` holds its exercises in order:
+--   { "id", "name", "weekday", "exercises": [{ "exercise", "exercise_id",
+--     "prescription", "week_prescriptions" }] }
+-- weekday is the ISO weekday (1 = Monday) the day is scheduled on, or null.
+-- week_prescriptions[n] overrides the prescription in week n + 1 of the
+-- template; null keeps the base prescription.
+ALTER TABLE public.training_programs
+ADD COLUMN IF NOT EXISTS days JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN IF NOT EXISTS week_count INTEGER NOT NULL DEFAULT 1 CHECK (week_count BETWEEN 1 AND 52),
+ADD COLUMN IF NOT EXISTS start_date DATE;
+
+COMMENT ON COLUMN public.training_programs.days IS 'Training days of the program, in order. Replaces plan_a_* and plan_b_*.';
+COMMENT ON COLUMN public.training_programs.week_count IS 'Length of the template in weeks. The template repeats after the last week.';
+COMMENT ON COLUMN public.training_programs.start_date IS 'First day of week 1, used to resolve the current week and today''s workout.';
+
+-- Plan A and Plan B become days "A" and "B", so selected_plan on existing
+-- exercise records still points at the right day
+UPDATE public.training_programs tp
+SET days = (
+    SELECT COALESCE(jsonb_agg(plans.day ORDER BY plans.position), '[]'::jsonb)
+    FROM (
+        SELECT 1 AS position, jsonb_build_object(
+            'id', 'A',
+            'name', 'Plan A',
+            'weekday', NULL,
+            'exercises', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object(
+                    'exercise', e.name,
+                    'exercise_id', tp.plan_a_exercise_ids[e.position],
+                    'prescription', COALESCE(
+                        tp.plan_a_prescriptions -> (e.position::int - 1),
+                        '{"sets": null, "reps": null, "load_type": null, "load_value": null, "rest_seconds": null, "tempo": null}'::jsonb
+                    ),
+                    'week_prescriptions', '[]'::jsonb
+                ) ORDER BY e.position)
+                FROM unnest(tp.plan_a_exercises) WITH ORDINALITY AS e(name, position)
+            ), '[]'::jsonb)
+        ) AS day
+        WHERE cardinality(tp.plan_a_exercises) > 0
+        UNION ALL
+        SELECT 2, jsonb_build_object(
+            'id', 'B',
+            'name', 'Plan B',
+            'weekday', NULL,
+            'exercises', COALESCE((
+                SELECT jsonb_agg(jsonb_build_object(
+                    'exercise', e.name,
+                    'exercise_id', tp.plan_b_exercise_ids[e.position],
+                    'prescription', COALESCE(
+                        tp.plan_b_prescriptions -> (e.position::int - 1),
+                        '{"sets": null, "reps": null, "load_type": null, "load_value": null, "rest_seconds": null, "tempo": null}'::jsonb
+                    ),
+                    'week_prescriptions', '[]'::jsonb
+                ) ORDER BY e.position)
+                FROM unnest(tp.plan_b_exercises) WITH ORDINALITY AS e(name, position)
+            ), '[]'::jsonb)
+        )
+        WHERE cardinality(tp.plan_b_exercises) > 0
+    ) plans
+)
+WHERE tp.days = '[]'::jsonb;
+
+COMMENT ON COLUMN public.training_programs.plan_a_exercises IS 'Deprecated: migrated to days.';
+COMMENT ON COLUMN public.training_programs.plan_b_exercises IS 'Deprecated: migrated to days.';
+
+-- selected_plan now holds the id of the program day that was trained
+ALTER TABLE public.exercise_records
+DROP CONSTRAINT IF EXISTS exercise_records_selected_plan_check;
+
+ALTER TABLE public.exercise_records
+ADD COLUMN IF NOT EXISTS week_number INTEGER CHECK (week_number >= 1);
+
+COMMENT ON COLUMN public.exercise_records.selected_plan IS 'Id of the program day trained ("A"/"B" for days migrated from Plan A/B), or none.';
+COMMENT ON COLUMN public.exercise_records.week_number IS 'Template week the session belonged to, when the program has a start date.';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_exercise_records_program_day ON public.exercise_records(program_id, selected_plan);
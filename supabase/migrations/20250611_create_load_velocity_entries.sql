@@ -0,0 +1,61 @@
+-- Load-velocity measurements, one row per load lifted. Replaces the
+-- load_velocity_power.entries JSON array (four rows per date, no exercise).
+CREATE TABLE IF NOT EXISTS public.load_velocity_entries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    athlete_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    exercise_id UUID REFERENCES public.exercises(id) ON DELETE SET NULL,
+    exercise_name VARCHAR(255) NOT NULL,
+    date DATE NOT NULL,
+    load NUMERIC NOT NULL CHECK (load >= 0), -- kg
+    velocity NUMERIC CHECK (velocity >= 0), -- mean velocity, m/s
+    power NUMERIC CHECK (power >= 0), -- W
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (velocity IS NOT NULL OR power IS NOT NULL)
+);
+
+-- Minimum velocity threshold (velocity at 1RM) used to estimate the 1RM from a
+-- profile. NULL falls back to the app default.
+ALTER TABLE public.exercises
+ADD COLUMN IF NOT EXISTS min_velocity_threshold NUMERIC CHECK (min_velocity_threshold > 0);
+
+COMMENT ON COLUMN public.exercises.min_velocity_threshold IS 'Mean velocity (m/s) at 1RM for load-velocity profiles, or NULL for the default.';
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_load_velocity_entries_athlete_exercise_date ON public.load_velocity_entries(athlete_id, exercise_name, date);
+CREATE INDEX IF NOT EXISTS idx_load_velocity_entries_exercise_id ON public.load_velocity_entries(exercise_id);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.load_velocity_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can manage their load-velocity entries" ON public.load_velocity_entries
+    FOR ALL USING (auth.uid() = athlete_id) WITH CHECK (auth.uid() = athlete_id);
+
+CREATE POLICY "Managers can manage their athletes' load-velocity entries" ON public.load_velocity_entries
+    FOR ALL USING (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    ) WITH CHECK (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    );
+
+-- Move the JSON entries over. They were never tied to an exercise, so they
+-- are kept under "Unspecified" for the athlete to compare against.
+INSERT INTO public.load_velocity_entries (athlete_id, exercise_name, date, load, velocity, power)
+SELECT
+    lvp.athlete_id,
+    'Unspecified',
+    (entry->>'date')::DATE,
+    (entry->'loads'->>(i - 1))::NUMERIC,
+    (entry->'velocities'->>(i - 1))::NUMERIC,
+    (entry->'powers'->>(i - 1))::NUMERIC
+FROM public.load_velocity_power lvp,
+    jsonb_array_elements(lvp.entries::JSONB) AS entry,
+    generate_series(1, jsonb_array_length(entry->'loads')) AS i
+WHERE entry->>'date' IS NOT NULL
+  AND entry->'loads'->>(i - 1) IS NOT NULL
+  AND (entry->'velocities'->>(i - 1) IS NOT NULL OR entry->'powers'->>(i - 1) IS NOT NULL);
+
+COMMENT ON TABLE public.load_velocity_power IS 'Deprecated: migrated to load_velocity_entries.';
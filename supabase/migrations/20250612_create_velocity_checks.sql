@@ -0,0 +1,35 @@
+-- Daily warm-up velocity at a standard load, compared with the athlete's own
+-- recent checks as a neuromuscular readiness indicator. One check per day.
+CREATE TABLE IF NOT EXISTS public.velocity_checks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    athlete_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    exercise_id UUID REFERENCES public.exercises(id) ON DELETE SET NULL,
+    exercise_name VARCHAR(255) NOT NULL,
+    date DATE NOT NULL,
+    load NUMERIC NOT NULL CHECK (load > 0), -- kg
+    velocity NUMERIC NOT NULL CHECK (velocity > 0), -- mean velocity, m/s
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (athlete_id, date)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_velocity_checks_athlete_exercise_date ON public.velocity_checks(athlete_id, exercise_name, date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.velocity_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can manage their velocity checks" ON public.velocity_checks
+    FOR ALL USING (auth.uid() = athlete_id) WITH CHECK (auth.uid() = athlete_id);
+
+CREATE POLICY "Managers can view their athletes' velocity checks" ON public.velocity_checks
+    FOR SELECT USING (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    );
+
+CREATE TRIGGER update_velocity_checks_updated_at
+    BEFORE UPDATE ON public.velocity_checks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,79 @@
+-- Progression rule of a training program, used to suggest each exercise's
+-- load for the next session from the last one:
+--   { "type": "linear" | "double" | "percent_e1rm", "increment_kg",
+--     "rep_range", "percent_e1rm" }
+-- Null leaves the program without suggestions.
+ALTER TABLE public.training_programs
+ADD COLUMN IF NOT EXISTS progression_rule JSONB;
+
+COMMENT ON COLUMN public.training_programs.progression_rule IS 'Rule used to suggest the next session''s load per exercise, or null for no suggestions.';
+
+-- Whether the athlete accepted or overrode a suggested load. One decision per
+-- exercise and day; overrides are listed for the coach to review.
+CREATE TABLE IF NOT EXISTS public.progression_decisions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    athlete_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    program_id UUID REFERENCES public.training_programs(id) ON DELETE SET NULL,
+    exercise_id UUID REFERENCES public.exercises(id) ON DELETE SET NULL,
+    exercise_name VARCHAR(255) NOT NULL,
+    date DATE NOT NULL,
+    rule VARCHAR(20) NOT NULL CHECK (rule IN ('linear', 'double', 'percent_e1rm')),
+    suggested_weight NUMERIC NOT NULL, -- kg
+    suggested_reps INTEGER,
+    chosen_weight NUMERIC NOT NULL, -- kg
+    status VARCHAR(20) NOT NULL CHECK (status IN ('accepted', 'overridden')),
+    reason TEXT,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (athlete_id, exercise_name, date)
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_progression_decisions_athlete_date ON public.progression_decisions(athlete_id, date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.progression_decisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can manage their progression decisions" ON public.progression_decisions
+    FOR ALL USING (auth.uid() = athlete_id) WITH CHECK (auth.uid() = athlete_id);
+
+CREATE POLICY "Managers can view their athletes' progression decisions" ON public.progression_decisions
+    FOR SELECT USING (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    );
+
+-- Managers mark overrides as reviewed
+CREATE POLICY "Managers can update their athletes' progression decisions" ON public.progression_decisions
+    FOR UPDATE USING (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    );
+
+-- Only the coach marks decisions reviewed. A decision the athlete saves or
+-- changes goes back to the coach, so athletes cannot hide their overrides.
+CREATE OR REPLACE FUNCTION public.reset_progression_decision_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.uid() = NEW.athlete_id THEN
+        NEW.reviewed_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_progression_decision_review
+    BEFORE INSERT OR UPDATE ON public.progression_decisions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.reset_progression_decision_review();
+
+CREATE TRIGGER update_progression_decisions_updated_at
+    BEFORE UPDATE ON public.progression_decisions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
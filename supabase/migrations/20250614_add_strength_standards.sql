@@ -0,0 +1,50 @@
+-- Body-weight-relative strength. Personal records are scored against the
+-- body weight logged closest to the record date: kg per kg body weight,
+-- DOTS / Wilks / IPF GL points for the powerlifts and a strength-standard
+-- tier per exercise and sex.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS sex TEXT CHECK (sex IN ('male', 'female'));
+
+COMMENT ON COLUMN public.profiles.sex IS 'Used for points formulas and strength standards; NULL leaves them out.';
+
+ALTER TABLE public.exercises
+ADD COLUMN IF NOT EXISTS powerlift TEXT CHECK (powerlift IN ('squat', 'bench', 'deadlift'));
+
+COMMENT ON COLUMN public.exercises.powerlift IS 'Powerlift the exercise counts as for DOTS, Wilks and IPF GL points, or NULL.';
+
+UPDATE public.exercises SET powerlift = 'squat' WHERE manager_id IS NULL AND name = 'Squat';
+UPDATE public.exercises SET powerlift = 'bench' WHERE manager_id IS NULL AND name = 'Bench Press';
+UPDATE public.exercises SET powerlift = 'deadlift' WHERE manager_id IS NULL AND name = 'Deadlift';
+
+-- A manager's tiers for an exercise and sex, as multiples of body weight:
+--   [{ "name": "Beginner", "ratio": 0.75 }, ...]
+-- Powerlifts without a standard fall back to built-in tiers in the app.
+CREATE TABLE IF NOT EXISTS public.strength_standards (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    exercise_id UUID NOT NULL REFERENCES public.exercises(id) ON DELETE CASCADE,
+    sex TEXT NOT NULL CHECK (sex IN ('male', 'female')),
+    tiers JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (manager_id, exercise_id, sex)
+);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.strength_standards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage their strength standards" ON public.strength_standards
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+CREATE POLICY "Athletes can view their manager's strength standards" ON public.strength_standards
+    FOR SELECT USING (
+        manager_id IN (
+            SELECT manager_id FROM public.profiles
+            WHERE id = auth.uid() AND role = 'athlete'
+        )
+    );
+
+CREATE TRIGGER update_strength_standards_updated_at
+    BEFORE UPDATE ON public.strength_standards
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
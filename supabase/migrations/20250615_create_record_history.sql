@@ -0,0 +1,141 @@
+-- Append-only history of exercise records and personal records. Every
+-- insert, update and delete is logged by a trigger with the row before and
+-- after the change and the user who made it, so coaches can see who changed
+-- what and restore an earlier version.
+CREATE TABLE IF NOT EXISTS public.record_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    table_name TEXT NOT NULL CHECK (table_name IN ('exercise_records', 'personal_records')),
+    record_id UUID NOT NULL,
+    athlete_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    operation TEXT NOT NULL CHECK (operation IN ('insert', 'update', 'delete')),
+    old_data JSONB, -- NULL for inserts
+    new_data JSONB, -- NULL for deletes
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_record_history_athlete_changed_at ON public.record_history(athlete_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_record_history_record_id ON public.record_history(record_id);
+
+-- Enable RLS (Row Level Security). There are no insert, update or delete
+-- policies: rows are only written by the trigger below and never changed.
+ALTER TABLE public.record_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Athletes can view their record history" ON public.record_history
+    FOR SELECT USING (auth.uid() = athlete_id);
+
+CREATE POLICY "Managers can view their athletes' record history" ON public.record_history
+    FOR SELECT USING (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    );
+
+CREATE OR REPLACE FUNCTION public.log_record_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        INSERT INTO public.record_history (table_name, record_id, athlete_id, operation, old_data, changed_by)
+        VALUES (TG_TABLE_NAME, OLD.id, OLD.athlete_id, 'delete', to_jsonb(OLD), auth.uid());
+        RETURN OLD;
+    END IF;
+
+    INSERT INTO public.record_history (table_name, record_id, athlete_id, operation, old_data, new_data, changed_by)
+    VALUES (
+        TG_TABLE_NAME,
+        NEW.id,
+        NEW.athlete_id,
+        LOWER(TG_OP),
+        CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END,
+        to_jsonb(NEW),
+        auth.uid()
+    );
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_exercise_records_history
+    AFTER INSERT OR DELETE ON public.exercise_records
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_record_history();
+
+CREATE TRIGGER log_exercise_records_history_update
+    AFTER UPDATE ON public.exercise_records
+    FOR EACH ROW
+    WHEN (OLD.* IS DISTINCT FROM NEW.*)
+    EXECUTE FUNCTION public.log_record_history();
+
+CREATE TRIGGER log_personal_records_history
+    AFTER INSERT OR DELETE ON public.personal_records
+    FOR EACH ROW
+    EXECUTE FUNCTION public.log_record_history();
+
+CREATE TRIGGER log_personal_records_history_update
+    AFTER UPDATE ON public.personal_records
+    FOR EACH ROW
+    WHEN (OLD.* IS DISTINCT FROM NEW.*)
+    EXECUTE FUNCTION public.log_record_history();
+
+-- Puts a record back as it was before a logged change: an update is undone
+-- and a deleted record is recreated. The restore itself is logged like any
+-- other change. Only the athlete and their manager may restore.
+CREATE OR REPLACE FUNCTION public.restore_record_version(p_history_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    h public.record_history%ROWTYPE;
+    v_columns TEXT;
+    v_values TEXT;
+    v_exists BOOLEAN;
+BEGIN
+    SELECT * INTO h FROM public.record_history WHERE id = p_history_id;
+    IF NOT FOUND OR h.old_data IS NULL THEN
+        RAISE EXCEPTION 'No earlier version to restore';
+    END IF;
+
+    IF h.athlete_id <> auth.uid() AND NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = h.athlete_id AND manager_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Not allowed to restore this record';
+    END IF;
+
+    -- Columns of the snapshot that still exist on the table
+    SELECT string_agg(format('%I', c.column_name), ', '),
+           string_agg(format('r.%I', c.column_name), ', ')
+    INTO v_columns, v_values
+    FROM information_schema.columns c
+    WHERE c.table_schema = 'public'
+      AND c.table_name = h.table_name
+      AND c.column_name <> 'id'
+      AND h.old_data ? c.column_name;
+
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1)', h.table_name)
+    INTO v_exists
+    USING h.record_id;
+
+    IF v_exists THEN
+        EXECUTE format(
+            'UPDATE public.%I t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) r) WHERE t.id = $2',
+            h.table_name, v_columns, v_values, h.table_name
+        )
+        USING h.old_data, h.record_id;
+    ELSE
+        EXECUTE format(
+            'INSERT INTO public.%I (id, %s) SELECT $2, %s FROM jsonb_populate_record(NULL::public.%I, $1) r',
+            h.table_name, v_columns, v_values, h.table_name
+        )
+        USING h.old_data, h.record_id;
+    END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION public.restore_record_version IS 'Restores an exercise or personal record to its state before the given history entry';
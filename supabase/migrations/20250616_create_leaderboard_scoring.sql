@@ -0,0 +1,39 @@
+-- How leaderboard points are awarded. A row without a group is the
+-- manager's default; a group row overrides it for that group.
+--   podium       3/2/1 points for the top three per exercise
+--   sliding      points for every rank, one less per place
+--   relative     ranked by kg per kg body weight, points for every rank
+--   improvement  percentage gained since baseline_date
+-- exercise_weights multiplies an exercise's points: { "Squat": 2 }
+CREATE TABLE IF NOT EXISTS public.leaderboard_scoring (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    group_id UUID REFERENCES public.athlete_groups(id) ON DELETE CASCADE,
+    scheme TEXT NOT NULL DEFAULT 'podium'
+        CHECK (scheme IN ('podium', 'sliding', 'relative', 'improvement')),
+    baseline_date DATE,
+    exercise_weights JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE NULLS NOT DISTINCT (manager_id, group_id),
+    CHECK (scheme <> 'improvement' OR baseline_date IS NOT NULL)
+);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.leaderboard_scoring ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage their leaderboard scoring" ON public.leaderboard_scoring
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+CREATE POLICY "Athletes can view their manager's leaderboard scoring" ON public.leaderboard_scoring
+    FOR SELECT USING (
+        manager_id IN (
+            SELECT manager_id FROM public.profiles
+            WHERE id = auth.uid() AND role = 'athlete'
+        )
+    );
+
+CREATE TRIGGER update_leaderboard_scoring_updated_at
+    BEFORE UPDATE ON public.leaderboard_scoring
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
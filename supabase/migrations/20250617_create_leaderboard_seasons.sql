@@ -0,0 +1,62 @@
+-- Seasons or competition windows of a manager's leaderboard, for all groups
+-- or one group. Rankings in a season only count records dated inside it.
+-- When the season is over its results are frozen into snapshot, so later
+-- records do not change them:
+--   { "scoring": {...}, "standings": [...], "bests": [...] }
+CREATE TABLE IF NOT EXISTS public.leaderboard_seasons (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    manager_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    group_id UUID REFERENCES public.athlete_groups(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    snapshot JSONB,
+    archived_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_seasons_manager ON public.leaderboard_seasons(manager_id, start_date);
+
+-- Enable RLS (Row Level Security)
+ALTER TABLE public.leaderboard_seasons ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Managers can manage their leaderboard seasons" ON public.leaderboard_seasons
+    FOR ALL USING (auth.uid() = manager_id) WITH CHECK (auth.uid() = manager_id);
+
+CREATE POLICY "Athletes can view their manager's leaderboard seasons" ON public.leaderboard_seasons
+    FOR SELECT USING (
+        manager_id IN (
+            SELECT manager_id FROM public.profiles
+            WHERE id = auth.uid() AND role = 'athlete'
+        )
+    );
+
+CREATE TRIGGER update_leaderboard_seasons_updated_at
+    BEFORE UPDATE ON public.leaderboard_seasons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- A frozen season keeps the window its snapshot was taken over
+CREATE OR REPLACE FUNCTION public.lock_frozen_leaderboard_season()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.snapshot IS NOT NULL AND (
+        NEW.start_date IS DISTINCT FROM OLD.start_date
+        OR NEW.end_date IS DISTINCT FROM OLD.end_date
+        OR NEW.group_id IS DISTINCT FROM OLD.group_id
+    ) THEN
+        RAISE EXCEPTION 'The results of this season are frozen';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_frozen_leaderboard_season
+    BEFORE UPDATE ON public.leaderboard_seasons
+    FOR EACH ROW
+    EXECUTE FUNCTION public.lock_frozen_leaderboard_season();
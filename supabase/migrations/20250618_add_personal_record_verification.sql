@@ -0,0 +1,82 @@
+-- Coach verification of personal records. Records an athlete adds or edits
+-- wait for their coach's approval before counting on the leaderboards; a
+-- rejection carries the coach's comment back to the athlete. Records from
+-- before verification existed have been counting already and stay approved.
+ALTER TABLE public.personal_records
+ADD COLUMN IF NOT EXISTS verification_status TEXT NOT NULL DEFAULT 'approved' CHECK (verification_status IN ('pending', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS verification_comment TEXT,
+ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.personal_records ALTER COLUMN verification_status SET DEFAULT 'pending';
+
+-- Add comments to explain the fields
+COMMENT ON COLUMN public.personal_records.verification_status IS 'pending until the coach approves or rejects the record; only approved records count on leaderboards.';
+COMMENT ON COLUMN public.personal_records.verification_comment IS 'Coach''s reason when rejecting the record.';
+
+CREATE INDEX IF NOT EXISTS idx_personal_records_verification_status ON public.personal_records(verification_status);
+
+DROP POLICY IF EXISTS "Managers can review their athletes' personal records" ON public.personal_records;
+CREATE POLICY "Managers can review their athletes' personal records" ON public.personal_records
+    FOR UPDATE USING (
+        athlete_id IN (
+            SELECT id FROM public.profiles WHERE manager_id = auth.uid()
+        )
+    );
+
+-- Keeps verification in the coach's hands. Records the coach adds are
+-- approved straight away. Athletes cannot set the verification fields, and
+-- changing the athlete, lift (its name or library exercise), weight, date or
+-- video sends a record back for review.
+CREATE OR REPLACE FUNCTION public.verify_personal_record()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    -- Service role and SQL run without a user and are trusted
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE id = NEW.athlete_id AND manager_id = auth.uid()
+    ) THEN
+        IF TG_OP = 'INSERT' THEN
+            NEW.verification_status := 'approved';
+        END IF;
+        IF TG_OP = 'INSERT' OR NEW.verification_status IS DISTINCT FROM OLD.verification_status THEN
+            NEW.verified_by := auth.uid();
+            NEW.verified_at := NOW();
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND (
+        NEW.athlete_id IS NOT DISTINCT FROM OLD.athlete_id
+        AND NEW.exercise IS NOT DISTINCT FROM OLD.exercise
+        AND NEW.exercise_id IS NOT DISTINCT FROM OLD.exercise_id
+        AND NEW.weight IS NOT DISTINCT FROM OLD.weight
+        AND NEW.record_date IS NOT DISTINCT FROM OLD.record_date
+        AND NEW.video_url IS NOT DISTINCT FROM OLD.video_url
+    ) THEN
+        NEW.verification_status := OLD.verification_status;
+        NEW.verification_comment := OLD.verification_comment;
+        NEW.verified_by := OLD.verified_by;
+        NEW.verified_at := OLD.verified_at;
+        RETURN NEW;
+    END IF;
+
+    NEW.verification_status := 'pending';
+    NEW.verification_comment := NULL;
+    NEW.verified_by := NULL;
+    NEW.verified_at := NULL;
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER verify_personal_record
+    BEFORE INSERT OR UPDATE ON public.personal_records
+    FOR EACH ROW
+    EXECUTE FUNCTION public.verify_personal_record();
@@ -0,0 +1,85 @@
+-- Lift videos become private. Files live in the athlete's folder
+-- (<athlete_id>/<timestamp>.<ext>, with a .jpg thumbnail of the same name)
+-- and are served through short-lived signed URLs to the athlete, their
+-- coach and their teammates.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'personal-records-videos',
+    'personal-records-videos',
+    false,
+    104857600, -- 100 MB
+    ARRAY['video/mp4', 'video/quicktime', 'video/webm', 'image/jpeg']
+)
+ON CONFLICT (id) DO UPDATE SET
+    public = false,
+    file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+DROP POLICY IF EXISTS "Athletes and managers can upload lift videos" ON storage.objects;
+CREATE POLICY "Athletes and managers can upload lift videos" ON storage.objects
+    FOR INSERT WITH CHECK (
+        bucket_id = 'personal-records-videos' AND (
+            (storage.foldername(name))[1] = auth.uid()::text
+            OR (storage.foldername(name))[1] IN (
+                SELECT id::text FROM public.profiles WHERE manager_id = auth.uid()
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Athletes and managers can delete lift videos" ON storage.objects;
+CREATE POLICY "Athletes and managers can delete lift videos" ON storage.objects
+    FOR DELETE USING (
+        bucket_id = 'personal-records-videos' AND (
+            (storage.foldername(name))[1] = auth.uid()::text
+            OR (storage.foldername(name))[1] IN (
+                SELECT id::text FROM public.profiles WHERE manager_id = auth.uid()
+            )
+        )
+    );
+
+DROP POLICY IF EXISTS "Teams can view lift videos" ON storage.objects;
+CREATE POLICY "Teams can view lift videos" ON storage.objects
+    FOR SELECT USING (
+        bucket_id = 'personal-records-videos' AND (
+            (storage.foldername(name))[1] = auth.uid()::text
+            OR (storage.foldername(name))[1] IN (
+                SELECT id::text FROM public.profiles WHERE manager_id = auth.uid()
+            )
+            OR (storage.foldername(name))[1] IN (
+                SELECT teammate.id::text
+                FROM public.profiles teammate
+                JOIN public.profiles me ON me.manager_id = teammate.manager_id
+                WHERE me.id = auth.uid()
+            )
+        )
+    );
+
+COMMENT ON COLUMN public.personal_records.video_url IS 'Path of the video in the personal-records-videos bucket, or an external https URL.';
+
+-- Public URLs stop working with the bucket private; keep the path only.
+-- History is rewritten the same way so restored versions keep their video.
+ALTER TABLE public.personal_records DISABLE TRIGGER log_personal_records_history_update;
+
+UPDATE public.personal_records
+SET video_url = split_part(video_url, '/object/public/personal-records-videos/', 2)
+WHERE video_url LIKE '%/object/public/personal-records-videos/%';
+
+ALTER TABLE public.personal_records ENABLE TRIGGER log_personal_records_history_update;
+
+UPDATE public.record_history
+SET old_data = jsonb_set(
+    old_data,
+    '{video_url}',
+    to_jsonb(split_part(old_data->>'video_url', '/object/public/personal-records-videos/', 2))
+)
+WHERE table_name = 'personal_records'
+    AND old_data->>'video_url' LIKE '%/object/public/personal-records-videos/%';
+
+UPDATE public.record_history
+SET new_data = jsonb_set(
+    new_data,
+    '{video_url}',
+    to_jsonb(split_part(new_data->>'video_url', '/object/public/personal-records-videos/', 2))
+)
+WHERE table_name = 'personal_records'
+    AND new_data->>'video_url' LIKE '%/object/public/personal-records-videos/%';